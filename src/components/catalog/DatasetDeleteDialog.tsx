@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, AlertTriangle, Link2, Map as MapIcon, Trash2, X } from 'lucide-react';
+import { DatasetMetadata, DatasetReference } from '../../types';
+import { TRASH_RETENTION_DAYS, fetchDatasetReferences, trashDataset } from '../../lib/supabase';
+
+interface DatasetDeleteDialogProps {
+  dataset: DatasetMetadata;
+  deletedBy: string;
+  onDeleted: () => void;
+  onClose: () => void;
+}
+
+const REFERENCE_LABELS: Record<DatasetReference['kind'], string> = {
+  map_layer: 'Cartes enregistrées',
+  shared_link: 'Liens de partage',
+};
+
+const REFERENCE_ICONS: Record<DatasetReference['kind'], typeof Link2> = {
+  map_layer: MapIcon,
+  shared_link: Link2,
+};
+
+// Confirmation de mise à la corbeille : liste ce qui pointe vers le jeu
+const DatasetDeleteDialog = ({ dataset, deletedBy, onDeleted, onClose }: DatasetDeleteDialogProps) => {
+  const [references, setReferences] = useState<DatasetReference[] | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDatasetReferences(dataset.id)
+      .then(setReferences)
+      .catch(err => {
+        setReferences([]);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+  }, [dataset.id]);
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    setError(null);
+    try {
+      await trashDataset(dataset.id, deletedBy);
+      onDeleted();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setIsDeleting(false);
+    }
+  };
+
+  const kinds = Array.from(new Set((references || []).map(r => r.kind)));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-medium">Supprimer — {dataset.name}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500" disabled={isDeleting}>
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-700">
+            Le jeu de données et toutes ses versions seront placés dans la corbeille. Il pourra être restauré
+            pendant {TRASH_RETENTION_DAYS} jours, puis son contenu sera définitivement effacé.
+          </p>
+
+          {references === null ? (
+            <div className="text-sm text-gray-500 animate-pulse">Recherche des références...</div>
+          ) : references.length === 0 ? (
+            <div className="text-sm text-gray-500">Aucune couche de carte ni lien de partage ne référence ce jeu.</div>
+          ) : (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md space-y-2">
+              <div className="flex items-center text-sm font-medium text-yellow-800">
+                <AlertTriangle size={16} className="mr-2 flex-shrink-0" />
+                {references.length} élément(s) référencent ce jeu et ne fonctionneront plus :
+              </div>
+              {kinds.map(kind => {
+                const Icon = REFERENCE_ICONS[kind];
+                return (
+                  <div key={kind}>
+                    <div className="text-xs font-medium text-yellow-800 uppercase tracking-wider">{REFERENCE_LABELS[kind]}</div>
+                    <ul className="mt-1 space-y-1 max-h-40 overflow-y-auto">
+                      {references.filter(r => r.kind === kind).map((reference, index) => (
+                        <li key={index} className="flex items-center text-sm text-yellow-900">
+                          <Icon size={14} className="mr-1.5 flex-shrink-0" />
+                          <span className="truncate">{reference.label}</span>
+                          <span className="ml-2 text-xs text-yellow-700 whitespace-nowrap">
+                            {[reference.createdBy, new Date(reference.createdAt).toLocaleDateString('fr-FR')].filter(Boolean).join(', ')}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center p-3 bg-red-50 rounded-md">
+              <AlertCircle size={16} className="text-red-500 mr-2" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-800"
+              disabled={isDeleting}
+            >
+              Annuler
+            </button>
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+              disabled={isDeleting || references === null}
+            >
+              {isDeleting ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              ) : (
+                <Trash2 size={16} className="mr-2" />
+              )}
+              Mettre à la corbeille
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetDeleteDialog;
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle, Download, X } from 'lucide-react';
+import type { FeatureCollection } from 'geojson';
+import { EXPORT_CRS, EXPORT_FORMATS, ExportFormat, exportFeatureCollection, formatSupportsCrs } from '../../lib/export';
+
+interface DatasetExportDialogProps {
+  datasetName: string;
+  loadCollection: () => Promise<FeatureCollection | null>;
+  onClose: () => void;
+}
+
+// Export d'un jeu de données du catalogue dans le format et le système choisis
+const DatasetExportDialog = ({ datasetName, loadCollection, onClose }: DatasetExportDialogProps) => {
+  const [format, setFormat] = useState<ExportFormat>('geojson');
+  const [crs, setCrs] = useState('EPSG:4326');
+  const [isExporting, setIsExporting] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setStatus(null);
+    setError(null);
+    try {
+      const collection = await loadCollection();
+      if (!collection) throw new Error('Export non disponible pour ce format');
+      const result = await exportFeatureCollection(collection, { format, crs, name: datasetName });
+      const url = URL.createObjectURL(result.blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = result.filename;
+      a.click();
+      URL.revokeObjectURL(url);
+      setStatus(`${result.exported} élément(s) exporté(s)${result.skipped > 0 ? `, ${result.skipped} ignoré(s) (géométrie absente ou non supportée)` : ''}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-medium">Exporter — {datasetName}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500" disabled={isExporting}>
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+            <div className="grid grid-cols-2 gap-2">
+              {EXPORT_FORMATS.map(f => (
+                <label
+                  key={f.value}
+                  className={`flex items-center p-2 border rounded-md text-sm cursor-pointer ${
+                    format === f.value ? 'border-green-600 bg-green-50' : 'border-gray-200 hover:bg-gray-50'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    checked={format === f.value}
+                    onChange={() => setFormat(f.value)}
+                    className="mr-2 text-green-600 focus:ring-green-500"
+                    disabled={isExporting}
+                  />
+                  {f.label}
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Système de coordonnées</label>
+            <select
+              value={formatSupportsCrs(format) ? crs : 'EPSG:4326'}
+              onChange={(e) => setCrs(e.target.value)}
+              className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+              disabled={isExporting || !formatSupportsCrs(format)}
+            >
+              {EXPORT_CRS.map(p => (
+                <option key={p.code} value={p.code}>{p.label} ({p.code})</option>
+              ))}
+            </select>
+            {!formatSupportsCrs(format) && (
+              <p className="text-xs text-gray-500 mt-1">Le KML est toujours en WGS84 (EPSG:4326).</p>
+            )}
+          </div>
+
+          {status && (
+            <div className="flex items-center p-3 bg-blue-50 rounded-md">
+              <CheckCircle size={16} className="text-blue-500 mr-2" />
+              <span className="text-sm text-blue-700">{status}</span>
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center p-3 bg-red-50 rounded-md">
+              <AlertCircle size={16} className="text-red-500 mr-2" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-800"
+              disabled={isExporting}
+            >
+              Fermer
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+              disabled={isExporting}
+            >
+              {isExporting ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              ) : (
+                <Download size={16} className="mr-2" />
+              )}
+              Exporter
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetExportDialog;
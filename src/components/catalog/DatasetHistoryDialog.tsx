@@ -0,0 +1,372 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle, ChevronDown, ChevronRight, Eye, GitCompare, History, RotateCcw, Upload, X } from 'lucide-react';
+import type { Feature, FeatureCollection } from 'geojson';
+import { DatasetMetadata, DatasetVersion } from '../../types';
+import { fetchDatasetVersions, restoreDatasetVersion } from '../../lib/supabase';
+import { FeatureDiff, diffFeatureCollections, featureKeyCandidates, loadDatasetVersionCollection } from '../../lib/datasets';
+import ImportPreviewMap from '../map/ImportPreviewMap';
+
+interface DatasetHistoryDialogProps {
+  dataset: DatasetMetadata;
+  currentUser: string;
+  onViewVersion: (version: DatasetVersion, collection: FeatureCollection) => void;
+  onNewVersion: () => void;
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+type DiffSection = 'added' | 'modified' | 'removed';
+
+const DIFF_COLORS: Record<DiffSection, string> = {
+  added: '#16a34a',
+  modified: '#d97706',
+  removed: '#dc2626',
+};
+
+const diffColor = (feature: Feature) => DIFF_COLORS[feature.properties?.__diff as DiffSection] || '#6b7280';
+
+// Ajouts, modifications (géométrie après) et suppressions sur une même carte
+const diffCollection = (diff: FeatureDiff): FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: [
+    ...diff.added.map(f => ({ ...f, properties: { ...f.properties, __diff: 'added' } })),
+    ...diff.modified.map(c => ({ ...c.after, properties: { ...c.after.properties, __diff: 'modified' } })),
+    ...diff.removed.map(f => ({ ...f, properties: { ...f.properties, __diff: 'removed' } })),
+  ],
+});
+
+const featureLabel = (feature: Feature, key: string | null) => {
+  const name = feature.properties?.name ?? feature.properties?.nom;
+  const id = key ? feature.properties?.[key] : null;
+  return [name, id !== null && id !== undefined ? `(${id})` : null].filter(Boolean).join(' ') || '—';
+};
+
+// Historique des versions d'un jeu : visualisation, comparaison et restauration
+const DatasetHistoryDialog = ({ dataset, currentUser, onViewVersion, onNewVersion, onRestored, onClose }: DatasetHistoryDialogProps) => {
+  const [versions, setVersions] = useState<DatasetVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyVersion, setBusyVersion] = useState<number | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [fromVersion, setFromVersion] = useState<number | null>(null);
+  const [toVersion, setToVersion] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<{ before: FeatureCollection; after: FeatureCollection } | null>(null);
+  const [diffKey, setDiffKey] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [openSection, setOpenSection] = useState<DiffSection | null>('modified');
+
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const list = await fetchDatasetVersions(dataset.id);
+      setVersions(list);
+      // Par défaut : version précédente contre version courante
+      setToVersion(list[0]?.version ?? null);
+      setFromVersion(list[1]?.version ?? list[0]?.version ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dataset.id]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const candidates = useMemo(
+    () => (comparison ? featureKeyCandidates(comparison.before, comparison.after) : []),
+    [comparison]
+  );
+  const diff = useMemo(
+    () => (comparison ? diffFeatureCollections(comparison.before, comparison.after, diffKey) : null),
+    [comparison, diffKey]
+  );
+  const diffMapData = useMemo(() => (diff ? diffCollection(diff) : null), [diff]);
+
+  const versionByNumber = (n: number | null) => versions.find(v => v.version === n);
+
+  const loadVersion = async (version: DatasetVersion) => {
+    const collection = await loadDatasetVersionCollection(dataset, version);
+    if (!collection) throw new Error(`La version ${version.version} ne peut pas être lue comme données géographiques`);
+    return collection;
+  };
+
+  const handleView = async (version: DatasetVersion) => {
+    setBusyVersion(version.version);
+    setError(null);
+    try {
+      onViewVersion(version, await loadVersion(version));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleRestore = async (version: DatasetVersion) => {
+    if (!confirm(`Restaurer la version ${version.version} ? Elle deviendra une nouvelle version courante.`)) return;
+    setBusyVersion(version.version);
+    setError(null);
+    setStatus(null);
+    try {
+      await restoreDatasetVersion(dataset.id, version, currentUser);
+      setStatus(`Version ${version.version} restaurée.`);
+      setComparison(null);
+      await loadVersions();
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyVersion(null);
+    }
+  };
+
+  const handleCompare = async () => {
+    const before = versionByNumber(fromVersion);
+    const after = versionByNumber(toVersion);
+    if (!before || !after) return;
+    setIsComparing(true);
+    setError(null);
+    try {
+      const [beforeCollection, afterCollection] = await Promise.all([loadVersion(before), loadVersion(after)]);
+      setDiffKey(featureKeyCandidates(beforeCollection, afterCollection)[0] ?? null);
+      setComparison({ before: beforeCollection, after: afterCollection });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const versionSelect = (value: number | null, onSelect: (n: number) => void, label: string) => (
+    <div className="flex-1">
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      <select
+        value={value ?? ''}
+        onChange={(e) => {
+          onSelect(Number(e.target.value));
+          setComparison(null);
+        }}
+        className="w-full px-2 py-1.5 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+        disabled={isComparing}
+      >
+        {versions.map(v => <option key={v.version} value={v.version}>Version {v.version}</option>)}
+      </select>
+    </div>
+  );
+
+  const sectionHeader = (section: DiffSection, label: string, count: number) => (
+    <button
+      type="button"
+      onClick={() => setOpenSection(openSection === section ? null : section)}
+      className="w-full px-3 py-2 flex items-center justify-between hover:bg-gray-50"
+      disabled={count === 0}
+    >
+      <span className="flex items-center">
+        {openSection === section && count > 0
+          ? <ChevronDown size={14} className="mr-1" />
+          : <ChevronRight size={14} className="mr-1" />}
+        <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: DIFF_COLORS[section] }} />
+        {label}
+      </span>
+      <span className="px-2 py-0.5 rounded font-medium bg-gray-100 text-gray-800">{count}</span>
+    </button>
+  );
+
+  const featureList = (features: Feature[]) => (
+    <ul className="px-3 pb-2 max-h-32 overflow-y-auto space-y-0.5">
+      {features.map((feature, i) => <li key={i}>{featureLabel(feature, diff?.key ?? null)}</li>)}
+    </ul>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-medium flex items-center">
+            <History size={18} className="mr-2 text-green-600" />
+            Historique — {dataset.name}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-4 space-y-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-600"></div>
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-gray-500">Aucune version enregistrée pour ce jeu de données.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-md overflow-hidden">
+              <table className="min-w-full text-sm divide-y divide-gray-200">
+                <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium">Version</th>
+                    <th className="px-3 py-2 text-left font-medium">Date</th>
+                    <th className="px-3 py-2 text-left font-medium">Auteur</th>
+                    <th className="px-3 py-2 text-left font-medium">Note</th>
+                    <th className="px-3 py-2 text-right font-medium">Entités</th>
+                    <th className="px-3 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {versions.map(version => {
+                    const isCurrent = version.version === dataset.currentVersion;
+                    return (
+                      <tr key={version.id} className={isCurrent ? 'bg-green-50' : ''}>
+                        <td className="px-3 py-2 whitespace-nowrap font-medium text-gray-700">
+                          v{version.version}
+                          {isCurrent && <span className="ml-1 text-xs font-normal text-green-700">(courante)</span>}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                          {new Date(version.created_at).toLocaleString('fr-FR')}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-600">{version.uploaded_by || '—'}</td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {version.note || '—'}
+                          {version.restored_from !== null && (
+                            <span className="block text-xs text-gray-400">Contenu de la version {version.restored_from}</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right text-gray-600">{version.feature_count ?? '—'}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-right">
+                          {busyVersion === version.version ? (
+                            <div className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-green-600"></div>
+                          ) : (
+                            <>
+                              {dataset.format !== 'PDF' && (
+                                <button
+                                  onClick={() => handleView(version)}
+                                  className="text-green-600 hover:text-green-700 inline-flex items-center"
+                                  title="Voir cette version sur la carte"
+                                  disabled={busyVersion !== null}
+                                >
+                                  <Eye size={16} />
+                                </button>
+                              )}
+                              {!isCurrent && (
+                                <button
+                                  onClick={() => handleRestore(version)}
+                                  className="ml-3 text-green-600 hover:text-green-700 inline-flex items-center"
+                                  title="Restaurer cette version"
+                                  disabled={busyVersion !== null}
+                                >
+                                  <RotateCcw size={16} />
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {status && (
+            <div className="flex items-center p-3 bg-blue-50 rounded-md">
+              <CheckCircle size={16} className="text-blue-500 mr-2" />
+              <span className="text-sm text-blue-700">{status}</span>
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center p-3 bg-red-50 rounded-md">
+              <AlertCircle size={16} className="text-red-500 mr-2" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+
+          {versions.length > 1 && dataset.format !== 'PDF' && (
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium text-gray-700">Comparer deux versions</h4>
+              <div className="flex items-end space-x-2">
+                {versionSelect(fromVersion, setFromVersion, 'Avant')}
+                {versionSelect(toVersion, setToVersion, 'Après')}
+                <button
+                  type="button"
+                  onClick={handleCompare}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center text-sm"
+                  disabled={isComparing || fromVersion === toVersion}
+                >
+                  {isComparing ? (
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  ) : (
+                    <GitCompare size={16} className="mr-2" />
+                  )}
+                  Comparer
+                </button>
+              </div>
+
+              {comparison && diff && diffMapData && (
+                <>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-700 mb-1">Identifiant des entités</label>
+                    <select
+                      value={diffKey ?? ''}
+                      onChange={(e) => setDiffKey(e.target.value || null)}
+                      className="w-full px-2 py-1.5 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                    >
+                      <option value="">Aucun (entités identiques uniquement)</option>
+                      {candidates.map(name => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                  </div>
+                  <div className="border border-gray-200 rounded-md text-xs divide-y divide-gray-100">
+                    <div className="px-3 py-2 bg-gray-50 text-gray-600">
+                      Version {fromVersion} → version {toVersion} — {diff.unchanged} entité(s) inchangée(s)
+                    </div>
+                    {sectionHeader('added', 'Entités ajoutées', diff.added.length)}
+                    {openSection === 'added' && featureList(diff.added)}
+                    {sectionHeader('modified', 'Entités modifiées', diff.modified.length)}
+                    {openSection === 'modified' && (
+                      <ul className="px-3 pb-2 max-h-40 overflow-y-auto space-y-0.5">
+                        {diff.modified.map(change => (
+                          <li key={change.key}>
+                            {featureLabel(change.after, diff.key)} :{' '}
+                            <span className="text-gray-500">
+                              {[change.geometry ? 'géométrie' : null, ...change.properties].filter(Boolean).join(', ')}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {sectionHeader('removed', 'Entités supprimées', diff.removed.length)}
+                    {openSection === 'removed' && featureList(diff.removed)}
+                  </div>
+                  {diffMapData.features.length > 0 && (
+                    <ImportPreviewMap data={diffMapData} colorOf={diffColor} height={260} />
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-800"
+            >
+              Fermer
+            </button>
+            <button
+              type="button"
+              onClick={onNewVersion}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 flex items-center"
+            >
+              <Upload size={16} className="mr-2" />
+              Nouvelle version
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetHistoryDialog;
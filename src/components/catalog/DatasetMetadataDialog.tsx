@@ -0,0 +1,305 @@
+import { ReactNode, useState } from 'react';
+import { AlertCircle, CheckCircle, Download, Save, X } from 'lucide-react';
+import { DatasetMetadata, DatasetMetadataSheet, UpdateFrequency } from '../../types';
+import { updateDatasetMetadata } from '../../lib/supabase';
+import { BUILTIN_PROJECTIONS } from '../../lib/projections';
+import {
+  DATASET_LICENCES,
+  METADATA_LANGUAGES,
+  MetadataErrors,
+  TOPIC_CATEGORIES,
+  UPDATE_FREQUENCIES,
+  metadataRecordJson,
+  metadataRecordXml,
+  metadataSheetOf,
+  validateMetadataSheet
+} from '../../lib/metadata';
+
+interface DatasetMetadataDialogProps {
+  dataset: DatasetMetadata;
+  // Catégories existantes proposées à la saisie
+  categories: string[];
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500';
+
+const Field = ({ label, required, error, children }: { label: string; required?: boolean; error?: string; children: ReactNode }) => (
+  <div>
+    <label className="block text-sm font-medium text-gray-700 mb-1">
+      {label}
+      {required && <span className="text-red-500"> *</span>}
+    </label>
+    {children}
+    {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+  </div>
+);
+
+const Section = ({ title, children }: { title: string; children: ReactNode }) => (
+  <div>
+    <h4 className="text-sm font-semibold text-green-700 uppercase tracking-wider mb-2">{title}</h4>
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">{children}</div>
+  </div>
+);
+
+const fileBaseName = (name: string) => name.trim().replace(/[^\w.-]+/g, '_') || 'metadonnees';
+
+// Fiche de métadonnées d'un jeu (profil ISO 19115) : modification, validation des
+// champs obligatoires et export XML ISO 19139 / JSON pour l'IDS nationale
+const DatasetMetadataDialog = ({ dataset, categories, onSaved, onClose }: DatasetMetadataDialogProps) => {
+  const [sheet, setSheet] = useState<DatasetMetadataSheet>(() => metadataSheetOf(dataset));
+  const [tagsText, setTagsText] = useState(dataset.tags.join(', '));
+  const [errors, setErrors] = useState<MetadataErrors>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof DatasetMetadataSheet>(field: K, value: DatasetMetadataSheet[K]) => {
+    setSheet(current => ({ ...current, [field]: value }));
+    setErrors(current => ({ ...current, [field]: undefined }));
+  };
+
+  const currentSheet = (): DatasetMetadataSheet => ({
+    ...sheet,
+    tags: tagsText.split(',').map(t => t.trim()).filter(Boolean),
+  });
+
+  // Fiche complète, sinon les erreurs sont affichées sous les champs
+  const validate = () => {
+    const complete = currentSheet();
+    const found = validateMetadataSheet(complete);
+    setErrors(found);
+    if (Object.keys(found).length > 0) {
+      setStatus(null);
+      setError(`${Object.keys(found).length} champ(s) à compléter ou corriger.`);
+      return null;
+    }
+    setError(null);
+    return complete;
+  };
+
+  const handleSave = async () => {
+    const complete = validate();
+    if (!complete) return;
+    setIsSaving(true);
+    setStatus(null);
+    try {
+      await updateDatasetMetadata(dataset.id, complete);
+      setStatus('Fiche de métadonnées enregistrée.');
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExport = (format: 'xml' | 'json') => {
+    const complete = validate();
+    if (!complete) return;
+    const content = format === 'xml'
+      ? metadataRecordXml(dataset, complete)
+      : JSON.stringify(metadataRecordJson(dataset, complete), null, 2);
+    const blob = new Blob([content], { type: format === 'xml' ? 'application/xml' : 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileBaseName(complete.name)}_metadonnees.${format}`;
+    a.click();
+    URL.revokeObjectURL(url);
+    setStatus(`Fiche exportée en ${format.toUpperCase()}.`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-medium">Fiche de métadonnées — {dataset.name}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500" disabled={isSaving}>
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-4 space-y-5 overflow-y-auto">
+          <Section title="Identification">
+            <Field label="Titre" required error={errors.name}>
+              <input type="text" className={INPUT_CLASS} value={sheet.name} onChange={(e) => update('name', e.target.value)} />
+            </Field>
+            <Field label="Catégorie" required error={errors.category}>
+              <input
+                type="text"
+                list="metadata-categories"
+                className={INPUT_CLASS}
+                value={sheet.category}
+                onChange={(e) => update('category', e.target.value)}
+              />
+              <datalist id="metadata-categories">
+                {categories.map(category => <option key={category} value={category} />)}
+              </datalist>
+            </Field>
+            <div className="md:col-span-2">
+              <Field label="Résumé" required error={errors.description}>
+                <textarea
+                  rows={3}
+                  className={INPUT_CLASS}
+                  value={sheet.description}
+                  onChange={(e) => update('description', e.target.value)}
+                />
+              </Field>
+            </div>
+            <Field label="Catégorie thématique ISO" required error={errors.topicCategory}>
+              <select className={INPUT_CLASS} value={sheet.topicCategory} onChange={(e) => update('topicCategory', e.target.value)}>
+                <option value="">Choisir...</option>
+                {TOPIC_CATEGORIES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+            </Field>
+            <Field label="Langue" required error={errors.language}>
+              <select className={INPUT_CLASS} value={sheet.language} onChange={(e) => update('language', e.target.value)}>
+                {METADATA_LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+              </select>
+            </Field>
+            <div className="md:col-span-2">
+              <Field label="Mots-clés (séparés par des virgules)">
+                <input type="text" className={INPUT_CLASS} value={tagsText} onChange={(e) => setTagsText(e.target.value)} />
+              </Field>
+            </div>
+          </Section>
+
+          <Section title="Qualité et maintenance">
+            <div className="md:col-span-2">
+              <Field label="Généalogie" required error={errors.lineage}>
+                <textarea
+                  rows={3}
+                  className={INPUT_CLASS}
+                  placeholder="Origine des données, méthode de saisie, traitements appliqués..."
+                  value={sheet.lineage}
+                  onChange={(e) => update('lineage', e.target.value)}
+                />
+              </Field>
+            </div>
+            <Field label="Source">
+              <input type="text" className={INPUT_CLASS} value={sheet.source} onChange={(e) => update('source', e.target.value)} />
+            </Field>
+            <Field label="Fréquence de mise à jour" required error={errors.updateFrequency}>
+              <select
+                className={INPUT_CLASS}
+                value={sheet.updateFrequency}
+                onChange={(e) => update('updateFrequency', e.target.value as UpdateFrequency | '')}
+              >
+                <option value="">Choisir...</option>
+                {UPDATE_FREQUENCIES.map(f => <option key={f.value} value={f.value}>{f.label}</option>)}
+              </select>
+            </Field>
+          </Section>
+
+          <Section title="Référence spatiale et contraintes">
+            <Field label="Système de coordonnées" required error={errors.crs}>
+              <input
+                type="text"
+                list="metadata-crs"
+                className={INPUT_CLASS}
+                placeholder="EPSG:4326"
+                value={sheet.crs}
+                onChange={(e) => update('crs', e.target.value.trim().toUpperCase())}
+              />
+              <datalist id="metadata-crs">
+                {BUILTIN_PROJECTIONS.map(p => <option key={p.code} value={p.code}>{p.label}</option>)}
+              </datalist>
+            </Field>
+            <Field label="Licence" required error={errors.licence}>
+              <select className={INPUT_CLASS} value={sheet.licence} onChange={(e) => update('licence', e.target.value)}>
+                <option value="">Choisir...</option>
+                {DATASET_LICENCES.map(licence => <option key={licence} value={licence}>{licence}</option>)}
+              </select>
+            </Field>
+            <div className="md:col-span-2 text-xs text-gray-500">
+              {dataset.extent
+                ? `Emprise (WGS84) : ${dataset.extent.map(v => v.toFixed(5)).join(', ')} (ouest, sud, est, nord)`
+                : 'Emprise non calculée pour ce jeu.'}
+            </div>
+          </Section>
+
+          <Section title="Contact">
+            <Field label="Organisme" required error={errors.contactOrganisation}>
+              <input
+                type="text"
+                className={INPUT_CLASS}
+                value={sheet.contactOrganisation}
+                onChange={(e) => update('contactOrganisation', e.target.value)}
+              />
+            </Field>
+            <Field label="Nom du contact">
+              <input type="text" className={INPUT_CLASS} value={sheet.contactName} onChange={(e) => update('contactName', e.target.value)} />
+            </Field>
+            <Field label="E-mail" required error={errors.contactEmail}>
+              <input type="email" className={INPUT_CLASS} value={sheet.contactEmail} onChange={(e) => update('contactEmail', e.target.value)} />
+            </Field>
+            <Field label="Propriétaire">
+              <input type="text" className={INPUT_CLASS} value={sheet.owner} onChange={(e) => update('owner', e.target.value)} />
+            </Field>
+          </Section>
+
+          {status && (
+            <div className="flex items-center p-3 bg-blue-50 rounded-md">
+              <CheckCircle size={16} className="text-blue-500 mr-2" />
+              <span className="text-sm text-blue-700">{status}</span>
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center p-3 bg-red-50 rounded-md">
+              <AlertCircle size={16} className="text-red-500 mr-2" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+        </div>
+        <div className="flex items-center justify-between p-4 border-t">
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={() => handleExport('xml')}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+              disabled={isSaving}
+            >
+              <Download size={16} className="mr-1.5" />
+              XML ISO 19139
+            </button>
+            <button
+              type="button"
+              onClick={() => handleExport('json')}
+              className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+              disabled={isSaving}
+            >
+              <Download size={16} className="mr-1.5" />
+              JSON
+            </button>
+          </div>
+          <div className="flex space-x-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-800"
+              disabled={isSaving}
+            >
+              Fermer
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+              disabled={isSaving}
+            >
+              {isSaving ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+              ) : (
+                <Save size={16} className="mr-2" />
+              )}
+              Enregistrer
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetMetadataDialog;
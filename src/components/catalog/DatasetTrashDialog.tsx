@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, RotateCcw, Trash2, X } from 'lucide-react';
+import { DatasetMetadata } from '../../types';
+import {
+  TRASH_RETENTION_DAYS,
+  fetchDatasetTrash,
+  purgeDataset,
+  purgeExpiredDatasets,
+  restoreTrashedDataset,
+  trashDaysLeft
+} from '../../lib/supabase';
+
+interface DatasetTrashDialogProps {
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+// Corbeille du catalogue (administrateurs) : restauration ou suppression définitive.
+// Les jeux expirés sont effacés chaque nuit par la base, et à l'ouverture s'il en reste.
+const DatasetTrashDialog = ({ onRestored, onClose }: DatasetTrashDialogProps) => {
+  const [datasets, setDatasets] = useState<DatasetMetadata[] | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadTrash = async () => {
+      try {
+        const purged = await purgeExpiredDatasets();
+        if (purged > 0) setStatus(`${purged} jeu(x) de plus de ${TRASH_RETENTION_DAYS} jours définitivement effacé(s).`);
+        setDatasets(await fetchDatasetTrash());
+      } catch (err) {
+        setDatasets([]);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+    loadTrash();
+  }, []);
+
+  const run = async (dataset: DatasetMetadata, action: () => Promise<void>, message: string) => {
+    setBusyId(dataset.id);
+    setStatus(null);
+    setError(null);
+    try {
+      await action();
+      setDatasets(current => (current || []).filter(d => d.id !== dataset.id));
+      setStatus(message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = (dataset: DatasetMetadata) =>
+    run(dataset, async () => {
+      await restoreTrashedDataset(dataset.id);
+      onRestored();
+    }, `« ${dataset.name} » restauré dans le catalogue.`);
+
+  const handlePurge = (dataset: DatasetMetadata) => {
+    if (!confirm(`Supprimer définitivement « ${dataset.name} » et toutes ses versions ? Cette action est irréversible.`)) return;
+    run(dataset, () => purgeDataset(dataset.id), `« ${dataset.name} » définitivement supprimé.`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-medium">Corbeille</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500" disabled={busyId !== null}>
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <p className="text-sm text-gray-600">
+            Les jeux supprimés sont conservés {TRASH_RETENTION_DAYS} jours avant l'effacement définitif de leur contenu.
+          </p>
+
+          {datasets === null ? (
+            <div className="text-sm text-gray-500 animate-pulse">Chargement de la corbeille...</div>
+          ) : datasets.length === 0 ? (
+            <div className="text-sm text-gray-500">La corbeille est vide.</div>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-green-600 uppercase tracking-wider">Nom</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-green-600 uppercase tracking-wider">Supprimé le</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-green-600 uppercase tracking-wider">Par</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-green-600 uppercase tracking-wider">Reste</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {datasets.map(dataset => (
+                  <tr key={dataset.id}>
+                    <td className="px-3 py-2">
+                      <div className="font-medium text-gray-900">{dataset.name}</div>
+                      <div className="text-xs text-gray-500">{dataset.format}</div>
+                    </td>
+                    <td className="px-3 py-2 text-gray-600 whitespace-nowrap">
+                      {dataset.deletedAt ? new Date(dataset.deletedAt).toLocaleString('fr-FR') : ''}
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">{dataset.deletedBy || '—'}</td>
+                    <td className="px-3 py-2 text-gray-600 whitespace-nowrap">{trashDaysLeft(dataset)} jour(s)</td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      <button
+                        className="text-green-600 hover:text-green-700 inline-flex items-center disabled:opacity-50"
+                        onClick={() => handleRestore(dataset)}
+                        disabled={busyId !== null}
+                      >
+                        <RotateCcw size={16} className="mr-1" />
+                        Restaurer
+                      </button>
+                      <button
+                        className="ml-3 text-red-600 hover:text-red-700 inline-flex items-center disabled:opacity-50"
+                        onClick={() => handlePurge(dataset)}
+                        disabled={busyId !== null}
+                      >
+                        <Trash2 size={16} className="mr-1" />
+                        Supprimer définitivement
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {status && (
+            <div className="flex items-center p-3 bg-blue-50 rounded-md">
+              <CheckCircle size={16} className="text-blue-500 mr-2" />
+              <span className="text-sm text-blue-700">{status}</span>
+            </div>
+          )}
+          {error && (
+            <div className="flex items-center p-3 bg-red-50 rounded-md">
+              <AlertCircle size={16} className="text-red-500 mr-2" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end p-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-800"
+            disabled={busyId !== null}
+          >
+            Fermer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DatasetTrashDialog;
@@ -0,0 +1,155 @@
+import { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Square, X } from 'lucide-react';
+import type { DatasetExtent, DatasetMetadata } from '../../types';
+
+interface ExtentSearchMapProps {
+  value: DatasetExtent | null;
+  onChange: (extent: DatasetExtent | null) => void;
+  // Jeux trouvés, dont l'emprise est dessinée en contour
+  datasets: DatasetMetadata[];
+  height?: number;
+}
+
+const SEARCH_STYLE: L.PathOptions = { color: '#059669', weight: 2, dashArray: '6 4', fillOpacity: 0.08 };
+const DATASET_STYLE: L.PathOptions = { color: '#2563eb', weight: 1, fillOpacity: 0.03 };
+
+const toBounds = ([west, south, east, north]: DatasetExtent) => L.latLngBounds([south, west], [north, east]);
+
+const clampLon = (lon: number) => Math.max(-180, Math.min(180, lon));
+
+// Carte de recherche par emprise : l'utilisateur trace un rectangle (cliquer-glisser)
+// et le catalogue ne garde que les jeux dont l'emprise l'intersecte
+const ExtentSearchMap = ({ value, onChange, datasets, height = 260 }: ExtentSearchMapProps) => {
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<L.Map | null>(null);
+  const searchLayerRef = useRef<L.Rectangle | null>(null);
+  const datasetsLayerRef = useRef<L.LayerGroup | null>(null);
+  const [drawing, setDrawing] = useState(false);
+
+  // Initialisation de la carte
+  useEffect(() => {
+    if (!mapContainer.current || map.current) return;
+
+    map.current = L.map(mapContainer.current, {
+      center: [14.7167, -17.4677],
+      zoom: 11,
+      maxZoom: 18,
+      minZoom: 3
+    });
+
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '© OpenStreetMap contributors',
+      maxZoom: 18
+    }).addTo(map.current);
+
+    datasetsLayerRef.current = L.layerGroup().addTo(map.current);
+
+    return () => {
+      if (map.current) {
+        map.current.remove();
+        map.current = null;
+      }
+    };
+  }, []);
+
+  // Emprise des jeux trouvés
+  useEffect(() => {
+    const group = datasetsLayerRef.current;
+    if (!group) return;
+    group.clearLayers();
+    datasets.forEach(dataset => {
+      if (!dataset.extent) return;
+      L.rectangle(toBounds(dataset.extent), DATASET_STYLE).bindTooltip(dataset.name).addTo(group);
+    });
+  }, [datasets]);
+
+  // Rectangle de recherche courant
+  useEffect(() => {
+    if (!map.current) return;
+    if (searchLayerRef.current) map.current.removeLayer(searchLayerRef.current);
+    searchLayerRef.current = value ? L.rectangle(toBounds(value), SEARCH_STYLE).addTo(map.current) : null;
+  }, [value]);
+
+  // Tracé : le glisser de la carte est suspendu le temps du dessin
+  useEffect(() => {
+    const current = map.current;
+    if (!current || !drawing) return;
+
+    let start: L.LatLng | null = null;
+    let sketch: L.Rectangle | null = null;
+    current.dragging.disable();
+    current.getContainer().style.cursor = 'crosshair';
+
+    const onMouseDown = (e: L.LeafletMouseEvent) => {
+      start = e.latlng;
+      sketch = L.rectangle(L.latLngBounds(start, start), SEARCH_STYLE).addTo(current);
+    };
+    const onMouseMove = (e: L.LeafletMouseEvent) => {
+      if (start && sketch) sketch.setBounds(L.latLngBounds(start, e.latlng));
+    };
+    const onMouseUp = (e: L.LeafletMouseEvent) => {
+      if (!start) return;
+      const bounds = L.latLngBounds(start, e.latlng);
+      if (sketch) current.removeLayer(sketch);
+      start = null;
+      sketch = null;
+      // Un simple clic ne trace pas de rectangle
+      if (bounds.getWest() === bounds.getEast() || bounds.getSouth() === bounds.getNorth()) return;
+      setDrawing(false);
+      onChange([clampLon(bounds.getWest()), bounds.getSouth(), clampLon(bounds.getEast()), bounds.getNorth()]);
+    };
+
+    current.on('mousedown', onMouseDown);
+    current.on('mousemove', onMouseMove);
+    current.on('mouseup', onMouseUp);
+    return () => {
+      current.off('mousedown', onMouseDown);
+      current.off('mousemove', onMouseMove);
+      current.off('mouseup', onMouseUp);
+      if (sketch) current.removeLayer(sketch);
+      current.dragging.enable();
+      current.getContainer().style.cursor = '';
+    };
+  }, [drawing, onChange]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-gray-500">
+          {drawing
+            ? 'Cliquez-glissez sur la carte pour tracer la zone de recherche.'
+            : value
+              ? `Zone : ${value.map(v => v.toFixed(4)).join(', ')} (ouest, sud, est, nord)`
+              : 'Aucune zone tracée.'}
+        </p>
+        <div className="flex items-center space-x-2">
+          <button
+            type="button"
+            onClick={() => setDrawing(d => !d)}
+            className={`px-3 py-1.5 border rounded-md text-xs font-medium flex items-center ${
+              drawing ? 'border-green-500 bg-green-50 text-green-700' : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+            }`}
+          >
+            <Square size={14} className="mr-1.5" />
+            {drawing ? 'Annuler le tracé' : 'Tracer un rectangle'}
+          </button>
+          {value && (
+            <button
+              type="button"
+              onClick={() => onChange(null)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+            >
+              <X size={14} className="mr-1.5" />
+              Effacer la zone
+            </button>
+          )}
+        </div>
+      </div>
+      <div ref={mapContainer} style={{ height }} className="w-full rounded-md border border-gray-200" />
+    </div>
+  );
+};
+
+export default ExtentSearchMap;
@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowRight, Bookmark, Save, Trash2 } from 'lucide-react';
+import { AttributeMapping, ImportTable, MappingProfile } from '../../types';
+import { TARGET_FIELDS, applyMapping } from '../../lib/importMapping';
+import { db } from '../../lib/supabase';
+
+interface AttributeMappingEditorProps {
+  table: ImportTable;
+  sourceProperties: string[];
+  sampleFeatures: { properties?: Record<string, unknown> | null }[];
+  mapping: AttributeMapping;
+  onChange: (mapping: AttributeMapping) => void;
+  disabled?: boolean;
+}
+
+const PREVIEW_SIZE = 5;
+
+// Correspondance entre propriétés du fichier source et colonnes de la table cible,
+// avec aperçu et profils réutilisables
+const AttributeMappingEditor = ({
+  table,
+  sourceProperties,
+  sampleFeatures,
+  mapping,
+  onChange,
+  disabled
+}: AttributeMappingEditorProps) => {
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+  const [profileMessage, setProfileMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fields = TARGET_FIELDS[table];
+
+  const loadProfiles = useCallback(async () => {
+    const { data, error } = await db.mappingProfiles.getByTable(table);
+    if (error) {
+      console.error('Erreur lors du chargement des profils:', error);
+      setProfiles([]);
+      return;
+    }
+    setProfiles((data || []) as MappingProfile[]);
+  }, [table]);
+
+  useEffect(() => {
+    setSelectedProfileId('');
+    setProfileMessage(null);
+    loadProfiles();
+  }, [loadProfiles]);
+
+  const updateField = (column: string, change: Partial<AttributeMapping[string]>) => {
+    onChange({ ...mapping, [column]: { ...mapping[column], ...change } });
+  };
+
+  const handleProfileSelect = (id: string) => {
+    setSelectedProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    setProfileName(profile.name);
+    onChange({ ...mapping, ...profile.mapping });
+    const missing = Object.values(profile.mapping)
+      .map(m => m.source)
+      .filter((source): source is string => !!source && !sourceProperties.includes(source));
+    setProfileMessage(missing.length > 0
+      ? `Propriétés absentes de ce fichier : ${missing.join(', ')}`
+      : `Profil « ${profile.name} » appliqué`);
+  };
+
+  const handleSaveProfile = async () => {
+    if (!profileName.trim()) return;
+    setIsSaving(true);
+    const { data, error } = await db.mappingProfiles.save({ name: profileName.trim(), target_table: table, mapping });
+    setIsSaving(false);
+    if (error) {
+      setProfileMessage(`Enregistrement impossible : ${error.message}`);
+      return;
+    }
+    await loadProfiles();
+    if (data) setSelectedProfileId((data as MappingProfile).id);
+    setProfileMessage(`Profil « ${profileName.trim()} » enregistré`);
+  };
+
+  const handleDeleteProfile = async () => {
+    const profile = profiles.find(p => p.id === selectedProfileId);
+    if (!profile || !confirm(`Supprimer le profil « ${profile.name} » ?`)) return;
+    const { error } = await db.mappingProfiles.delete(profile.id);
+    if (error) {
+      setProfileMessage(`Suppression impossible : ${error.message}`);
+      return;
+    }
+    setSelectedProfileId('');
+    setProfileMessage(null);
+    await loadProfiles();
+  };
+
+  const previewRows = sampleFeatures
+    .slice(0, PREVIEW_SIZE)
+    .map((feature, index) => applyMapping(table, feature.properties, mapping, index));
+
+  return (
+    <div className="space-y-3">
+      <div className="p-3 bg-gray-50 border border-gray-200 rounded-md space-y-2">
+        <div className="flex items-center text-sm font-medium text-gray-700">
+          <Bookmark size={16} className="mr-1.5 text-green-600" />
+          Profil de correspondance
+        </div>
+        <div className="flex space-x-2">
+          <select
+            value={selectedProfileId}
+            onChange={(e) => handleProfileSelect(e.target.value)}
+            className="flex-1 px-3 py-1.5 border rounded-md text-sm"
+            disabled={disabled}
+          >
+            <option value="">{profiles.length > 0 ? 'Choisir un profil enregistré…' : 'Aucun profil enregistré'}</option>
+            {profiles.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          {selectedProfileId && (
+            <button
+              type="button"
+              onClick={handleDeleteProfile}
+              className="px-2 text-red-500 hover:text-red-600"
+              title="Supprimer le profil"
+              disabled={disabled}
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+            placeholder="Nom du profil (ex : Prestataire X – campagne 2025)"
+            className="flex-1 px-3 py-1.5 border rounded-md text-sm"
+            disabled={disabled}
+          />
+          <button
+            type="button"
+            onClick={handleSaveProfile}
+            className="px-3 py-1.5 border border-green-600 text-green-600 rounded-md text-sm hover:bg-green-50 flex items-center disabled:opacity-50"
+            disabled={disabled || isSaving || !profileName.trim()}
+          >
+            <Save size={14} className="mr-1" />
+            Enregistrer
+          </button>
+        </div>
+        {profileMessage && <p className="text-xs text-gray-600">{profileMessage}</p>}
+      </div>
+
+      <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+        {fields.map(field => {
+          const current = mapping[field.column] || {};
+          return (
+            <div key={field.column} className="grid grid-cols-[1fr_auto_1fr_1fr] items-center gap-2 px-3 py-2">
+              <select
+                value={current.source || ''}
+                onChange={(e) => updateField(field.column, { source: e.target.value || null })}
+                className="px-2 py-1 border rounded text-xs"
+                disabled={disabled}
+              >
+                <option value="">— aucune —</option>
+                {sourceProperties.map(p => (
+                  <option key={p} value={p}>{p}</option>
+                ))}
+              </select>
+              <ArrowRight size={14} className="text-gray-400" />
+              <div className="text-xs">
+                <span className="font-medium text-gray-700">{field.label}</span>
+                {field.required && <span className="text-red-500"> *</span>}
+                <div className="font-mono text-gray-400">{field.column}</div>
+              </div>
+              {field.kind === 'enum' ? (
+                <select
+                  value={current.defaultValue || ''}
+                  onChange={(e) => updateField(field.column, { defaultValue: e.target.value || undefined })}
+                  className="px-2 py-1 border rounded text-xs"
+                  title="Valeur par défaut"
+                  disabled={disabled}
+                >
+                  <option value="">Défaut : aucun</option>
+                  {field.options?.map(o => (
+                    <option key={o} value={o}>Défaut : {o}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={field.kind === 'number' ? 'number' : field.kind === 'date' ? 'date' : 'text'}
+                  value={current.defaultValue || ''}
+                  onChange={(e) => updateField(field.column, { defaultValue: e.target.value || undefined })}
+                  placeholder="Valeur par défaut"
+                  className="px-2 py-1 border rounded text-xs"
+                  disabled={disabled}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {previewRows.length > 0 && (
+        <div>
+          <h4 className="text-xs font-medium text-gray-700 mb-1">
+            Aperçu ({previewRows.length} premier{previewRows.length > 1 ? 's' : ''} élément{previewRows.length > 1 ? 's' : ''})
+          </h4>
+          <div className="overflow-x-auto border border-gray-200 rounded-md">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50">
+                <tr>
+                  {fields.map(f => (
+                    <th key={f.column} className="px-2 py-1 text-left font-medium text-green-600 whitespace-nowrap">{f.column}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {previewRows.map((row, i) => (
+                  <tr key={i}>
+                    {fields.map(f => (
+                      <td key={f.column} className="px-2 py-1 whitespace-nowrap text-gray-700">
+                        {row[f.column] === null || row[f.column] === undefined
+                          ? <span className="text-gray-300">null</span>
+                          : String(row[f.column])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttributeMappingEditor;
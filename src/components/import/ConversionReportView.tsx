@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { ConversionReport, FeatureConversionReport } from '../../types';
+
+interface ConversionReportViewProps {
+  report: ConversionReport;
+}
+
+const ORIGIN_LABELS: Record<ConversionReport['crsOrigin'], string> = {
+  explicit: 'choisi par l\'utilisateur',
+  prj: 'lu dans le fichier .prj',
+  geojson: 'déclaré dans le membre "crs"',
+  auto: 'détecté sur l\'ensemble des données',
+};
+
+const STATUS_LABELS: Record<FeatureConversionReport['status'], string> = {
+  converted: 'Converti',
+  out_of_bounds: 'Hors Sénégal',
+  invalid: 'Géométrie invalide',
+  undetected: 'Système non détecté',
+  rejected: 'Attributs invalides',
+  error: 'Erreur',
+};
+
+// Rapport de reprojection d'un import, feature par feature
+const ConversionReportView = ({ report }: ConversionReportViewProps) => {
+  const [showConverted, setShowConverted] = useState(false);
+
+  const rejected = report.features.filter(f => f.status !== 'converted');
+  const converted = report.features.filter(f => f.status === 'converted');
+  const systems = converted.reduce<Record<string, number>>((acc, f) => {
+    if (f.sourceSystem) acc[f.sourceSystem] = (acc[f.sourceSystem] || 0) + 1;
+    return acc;
+  }, {});
+
+  const renderRow = (f: FeatureConversionReport) => (
+    <tr key={f.index} className={f.status === 'converted' ? '' : 'bg-red-50'}>
+      <td className="px-2 py-1 text-gray-500">{f.index + 1}</td>
+      <td className="px-2 py-1 truncate max-w-[120px]">{f.name || '—'}</td>
+      <td className="px-2 py-1 font-mono">{f.sourceSystem || '—'}</td>
+      <td className="px-2 py-1 text-gray-600">
+        {f.geometryType || '—'}{f.vertices ? ` (${f.vertices} sommet${f.vertices > 1 ? 's' : ''})` : ''}
+      </td>
+      <td className="px-2 py-1">
+        {f.status === 'converted'
+          ? `${f.longitude}, ${f.latitude}`
+          : f.errors && f.errors.length > 0
+            ? (
+              <div className="text-red-700">
+                {STATUS_LABELS[f.status]}
+                <ul className="list-disc list-inside">
+                  {f.errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              </div>
+            )
+            : <span className="text-red-700">{STATUS_LABELS[f.status]}{f.reason ? ` : ${f.reason}` : ''}</span>}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="border border-gray-200 rounded-md text-xs">
+      <div className="p-3 bg-gray-50 border-b border-gray-200 space-y-1">
+        <div className="flex items-center">
+          <CheckCircle size={14} className="text-green-600 mr-1.5" />
+          <span>
+            {converted.length} / {report.features.length} feature(s) converties
+          </span>
+        </div>
+        <div className="text-gray-600">
+          Système source : <span className="font-mono">{report.crs || 'variable'}</span> ({ORIGIN_LABELS[report.crsOrigin]})
+        </div>
+        {Object.keys(systems).length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {Object.entries(systems).map(([code, count]) => (
+              <span key={code} className="px-2 py-0.5 rounded bg-green-100 text-green-800 font-mono">
+                {code} : {count}
+              </span>
+            ))}
+          </div>
+        )}
+        {rejected.length > 0 && (
+          <div className="flex items-center text-red-700">
+            <AlertTriangle size={14} className="mr-1.5" />
+            {rejected.length} feature(s) ignorée(s)
+          </div>
+        )}
+      </div>
+      <div className="max-h-48 overflow-y-auto">
+        <table className="min-w-full">
+          <thead className="bg-white sticky top-0">
+            <tr className="text-left text-gray-500">
+              <th className="px-2 py-1">#</th>
+              <th className="px-2 py-1">Nom</th>
+              <th className="px-2 py-1">Système</th>
+              <th className="px-2 py-1">Géométrie</th>
+              <th className="px-2 py-1">Résultat</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {rejected.map(renderRow)}
+            {showConverted && converted.map(renderRow)}
+          </tbody>
+        </table>
+      </div>
+      {converted.length > 0 && (
+        <button
+          type="button"
+          onClick={() => setShowConverted(!showConverted)}
+          className="w-full p-2 border-t border-gray-200 text-green-600 hover:bg-green-50 flex items-center justify-center"
+        >
+          {showConverted ? <ChevronDown size={14} className="mr-1" /> : <ChevronRight size={14} className="mr-1" />}
+          {showConverted ? 'Masquer' : 'Afficher'} les features converties
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ConversionReportView;
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { Globe, Plus, Trash2, X } from 'lucide-react';
+import { ProjectionDefinition } from '../../types';
+import { addCustomProjection, getProjections, removeCustomProjection } from '../../lib/projections';
+
+interface CrsSelectorProps {
+  value: string | null;
+  onChange: (code: string | null) => void;
+  disabled?: boolean;
+}
+
+// Sélection du système de coordonnées source d'un import
+const CrsSelector = ({ value, onChange, disabled }: CrsSelectorProps) => {
+  const [projections, setProjections] = useState<ProjectionDefinition[]>(getProjections());
+  const [showCustomForm, setShowCustomForm] = useState(false);
+  const [customCode, setCustomCode] = useState('');
+  const [customLabel, setCustomLabel] = useState('');
+  const [customDefinition, setCustomDefinition] = useState('');
+  const [customError, setCustomError] = useState<string | null>(null);
+
+  const selected = projections.find(p => p.code === value);
+
+  const handleAddCustom = () => {
+    try {
+      const projection = addCustomProjection(customCode, customDefinition.trim(), customLabel.trim() || undefined);
+      setProjections(getProjections());
+      onChange(projection.code);
+      setShowCustomForm(false);
+      setCustomCode('');
+      setCustomLabel('');
+      setCustomDefinition('');
+      setCustomError(null);
+    } catch (error) {
+      setCustomError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleRemoveCustom = (code: string) => {
+    removeCustomProjection(code);
+    setProjections(getProjections());
+    if (value === code) onChange(null);
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">
+        Système de coordonnées source
+      </label>
+      <div className="flex space-x-2">
+        <div className="relative flex-1">
+          <Globe size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <select
+            value={value || ''}
+            onChange={(e) => onChange(e.target.value || null)}
+            className="w-full pl-9 pr-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+            disabled={disabled}
+          >
+            <option value="">Automatique (membre "crs", .prj ou détection)</option>
+            {projections.map(p => (
+              <option key={p.code} value={p.code}>
+                {p.code} — {p.label}{p.custom ? ' (personnalisée)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowCustomForm(!showCustomForm)}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm text-green-600 hover:bg-green-50 flex items-center"
+          disabled={disabled}
+          title="Ajouter une projection personnalisée"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+      {selected?.custom && (
+        <div className="mt-1 flex items-center justify-between text-xs text-gray-500">
+          <span className="font-mono truncate">{selected.proj4}</span>
+          <button
+            type="button"
+            onClick={() => handleRemoveCustom(selected.code)}
+            className="ml-2 text-red-500 hover:text-red-600 flex items-center"
+            disabled={disabled}
+          >
+            <Trash2 size={12} className="mr-1" />
+            Supprimer
+          </button>
+        </div>
+      )}
+      {!value && (
+        <p className="mt-1 text-xs text-gray-500">
+          Sans choix explicite, le membre "crs" du GeoJSON ou le fichier .prj est utilisé ; à défaut, le système est détecté à partir de l'ensemble des coordonnées.
+        </p>
+      )}
+
+      {showCustomForm && (
+        <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-md space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">Projection personnalisée</span>
+            <button type="button" onClick={() => setShowCustomForm(false)} className="text-gray-400 hover:text-gray-500">
+              <X size={16} />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={customCode}
+              onChange={(e) => setCustomCode(e.target.value)}
+              placeholder="EPSG:31028"
+              className="px-3 py-1.5 border rounded-md text-sm"
+            />
+            <input
+              type="text"
+              value={customLabel}
+              onChange={(e) => setCustomLabel(e.target.value)}
+              placeholder="Libellé"
+              className="px-3 py-1.5 border rounded-md text-sm"
+            />
+          </div>
+          <textarea
+            value={customDefinition}
+            onChange={(e) => setCustomDefinition(e.target.value)}
+            placeholder="+proj=utm +zone=28 +ellps=clrk80 +towgs84=... +units=m +no_defs"
+            className="w-full px-3 py-1.5 border rounded-md text-xs font-mono"
+            rows={2}
+          />
+          {customError && <p className="text-xs text-red-600">{customError}</p>}
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleAddCustom}
+              className="px-3 py-1.5 bg-green-600 text-white text-sm rounded-md hover:bg-green-700 disabled:opacity-50"
+              disabled={!customCode || !customDefinition}
+            >
+              Ajouter
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CrsSelector;
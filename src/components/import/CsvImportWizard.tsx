@@ -0,0 +1,192 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, CheckCircle, ChevronDown, ChevronRight } from 'lucide-react';
+import { CsvEncoding, CsvGeometrySource, CsvImportOptions } from '../../types';
+import {
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  CsvConversionResult,
+  csvToGeoJSON,
+  decodeCsv,
+  guessCsvOptions,
+  parseCsvRows
+} from '../../lib/csv';
+import CrsSelector from './CrsSelector';
+
+interface CsvImportWizardProps {
+  bytes: Uint8Array;
+  // conversion nulle tant que les colonnes de localisation ne sont pas choisies
+  onChange: (options: CsvImportOptions, conversion: CsvConversionResult | null) => void;
+  disabled?: boolean;
+}
+
+const PREVIEW_ROWS = 5;
+
+// Réglages de lecture d'un CSV : encodage, séparateur, colonnes de géométrie et
+// système source, avec aperçu et bilan des lignes non localisées.
+// Les réglages sont détectés à l'ouverture : changer de fichier implique une nouvelle clé.
+const CsvImportWizard = ({ bytes, onChange, disabled }: CsvImportWizardProps) => {
+  const [options, setOptions] = useState<CsvImportOptions>(() => guessCsvOptions(bytes));
+  const [showUnlocated, setShowUnlocated] = useState(false);
+
+  const text = useMemo(() => decodeCsv(bytes, options.encoding), [bytes, options.encoding]);
+  const preview = useMemo(() => parseCsvRows(text, options.delimiter, PREVIEW_ROWS), [text, options.delimiter]);
+
+  const { geometry } = options;
+  const geometryReady = geometry.mode === 'wkt' ? !!geometry.column : !!geometry.x && !!geometry.y;
+  const conversion = useMemo(
+    () => (geometryReady ? csvToGeoJSON(text, options) : null),
+    [text, options, geometryReady]
+  );
+
+  // Notifié à chaque nouveau réglage, pas à chaque rendu du parent
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  useEffect(() => {
+    onChangeRef.current(options, conversion);
+  }, [options, conversion]);
+
+  const update = (patch: Partial<CsvImportOptions>) => setOptions(current => ({ ...current, ...patch }));
+  const updateGeometry = (source: CsvGeometrySource) => update({ geometry: source });
+
+  const columnSelect = (value: string, onSelect: (column: string) => void, label: string) => (
+    <div className="flex-1">
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      <select
+        value={value}
+        onChange={(e) => onSelect(e.target.value)}
+        className="w-full px-2 py-1.5 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+        disabled={disabled}
+      >
+        <option value="">— Choisir —</option>
+        {preview.headers.map(h => <option key={h} value={h}>{h}</option>)}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex space-x-2">
+        <div className="flex-1">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Encodage</label>
+          <select
+            value={options.encoding}
+            onChange={(e) => update({ encoding: e.target.value as CsvEncoding })}
+            className="w-full px-2 py-1.5 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+            disabled={disabled}
+          >
+            {CSV_ENCODINGS.map(e => <option key={e.value} value={e.value}>{e.label}</option>)}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Séparateur</label>
+          <select
+            value={options.delimiter}
+            onChange={(e) => update({ delimiter: e.target.value })}
+            className="w-full px-2 py-1.5 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+            disabled={disabled}
+          >
+            {CSV_DELIMITERS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="border border-gray-200 rounded-md overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead className="bg-gray-50">
+            <tr>
+              {preview.headers.map(h => (
+                <th key={h} className="px-2 py-1 text-left font-medium text-gray-600 whitespace-nowrap">{h}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {preview.rows.map((row, i) => (
+              <tr key={i}>
+                {preview.headers.map(h => (
+                  <td key={h} className="px-2 py-1 text-gray-700 whitespace-nowrap max-w-[12rem] truncate">{row[h]}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-gray-700 mb-1">Localisation des lignes</label>
+        <div className="flex space-x-4 text-sm text-gray-700 mb-2">
+          <label className="flex items-center">
+            <input
+              type="radio"
+              checked={geometry.mode === 'xy'}
+              onChange={() => updateGeometry({ mode: 'xy', x: '', y: '' })}
+              className="mr-1 text-green-600 focus:ring-green-500"
+              disabled={disabled}
+            />
+            Colonnes X / Y
+          </label>
+          <label className="flex items-center">
+            <input
+              type="radio"
+              checked={geometry.mode === 'wkt'}
+              onChange={() => updateGeometry({ mode: 'wkt', column: '' })}
+              className="mr-1 text-green-600 focus:ring-green-500"
+              disabled={disabled}
+            />
+            Colonne WKT
+          </label>
+        </div>
+        {geometry.mode === 'xy' ? (
+          <div className="flex space-x-2">
+            {columnSelect(geometry.x, (x) => updateGeometry({ ...geometry, x }), 'X (longitude / est)')}
+            {columnSelect(geometry.y, (y) => updateGeometry({ ...geometry, y }), 'Y (latitude / nord)')}
+          </div>
+        ) : (
+          columnSelect(geometry.column, (column) => updateGeometry({ mode: 'wkt', column }), 'Géométrie (WKT)')
+        )}
+      </div>
+
+      <CrsSelector value={options.sourceCrs} onChange={(sourceCrs) => update({ sourceCrs })} disabled={disabled} />
+
+      {conversion && (
+        <div className="border border-gray-200 rounded-md text-xs">
+          <div className="px-3 py-2 flex items-center justify-between">
+            <span className="flex items-center text-gray-700">
+              <CheckCircle size={14} className="mr-1 text-green-600" />
+              {conversion.collection.features.length} / {conversion.total} ligne(s) localisée(s)
+              {conversion.sourceSystems.length > 0 && (
+                <span className="ml-1 text-gray-500">({conversion.sourceSystems.join(', ')})</span>
+              )}
+            </span>
+            {conversion.unlocated.length > 0 && (
+              <button
+                type="button"
+                onClick={() => setShowUnlocated(!showUnlocated)}
+                className="flex items-center text-red-700"
+              >
+                <AlertTriangle size={14} className="mr-1" />
+                {conversion.unlocated.length} non localisée(s)
+                {showUnlocated ? <ChevronDown size={14} className="ml-1" /> : <ChevronRight size={14} className="ml-1" />}
+              </button>
+            )}
+          </div>
+          {showUnlocated && conversion.unlocated.length > 0 && (
+            <ul className="px-3 pb-2 max-h-40 overflow-y-auto space-y-0.5 border-t border-gray-100">
+              {conversion.unlocated.map(row => (
+                <li key={row.line}>
+                  <span className="font-mono text-gray-500">Ligne {row.line}</span> : {row.reason}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {!geometryReady && (
+        <p className="text-xs text-gray-500">
+          Sans colonnes de localisation, le fichier ne peut être stocké que comme fichier brut tabulaire.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CsvImportWizard;
@@ -0,0 +1,70 @@
+import { Layers } from 'lucide-react';
+import { GeoPackageLayer } from '../../lib/geopackage';
+
+interface GeoPackageLayerPickerProps {
+  layers: GeoPackageLayer[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  disabled?: boolean;
+}
+
+// Choix des couches vectorielles d'un GeoPackage
+const GeoPackageLayerPicker = ({ layers, selected, onChange, disabled }: GeoPackageLayerPickerProps) => {
+  const toggle = (name: string) => {
+    onChange(selected.includes(name)
+      ? selected.filter(n => n !== name)
+      : layers.filter(l => l.name === name || selected.includes(l.name)).map(l => l.name));
+  };
+
+  const allSelected = selected.length === layers.length;
+
+  return (
+    <div className="border border-gray-200 rounded-md text-xs">
+      <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 flex items-center justify-between">
+        <span className="flex items-center font-medium text-gray-700">
+          <Layers size={14} className="mr-1.5 text-green-600" />
+          {layers.length} couche(s) dans le GeoPackage
+        </span>
+        {layers.length > 1 && (
+          <button
+            type="button"
+            onClick={() => onChange(allSelected ? [] : layers.map(l => l.name))}
+            className="text-green-600 hover:text-green-700"
+            disabled={disabled}
+          >
+            {allSelected ? 'Tout désélectionner' : 'Tout sélectionner'}
+          </button>
+        )}
+      </div>
+      <ul className="max-h-40 overflow-y-auto divide-y divide-gray-100">
+        {layers.map(layer => (
+          <li key={layer.name}>
+            <label className="px-3 py-1.5 flex items-center justify-between hover:bg-gray-50 cursor-pointer">
+              <span className="flex items-center text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(layer.name)}
+                  onChange={() => toggle(layer.name)}
+                  className="mr-2 rounded text-green-600 focus:ring-green-500"
+                  disabled={disabled}
+                />
+                {layer.identifier}
+                {layer.identifier !== layer.name && (
+                  <span className="ml-1 font-mono text-gray-400">({layer.name})</span>
+                )}
+              </span>
+              <span className="text-gray-500">
+                {layer.geometryType} · {layer.featureCount} élément(s) · SRS {layer.srsId}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ul>
+      {selected.length === 0 && (
+        <p className="px-3 py-2 text-red-600">Choisissez au moins une couche.</p>
+      )}
+    </div>
+  );
+};
+
+export default GeoPackageLayerPicker;
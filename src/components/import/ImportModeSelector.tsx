@@ -0,0 +1,93 @@
+import { GitMerge, PlusCircle } from 'lucide-react';
+import { ImportMode, ImportTable, MergeOptions } from '../../types';
+import { TARGET_FIELDS } from '../../lib/importMapping';
+
+interface ImportModeSelectorProps {
+  table: ImportTable;
+  mode: ImportMode;
+  mergeOptions: MergeOptions;
+  onModeChange: (mode: ImportMode) => void;
+  onMergeOptionsChange: (options: MergeOptions) => void;
+  disabled?: boolean;
+}
+
+// Choix entre ajout systématique et fusion avec les lignes existantes
+const ImportModeSelector = ({
+  table,
+  mode,
+  mergeOptions,
+  onModeChange,
+  onMergeOptionsChange,
+  disabled
+}: ImportModeSelectorProps) => {
+  const toggleKey = (column: string) => {
+    const key = mergeOptions.key.includes(column)
+      ? mergeOptions.key.filter(c => c !== column)
+      : [...mergeOptions.key, column];
+    onMergeOptionsChange({ ...mergeOptions, key });
+  };
+
+  const modeButton = (value: ImportMode, label: string, description: string, Icon: typeof GitMerge) => (
+    <button
+      type="button"
+      onClick={() => onModeChange(value)}
+      className={`flex-1 p-2 border rounded-md text-left ${
+        mode === value ? 'border-green-600 bg-green-50' : 'border-gray-200 hover:bg-gray-50'
+      }`}
+      disabled={disabled}
+    >
+      <div className="flex items-center text-sm font-medium text-gray-700">
+        <Icon size={16} className={`mr-1.5 ${mode === value ? 'text-green-600' : 'text-gray-400'}`} />
+        {label}
+      </div>
+      <p className="text-xs text-gray-500 mt-0.5">{description}</p>
+    </button>
+  );
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">Mode d'import</label>
+      <div className="flex space-x-2">
+        {modeButton('insert', 'Ajouter', 'Chaque élément du fichier crée une nouvelle ligne', PlusCircle)}
+        {modeButton('merge', 'Fusionner', 'Met à jour les lignes existantes et ajoute les nouvelles', GitMerge)}
+      </div>
+
+      {mode === 'merge' && (
+        <div className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-md space-y-2">
+          <div>
+            <span className="text-xs font-medium text-gray-700">Clé de rapprochement</span>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {TARGET_FIELDS[table].filter(f => f.kind === 'text').map(field => (
+                <label key={field.column} className="flex items-center text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={mergeOptions.key.includes(field.column)}
+                    onChange={() => toggleKey(field.column)}
+                    className="mr-1 rounded text-green-600 focus:ring-green-500"
+                    disabled={disabled}
+                  />
+                  {field.label}
+                </label>
+              ))}
+            </div>
+            {mergeOptions.key.length === 0 && (
+              <p className="text-xs text-red-600 mt-1">Choisissez au moins une colonne.</p>
+            )}
+          </div>
+          <label className="flex items-center text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={mergeOptions.deactivateMissing}
+              onChange={(e) => onMergeOptionsChange({ ...mergeOptions, deactivateMissing: e.target.checked })}
+              className="mr-1 rounded text-green-600 focus:ring-green-500"
+              disabled={disabled}
+            />
+            Désactiver les éléments absents du fichier (statut « inactive »)
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportModeSelector;
@@ -0,0 +1,79 @@
+import { AlertTriangle, CheckCircle, Clock, Loader } from 'lucide-react';
+import { ImportBatch, ImportJob } from '../../types';
+import { getJobProgress } from '../../lib/importJobs';
+
+interface ImportProgressProps {
+  job: ImportJob;
+}
+
+const BATCH_STATUS: Record<ImportBatch['status'], { label: string; className: string }> = {
+  pending: { label: 'En attente', className: 'text-gray-500' },
+  running: { label: 'En cours', className: 'text-blue-600' },
+  inserted: { label: 'Inséré', className: 'text-green-700' },
+  failed: { label: 'Échec', className: 'text-red-700' },
+};
+
+const BatchIcon = ({ status }: { status: ImportBatch['status'] }) => {
+  if (status === 'inserted') return <CheckCircle size={12} className="mr-1" />;
+  if (status === 'failed') return <AlertTriangle size={12} className="mr-1" />;
+  if (status === 'running') return <Loader size={12} className="mr-1 animate-spin" />;
+  return <Clock size={12} className="mr-1" />;
+};
+
+// Progression d'un import par lots et bilan lot par lot
+const ImportProgress = ({ job }: ImportProgressProps) => {
+  const { inserted, failed } = getJobProgress(job);
+  const insertedPercent = job.total > 0 ? Math.round((inserted / job.total) * 100) : 100;
+  const failedPercent = job.total > 0 ? Math.round((failed / job.total) * 100) : 0;
+
+  return (
+    <div className="border border-gray-200 rounded-md text-xs">
+      <div className="p-3 bg-gray-50 border-b border-gray-200 space-y-2">
+        <div className="flex justify-between">
+          <span className="font-medium text-gray-700">
+            {inserted} / {job.total} ligne(s) insérée(s)
+          </span>
+          {failed > 0 && <span className="text-red-700">{failed} en échec</span>}
+        </div>
+        <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden flex">
+          <div className="h-full bg-green-500 transition-all" style={{ width: `${insertedPercent}%` }} />
+          <div className="h-full bg-red-400 transition-all" style={{ width: `${failedPercent}%` }} />
+        </div>
+      </div>
+      <div className="max-h-40 overflow-y-auto">
+        <table className="min-w-full">
+          <thead className="bg-white sticky top-0">
+            <tr className="text-left text-gray-500">
+              <th className="px-2 py-1">Lot</th>
+              <th className="px-2 py-1">Lignes</th>
+              <th className="px-2 py-1">Statut</th>
+              <th className="px-2 py-1">Insérées</th>
+              <th className="px-2 py-1">Détail</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {job.batches.map(batch => (
+              <tr key={batch.index} className={batch.status === 'failed' ? 'bg-red-50' : ''}>
+                <td className="px-2 py-1 text-gray-500">{batch.index + 1}</td>
+                <td className="px-2 py-1">{batch.start + 1}–{batch.end}</td>
+                <td className={`px-2 py-1 ${BATCH_STATUS[batch.status].className}`}>
+                  <span className="flex items-center">
+                    <BatchIcon status={batch.status} />
+                    {BATCH_STATUS[batch.status].label}
+                  </span>
+                </td>
+                <td className="px-2 py-1">{batch.inserted} / {batch.end - batch.start}</td>
+                <td className="px-2 py-1 text-red-700">
+                  {batch.error}
+                  {batch.attempts > 1 && <span className="text-gray-500"> ({batch.attempts} tentatives)</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ImportProgress;
@@ -0,0 +1,91 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { MergeDiff, MergeRecord } from '../../types';
+
+interface MergeDiffViewProps {
+  diff: MergeDiff;
+}
+
+type Section = 'added' | 'changed' | 'removed';
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '∅' : String(value);
+
+// Différences entre un ré-import et les lignes existantes
+const MergeDiffView = ({ diff }: MergeDiffViewProps) => {
+  const [openSection, setOpenSection] = useState<Section | null>('changed');
+
+  const toggle = (section: Section) => setOpenSection(openSection === section ? null : section);
+
+  const header = (section: Section, label: string, count: number, className: string) => (
+    <button
+      type="button"
+      onClick={() => toggle(section)}
+      className="w-full px-3 py-2 flex items-center justify-between hover:bg-gray-50"
+      disabled={count === 0}
+    >
+      <span className="flex items-center">
+        {openSection === section && count > 0
+          ? <ChevronDown size={14} className="mr-1" />
+          : <ChevronRight size={14} className="mr-1" />}
+        {label}
+      </span>
+      <span className={`px-2 py-0.5 rounded font-medium ${className}`}>{count}</span>
+    </button>
+  );
+
+  const recordList = (records: MergeRecord[]) => (
+    <ul className="px-3 pb-2 max-h-32 overflow-y-auto space-y-0.5">
+      {records.map(r => (
+        <li key={r.key} className="flex justify-between">
+          <span>{r.name || '—'}</span>
+          <span className="font-mono text-gray-400">{r.key}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="border border-gray-200 rounded-md text-xs divide-y divide-gray-100">
+      <div className="px-3 py-2 bg-gray-50 text-gray-600">
+        Fusion sur <span className="font-mono">{diff.key.join(' + ')}</span> — {diff.unchanged} ligne(s) inchangée(s)
+      </div>
+
+      {header('added', 'Nouvelles lignes', diff.added.length, 'bg-green-100 text-green-800')}
+      {openSection === 'added' && recordList(diff.added)}
+
+      {header('changed', 'Lignes modifiées', diff.changed.length, 'bg-blue-100 text-blue-800')}
+      {openSection === 'changed' && (
+        <div className="px-3 pb-2 max-h-48 overflow-y-auto space-y-2">
+          {diff.changed.map(record => (
+            <div key={record.key}>
+              <div className="font-medium text-gray-700">
+                {record.name || '—'} <span className="font-mono text-gray-400">{record.key}</span>
+              </div>
+              <ul className="ml-3">
+                {Object.entries(record.changes).map(([column, { before, after }]) => (
+                  <li key={column}>
+                    <span className="font-mono text-gray-500">{column}</span> :{' '}
+                    <span className="line-through text-red-600">{formatValue(before)}</span> →{' '}
+                    <span className="text-green-700">{formatValue(after)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {diff.deactivateMissing
+        ? header('removed', 'Absentes du fichier, à désactiver', diff.removed.length, 'bg-red-100 text-red-800')
+        : (
+          <div className="px-3 py-2 text-gray-500">
+            Les lignes absentes du fichier sont conservées telles quelles.
+          </div>
+        )}
+      {diff.deactivateMissing && openSection === 'removed' && recordList(diff.removed)}
+    </div>
+  );
+};
+
+export default MergeDiffView;
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Check, Database, FileText, Plus, Search, X } from 'lucide-react';
+import { DatasetMetadata } from '../../types';
+import { fetchDatasetRegistry } from '../../lib/supabase';
+
+interface AddLayerDialogProps {
+  // Jeux déjà ouverts sur la carte
+  openDatasetIds: string[];
+  onAdd: (dataset: DatasetMetadata) => Promise<void>;
+  onClose: () => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// Ajout d'une couche : couches métier (tables) et jeux du catalogue visualisables
+const AddLayerDialog = ({ openDatasetIds, onAdd, onClose }: AddLayerDialogProps) => {
+  const [query, setQuery] = useState('');
+  const [datasets, setDatasets] = useState<DatasetMetadata[] | null>(null);
+  const [addingId, setAddingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      fetchDatasetRegistry({ query })
+        .then(result => {
+          // Les PDF n'ont pas de géométrie à afficher
+          if (!cancelled) setDatasets(result.filter(d => d.format !== 'PDF'));
+        })
+        .catch(err => {
+          if (cancelled) return;
+          setDatasets([]);
+          setError(err instanceof Error ? err.message : String(err));
+        });
+    }, SEARCH_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const handleAdd = async (dataset: DatasetMetadata) => {
+    setAddingId(dataset.id);
+    setError(null);
+    try {
+      await onAdd(dataset);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setAddingId(null);
+    }
+  };
+
+  const sections = [
+    { title: 'Couches métier', icon: Database, items: (datasets || []).filter(d => d.storage === 'table') },
+    { title: 'Catalogue', icon: FileText, items: (datasets || []).filter(d => d.storage !== 'table') },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-medium">Ajouter une couche</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-4 border-b">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+              <Search size={16} className="text-gray-400" />
+            </div>
+            <input
+              type="text"
+              className="w-full pl-10 pr-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+              placeholder="Rechercher dans le catalogue..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              autoFocus
+            />
+          </div>
+          {error && (
+            <div className="flex items-center p-3 mt-3 bg-red-50 rounded-md">
+              <AlertCircle size={16} className="text-red-500 mr-2 flex-shrink-0" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {datasets === null ? (
+            <div className="text-sm text-gray-500 animate-pulse">Chargement du catalogue...</div>
+          ) : (
+            sections.map(section => (
+              <div key={section.title}>
+                <h4 className="text-sm font-medium text-green-600 mb-2 flex items-center">
+                  <section.icon size={14} className="mr-1.5" />
+                  {section.title}
+                </h4>
+                {section.items.length === 0 ? (
+                  <p className="text-xs text-gray-500">Aucun jeu ne correspond à la recherche.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+                    {section.items.map(dataset => {
+                      const isOpen = openDatasetIds.includes(dataset.id);
+                      return (
+                        <li key={dataset.id} className="flex items-center px-3 py-2">
+                          <div className="flex-1 min-w-0">
+                            <div className="text-sm text-gray-800 truncate">{dataset.name}</div>
+                            <div className="text-xs text-gray-500">
+                              {dataset.format} · {dataset.category}
+                              {dataset.featureCount !== undefined && ` · ${dataset.featureCount} entité(s)`}
+                            </div>
+                          </div>
+                          {isOpen ? (
+                            <span className="text-xs text-green-600 flex items-center ml-2">
+                              <Check size={14} className="mr-1" />
+                              Sur la carte
+                            </span>
+                          ) : (
+                            <button
+                              className="ml-2 px-2 py-1 bg-green-600 text-white rounded-md text-xs hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                              onClick={() => handleAdd(dataset)}
+                              disabled={addingId !== null}
+                            >
+                              {addingId === dataset.id ? (
+                                <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-1" />
+                              ) : (
+                                <Plus size={14} className="mr-1" />
+                              )}
+                              Ajouter
+                            </button>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AddLayerDialog;
@@ -0,0 +1,481 @@
+import { KeyboardEvent, MouseEvent as ReactMouseEvent, useEffect, useMemo, useRef, useState } from 'react';
+import type { Feature, FeatureCollection } from 'geojson';
+import {
+  AlertCircle, ArrowDown, ArrowUp, CheckCircle, ChevronDown, ChevronLeft, ChevronRight,
+  ChevronUp, Filter, RotateCcw, Save, Search, Table, X
+} from 'lucide-react';
+import { collectSourceProperties } from '../../lib/importMapping';
+import { remapFeatureIndex } from '../../lib/datasets';
+import type { AttributeEdit, ParsedAttribute } from '../../lib/datasets';
+
+interface AttributeTableProps {
+  collection: FeatureCollection;
+  selectedIndex: number | null;
+  onSelect: (index: number | null) => void;
+  // Colonnes modifiables (vide : lecture seule)
+  editableColumns: string[];
+  parseValue: (feature: Feature, property: string, text: string) => ParsedAttribute;
+  onSave: (edits: AttributeEdit[]) => Promise<void>;
+  // Modifications en attente d'enregistrement (la couche n'est pas relue entre-temps)
+  onPendingChange: (pending: boolean) => void;
+  onClose: () => void;
+}
+
+interface SortState {
+  column: string;
+  direction: 'asc' | 'desc';
+}
+
+interface EditingCell {
+  index: number;
+  column: string;
+  text: string;
+  error?: string;
+}
+
+const PAGE_SIZE = 100;
+const MIN_HEIGHT = 120;
+const MAX_HEIGHT = 600;
+
+const editKey = (index: number, column: string) => `${index}\u0000${column}`;
+
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'oui' : 'non';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const isScalar = (value: unknown) => value === null || value === undefined || typeof value !== 'object';
+
+// Valeurs vides en dernier, nombres comparés numériquement
+const compareValues = (a: unknown, b: unknown) => {
+  const emptyA = a === null || a === undefined || a === '';
+  const emptyB = b === null || b === undefined || b === '';
+  if (emptyA || emptyB) return Number(emptyA) - Number(emptyB);
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return formatValue(a).localeCompare(formatValue(b), 'fr', { numeric: true, sensitivity: 'base' });
+};
+
+// Filtre de colonne : texte contenu, ou comparaison numérique (>10, <=5, =3)
+const matchesFilter = (value: unknown, filter: string) => {
+  const comparison = filter.trim().match(/^(>=|<=|>|<|=)\s*(-?\d+(?:[.,]\d+)?)$/);
+  if (comparison) {
+    const n = typeof value === 'number' ? value : Number(formatValue(value).replace(',', '.'));
+    const target = Number(comparison[2].replace(',', '.'));
+    if (formatValue(value) === '' || !Number.isFinite(n)) return false;
+    switch (comparison[1]) {
+      case '>': return n > target;
+      case '<': return n < target;
+      case '>=': return n >= target;
+      case '<=': return n <= target;
+      default: return n === target;
+    }
+  }
+  return normalize(formatValue(value)).includes(normalize(filter.trim()));
+};
+
+// Table attributaire ancrée sous la carte : tri, filtres, sélection synchronisée
+// avec la carte et modification des cellules (double-clic) pour les jeux modifiables
+const AttributeTable = ({
+  collection,
+  selectedIndex,
+  onSelect,
+  editableColumns,
+  parseValue,
+  onSave,
+  onPendingChange,
+  onClose
+}: AttributeTableProps) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const [height, setHeight] = useState(260);
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [search, setSearch] = useState('');
+  const [showFilters, setShowFilters] = useState(false);
+  const [columnFilters, setColumnFilters] = useState<Record<string, string>>({});
+  const [page, setPage] = useState(0);
+  const [edits, setEdits] = useState<Map<string, AttributeEdit>>(new Map());
+  const [editing, setEditing] = useState<EditingCell | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const rowRefs = useRef(new Map<number, HTMLTableRowElement>());
+  const previousCollection = useRef(collection);
+
+  const columns = useMemo(() => collectSourceProperties(collection.features), [collection]);
+
+  // Collection relue : modifications en cours reportées sur les mêmes entités (par
+  // identifiant), abandonnées pour celles qui n'y figurent plus
+  useEffect(() => {
+    const previous = previousCollection.current;
+    previousCollection.current = collection;
+    if (previous === collection) return;
+    setEdits(current => {
+      const next = new Map<string, AttributeEdit>();
+      current.forEach(edit => {
+        const index = remapFeatureIndex(previous, collection, edit.featureIndex);
+        if (index !== null) next.set(editKey(index, edit.property), { ...edit, featureIndex: index });
+      });
+      return next;
+    });
+    setEditing(current => {
+      const index = current && remapFeatureIndex(previous, collection, current.index);
+      return current && index !== null ? { ...current, index } : null;
+    });
+  }, [collection]);
+
+  const hasEdits = edits.size > 0;
+  useEffect(() => {
+    onPendingChange(hasEdits);
+  }, [hasEdits, onPendingChange]);
+  useEffect(() => () => onPendingChange(false), [onPendingChange]);
+
+  const valueOf = (index: number, column: string) => {
+    const edit = edits.get(editKey(index, column));
+    return edit ? edit.value : collection.features[index].properties?.[column];
+  };
+
+  const rows = useMemo(() => {
+    const valueAt = (index: number, column: string) => {
+      const edit = edits.get(editKey(index, column));
+      return edit ? edit.value : collection.features[index].properties?.[column];
+    };
+    const activeFilters = Object.entries(columnFilters).filter(([, filter]) => filter.trim() !== '');
+    const query = normalize(search.trim());
+    const indices = collection.features.map((_, index) => index).filter(index =>
+      (!query || columns.some(column => normalize(formatValue(valueAt(index, column))).includes(query)))
+      && activeFilters.every(([column, filter]) => matchesFilter(valueAt(index, column), filter))
+    );
+    if (sort) {
+      const factor = sort.direction === 'asc' ? 1 : -1;
+      indices.sort((a, b) => compareValues(valueAt(a, sort.column), valueAt(b, sort.column)) * factor || a - b);
+    }
+    return indices;
+  }, [collection, columns, columnFilters, edits, search, sort]);
+
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  // Rang de l'entité sélectionnée parmi les lignes filtrées et triées
+  const selectedPosition = useMemo(
+    () => (selectedIndex === null ? -1 : rows.indexOf(selectedIndex)),
+    [rows, selectedIndex]
+  );
+
+  // Entité sélectionnée sur la carte : page correspondante et ligne visible
+  useEffect(() => {
+    if (selectedIndex === null || selectedPosition === -1) return;
+    setPage(Math.floor(selectedPosition / PAGE_SIZE));
+    requestAnimationFrame(() => rowRefs.current.get(selectedIndex)?.scrollIntoView({ block: 'nearest' }));
+  }, [selectedIndex, selectedPosition]);
+
+  const toggleSort = (column: string) => {
+    setSort(current => {
+      if (current?.column !== column) return { column, direction: 'asc' };
+      return current.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const startEditing = (index: number, column: string) => {
+    const value = valueOf(index, column);
+    if (!editableColumns.includes(column) || !isScalar(value) || isSaving) return;
+    setEditing({ index, column, text: formatValue(value) });
+  };
+
+  const commitEditing = () => {
+    if (!editing) return;
+    const { index, column, text } = editing;
+    const feature = collection.features[index];
+    if (text === formatValue(valueOf(index, column))) {
+      setEditing(null);
+      return;
+    }
+    const parsed = parseValue(feature, column, text);
+    if (parsed.error) {
+      setEditing({ ...editing, error: parsed.error });
+      return;
+    }
+    setEdits(current => {
+      const next = new Map(current);
+      const key = editKey(index, column);
+      // Retour à la valeur d'origine : plus rien à enregistrer
+      if (JSON.stringify(parsed.value ?? null) === JSON.stringify(feature.properties?.[column] ?? null)) next.delete(key);
+      else next.set(key, { featureIndex: index, property: column, value: parsed.value });
+      return next;
+    });
+    setEditing(null);
+    setStatus(null);
+  };
+
+  const handleEditKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') commitEditing();
+    if (e.key === 'Escape') setEditing(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setStatus(null);
+    setError(null);
+    try {
+      const count = edits.size;
+      await onSave(Array.from(edits.values()));
+      setEdits(new Map());
+      setEditing(null);
+      setStatus(`${count} modification(s) enregistrée(s).`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancelEdits = () => {
+    setEdits(new Map());
+    setEditing(null);
+    setError(null);
+  };
+
+  // Redimensionnement par la poignée du haut
+  const startResize = (e: ReactMouseEvent) => {
+    e.preventDefault();
+    const startY = e.clientY;
+    const startHeight = height;
+    const handleMove = (event: MouseEvent) => {
+      setHeight(Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, startHeight + startY - event.clientY)));
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const filtered = rows.length !== collection.features.length;
+  const canEdit = editableColumns.length > 0;
+
+  return (
+    <div className="border-t border-gray-200 bg-white flex flex-col" style={{ height: collapsed ? undefined : height }}>
+      {!collapsed && <div className="h-1.5 cursor-row-resize hover:bg-green-100 flex-shrink-0" onMouseDown={startResize} />}
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-200 flex-shrink-0">
+        <div className="flex items-center space-x-3">
+          <div className="flex items-center text-sm font-medium text-green-600">
+            <Table size={16} className="mr-1.5" />
+            Table attributaire
+          </div>
+          <span className="text-xs text-gray-500">
+            {filtered ? `${rows.length} / ${collection.features.length}` : collection.features.length} entité(s)
+            {!canEdit && ' — lecture seule'}
+          </span>
+        </div>
+        <div className="flex items-center space-x-2">
+          {!collapsed && (
+            <>
+              <div className="relative">
+                <div className="absolute inset-y-0 left-0 pl-2 flex items-center pointer-events-none">
+                  <Search size={14} className="text-gray-400" />
+                </div>
+                <input
+                  type="text"
+                  className="w-48 pl-7 pr-2 py-1 border border-gray-300 rounded-md text-xs focus:outline-none focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                  placeholder="Filtrer toutes les colonnes..."
+                  value={search}
+                  onChange={(e) => {
+                    setSearch(e.target.value);
+                    setPage(0);
+                  }}
+                />
+              </div>
+              <button
+                className={`p-1 rounded ${showFilters ? 'bg-green-50 text-green-600' : 'text-gray-500 hover:text-gray-700'}`}
+                onClick={() => setShowFilters(!showFilters)}
+                title="Filtres par colonne"
+              >
+                <Filter size={16} />
+              </button>
+              {(search || Object.values(columnFilters).some(Boolean)) && (
+                <button
+                  className="text-xs text-gray-500 hover:text-gray-700"
+                  onClick={() => {
+                    setSearch('');
+                    setColumnFilters({});
+                    setPage(0);
+                  }}
+                >
+                  Effacer les filtres
+                </button>
+              )}
+              {edits.size > 0 && (
+                <>
+                  <button
+                    className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800 flex items-center disabled:opacity-50"
+                    onClick={handleCancelEdits}
+                    disabled={isSaving}
+                  >
+                    <RotateCcw size={14} className="mr-1" />
+                    Annuler
+                  </button>
+                  <button
+                    className="px-2 py-1 bg-green-600 text-white rounded-md text-xs hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+                    onClick={handleSave}
+                    disabled={isSaving || editing !== null}
+                  >
+                    {isSaving ? (
+                      <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-1"></div>
+                    ) : (
+                      <Save size={14} className="mr-1" />
+                    )}
+                    Enregistrer ({edits.size})
+                  </button>
+                </>
+              )}
+            </>
+          )}
+          <button
+            className="p-1 text-gray-500 hover:text-gray-700"
+            onClick={() => setCollapsed(!collapsed)}
+            title={collapsed ? 'Déplier' : 'Replier'}
+          >
+            {collapsed ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          </button>
+          <button
+            className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-50"
+            onClick={onClose}
+            disabled={isSaving}
+            title="Fermer la table"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <>
+          {(status || error) && (
+            <div className={`flex items-center px-3 py-1.5 text-xs flex-shrink-0 ${error ? 'bg-red-50 text-red-700' : 'bg-blue-50 text-blue-700'}`}>
+              {error
+                ? <AlertCircle size={14} className="text-red-500 mr-2" />
+                : <CheckCircle size={14} className="text-blue-500 mr-2" />}
+              {error || status}
+            </div>
+          )}
+          <div className="flex-1 overflow-auto">
+            <table className="min-w-full text-xs">
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  <th className="px-2 py-1.5 text-left font-medium text-gray-400 w-10">#</th>
+                  {columns.map(column => (
+                    <th key={column} className="px-2 py-1.5 text-left font-medium text-green-600 whitespace-nowrap">
+                      <button className="flex items-center hover:text-green-700" onClick={() => toggleSort(column)}>
+                        {column}
+                        {sort?.column === column && (
+                          sort.direction === 'asc'
+                            ? <ArrowUp size={12} className="ml-1" />
+                            : <ArrowDown size={12} className="ml-1" />
+                        )}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+                {showFilters && (
+                  <tr>
+                    <th />
+                    {columns.map(column => (
+                      <th key={column} className="px-1 pb-1.5">
+                        <input
+                          type="text"
+                          className="w-full min-w-[5rem] px-1.5 py-0.5 border border-gray-300 rounded text-xs font-normal focus:outline-none focus:ring-1 focus:ring-green-500"
+                          placeholder="Filtre"
+                          title="Texte contenu, ou comparaison numérique : >10, <=5, =3"
+                          value={columnFilters[column] || ''}
+                          onChange={(e) => {
+                            setColumnFilters(current => ({ ...current, [column]: e.target.value }));
+                            setPage(0);
+                          }}
+                        />
+                      </th>
+                    ))}
+                  </tr>
+                )}
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {pageRows.map(index => (
+                  <tr
+                    key={index}
+                    ref={(el) => {
+                      if (el) rowRefs.current.set(index, el);
+                      else rowRefs.current.delete(index);
+                    }}
+                    className={`cursor-pointer ${index === selectedIndex ? 'bg-yellow-50' : 'hover:bg-gray-50'}`}
+                    onClick={() => onSelect(index === selectedIndex ? null : index)}
+                  >
+                    <td className="px-2 py-1 text-gray-400">{index + 1}</td>
+                    {columns.map(column => {
+                      const isEditing = editing?.index === index && editing.column === column;
+                      const edited = edits.has(editKey(index, column));
+                      const editable = canEdit && editableColumns.includes(column);
+                      return (
+                        <td
+                          key={column}
+                          className={`px-2 py-1 whitespace-nowrap max-w-xs truncate ${edited ? 'bg-green-50 text-green-800 font-medium' : 'text-gray-700'}`}
+                          title={editable ? 'Double-clic pour modifier' : undefined}
+                          onDoubleClick={() => startEditing(index, column)}
+                        >
+                          {isEditing ? (
+                            <div onClick={(e) => e.stopPropagation()}>
+                              <input
+                                type="text"
+                                autoFocus
+                                className={`w-full min-w-[6rem] px-1 py-0.5 border rounded text-xs focus:outline-none focus:ring-1 ${
+                                  editing.error ? 'border-red-400 focus:ring-red-500' : 'border-green-400 focus:ring-green-500'
+                                }`}
+                                value={editing.text}
+                                onChange={(e) => setEditing({ ...editing, text: e.target.value, error: undefined })}
+                                onKeyDown={handleEditKeyDown}
+                                onBlur={commitEditing}
+                              />
+                              {editing.error && <div className="text-red-600 mt-0.5 whitespace-normal">{editing.error}</div>}
+                            </div>
+                          ) : (
+                            formatValue(valueOf(index, column))
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length === 0 && (
+              <div className="p-4 text-center text-xs text-gray-500">Aucune entité ne correspond aux filtres.</div>
+            )}
+          </div>
+          {pageCount > 1 && (
+            <div className="flex items-center justify-end px-3 py-1 border-t border-gray-200 text-xs text-gray-600 flex-shrink-0">
+              <button
+                className="p-0.5 disabled:opacity-30"
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+              >
+                <ChevronLeft size={14} />
+              </button>
+              <span className="mx-2">Page {currentPage + 1} / {pageCount}</span>
+              <button
+                className="p-0.5 disabled:opacity-30"
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+              >
+                <ChevronRight size={14} />
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AttributeTable;
@@ -0,0 +1,51 @@
+import { Move, PenLine, Plus, Spline, Trash2, X } from 'lucide-react';
+import { EditTool, ImportTable } from '../../types';
+import { EDIT_TABLES, isLineTable } from '../../lib/featureEditing';
+
+interface EditToolbarProps {
+  table: ImportTable;
+  tool: EditTool | null;
+  onTableChange: (table: ImportTable) => void;
+  onToolChange: (tool: EditTool | null) => void;
+  onClose: () => void;
+}
+
+// Barre d'édition des tables métier : table éditée et outil (ajout ou tracé,
+// déplacement ou remodelage, suppression) ; un second clic désactive l'outil
+const EditToolbar = ({ table, tool, onTableChange, onToolChange, onClose }: EditToolbarProps) => {
+  const isLine = isLineTable(table);
+  const tools: { value: EditTool; label: string; icon: typeof Plus }[] = [
+    { value: 'create', label: isLine ? 'Tracer' : 'Ajouter', icon: isLine ? PenLine : Plus },
+    { value: 'modify', label: isLine ? 'Remodeler' : 'Déplacer', icon: isLine ? Spline : Move },
+    { value: 'delete', label: 'Supprimer', icon: Trash2 },
+  ];
+
+  return (
+    <div className="absolute z-[1000] top-3 left-1/2 -translate-x-1/2 bg-white rounded-lg shadow-md p-1.5 flex items-center space-x-1">
+      <select
+        className="px-2 py-1 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+        value={table}
+        onChange={(e) => onTableChange(e.target.value as ImportTable)}
+      >
+        {EDIT_TABLES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+      </select>
+      {tools.map(({ value, label, icon: Icon }) => (
+        <button
+          key={value}
+          className={`px-2 py-1 rounded-md text-sm flex items-center ${
+            tool === value ? 'bg-green-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+          }`}
+          onClick={() => onToolChange(tool === value ? null : value)}
+        >
+          <Icon size={14} className="mr-1" />
+          {label}
+        </button>
+      ))}
+      <button className="p-1 text-gray-400 hover:text-gray-600" onClick={onClose} title="Quitter l'édition">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default EditToolbar;
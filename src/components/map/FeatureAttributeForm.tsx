@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Save, X } from 'lucide-react';
+import { Commune, EditableGeometry, ImportTable } from '../../types';
+import { fetchCommunes } from '../../lib/supabase';
+import { TARGET_FIELDS } from '../../lib/importMapping';
+import { EDIT_TABLES, createTableFeature, initialAttributes, isLineTable, validateAttributes } from '../../lib/featureEditing';
+import { formatDistance, geometryLength } from '../../lib/measurement';
+
+interface FeatureAttributeFormProps {
+  table: ImportTable;
+  geometry: EditableGeometry;
+  onSaved: (id: string) => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500';
+
+// Attributs d'un élément saisi sur la carte : un champ par colonne de la table,
+// validé d'après ses contraintes avant l'enregistrement
+const FeatureAttributeForm = ({ table, geometry, onSaved, onClose }: FeatureAttributeFormProps) => {
+  const [values, setValues] = useState(() => initialAttributes(table, geometry));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [communes, setCommunes] = useState<Commune[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCommunes()
+      .then(setCommunes)
+      .catch(err => setError(err instanceof Error ? err.message : String(err)));
+  }, []);
+
+  const update = (column: string, value: string) => {
+    setValues(current => ({ ...current, [column]: value }));
+    setErrors(current => ({ ...current, [column]: '' }));
+  };
+
+  const handleSave = async () => {
+    const validation = validateAttributes(table, values);
+    setErrors(validation.errors);
+    if (Object.keys(validation.errors).length > 0) {
+      setError(`${Object.keys(validation.errors).length} champ(s) à compléter ou corriger.`);
+      return;
+    }
+    setIsSaving(true);
+    setError(null);
+    try {
+      onSaved(await createTableFeature(table, validation.row, geometry));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const tableLabel = EDIT_TABLES.find(t => t.value === table)?.label;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <div>
+            <h3 className="text-lg font-medium">Nouvel élément — {tableLabel}</h3>
+            {isLineTable(table) && (
+              <p className="text-xs text-gray-500 mt-0.5">
+                Tracé de {formatDistance(geometryLength(geometry))}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500" disabled={isSaving}>
+            <X size={20} />
+          </button>
+        </div>
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {TARGET_FIELDS[table].map(field => (
+            <div key={field.column}>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {field.column === 'commune_id' ? 'Commune' : field.label}
+                {field.required && <span className="text-red-500"> *</span>}
+              </label>
+              {field.column === 'commune_id' ? (
+                <select className={INPUT_CLASS} value={values.commune_id} onChange={(e) => update('commune_id', e.target.value)}>
+                  <option value="">Choisir une commune…</option>
+                  {communes.map(commune => <option key={commune.id} value={commune.id}>{commune.name}</option>)}
+                </select>
+              ) : field.kind === 'enum' ? (
+                <select className={INPUT_CLASS} value={values[field.column]} onChange={(e) => update(field.column, e.target.value)}>
+                  {!field.required && <option value="">—</option>}
+                  {field.options?.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+              ) : (
+                <input
+                  type={field.kind === 'date' ? 'date' : 'text'}
+                  inputMode={field.kind === 'number' ? 'decimal' : undefined}
+                  className={INPUT_CLASS}
+                  value={values[field.column]}
+                  onChange={(e) => update(field.column, e.target.value)}
+                />
+              )}
+              {errors[field.column] && <p className="text-xs text-red-600 mt-1">{errors[field.column]}</p>}
+            </div>
+          ))}
+
+          {error && (
+            <div className="flex items-center p-3 bg-red-50 rounded-md">
+              <AlertCircle size={16} className="text-red-500 mr-2 flex-shrink-0" />
+              <span className="text-sm text-red-700">{error}</span>
+            </div>
+          )}
+        </div>
+        <div className="flex justify-end space-x-2 p-4 border-t">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-800"
+            disabled={isSaving}
+          >
+            Annuler
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+            disabled={isSaving}
+          >
+            {isSaving ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+            ) : (
+              <Save size={16} className="mr-2" />
+            )}
+            Enregistrer
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FeatureAttributeForm;
@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import type { Feature, FeatureCollection } from 'geojson';
+
+interface ImportPreviewMapProps {
+  data: FeatureCollection;
+  height?: number;
+  // Couleur par feature (comparaison de versions), vert par défaut
+  colorOf?: (feature: Feature) => string;
+}
+
+const DEFAULT_COLOR = '#059669';
+
+// Carte d'aperçu des lignes acceptées d'un import, avant insertion
+const ImportPreviewMap = ({ data, height = 220, colorOf }: ImportPreviewMapProps) => {
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const map = useRef<L.Map | null>(null);
+  const layerRef = useRef<L.GeoJSON | null>(null);
+
+  // Initialisation de la carte
+  useEffect(() => {
+    if (!mapContainer.current || map.current) return;
+
+    map.current = L.map(mapContainer.current, {
+      center: [14.7167, -17.4677],
+      zoom: 11,
+      maxZoom: 18,
+      minZoom: 3
+    });
+
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '© OpenStreetMap contributors',
+      maxZoom: 18
+    }).addTo(map.current);
+
+    return () => {
+      if (map.current) {
+        map.current.remove();
+        map.current = null;
+      }
+    };
+  }, []);
+
+  // Affichage des géométries converties
+  useEffect(() => {
+    if (!map.current) return;
+    if (layerRef.current) map.current.removeLayer(layerRef.current);
+
+    const color = (feature?: Feature) => (feature && colorOf ? colorOf(feature) : DEFAULT_COLOR);
+    layerRef.current = L.geoJSON(data, {
+      style: (feature) => ({ color: color(feature), weight: 3, opacity: 0.8, fillOpacity: 0.3 }),
+      pointToLayer: (feature, latlng) => L.circleMarker(latlng, {
+        radius: 5,
+        fillColor: color(feature),
+        color: '#fff',
+        weight: 1,
+        fillOpacity: 0.9
+      }),
+      onEachFeature: (feature, layer) => {
+        if (feature.properties?.name) layer.bindPopup(String(feature.properties.name));
+      }
+    }).addTo(map.current);
+
+    const bounds = layerRef.current.getBounds();
+    if (bounds.isValid()) map.current.fitBounds(bounds, { padding: [20, 20], maxZoom: 16 });
+  }, [data, colorOf]);
+
+  return <div ref={mapContainer} style={{ height }} className="w-full rounded-md border border-gray-200" />;
+};
+
+export default ImportPreviewMap;
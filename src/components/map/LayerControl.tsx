@@ -1,65 +1,57 @@
 import { useState } from 'react';
-import { Layers, Eye, EyeOff, X, Filter, Download } from 'lucide-react';
+import { Layers, Eye, EyeOff, X, Filter, Download, ArrowUp, ArrowDown, Plus, Palette } from 'lucide-react';
 import { MapLayer } from '../../types';
+import { LayerGeometryFilter, matchesGeometryFilter, moveLayer } from '../../lib/mapSession';
 
-// Mock layer data
-const mockLayers: MapLayer[] = [
-  {
-    id: '1',
-    name: 'Points de collecte',
-    type: 'point',
-    source: 'waste_collection_points',
-    visible: true,
-    opacity: 1,
-  },
-  {
-    id: '2',
-    name: 'Circuits de collecte',
-    type: 'line',
-    source: 'waste_collection_routes',
-    visible: true,
-    opacity: 0.8,
-  },
-  {
-    id: '3',
-    name: 'Zones de couverture',
-    type: 'polygon',
-    source: 'coverage_areas',
-    visible: false,
-    opacity: 0.6,
-  },
-  {
-    id: '4',
-    name: 'Densité de population',
-    type: 'raster',
-    source: 'population_density',
-    visible: false,
-    opacity: 0.7,
-  },
+const GEOMETRY_FILTERS: { value: LayerGeometryFilter; label: string }[] = [
+  { value: null, label: 'Tous' },
+  { value: 'point', label: 'Points' },
+  { value: 'line', label: 'Lignes' },
+  { value: 'polygon', label: 'Polygones' },
 ];
 
 interface LayerControlProps {
-  onLayerChange?: (layers: MapLayer[]) => void;
+  layers: MapLayer[];
+  activeLayerId: string | null;
+  geometryFilter: LayerGeometryFilter;
+  onGeometryFilterChange: (filter: LayerGeometryFilter) => void;
+  onActivate: (id: string) => void;
+  onChange: (layers: MapLayer[]) => void;
+  onRemove: (id: string) => void;
+  // Export des entités de la couche visibles dans l'emprise de la carte
+  onDownload: (layer: MapLayer) => void;
+  onEditStyle: (layer: MapLayer) => void;
+  onAddLayer: () => void;
 }
 
-const LayerControl = ({ onLayerChange }: LayerControlProps) => {
-  const [layers, setLayers] = useState<MapLayer[]>(mockLayers);
+// Couches de la carte, de celle du dessus à celle du dessous : visibilité, opacité,
+// ordre, symbologie et filtre par géométrie ; la couche active alimente la table
+// attributaire
+const LayerControl = ({
+  layers,
+  activeLayerId,
+  geometryFilter,
+  onGeometryFilterChange,
+  onActivate,
+  onChange,
+  onRemove,
+  onDownload,
+  onEditStyle,
+  onAddLayer
+}: LayerControlProps) => {
   const [isOpen, setIsOpen] = useState(true);
-  
-  const handleVisibilityToggle = (layerId: string) => {
-    const updatedLayers = layers.map((layer) => 
-      layer.id === layerId ? { ...layer, visible: !layer.visible } : layer
-    );
-    
-    setLayers(updatedLayers);
-    if (onLayerChange) onLayerChange(updatedLayers);
-  };
+
+  const update = (id: string, changes: Partial<MapLayer>) =>
+    onChange(layers.map(layer => (layer.id === id ? { ...layer, ...changes } : layer)));
+
+  const listedLayers = layers.filter(layer => matchesGeometryFilter(layer, geometryFilter));
 
   if (!isOpen) {
     return (
       <button
-        className="absolute z-10 top-3 right-3 bg-white p-2 rounded-full shadow-md"
+        className="absolute z-[1000] top-3 left-3 bg-white p-2 rounded-full shadow-md"
         onClick={() => setIsOpen(true)}
+        title="Couches"
       >
         <Layers size={20} className="text-gray-700" />
       </button>
@@ -67,11 +59,14 @@ const LayerControl = ({ onLayerChange }: LayerControlProps) => {
   }
 
   return (
-    <div className="absolute z-10 top-3 right-3 w-64 bg-white rounded-lg shadow-md overflow-hidden">
+    <div className="absolute z-[1000] top-3 left-3 w-72 bg-white rounded-lg shadow-md overflow-hidden">
       <div className="flex items-center justify-between p-3 border-b border-gray-200">
         <div className="flex items-center">
-          <Layers size={18} className="text-primary-600 mr-2" />
+          <Layers size={18} className="text-green-600 mr-2" />
           <h3 className="font-medium">Couches</h3>
+          <span className="text-xs text-gray-500 ml-2">
+            {geometryFilter ? `${listedLayers.length}/${layers.length}` : layers.length}
+          </span>
         </div>
         <button
           onClick={() => setIsOpen(false)}
@@ -80,80 +75,140 @@ const LayerControl = ({ onLayerChange }: LayerControlProps) => {
           <X size={18} className="text-gray-500" />
         </button>
       </div>
-      
+
       <div className="p-3 border-b border-gray-200 bg-gray-50">
         <div className="flex items-center justify-between mb-2">
           <div className="flex items-center">
             <Filter size={16} className="text-gray-500 mr-1" />
             <span className="text-sm text-gray-700">Filtres</span>
           </div>
-          <button className="text-xs text-primary-600 hover:text-primary-700">
+          <button
+            className="text-xs text-green-600 hover:text-green-700 disabled:opacity-50"
+            onClick={() => onGeometryFilterChange(null)}
+            disabled={geometryFilter === null}
+          >
             Réinitialiser
           </button>
         </div>
         <div className="flex space-x-2">
-          <button className="px-2 py-1 text-xs bg-gray-200 rounded-md hover:bg-gray-300">
-            Tous
-          </button>
-          <button className="px-2 py-1 text-xs bg-primary-100 text-primary-700 rounded-md">
-            Points
-          </button>
-          <button className="px-2 py-1 text-xs bg-gray-200 rounded-md hover:bg-gray-300">
-            Lignes
-          </button>
-          <button className="px-2 py-1 text-xs bg-gray-200 rounded-md hover:bg-gray-300">
-            Polygones
-          </button>
+          {GEOMETRY_FILTERS.map(filter => (
+            <button
+              key={filter.label}
+              className={`px-2 py-1 text-xs rounded-md ${
+                geometryFilter === filter.value
+                  ? 'bg-green-100 text-green-700'
+                  : 'bg-gray-200 hover:bg-gray-300'
+              }`}
+              onClick={() => onGeometryFilterChange(filter.value)}
+            >
+              {filter.label}
+            </button>
+          ))}
         </div>
       </div>
-      
+
       <div className="max-h-72 overflow-y-auto">
-        {layers.map((layer) => (
-          <div 
-            key={layer.id}
-            className="p-3 border-b border-gray-200 hover:bg-gray-50"
-          >
-            <div className="flex items-center justify-between">
+        {listedLayers.length === 0 && (
+          <p className="p-3 text-xs text-gray-500">
+            {layers.length === 0
+              ? 'Aucune couche : ajoutez une couche métier ou un jeu du catalogue.'
+              : 'Aucune couche de ce type sur la carte.'}
+          </p>
+        )}
+        {listedLayers.map((layer) => {
+          const index = layers.indexOf(layer);
+          return (
+            <div
+              key={layer.id}
+              className={`p-3 border-b border-gray-200 ${layer.id === activeLayerId ? 'bg-green-50' : 'hover:bg-gray-50'}`}
+            >
               <div className="flex items-center">
                 <button
-                  onClick={() => handleVisibilityToggle(layer.id)}
-                  className={`p-1 rounded-full mr-2 ${
-                    layer.visible ? 'text-primary-600' : 'text-gray-400'
-                  }`}
+                  onClick={() => update(layer.id, { visible: !layer.visible })}
+                  className={`p-1 rounded-full mr-1 ${layer.visible ? 'text-green-600' : 'text-gray-400'}`}
+                  title={layer.visible ? 'Masquer' : 'Afficher'}
                 >
                   {layer.visible ? <Eye size={16} /> : <EyeOff size={16} />}
                 </button>
-                <span className="text-sm font-medium">{layer.name}</span>
-              </div>
-              <div className="flex items-center">
-                <Download size={16} className="text-gray-500 hover:text-gray-700 cursor-pointer" />
+                <button
+                  className="flex-1 min-w-0 text-left"
+                  onClick={() => onActivate(layer.id)}
+                  title="Afficher dans la table attributaire"
+                >
+                  <div className="text-sm font-medium text-gray-800 truncate">{layer.name}</div>
+                  <div className="text-xs text-gray-500">{layer.data?.features.length ?? 0} entité(s)</div>
+                </button>
+                <button
+                  className="p-0.5 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  onClick={() => onChange(moveLayer(layers, layer.id, -1))}
+                  disabled={index === 0}
+                  title="Monter"
+                >
+                  <ArrowUp size={14} />
+                </button>
+                <button
+                  className="p-0.5 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  onClick={() => onChange(moveLayer(layers, layer.id, 1))}
+                  disabled={index === layers.length - 1}
+                  title="Descendre"
+                >
+                  <ArrowDown size={14} />
+                </button>
+                <button
+                  className="p-0.5 ml-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  onClick={() => onEditStyle(layer)}
+                  disabled={!layer.data}
+                  title="Symbologie"
+                >
+                  <Palette size={14} />
+                </button>
+                <button
+                  className="p-0.5 ml-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                  onClick={() => onDownload(layer)}
+                  disabled={!layer.visible || !layer.data}
+                  title="Télécharger les entités visibles"
+                >
+                  <Download size={14} />
+                </button>
+                <button
+                  className="p-0.5 ml-1 text-gray-400 hover:text-red-600"
+                  onClick={() => onRemove(layer.id)}
+                  title="Retirer de la carte"
+                >
+                  <X size={14} />
+                </button>
               </div>
-            </div>
-            
-            {layer.visible && (
-              <div className="mt-2 pl-7">
-                <div className="flex items-center">
-                  <span className="text-xs text-gray-500 w-14">Opacité:</span>
-                  <input
-                    type="range"
-                    min="0"
-                    max="1"
-                    step="0.1"
-                    value={layer.opacity}
-                    className="flex-1 h-1.5 bg-gray-200 rounded-full appearance-none"
-                  />
-                  <span className="text-xs text-gray-600 ml-2 w-7">
-                    {Math.round(layer.opacity * 100)}%
-                  </span>
+
+              {layer.visible && (
+                <div className="mt-2 pl-7">
+                  <div className="flex items-center">
+                    <span className="text-xs text-gray-500 w-14">Opacité:</span>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.1"
+                      value={layer.opacity}
+                      onChange={(e) => update(layer.id, { opacity: Number(e.target.value) })}
+                      className="flex-1 h-1.5 accent-green-600"
+                    />
+                    <span className="text-xs text-gray-600 ml-2 w-8 text-right">
+                      {Math.round(layer.opacity * 100)}%
+                    </span>
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
-        ))}
+              )}
+            </div>
+          );
+        })}
       </div>
-      
+
       <div className="p-3 bg-gray-50 text-center">
-        <button className="text-sm text-primary-600 hover:text-primary-700 font-medium">
+        <button
+          className="text-sm text-green-600 hover:text-green-700 font-medium inline-flex items-center"
+          onClick={onAddLayer}
+        >
+          <Plus size={16} className="mr-1" />
           Ajouter une couche
         </button>
       </div>
@@ -161,4 +216,4 @@ const LayerControl = ({ onLayerChange }: LayerControlProps) => {
   );
 };
 
-export default LayerControl;
\ No newline at end of file
+export default LayerControl;
@@ -0,0 +1,364 @@
+import { useMemo, useState } from 'react';
+import { Palette, RotateCcw, X } from 'lucide-react';
+import { GraduatedMethod, LayerStyle, LayerStyleKind, LayerSymbol, MapLayer, PointIcon } from '../../types';
+import { collectSourceProperties } from '../../lib/importMapping';
+import {
+  COLOR_RAMPS,
+  POINT_ICONS,
+  buildCategories,
+  buildClasses,
+  defaultLayerStyle,
+  legendEntries,
+  numericFields
+} from '../../lib/symbology';
+import LegendSymbol from './LegendSymbol';
+
+interface LayerStyleEditorProps {
+  layer: MapLayer;
+  onApply: (style: LayerStyle) => void;
+  onClose: () => void;
+}
+
+const STYLE_KINDS: { value: LayerStyleKind; label: string }[] = [
+  { value: 'single', label: 'Symbole unique' },
+  { value: 'categorized', label: 'Catégorisé' },
+  { value: 'graduated', label: 'Gradué' },
+];
+
+// Attributs proposés en premier pour les couches métier
+const PREFERRED_CATEGORY_FIELDS = ['waste_type', 'type', 'status', 'shift'];
+const PREFERRED_NUMERIC_FIELDS = ['capacity_kg', 'length_meters'];
+
+const CLASS_COUNTS = [3, 4, 5, 6, 7];
+
+const inputClass = 'w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500';
+
+// Éditeur de symbologie d'une couche : symbole unique, catégories d'un attribut,
+// classes d'un champ numérique et étiquettes ; appliqué à la carte et à la légende
+const LayerStyleEditor = ({ layer, onApply, onClose }: LayerStyleEditorProps) => {
+  const [draft, setDraft] = useState<LayerStyle>(layer.style || defaultLayerStyle());
+  const [classCount, setClassCount] = useState(draft.classes.length || 5);
+  const [ramp, setRamp] = useState(COLOR_RAMPS[0].value);
+
+  const collection = useMemo(() => layer.data || { type: 'FeatureCollection' as const, features: [] }, [layer.data]);
+  const fields = useMemo(() => collectSourceProperties(collection.features), [collection]);
+  const numeric = useMemo(() => numericFields(collection, fields), [collection, fields]);
+  const entries = useMemo(() => legendEntries(draft, collection), [draft, collection]);
+  const isPoint = layer.type === 'point';
+  const rampColors = COLOR_RAMPS.find(r => r.value === ramp)!.colors;
+
+  const categorize = (field: string) =>
+    setDraft(current => ({
+      ...current,
+      kind: 'categorized',
+      field,
+      categories: buildCategories(collection, field, isPoint, current.field === field ? current.categories : []),
+    }));
+
+  const graduate = (field: string, count = classCount, method: GraduatedMethod = draft.method || 'equal', colors = rampColors) =>
+    setDraft(current => ({
+      ...current,
+      kind: 'graduated',
+      field,
+      method,
+      classes: buildClasses(collection, field, count, method, colors, current.symbol.icon),
+    }));
+
+  const handleKindChange = (kind: LayerStyleKind) => {
+    if (kind === 'categorized') {
+      const field = (draft.kind === 'categorized' && draft.field)
+        || PREFERRED_CATEGORY_FIELDS.find(f => fields.includes(f)) || fields[0];
+      if (field) categorize(field);
+    } else if (kind === 'graduated') {
+      const field = (draft.kind === 'graduated' && draft.field)
+        || PREFERRED_NUMERIC_FIELDS.find(f => numeric.includes(f)) || numeric[0];
+      if (field) graduate(field);
+    } else {
+      setDraft(current => ({ ...current, kind }));
+    }
+  };
+
+  const updateSymbol = (symbol: LayerSymbol, changes: Partial<LayerSymbol>): LayerSymbol => ({ ...symbol, ...changes });
+
+  const updateCategory = (index: number, changes: Partial<LayerSymbol>) =>
+    setDraft(current => ({
+      ...current,
+      categories: current.categories.map((c, i) => (i === index ? { ...c, symbol: updateSymbol(c.symbol, changes) } : c)),
+    }));
+
+  const updateClassColor = (index: number, color: string) =>
+    setDraft(current => ({
+      ...current,
+      classes: current.classes.map((c, i) => (i === index ? { ...c, symbol: { ...c.symbol, color } } : c)),
+    }));
+
+  // Une borne sépare deux classes : elle ferme l'une et ouvre la suivante
+  const updateBreak = (index: number, text: string) => {
+    const value = Number(text);
+    if (text.trim() === '' || !Number.isFinite(value)) return;
+    setDraft(current => ({
+      ...current,
+      classes: current.classes.map((c, i) => {
+        if (i === index) return { ...c, max: value };
+        if (i === index + 1) return { ...c, min: value };
+        return c;
+      }),
+    }));
+  };
+
+  // Forme commune à toutes les classes d'une couche de points graduée
+  const updateClassIcon = (icon: PointIcon) =>
+    setDraft(current => ({
+      ...current,
+      symbol: { ...current.symbol, icon },
+      classes: current.classes.map(c => ({ ...c, symbol: { ...c.symbol, icon } })),
+    }));
+
+  const invalidBreaks = draft.kind === 'graduated' && draft.classes.some(c => c.min > c.max);
+  const canApply = !invalidBreaks && (draft.kind === 'single' || Boolean(draft.field));
+
+  const symbolInputs = (symbol: LayerSymbol, onChange: (changes: Partial<LayerSymbol>) => void) => (
+    <>
+      <input
+        type="color"
+        value={symbol.color}
+        onChange={(e) => onChange({ color: e.target.value })}
+        className="h-7 w-9 border rounded cursor-pointer"
+        title="Couleur"
+      />
+      {isPoint && (
+        <select
+          value={symbol.icon}
+          onChange={(e) => onChange({ icon: e.target.value as PointIcon })}
+          className="px-2 py-1 border rounded-md text-xs focus:ring-1 focus:ring-green-500 focus:border-green-500"
+          title="Forme"
+        >
+          {POINT_ICONS.map(icon => (
+            <option key={icon.value} value={icon.value}>{icon.label}</option>
+          ))}
+        </select>
+      )}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[85vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-medium flex items-center">
+            <Palette size={18} className="text-green-600 mr-2" />
+            Symbologie — {layer.name}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type de symbologie</label>
+            <div className="grid grid-cols-3 gap-2">
+              {STYLE_KINDS.map(kind => {
+                const disabled = (kind.value === 'categorized' && fields.length === 0)
+                  || (kind.value === 'graduated' && numeric.length === 0);
+                return (
+                  <button
+                    key={kind.value}
+                    className={`p-2 border rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed ${
+                      draft.kind === kind.value ? 'border-green-600 bg-green-50 text-green-700' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                    onClick={() => handleKindChange(kind.value)}
+                    disabled={disabled}
+                    title={disabled ? (kind.value === 'graduated' ? 'Aucun champ numérique' : 'Aucun attribut') : undefined}
+                  >
+                    {kind.label}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          {draft.kind === 'single' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Symbole</label>
+              <div className="flex items-center space-x-2">
+                <LegendSymbol symbol={draft.symbol} type={layer.type} size={20} />
+                {symbolInputs(draft.symbol, changes => setDraft(current => ({ ...current, symbol: updateSymbol(current.symbol, changes) })))}
+              </div>
+            </div>
+          )}
+
+          {draft.kind === 'categorized' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Attribut</label>
+                <select value={draft.field || ''} onChange={(e) => categorize(e.target.value)} className={inputClass}>
+                  {fields.map(field => (
+                    <option key={field} value={field}>{field}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="border border-gray-200 rounded-md divide-y divide-gray-100 max-h-64 overflow-y-auto">
+                {draft.categories.map((category, index) => (
+                  <div key={category.value} className="flex items-center px-3 py-1.5 space-x-2">
+                    <LegendSymbol symbol={category.symbol} type={layer.type} />
+                    <span className="flex-1 min-w-0 text-sm text-gray-800 truncate">{category.value}</span>
+                    <span className="text-xs text-gray-500">{entries[index]?.count ?? 0}</span>
+                    {symbolInputs(category.symbol, changes => updateCategory(index, changes))}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {draft.kind === 'graduated' && (
+            <>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Champ numérique</label>
+                  <select value={draft.field || ''} onChange={(e) => graduate(e.target.value)} className={inputClass}>
+                    {numeric.map(field => (
+                      <option key={field} value={field}>{field}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Méthode</label>
+                  <select
+                    value={draft.method || 'equal'}
+                    onChange={(e) => graduate(draft.field!, classCount, e.target.value as GraduatedMethod)}
+                    className={inputClass}
+                  >
+                    <option value="equal">Intervalles égaux</option>
+                    <option value="quantile">Quantiles</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Nombre de classes</label>
+                  <select
+                    value={classCount}
+                    onChange={(e) => {
+                      setClassCount(Number(e.target.value));
+                      graduate(draft.field!, Number(e.target.value));
+                    }}
+                    className={inputClass}
+                  >
+                    {CLASS_COUNTS.map(count => (
+                      <option key={count} value={count}>{count}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Dégradé</label>
+                  <select
+                    value={ramp}
+                    onChange={(e) => {
+                      setRamp(e.target.value);
+                      graduate(draft.field!, classCount, draft.method, COLOR_RAMPS.find(r => r.value === e.target.value)!.colors);
+                    }}
+                    className={inputClass}
+                  >
+                    {COLOR_RAMPS.map(r => (
+                      <option key={r.value} value={r.value}>{r.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              {isPoint && (
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-gray-700">Forme des points</span>
+                  <select
+                    value={draft.symbol.icon}
+                    onChange={(e) => updateClassIcon(e.target.value as PointIcon)}
+                    className="px-2 py-1 border rounded-md text-xs focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                  >
+                    {POINT_ICONS.map(icon => (
+                      <option key={icon.value} value={icon.value}>{icon.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+                {draft.classes.map((styleClass, index) => (
+                  <div key={index} className="flex items-center px-3 py-1.5 space-x-2">
+                    <LegendSymbol symbol={styleClass.symbol} type={layer.type} />
+                    <span className="text-sm text-gray-600 w-20 text-right">{styleClass.min.toLocaleString('fr-FR')}</span>
+                    <span className="text-gray-400">–</span>
+                    <input
+                      type="number"
+                      value={styleClass.max}
+                      onChange={(e) => updateBreak(index, e.target.value)}
+                      className="w-24 px-2 py-1 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                      disabled={index === draft.classes.length - 1}
+                      title={index === draft.classes.length - 1 ? 'Valeur maximale du champ' : 'Borne haute de la classe'}
+                    />
+                    <span className="flex-1 text-xs text-gray-500 text-right">{entries[index]?.count ?? 0}</span>
+                    <input
+                      type="color"
+                      value={styleClass.symbol.color}
+                      onChange={(e) => updateClassColor(index, e.target.value)}
+                      className="h-7 w-9 border rounded cursor-pointer"
+                      title="Couleur"
+                    />
+                  </div>
+                ))}
+              </div>
+              {invalidBreaks && (
+                <p className="text-xs text-red-600">Chaque borne doit être supérieure ou égale à la précédente.</p>
+              )}
+            </>
+          )}
+
+          {draft.kind !== 'single' && (
+            <div className="flex items-center space-x-2">
+              <LegendSymbol symbol={draft.symbol} type={layer.type} />
+              <span className="flex-1 text-sm text-gray-700">Autres valeurs</span>
+              {symbolInputs(draft.symbol, changes => setDraft(current => ({ ...current, symbol: updateSymbol(current.symbol, changes) })))}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Étiquettes</label>
+            <select
+              value={draft.labelField || ''}
+              onChange={(e) => setDraft(current => ({ ...current, labelField: e.target.value || undefined }))}
+              className={inputClass}
+            >
+              <option value="">Aucune</option>
+              {fields.map(field => (
+                <option key={field} value={field}>{field}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-4 border-t">
+          <button
+            className="text-sm text-gray-600 hover:text-gray-800 flex items-center"
+            onClick={() => setDraft(defaultLayerStyle())}
+          >
+            <RotateCcw size={14} className="mr-1" />
+            Style par défaut
+          </button>
+          <div className="flex space-x-2">
+            <button
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              onClick={onClose}
+            >
+              Annuler
+            </button>
+            <button
+              className="px-4 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+              onClick={() => onApply(draft)}
+              disabled={!canApply}
+            >
+              Appliquer
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LayerStyleEditor;
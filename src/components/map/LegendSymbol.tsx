@@ -0,0 +1,24 @@
+import { LayerSymbol, MapLayer } from '../../types';
+import { POINT_ICON_PATHS } from '../../lib/symbology';
+
+interface LegendSymbolProps {
+  symbol: LayerSymbol;
+  type: MapLayer['type'];
+  size?: number;
+}
+
+// Aperçu d'un symbole, dessiné comme sur la carte : forme pour les points,
+// trait pour les lignes, surface bordée pour les polygones
+const LegendSymbol = ({ symbol, type, size = 16 }: LegendSymbolProps) => (
+  <svg width={size} height={size} viewBox="0 0 20 20" className="flex-shrink-0">
+    {type === 'line' ? (
+      <line x1="1" y1="10" x2="19" y2="10" stroke={symbol.color} strokeWidth="4" strokeLinecap="round" />
+    ) : type === 'polygon' ? (
+      <rect x="2" y="3" width="16" height="14" rx="2" fill={symbol.color} fillOpacity="0.3" stroke={symbol.color} strokeWidth="2" />
+    ) : (
+      <path d={POINT_ICON_PATHS[symbol.icon]} fill={symbol.color} fillOpacity="0.85" stroke="white" strokeWidth="1.5" />
+    )}
+  </svg>
+);
+
+export default LegendSymbol;
@@ -0,0 +1,346 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import type { Position } from 'geojson';
+import { Check, MousePointerClick, RotateCcw, Save, X } from 'lucide-react';
+import { EditTarget, EditTool, EditableGeometry, ImportTable } from '../../types';
+import { ScreenPoint, isLineTable, lineParts, snapToLines } from '../../lib/featureEditing';
+import { formatDistance, geometryLength, pathLength } from '../../lib/measurement';
+
+interface MapEditorProps {
+  map: L.Map;
+  table: ImportTable;
+  tool: EditTool;
+  // Élément choisi sur la carte pour être déplacé ou remodelé
+  target: EditTarget | null;
+  // Tracés des circuits affichés, auxquels les sommets s'accrochent
+  snapLines: Position[][];
+  onCreate: (geometry: EditableGeometry) => void;
+  onUpdate: (target: EditTarget, geometry: EditableGeometry) => void;
+  onCancel: () => void;
+}
+
+const EDIT_COLOR = '#F59E0B';
+
+const handleIcon = (size: number, opacity = 1) => L.divIcon({
+  className: 'map-edit-handle',
+  html: `<div style="
+    width: ${size}px;
+    height: ${size}px;
+    border-radius: 50%;
+    background-color: white;
+    border: 2px solid ${EDIT_COLOR};
+    opacity: ${opacity};
+    box-shadow: 0 1px 3px rgba(0,0,0,0.3);
+  "></div>`,
+  iconSize: [size, size],
+  iconAnchor: [size / 2, size / 2]
+});
+
+const VERTEX_ICON = handleIcon(14);
+const MIDPOINT_ICON = handleIcon(10, 0.7);
+
+const toLatLng = ([longitude, latitude]: Position) => L.latLng(latitude, longitude);
+const toPosition = (latlng: L.LatLng): Position => [latlng.lng, latlng.lat];
+
+// Sommets successifs confondus (double-clic de fin de tracé)
+const withoutDuplicates = (latlngs: L.LatLng[]) => latlngs.filter((latlng, i) => i === 0 || !latlng.equals(latlngs[i - 1]));
+
+// Géométrie d'un tracé modifié, du type de l'original
+const lineGeometry = (parts: Position[][]): EditableGeometry =>
+  parts.length === 1 ? { type: 'LineString', coordinates: parts[0] } : { type: 'MultiLineString', coordinates: parts };
+
+// Saisie sur la carte d'un nouvel élément (clic pour un point, sommets successifs
+// pour un circuit) et modification d'un élément existant : point déplacé,
+// sommets d'un tracé déplacés, insérés (poignées intermédiaires) ou retirés
+// (clic droit), avec accrochage aux autres circuits
+const MapEditor = ({ map, table, tool, target, snapLines, onCreate, onUpdate, onCancel }: MapEditorProps) => {
+  const isLine = isLineTable(table);
+  // Sommets du circuit en cours de tracé
+  const [vertices, setVertices] = useState<L.LatLng[]>([]);
+  const [finished, setFinished] = useState(false);
+  // Point posé (création) ou géométrie modifiée
+  const [draft, setDraft] = useState<EditableGeometry | null>(target?.geometry ?? null);
+  const groupRef = useRef<L.LayerGroup | null>(null);
+  const previewRef = useRef<L.LayerGroup | null>(null);
+  const snapMarkerRef = useRef<L.CircleMarker | null>(null);
+  const verticesRef = useRef(vertices);
+  verticesRef.current = vertices;
+
+  // Emprise de chaque tracé, pour n'accrocher qu'aux tracés de la vue
+  const snapCandidates = useMemo(
+    () => snapLines.filter(line => line.length > 0).map(line => ({ line, bounds: L.latLngBounds(line.map(toLatLng)) })),
+    [snapLines]
+  );
+
+  // Position accrochée au sommet ou au segment le plus proche, sinon inchangée
+  const snap = (latlng: L.LatLng) => {
+    const view = map.getBounds().pad(0.1);
+    const origins = new Map<ScreenPoint, L.LatLng>();
+    const lines = snapCandidates
+      .filter(candidate => view.intersects(candidate.bounds))
+      .map(candidate => candidate.line.map(position => {
+        const vertex = toLatLng(position);
+        const point = map.project(vertex);
+        origins.set(point, vertex);
+        return point;
+      }));
+    const snapped = snapToLines(map.project(latlng), lines);
+    if (!snapped) return { latlng, snapped: false };
+    return { latlng: origins.get(snapped) ?? map.unproject(L.point(snapped.x, snapped.y)), snapped: true };
+  };
+  const snapRef = useRef(snap);
+  snapRef.current = snap;
+
+  // Repère de l'accrochage sous le pointeur
+  const showSnap = (latlng: L.LatLng | null) => {
+    const marker = snapMarkerRef.current;
+    if (!marker || !groupRef.current) return;
+    if (latlng) {
+      marker.setLatLng(latlng);
+      if (!groupRef.current.hasLayer(marker)) groupRef.current.addLayer(marker);
+    } else {
+      marker.remove();
+    }
+  };
+  const showSnapRef = useRef(showSnap);
+  showSnapRef.current = showSnap;
+
+  // Fin du tracé : au moins deux sommets distincts
+  const finishRoute = () => {
+    const latlngs = withoutDuplicates(verticesRef.current);
+    if (latlngs.length < 2) return;
+    setVertices(latlngs);
+    setFinished(true);
+    onCreate({ type: 'LineString', coordinates: latlngs.map(toPosition) });
+  };
+  const finishRouteRef = useRef(finishRoute);
+  finishRouteRef.current = finishRoute;
+  const onCreateRef = useRef(onCreate);
+  onCreateRef.current = onCreate;
+
+  // Calques de la saisie ; les fenêtres des entités ne s'ouvrent pas pendant l'édition
+  useEffect(() => {
+    groupRef.current = L.layerGroup().addTo(map);
+    previewRef.current = L.layerGroup().addTo(map);
+    snapMarkerRef.current = L.circleMarker([0, 0], { radius: 7, color: EDIT_COLOR, weight: 2, fill: false, interactive: false });
+    const closePopup = (e: L.PopupEvent) => map.closePopup(e.popup);
+    map.closePopup();
+    map.on('popupopen', closePopup);
+    return () => {
+      map.off('popupopen', closePopup);
+      groupRef.current?.remove();
+      previewRef.current?.remove();
+      groupRef.current = null;
+      previewRef.current = null;
+    };
+  }, [map]);
+
+  // Création : clic pour poser un point, sommets successifs pour un circuit
+  // (double-clic ou « Terminer » pour finir, Retour arrière pour retirer le dernier)
+  useEffect(() => {
+    if (tool !== 'create' || finished) return;
+    const container = map.getContainer();
+    L.DomUtil.addClass(container, 'map-drawing');
+    if (isLine) map.doubleClickZoom.disable();
+
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      if (!isLine) {
+        setDraft({ type: 'Point', coordinates: toPosition(e.latlng) });
+        onCreateRef.current({ type: 'Point', coordinates: toPosition(e.latlng) });
+        return;
+      }
+      const { latlng } = snapRef.current(e.latlng);
+      setVertices(current => [...current, latlng]);
+    };
+    const handleMouseMove = (e: L.LeafletMouseEvent) => {
+      if (!isLine) return;
+      const { latlng, snapped } = snapRef.current(e.latlng);
+      showSnapRef.current(snapped ? latlng : null);
+      const last = verticesRef.current[verticesRef.current.length - 1];
+      previewRef.current?.clearLayers();
+      if (last) {
+        previewRef.current?.addLayer(L.polyline([last, latlng], { color: EDIT_COLOR, weight: 2, dashArray: '4 6', interactive: false }));
+      }
+    };
+    const handleDoubleClick = () => finishRouteRef.current();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Escape') setVertices([]);
+      if (e.key === 'Backspace') setVertices(current => current.slice(0, -1));
+    };
+
+    map.on('click', handleClick);
+    map.on('mousemove', handleMouseMove);
+    map.on('dblclick', handleDoubleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      map.off('click', handleClick);
+      map.off('mousemove', handleMouseMove);
+      map.off('dblclick', handleDoubleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+      L.DomUtil.removeClass(container, 'map-drawing');
+      map.doubleClickZoom.enable();
+      previewRef.current?.clearLayers();
+      showSnapRef.current(null);
+    };
+  }, [map, tool, isLine, finished]);
+
+  // Modification : Échap abandonne
+  useEffect(() => {
+    if (tool !== 'modify' || !target) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [tool, target, onCancel]);
+
+  // Tracé en cours de création
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group || tool !== 'create' || !isLine) return;
+    group.clearLayers();
+    if (vertices.length > 1) {
+      group.addLayer(L.polyline(vertices, { color: EDIT_COLOR, weight: 4, interactive: false }));
+    }
+    vertices.forEach(latlng => group.addLayer(L.marker(latlng, { icon: VERTEX_ICON, interactive: false })));
+  }, [vertices, tool, isLine]);
+
+  // Point posé, ou élément en cours de modification avec ses poignées
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group || !draft || (tool === 'create' && isLine)) return;
+    group.clearLayers();
+    const editable = tool === 'modify';
+
+    if (draft.type === 'Point') {
+      const marker = L.marker(toLatLng(draft.coordinates), { icon: VERTEX_ICON, draggable: editable, zIndexOffset: 1000 });
+      marker.on('dragend', () => setDraft({ type: 'Point', coordinates: toPosition(marker.getLatLng()) }));
+      group.addLayer(marker);
+      return;
+    }
+
+    const parts = lineParts(draft);
+    const setPart = (partIndex: number, part: Position[]) =>
+      setDraft(lineGeometry(parts.map((p, i) => (i === partIndex ? part : p))));
+
+    parts.forEach((part, partIndex) => {
+      const polyline = L.polyline(part.map(toLatLng), { color: EDIT_COLOR, weight: 4, dashArray: '8 6', interactive: false });
+      group.addLayer(polyline);
+      const latlngs = part.map(toLatLng);
+
+      // Sommets : déplacés (avec accrochage), retirés par un clic droit
+      latlngs.forEach((latlng, vertexIndex) => {
+        const handle = L.marker(latlng, { icon: VERTEX_ICON, draggable: true, zIndexOffset: 1000 });
+        handle.bindTooltip('Glisser pour déplacer, clic droit pour retirer', { direction: 'top', offset: [0, -8] });
+        handle.on('drag', () => {
+          const { latlng: snapped, snapped: isSnapped } = snapRef.current(handle.getLatLng());
+          showSnapRef.current(isSnapped ? snapped : null);
+          polyline.setLatLngs(latlngs.map((l, i) => (i === vertexIndex ? handle.getLatLng() : l)));
+        });
+        handle.on('dragend', () => {
+          showSnapRef.current(null);
+          const { latlng: snapped } = snapRef.current(handle.getLatLng());
+          setPart(partIndex, part.map((p, i) => (i === vertexIndex ? toPosition(snapped) : p)));
+        });
+        handle.on('contextmenu', () => {
+          // Un tracé garde au moins deux sommets
+          if (part.length > 2) setPart(partIndex, part.filter((_, i) => i !== vertexIndex));
+        });
+        group.addLayer(handle);
+      });
+
+      // Poignées intermédiaires : glisser (ou cliquer) insère un sommet
+      latlngs.slice(1).forEach((latlng, i) => {
+        const middle = L.latLng((latlngs[i].lat + latlng.lat) / 2, (latlngs[i].lng + latlng.lng) / 2);
+        const handle = L.marker(middle, { icon: MIDPOINT_ICON, draggable: true });
+        const insert = (position: Position) => setPart(partIndex, [...part.slice(0, i + 1), position, ...part.slice(i + 1)]);
+        handle.on('drag', () => {
+          const { latlng: snapped, snapped: isSnapped } = snapRef.current(handle.getLatLng());
+          showSnapRef.current(isSnapped ? snapped : null);
+          polyline.setLatLngs([...latlngs.slice(0, i + 1), handle.getLatLng(), ...latlngs.slice(i + 1)]);
+        });
+        handle.on('dragend', () => {
+          showSnapRef.current(null);
+          insert(toPosition(snapRef.current(handle.getLatLng()).latlng));
+        });
+        handle.on('click', () => insert(toPosition(middle)));
+        group.addLayer(handle);
+      });
+    });
+  }, [draft, tool, isLine]);
+
+  const changed = draft !== target?.geometry;
+
+  let content;
+  if (tool === 'create' && isLine) {
+    content = finished ? (
+      <span className="text-gray-700">Tracé terminé : complétez les attributs du circuit.</span>
+    ) : (
+      <>
+        <span className="text-gray-700">
+          {vertices.length === 0
+            ? 'Cliquez sur la carte pour placer le premier sommet du circuit.'
+            : `${vertices.length} sommet(s), ${formatDistance(pathLength(vertices.map(toPosition)))} — double-cliquez pour terminer.`}
+        </span>
+        <button
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center"
+          onClick={() => setVertices(current => current.slice(0, -1))}
+          disabled={vertices.length === 0}
+          title="Retirer le dernier sommet (Retour arrière)"
+        >
+          <RotateCcw size={14} className="mr-1" />
+          Annuler le sommet
+        </button>
+        <button
+          className="px-2 py-1 bg-green-600 text-white rounded-md text-xs hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+          onClick={finishRoute}
+          disabled={withoutDuplicates(vertices).length < 2}
+        >
+          <Check size={14} className="mr-1" />
+          Terminer
+        </button>
+      </>
+    );
+  } else if (tool === 'create') {
+    content = <span className="text-gray-700">Cliquez sur la carte pour placer le nouvel élément.</span>;
+  } else if (tool === 'modify' && target && draft) {
+    content = (
+      <>
+        <span className="text-gray-700 truncate max-w-xs">
+          {target.name || 'Élément'} — {draft.type === 'Point' ? 'glissez le point' : `glissez les sommets (${formatDistance(geometryLength(draft))})`}
+        </span>
+        <button
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 hover:bg-gray-50 flex items-center"
+          onClick={onCancel}
+        >
+          <X size={14} className="mr-1" />
+          Annuler
+        </button>
+        <button
+          className="px-2 py-1 bg-green-600 text-white rounded-md text-xs hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+          onClick={() => onUpdate(target, draft)}
+          disabled={!changed}
+        >
+          <Save size={14} className="mr-1" />
+          Enregistrer
+        </button>
+      </>
+    );
+  } else {
+    content = (
+      <span className="text-gray-700 flex items-center">
+        <MousePointerClick size={16} className="mr-1.5 text-green-600" />
+        {tool === 'modify' ? 'Cliquez sur un élément à modifier.' : 'Cliquez sur un élément à supprimer.'}
+      </span>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] bg-white rounded-lg shadow-md px-4 py-2 text-sm flex items-center space-x-3">
+      {content}
+    </div>
+  );
+};
+
+export default MapEditor;
@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react';
 import { MapLayer } from '../../types';
+import { legendEntries } from '../../lib/symbology';
+import LegendSymbol from './LegendSymbol';
 
 interface MapLegendProps {
   layers: MapLayer[];
@@ -19,15 +21,13 @@ const MapLegend = ({ layers }: MapLegendProps) => {
       <h3 className="text-sm font-medium mb-2">Légende</h3>
       <div className="space-y-2">
         {activeLayers.map(layer => (
-          <div key={layer.id} className="flex items-center text-sm">
-            <div 
-              className="w-4 h-4 rounded mr-2"
-              style={{
-                backgroundColor: layer.style?.color || '#4A5568',
-                opacity: layer.opacity
-              }}
-            />
-            <span>{layer.name}</span>
+          <div key={layer.id} style={{ opacity: layer.opacity }}>
+            {legendEntries(layer.style, layer.data).map(entry => (
+              <div key={entry.label} className="flex items-center text-sm">
+                <span className="mr-2"><LegendSymbol symbol={entry.symbol} type={layer.type} /></span>
+                <span>{entry.label ? `${layer.name} — ${entry.label}` : layer.name}</span>
+              </div>
+            ))}
           </div>
         ))}
       </div>
@@ -0,0 +1,202 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import type { Feature, Position } from 'geojson';
+import { MousePointerClick, RotateCcw, X } from 'lucide-react';
+import { MeasureMode } from '../../types';
+import {
+  compareRouteLength,
+  formatArea,
+  formatDistance,
+  formatLengthDifference,
+  pathLength,
+  ringArea,
+  ringPerimeter
+} from '../../lib/measurement';
+
+interface MapMeasureProps {
+  map: L.Map;
+  mode: MeasureMode;
+  // Circuit cliqué sur la carte (mode route)
+  route: Feature | null;
+  onClose: () => void;
+}
+
+const MEASURE_COLOR = '#2563EB';
+
+const toPosition = (latlng: L.LatLng): Position => [latlng.lng, latlng.lat];
+
+// Mesure sur la carte : distance d'une polyligne ou surface d'un polygone saisis
+// sommet par sommet (double-clic pour terminer), ou longueur d'un circuit cliqué
+// comparée à sa longueur enregistrée
+const MapMeasure = ({ map, mode, route, onClose }: MapMeasureProps) => {
+  const [vertices, setVertices] = useState<L.LatLng[]>([]);
+  const [finished, setFinished] = useState(false);
+  // Position du pointeur, pour la mesure en cours de saisie
+  const [pointer, setPointer] = useState<L.LatLng | null>(null);
+  const groupRef = useRef<L.LayerGroup | null>(null);
+  const finishedRef = useRef(finished);
+  finishedRef.current = finished;
+
+  // Calque de la mesure ; les fenêtres des entités ne s'ouvrent pas pendant la mesure
+  useEffect(() => {
+    groupRef.current = L.layerGroup().addTo(map);
+    const closePopup = (e: L.PopupEvent) => map.closePopup(e.popup);
+    map.closePopup();
+    map.on('popupopen', closePopup);
+    return () => {
+      map.off('popupopen', closePopup);
+      groupRef.current?.remove();
+      groupRef.current = null;
+    };
+  }, [map]);
+
+  // Saisie des sommets ; un clic après une mesure terminée en commence une nouvelle
+  useEffect(() => {
+    if (mode === 'route') return;
+    const container = map.getContainer();
+    L.DomUtil.addClass(container, 'map-drawing');
+    map.doubleClickZoom.disable();
+
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      if (finishedRef.current) {
+        setFinished(false);
+        setVertices([e.latlng]);
+      } else {
+        setVertices(current => [...current, e.latlng]);
+      }
+    };
+    const handleMouseMove = (e: L.LeafletMouseEvent) => {
+      if (!finishedRef.current) setPointer(e.latlng);
+    };
+    // Le double-clic a ajouté deux fois le dernier sommet
+    const handleDoubleClick = () => {
+      setVertices(current => current.filter((latlng, i) => i === 0 || !latlng.equals(current[i - 1])));
+      setFinished(true);
+      setPointer(null);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      setVertices([]);
+      setFinished(false);
+    };
+
+    map.on('click', handleClick);
+    map.on('mousemove', handleMouseMove);
+    map.on('dblclick', handleDoubleClick);
+    document.addEventListener('keydown', handleKeyDown);
+    return () => {
+      map.off('click', handleClick);
+      map.off('mousemove', handleMouseMove);
+      map.off('dblclick', handleDoubleClick);
+      document.removeEventListener('keydown', handleKeyDown);
+      L.DomUtil.removeClass(container, 'map-drawing');
+      map.doubleClickZoom.enable();
+    };
+  }, [map, mode]);
+
+  // Sommets saisis, suivis du pointeur tant que la mesure n'est pas terminée
+  const points = useMemo(
+    () => (finished || !pointer || vertices.length === 0 ? vertices : [...vertices, pointer]),
+    [vertices, pointer, finished]
+  );
+  const positions = points.map(toPosition);
+
+  // Tracé de la mesure, ou du circuit mesuré
+  useEffect(() => {
+    const group = groupRef.current;
+    if (!group) return;
+    group.clearLayers();
+    if (mode === 'route') {
+      if (route) {
+        group.addLayer(L.geoJSON(route, {
+          style: { color: MEASURE_COLOR, weight: 6, opacity: 0.6, dashArray: '8 6' },
+          interactive: false
+        }));
+      }
+      return;
+    }
+    if (mode === 'area' && points.length > 2) {
+      group.addLayer(L.polygon(points, { color: MEASURE_COLOR, weight: 2, fillOpacity: 0.15, interactive: false }));
+    } else if (points.length > 1) {
+      group.addLayer(L.polyline(points, { color: MEASURE_COLOR, weight: 3, interactive: false }));
+    }
+    vertices.forEach(latlng => group.addLayer(L.circleMarker(latlng, {
+      radius: 4,
+      color: MEASURE_COLOR,
+      weight: 2,
+      fillColor: 'white',
+      fillOpacity: 1,
+      interactive: false
+    })));
+  }, [points, vertices, mode, route]);
+
+  let content;
+  if (mode === 'route') {
+    const comparison = route ? compareRouteLength(route.geometry, route.properties?.length_meters) : null;
+    content = route && comparison ? (
+      <span className="text-gray-700">
+        <span className="font-medium">{route.properties?.name || 'Circuit'}</span>
+        {' — mesurée '}{formatDistance(comparison.measured)}
+        {comparison.stored === null ? (
+          ' · longueur enregistrée non renseignée'
+        ) : (
+          <>
+            {' · enregistrée '}{formatDistance(comparison.stored)}
+            {' · écart '}
+            <span className={Math.abs(comparison.ratio ?? 0) > 0.1 ? 'text-red-600 font-medium' : 'text-green-700'}>
+              {formatLengthDifference(comparison)}
+            </span>
+          </>
+        )}
+      </span>
+    ) : (
+      <span className="text-gray-700 flex items-center">
+        <MousePointerClick size={16} className="mr-1.5 text-blue-600" />
+        Cliquez sur un circuit de balayage pour comparer sa longueur mesurée à sa longueur enregistrée.
+      </span>
+    );
+  } else if (vertices.length === 0) {
+    content = (
+      <span className="text-gray-700">
+        {mode === 'distance' ? 'Cliquez sur la carte pour commencer la mesure.' : 'Cliquez sur la carte pour placer les sommets de la surface.'}
+      </span>
+    );
+  } else {
+    content = (
+      <>
+        <span className="text-gray-700">
+          {mode === 'distance' ? (
+            <>Distance : <span className="font-medium">{formatDistance(pathLength(positions))}</span></>
+          ) : (
+            <>
+              Surface : <span className="font-medium">{formatArea(ringArea(positions))}</span>
+              {' · périmètre '}{formatDistance(ringPerimeter(positions))}
+            </>
+          )}
+          {!finished && <span className="text-gray-500"> — double-cliquez pour terminer</span>}
+        </span>
+        <button
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs text-gray-700 hover:bg-gray-50 flex items-center"
+          onClick={() => {
+            setVertices([]);
+            setFinished(false);
+          }}
+        >
+          <RotateCcw size={14} className="mr-1" />
+          Effacer
+        </button>
+      </>
+    );
+  }
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-[1000] bg-white rounded-lg shadow-md px-4 py-2 text-sm flex items-center space-x-3 max-w-[70%]">
+      {content}
+      <button className="p-1 text-gray-400 hover:text-gray-600" onClick={onClose} title="Fermer la mesure">
+        <X size={16} />
+      </button>
+    </div>
+  );
+};
+
+export default MapMeasure;
@@ -1,7 +1,39 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useMemo, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { CollectionPoint, MapLayer } from '../../types';
+import type { Feature, FeatureCollection } from 'geojson';
+import { LandPlot, Route, Ruler } from 'lucide-react';
+import {
+  CollectionPoint,
+  DatasetExtent,
+  EditTarget,
+  EditTool,
+  GeometryEdit,
+  ImportTable,
+  LayerStyle,
+  LayerSymbol,
+  MapLayer,
+  MapViewState,
+  MeasureMode,
+  PointCluster
+} from '../../types';
+import { DEFAULT_SYMBOL, POINT_ICON_PATHS, labelFor, legendEntries, symbolFor } from '../../lib/symbology';
+import {
+  CLUSTER_MAX_ZOOM,
+  CLUSTER_MIN_POINTS,
+  ClusterPoint,
+  clusterPoints,
+  clusterPointsOf,
+  fillLevelColor,
+  formatClusterCount
+} from '../../lib/clustering';
+import { RouteFeatureCollection, fetchCollectionPoints, toCollectionPoint } from '../../lib/supabase';
+import { REALTIME_FLASH_MS, TableChange, subscribeToTables } from '../../lib/realtime';
+import { editTargetOf, snapLinesOf } from '../../lib/featureEditing';
+import { formatDistance, geometryLength } from '../../lib/measurement';
+import LegendSymbol from './LegendSymbol';
+import MapEditor from './MapEditor';
+import MapMeasure from './MapMeasure';
 
 // Fix for default markers in Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -11,40 +43,6 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
-// Mock data pour les points de collecte
-const mockCollectionPoints: CollectionPoint[] = [
-  {
-    id: '1',
-    name: 'Point de collecte Centre-ville',
-    type: 'container',
-    coordinates: [14.7167, -17.4677], // Dakar coordinates
-    capacity: 1000,
-    fillLevel: 75,
-    lastCollection: '2025-03-15T10:30:00',
-    wasteType: 'general',
-  },
-  {
-    id: '2',
-    name: 'Point de collecte Plateau',
-    type: 'container',
-    coordinates: [14.6769, -17.4456],
-    capacity: 800,
-    fillLevel: 45,
-    lastCollection: '2025-03-16T08:15:00',
-    wasteType: 'recyclable',
-  },
-  {
-    id: '3',
-    name: 'Point de collecte Medina',
-    type: 'container',
-    coordinates: [14.6892, -17.4486],
-    capacity: 1200,
-    fillLevel: 90,
-    lastCollection: '2025-03-14T14:30:00',
-    wasteType: 'organic',
-  }
-];
-
 interface MapViewProps {
   center?: [number, number];
   zoom?: number;
@@ -53,53 +51,282 @@ interface MapViewProps {
   showScale?: boolean;
   showLogo?: boolean;
   selectedRoute?: any;
-  focusedDataset?: any;
-  datasetGeoJSON?: any;
+  // Circuits de balayage en base (tracés de route_geometry)
+  routesGeoJSON?: RouteFeatureCollection | null;
+  // Couches des jeux ouverts, de celle du dessus à celle du dessous
   layers?: MapLayer[];
-  onLayerChange?: (layers: MapLayer[]) => void;
+  // Couche synchronisée avec la table attributaire et son entité sélectionnée
+  // (index dans data.features)
+  activeLayerId?: string | null;
+  selectedFeatureIndex?: number | null;
+  onFeatureSelect?: (layerId: string, index: number) => void;
+  // Vue imposée (ouverture d'une carte enregistrée) et suivi de la vue courante
+  // avec son emprise [ouest, sud, est, nord]
+  view?: MapViewState | null;
+  onViewChange?: (view: MapViewState, extent: DatasetExtent) => void;
+  // Modification en temps réel d'une table métier (couches à relire par la page)
+  onTableChange?: (change: TableChange) => void;
+  // Édition d'une table métier : outil actif, saisie terminée sur la carte et
+  // remise à zéro de la saisie (formulaire fermé, enregistrement fait)
+  editTable?: ImportTable | null;
+  editTool?: EditTool | null;
+  editSession?: number;
+  onGeometryEdit?: (edit: GeometryEdit) => void;
+}
+
+// Couche Leaflet d'un jeu, gardée tant que son contenu et sa symbologie ne changent pas
+interface RenderedLayer {
+  data: FeatureCollection;
+  style?: LayerStyle;
+  geoJson: L.GeoJSON;
+  featureLayers: Map<number, L.Layer>;
+  opacity: number;
+  // Couche de points dense : groupes et points isolés sont placés dans clusterGroup
+  // (recalculé à chaque déplacement), geoJson n'est alors jamais ajouté à la carte
+  clusterGroup: L.FeatureGroup | null;
+  points: ClusterPoint[];
+  // Entités non ponctuelles de la couche, toujours affichées
+  others: number[];
+  // Groupes calculés par la base (couches chargées par emprise)
+  clusters?: PointCluster[];
+  clusterColor: string;
 }
 
+// Style d'une entité selon la symbologie de sa couche, atténué par l'opacité
+const datasetFeatureStyle = (feature: Feature | undefined, style: LayerStyle | undefined, opacity: number): L.PathOptions => {
+  const { color } = symbolFor(style, feature?.properties);
+  const geometryType = feature?.geometry?.type;
+  if (geometryType === 'Polygon' || geometryType === 'MultiPolygon') {
+    return { color, weight: 2, opacity, fillColor: color, fillOpacity: 0.3 * opacity };
+  }
+  if (geometryType === 'LineString' || geometryType === 'MultiLineString') {
+    return { color, weight: 3, opacity: 0.8 * opacity };
+  }
+  return { fillColor: color, color: '#ffffff', weight: 2, opacity: 0.8 * opacity, fillOpacity: 0.85 * opacity };
+};
+
+// Forme d'un point autre que le cercle (marqueur SVG)
+const pointIcon = (symbol: LayerSymbol) => L.divIcon({
+  className: 'layer-symbol-marker',
+  html: `<svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20">`
+    + `<path d="${POINT_ICON_PATHS[symbol.icon]}" fill="${symbol.color}" fill-opacity="0.85" stroke="white" stroke-width="1.5"/></svg>`,
+  iconSize: [20, 20],
+  iconAnchor: [10, 10],
+});
+
+// Marqueur d'un groupe : taille selon l'effectif, couleur du remplissage moyen
+// (ou de la couche si aucun point n'a de niveau de remplissage)
+const clusterMarker = (cluster: PointCluster, color: string, map: L.Map) => {
+  const size = cluster.count < 10 ? 30 : cluster.count < 100 ? 36 : cluster.count < 1000 ? 42 : 48;
+  const background = cluster.fillLevel === null ? color : fillLevelColor(cluster.fillLevel);
+  const marker = L.marker([cluster.latitude, cluster.longitude], {
+    icon: L.divIcon({
+      className: 'map-cluster-marker',
+      html: `<div style="
+        width: ${size}px;
+        height: ${size}px;
+        line-height: ${size - 6}px;
+        border-radius: 50%;
+        background-color: ${background};
+        border: 3px solid rgba(255, 255, 255, 0.8);
+        box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+        color: white;
+        font-size: 12px;
+        font-weight: 600;
+        text-align: center;
+      ">${formatClusterCount(cluster.count)}</div>`,
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2]
+    })
+  });
+  const fill = cluster.fillLevel === null ? '' : ` · remplissage moyen ${Math.round(cluster.fillLevel)} %`;
+  marker.bindTooltip(`${cluster.count.toLocaleString('fr-FR')} éléments${fill}`, { direction: 'top' });
+  // Clic : zoom sur l'emprise du groupe, ou jusqu'au dégroupage si ses points sont confondus
+  marker.on('click', () => {
+    const [west, south, east, north] = cluster.extent;
+    if (west < east || south < north) {
+      map.fitBounds([[south, west], [north, east]], { padding: [40, 40] });
+    } else {
+      map.setView([cluster.latitude, cluster.longitude], Math.max(map.getZoom() + 2, CLUSTER_MAX_ZOOM + 1));
+    }
+  });
+  return marker;
+};
+
+// Groupes des points proches de l'emprise pour la vue courante ; les groupes d'un
+// seul point affichent le point lui-même (layerOf)
+const addPointGroups = (
+  group: L.LayerGroup,
+  points: ClusterPoint[],
+  layerOf: (index: number) => L.Layer | undefined,
+  color: string,
+  map: L.Map
+) => {
+  const bounds = map.getBounds().pad(0.2);
+  const visible = points.filter(point => bounds.contains([point.latitude, point.longitude]));
+  clusterPoints(visible, map.getZoom()).forEach(cluster => {
+    const single = cluster.count === 1 ? layerOf(cluster.indexes[0]) : undefined;
+    group.addLayer(single || clusterMarker(cluster, color, map));
+  });
+};
+
+// Groupes d'une couche dense : calculés par la base, ou sur les entités chargées
+const renderClusters = (entry: RenderedLayer, map: L.Map) => {
+  const group = entry.clusterGroup;
+  if (!group) return;
+  group.clearLayers();
+  if (entry.clusters?.length) {
+    entry.clusters.forEach(cluster => group.addLayer(clusterMarker(cluster, entry.clusterColor, map)));
+  } else {
+    addPointGroups(group, entry.points, index => entry.featureLayers.get(index), entry.clusterColor, map);
+  }
+  entry.others.forEach(index => {
+    const featureLayer = entry.featureLayers.get(index);
+    if (featureLayer) group.addLayer(featureLayer);
+  });
+};
+
+// Fait clignoter un marqueur ou un tracé affiché (false s'il n'est pas sur la carte)
+const flashLayer = (layer: L.Layer | undefined) => {
+  const element = layer instanceof L.Marker || layer instanceof L.Path ? layer.getElement() : undefined;
+  if (!element) return false;
+  element.classList.remove('realtime-flash');
+  // Relance l'animation si l'élément clignote déjà
+  void element.getBoundingClientRect();
+  element.classList.add('realtime-flash');
+  setTimeout(() => element.classList.remove('realtime-flash'), REALTIME_FLASH_MS);
+  return true;
+};
+
+// Délai pendant lequel un élément modifié attend d'être affiché (relecture de sa couche)
+const PENDING_FLASH_MS = 10000;
+
+// Points de collecte relus une fois la carte immobile
+const COLLECTION_POINTS_DELAY_MS = 300;
+
+// Valeur issue de la base ou d'un fichier importé, insérée dans le HTML d'une fenêtre
+const escapeHtml = (value: unknown) =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const featurePopup = (properties: Record<string, unknown>) => {
+  let popupContent = `<div style="padding: 12px; max-width: 250px;">`;
+  popupContent += `<h3 style="font-weight: bold; color: #047857; margin-bottom: 8px; font-size: 14px;">${escapeHtml(properties.name || 'Élément')}</h3>`;
+
+  Object.entries(properties).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && key !== 'name' && key !== 'id') {
+      const displayKey = key.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
+      popupContent += `<div style="font-size: 12px; margin-bottom: 4px;"><span style="font-weight: 500; color: #374151;">${escapeHtml(displayKey)}:</span> <span style="color: #6b7280;">${escapeHtml(value)}</span></div>`;
+    }
+  });
+  popupContent += `</div>`;
+  return popupContent;
+};
+
+// Date et heure de la dernière collecte d'un point
+const formatDate = (dateString?: string) => {
+  if (!dateString) return 'Non disponible';
+  return new Date(dateString).toLocaleDateString('fr-FR', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+// Dakar ; constante pour que la carte ne soit pas recréée à chaque rendu
+const DEFAULT_CENTER: [number, number] = [14.7167, -17.4677];
+
 const MapView: React.FC<MapViewProps> = ({ 
-  center = [14.7167, -17.4677],
+  center = DEFAULT_CENTER,
   zoom = 13,
   showLegend = true,
   showNorthArrow = true,
   showScale = true,
   showLogo = true,
   selectedRoute, 
-  focusedDataset, 
-  datasetGeoJSON,
+  routesGeoJSON,
   layers = [],
-  onLayerChange
+  activeLayerId = null,
+  selectedFeatureIndex = null,
+  onFeatureSelect,
+  view = null,
+  onViewChange,
+  onTableChange,
+  editTable = null,
+  editTool = null,
+  editSession = 0,
+  onGeometryEdit
 }) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<L.Map | null>(null);
   const [mapLoaded, setMapLoaded] = useState(false);
   const [collectionPoints, setCollectionPoints] = useState<CollectionPoint[]>([]);
-  const [activeLayers, setActiveLayers] = useState<MapLayer[]>(layers);
+  // Emprise affichée : seuls les points de collecte qu'elle contient sont chargés
+  const [collectionExtent, setCollectionExtent] = useState<DatasetExtent | null>(null);
+  const collectionRequest = useRef(0);
+  // Marqueurs des points de collecte (même ordre que collectionPoints), regroupés
+  // dans collectionLayerRef quand ils sont nombreux
   const markersRef = useRef<L.Marker[]>([]);
+  const collectionLayerRef = useRef<L.LayerGroup | null>(null);
   const routeLayerRef = useRef<L.LayerGroup | null>(null);
-  const datasetLayerRef = useRef<L.LayerGroup | null>(null);
-  const customLayersRef = useRef<L.LayerGroup[]>([]);
-
-  // Fonctions utilitaires
-  const getFillLevelColor = (level?: number) => {
-    if (!level) return '#E5E7EB';
-    if (level < 30) return '#10B981';
-    if (level < 70) return '#F59E0B';
-    return '#EF4444';
+  const importedRoutesLayerRef = useRef<L.LayerGroup | null>(null);
+  const importedRoutesShownRef = useRef(false);
+  const renderedLayersRef = useRef(new Map<string, RenderedLayer>());
+  const fittedLayerIdsRef = useRef(new Set<string>());
+  // Rétablit le symbole de l'entité mise en évidence
+  const highlightRef = useRef<(() => void) | null>(null);
+  const zoomedSelectionRef = useRef<string | null>(null);
+  const onFeatureSelectRef = useRef(onFeatureSelect);
+  onFeatureSelectRef.current = onFeatureSelect;
+  const onViewChangeRef = useRef(onViewChange);
+  onViewChangeRef.current = onViewChange;
+  const onTableChangeRef = useRef(onTableChange);
+  onTableChangeRef.current = onTableChange;
+  // Éléments modifiés en temps réel (clé table:id), signalés dès qu'ils sont affichés
+  const pendingFlashRef = useRef(new Map<string, number>());
+  // Élément choisi pour être déplacé ou remodelé
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
+  // Outil de mesure actif et circuit mesuré
+  const [measureMode, setMeasureMode] = useState<MeasureMode | null>(null);
+  const [measuredRoute, setMeasuredRoute] = useState<Feature | null>(null);
+
+  useEffect(() => setEditTarget(null), [editTable, editTool, editSession]);
+  useEffect(() => setMeasuredRoute(null), [measureMode]);
+  // L'édition remplace la mesure en cours
+  useEffect(() => {
+    if (editTool) setMeasureMode(null);
+  }, [editTool]);
+
+  // Clic sur un élément pendant une mesure (circuit à mesurer) ou pendant l'édition
+  // (élément à modifier ou à supprimer s'il appartient à la table éditée) ; hors
+  // de ces outils, le clic sélectionne l'élément (false)
+  const handleToolClick = (table: string, feature: Feature | undefined) => {
+    if (measureMode && !editTool) {
+      if (measureMode === 'route' && table === 'sweeping_routes' && feature?.geometry) setMeasuredRoute(feature);
+      return true;
+    }
+    if (!editTable || !editTool) return false;
+    const target = table === editTable && editTool !== 'create' ? editTargetOf(editTable, feature) : null;
+    if (target && editTool === 'delete') onGeometryEdit?.({ kind: 'delete', table: editTable, target });
+    else if (target) setEditTarget(target);
+    return true;
   };
+  const handleToolClickRef = useRef(handleToolClick);
+  handleToolClickRef.current = handleToolClick;
 
-  const formatDate = (dateString?: string) => {
-    if (!dateString) return 'Non disponible';
-    return new Date(dateString).toLocaleDateString('fr-FR', {
-      day: '2-digit',
-      month: '2-digit',
-      year: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-    });
-  };
+  // Tracés des circuits affichés, pour l'accrochage des sommets
+  const snapLines = useMemo(() => editTable === 'sweeping_routes'
+    ? [
+      ...layers.filter(l => l.source === 'sweeping_routes' && l.visible).flatMap(l => snapLinesOf(l.data, editTarget?.id)),
+      ...snapLinesOf(routesGeoJSON, editTarget?.id),
+    ]
+    : [], [editTable, layers, routesGeoJSON, editTarget]);
 
   // Initialisation de la carte
   useEffect(() => {
@@ -132,12 +359,39 @@ const MapView: React.FC<MapViewProps> = ({
 
     // Initialiser les groupes de couches
     routeLayerRef.current = L.layerGroup().addTo(map.current);
-    datasetLayerRef.current = L.layerGroup().addTo(map.current);
+    importedRoutesLayerRef.current = L.layerGroup().addTo(map.current);
+    collectionLayerRef.current = L.layerGroup().addTo(map.current);
 
     setMapLoaded(true);
 
+    const renderedLayers = renderedLayersRef.current;
+    const fittedLayerIds = fittedLayerIdsRef.current;
+    // Suivi de la vue (enregistrement de la carte, export des entités visibles)
+    const emitView = () => {
+      if (!map.current) return;
+      const { lat, lng } = map.current.getCenter();
+      const bounds = map.current.getBounds();
+      const extent: DatasetExtent = [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()];
+      setCollectionExtent(extent);
+      onViewChangeRef.current?.({ center: [lat, lng], zoom: map.current.getZoom() }, extent);
+    };
+    map.current.on('moveend', emitView);
+    emitView();
+    // Groupes des couches denses recalculés pour la nouvelle vue
+    map.current.on('moveend', () => {
+      renderedLayers.forEach(entry => map.current && renderClusters(entry, map.current));
+      renderCollectionPointsRef.current();
+    });
+
+    // Conteneur redimensionné (table attributaire, panneau latéral) : tuiles recalculées
+    const resizeObserver = new ResizeObserver(() => map.current?.invalidateSize());
+    resizeObserver.observe(mapContainer.current);
+
     // Cleanup
     return () => {
+      resizeObserver.disconnect();
+      renderedLayers.clear();
+      fittedLayerIds.clear();
       if (map.current) {
         map.current.remove();
         map.current = null;
@@ -145,26 +399,95 @@ const MapView: React.FC<MapViewProps> = ({
     };
   }, [center, zoom, showScale]);
 
-  // Chargement des points de collecte
+  // Chargement des points de collecte de la vue (base, avec leur dernière collecte),
+  // relus après chaque déplacement ; seule la dernière réponse est prise en compte
   useEffect(() => {
-    setTimeout(() => {
-      setCollectionPoints(mockCollectionPoints);
-    }, 1000);
-  }, []);
+    if (!collectionExtent) return;
+    const request = ++collectionRequest.current;
+    const timer = setTimeout(() => {
+      fetchCollectionPoints(collectionExtent)
+        .then(points => {
+          if (request === collectionRequest.current) setCollectionPoints(points);
+        })
+        .catch(error => console.error('Erreur lors du chargement des points de collecte:', error));
+    }, COLLECTION_POINTS_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [collectionExtent]);
+
+  // Modifications des autres utilisateurs : les points de collecte sont mis à jour
+  // ici, les couches des tables concernées sont relues par la page
+  useEffect(() => subscribeToTables(['collection_points', 'urban_furniture', 'sweeping_routes'], change => {
+    pendingFlashRef.current.set(`${change.table}:${change.id}`, Date.now() + PENDING_FLASH_MS);
+    if (change.table === 'collection_points') {
+      const row = change.row;
+      setCollectionPoints(current => {
+        const previous = current.find(p => p.id === change.id);
+        if (!row || row.status === 'inactive') return current.filter(p => p.id !== change.id);
+        const point = { ...toCollectionPoint(row), lastCollection: previous?.lastCollection };
+        return previous ? current.map(p => (p.id === change.id ? point : p)) : [...current, point];
+      });
+    }
+    onTableChangeRef.current?.(change);
+  }), []);
+
+  // Fait clignoter les éléments modifiés maintenant affichés
+  const flashPending = () => {
+    const pending = pendingFlashRef.current;
+    const now = Date.now();
+    pending.forEach((expiry, key) => {
+      if (expiry < now) pending.delete(key);
+    });
+    if (pending.size === 0) return;
+    const flash = (key: string, layer: L.Layer | undefined) => {
+      if (pending.has(key) && flashLayer(layer)) pending.delete(key);
+    };
+    collectionPoints.forEach((point, index) => flash(`collection_points:${point.id}`, markersRef.current[index]));
+    layers.forEach(layer => {
+      const entry = renderedLayersRef.current.get(layer.id);
+      entry?.featureLayers.forEach((featureLayer, index) => {
+        const id = entry.data.features[index]?.properties?.id;
+        if (id !== undefined) flash(`${layer.source}:${id}`, featureLayer);
+      });
+    });
+    importedRoutesLayerRef.current?.eachLayer(group => {
+      if (!(group instanceof L.GeoJSON)) return;
+      group.eachLayer(route => {
+        if (route instanceof L.Polyline) flash(`sweeping_routes:${route.feature?.properties?.id}`, route);
+      });
+    });
+  };
+  const flashPendingRef = useRef(flashPending);
+  flashPendingRef.current = flashPending;
+
+  // Points de collecte affichés pour la vue courante : un marqueur par point, ou
+  // des groupes colorés par le remplissage moyen quand les points sont nombreux
+  const renderCollectionPoints = () => {
+    const group = collectionLayerRef.current;
+    if (!map.current || !group) return;
+    group.clearLayers();
+    const markers = markersRef.current;
+    if (markers.length < CLUSTER_MIN_POINTS) {
+      markers.forEach(marker => group.addLayer(marker));
+      return;
+    }
+    const points = collectionPoints.map((point, index) => ({
+      index,
+      latitude: point.coordinates[0],
+      longitude: point.coordinates[1],
+      fillLevel: point.fillLevel ?? null,
+    }));
+    addPointGroups(group, points, index => markers[index], fillLevelColor(null), map.current);
+  };
+  const renderCollectionPointsRef = useRef(renderCollectionPoints);
+  renderCollectionPointsRef.current = renderCollectionPoints;
 
   // Gestion des points de collecte
   useEffect(() => {
     if (!mapLoaded || !map.current) return;
 
-    // Supprimer les marqueurs existants
-    markersRef.current.forEach(marker => {
-      map.current?.removeLayer(marker);
-    });
-    markersRef.current = [];
-
-    // Ajouter les nouveaux points de collecte
-    collectionPoints.forEach((point) => {
-      const fillColor = getFillLevelColor(point.fillLevel);
+    // Marqueurs des nouveaux points de collecte
+    markersRef.current = collectionPoints.map((point) => {
+      const fillColor = fillLevelColor(point.fillLevel);
       
       // Créer une icône personnalisée
       const customIcon = L.divIcon({
@@ -184,9 +507,9 @@ const MapView: React.FC<MapViewProps> = ({
       // Créer le contenu du popup
       const popupContent = `
         <div style="padding: 12px; max-width: 250px;">
-          <h3 style="font-weight: 500; font-size: 16px; margin-bottom: 8px;">${point.name}</h3>
+          <h3 style="font-weight: 500; font-size: 16px; margin-bottom: 8px;">${escapeHtml(point.name)}</h3>
           <p style="font-size: 14px; color: #666; text-transform: capitalize; margin-bottom: 8px;">
-            ${point.type} - ${point.wasteType}
+            ${escapeHtml(point.type)} - ${escapeHtml(point.wasteType)}
           </p>
           <div style="margin-bottom: 8px;">
             <p style="font-size: 12px; color: #888;">Niveau de remplissage</p>
@@ -198,7 +521,7 @@ const MapView: React.FC<MapViewProps> = ({
                 background-color: ${fillColor};
               "></div>
             </div>
-            <p style="font-size: 12px; text-align: right; margin-top: 4px;">${point.fillLevel || 0}%</p>
+            <p style="font-size: 12px; text-align: right; margin-top: 4px;">${point.fillLevel === undefined ? 'Non relevé' : `${point.fillLevel}%`}</p>
           </div>
           <div style="margin-bottom: 8px;">
             <p style="font-size: 12px; color: #888;">Dernière collecte</p>
@@ -211,87 +534,220 @@ const MapView: React.FC<MapViewProps> = ({
         </div>
       `;
 
-      // Créer et ajouter le marqueur
-      const marker = L.marker([point.coordinates[0], point.coordinates[1]], {
+      // Créer le marqueur
+      const feature: Feature = {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [point.coordinates[1], point.coordinates[0]] },
+        properties: { id: point.id, name: point.name }
+      };
+      return L.marker([point.coordinates[0], point.coordinates[1]], {
         icon: customIcon
       })
       .bindPopup(popupContent)
-      .addTo(map.current!);
-
-      markersRef.current.push(marker);
+      .on('click', () => handleToolClickRef.current('collection_points', feature));
     });
+    renderCollectionPointsRef.current();
+    flashPendingRef.current();
   }, [collectionPoints, mapLoaded]);
 
-  // Gestion des datasets GeoJSON
+  // Couches des jeux ouverts : une couche Leaflet par jeu, recréée seulement
+  // quand son contenu ou sa symbologie change ; l'ordre, la visibilité et
+  // l'opacité sont appliqués sans relire les entités
   useEffect(() => {
-    if (!mapLoaded || !map.current || !datasetLayerRef.current) return;
-
-    // Vider la couche précédente
-    datasetLayerRef.current.clearLayers();
-
-    if (datasetGeoJSON && datasetGeoJSON.features.length > 0) {
-      // Créer la couche GeoJSON
-      const geoJsonLayer = L.geoJSON(datasetGeoJSON, {
-        style: (feature) => {
-          const geometryType = feature?.geometry.type;
-          
-          if (geometryType === 'Polygon' || geometryType === 'MultiPolygon') {
-            return {
-              color: '#047857',
-              weight: 2,
-              fillColor: '#059669',
-              fillOpacity: 0.3
-            };
-          } else if (geometryType === 'LineString' || geometryType === 'MultiLineString') {
-            return {
-              color: '#059669',
-              weight: 3,
-              opacity: 0.8
-            };
+    if (!mapLoaded || !map.current) return;
+    const rendered = renderedLayersRef.current;
+    const wanted = new Map(layers.filter(l => l.data).map(l => [l.id, l]));
+
+    rendered.forEach((entry, id) => {
+      const layer = wanted.get(id);
+      if (layer?.data !== entry.data || layer?.style !== entry.style || layer?.clusters !== entry.clusters) {
+        entry.geoJson.remove();
+        entry.clusterGroup?.remove();
+        rendered.delete(id);
+      }
+    });
+    fittedLayerIdsRef.current.forEach(id => {
+      if (!wanted.has(id)) fittedLayerIdsRef.current.delete(id);
+    });
+
+    const added: L.GeoJSON[] = [];
+    // Du dessous vers le dessus : la première couche de la liste est dessinée en dernier
+    [...wanted.values()].reverse().forEach(layer => {
+      let entry = rendered.get(layer.id);
+      if (!entry) {
+        const data = layer.data!;
+        const featureIndexes = new Map<unknown, number>(data.features.map((f, i) => [f, i]));
+        const featureLayers = new Map<number, L.Layer>();
+        const geoJson = L.geoJSON(data, {
+          style: (feature) => datasetFeatureStyle(feature, layer.style, rendered.get(layer.id)?.opacity ?? layer.opacity),
+          pointToLayer: (feature, latlng) => {
+            const symbol = symbolFor(layer.style, feature.properties);
+            return symbol.icon === 'circle'
+              ? L.circleMarker(latlng, { radius: 8 })
+              : L.marker(latlng, { icon: pointIcon(symbol), opacity: layer.opacity });
+          },
+          onEachFeature: (feature, featureLayer) => {
+            const index = featureIndexes.get(feature);
+            if (index !== undefined) {
+              featureLayers.set(index, featureLayer);
+              featureLayer.on('click', () => {
+                if (!handleToolClickRef.current(layer.source, feature)) onFeatureSelectRef.current?.(layer.id, index);
+              });
+            }
+            if (feature.properties) featureLayer.bindPopup(featurePopup(feature.properties));
+            const label = labelFor(layer.style, feature.properties);
+            if (label) {
+              const isPoint = feature.geometry?.type === 'Point' || feature.geometry?.type === 'MultiPoint';
+              featureLayer.bindTooltip(escapeHtml(label), {
+                permanent: true,
+                direction: isPoint ? 'right' : 'center',
+                offset: isPoint ? [8, 0] : [0, 0],
+                className: 'layer-label'
+              });
+            }
           }
-          return {};
-        },
-        pointToLayer: (feature, latlng) => {
-          return L.circleMarker(latlng, {
-            radius: 8,
-            fillColor: '#059669',
-            color: '#047857',
-            weight: 2,
-            opacity: 0.8,
-            fillOpacity: 0.8
-          });
+        });
+        // Regroupement des couches de points denses ou déjà regroupées par la base
+        const points = layer.type === 'point' ? clusterPointsOf(data) : [];
+        const clustered = points.length >= CLUSTER_MIN_POINTS || Boolean(layer.clusters?.length);
+        const pointIndexes = new Set(points.map(p => p.index));
+        entry = {
+          data,
+          style: layer.style,
+          geoJson,
+          featureLayers,
+          opacity: layer.opacity,
+          clusterGroup: clustered ? L.featureGroup() : null,
+          points: clustered ? points : [],
+          others: clustered ? data.features.map((_, i) => i).filter(i => !pointIndexes.has(i)) : [],
+          clusters: layer.clusters,
+          clusterColor: (layer.style?.symbol || DEFAULT_SYMBOL).color,
+        };
+        rendered.set(layer.id, entry);
+        renderClusters(entry, map.current!);
+        // Une couche déjà cadrée (contenu modifié) ne recentre pas la carte ; les
+        // couches chargées par emprise suivent la vue au lieu de la déplacer
+        if (!fittedLayerIdsRef.current.has(layer.id)) {
+          fittedLayerIdsRef.current.add(layer.id);
+          if (!layer.viewportTable) added.push(entry.geoJson);
+        }
+      }
+      if (entry.opacity !== layer.opacity) {
+        entry.opacity = layer.opacity;
+        entry.geoJson.resetStyle();
+        entry.geoJson.eachLayer(featureLayer => {
+          if (featureLayer instanceof L.Marker) featureLayer.setOpacity(layer.opacity);
+        });
+      }
+      const shown = entry.clusterGroup || entry.geoJson;
+      if (layer.visible) {
+        if (!map.current!.hasLayer(shown)) shown.addTo(map.current!);
+        shown.bringToFront();
+      } else {
+        shown.remove();
+      }
+    });
+
+    // Centrer la carte sur les couches ajoutées
+    if (added.length > 0) {
+      try {
+        const bounds = L.featureGroup(added).getBounds();
+        if (bounds.isValid()) {
+          map.current.fitBounds(bounds, { padding: [20, 20] });
+        }
+      } catch (error) {
+        console.warn('Could not fit bounds for dataset:', error);
+      }
+    }
+    flashPendingRef.current();
+  }, [layers, mapLoaded]);
+
+  // Vue imposée (après le cadrage sur les couches ajoutées)
+  useEffect(() => {
+    if (mapLoaded && map.current && view) map.current.setView(view.center, view.zoom);
+  }, [view, mapLoaded]);
+
+  // Mise en évidence de l'entité sélectionnée ; zoom sur son emprise quand la sélection change
+  useEffect(() => {
+    if (!map.current) return;
+
+    highlightRef.current?.();
+    highlightRef.current = null;
+    const entry = activeLayerId ? renderedLayersRef.current.get(activeLayerId) : undefined;
+    const layer = entry && selectedFeatureIndex !== null ? entry.featureLayers.get(selectedFeatureIndex) : undefined;
+    if (entry && layer instanceof L.Marker) {
+      const icon = layer.getIcon();
+      const { icon: shape } = symbolFor(entry.style, entry.data.features[selectedFeatureIndex!]?.properties);
+      layer.setIcon(pointIcon({ color: '#F59E0B', icon: shape }));
+      layer.setZIndexOffset(1000);
+      highlightRef.current = () => {
+        layer.setIcon(icon);
+        layer.setZIndexOffset(0);
+      };
+    } else if (entry && layer instanceof L.Path) {
+      layer.setStyle({ color: '#F59E0B', weight: 4, fillColor: '#FBBF24', opacity: 1 });
+      layer.bringToFront();
+      highlightRef.current = () => entry.geoJson.resetStyle(layer);
+    } else {
+      zoomedSelectionRef.current = null;
+      return;
+    }
+
+    const selectionKey = `${activeLayerId}:${selectedFeatureIndex}`;
+    if (zoomedSelectionRef.current === selectionKey) return;
+    zoomedSelectionRef.current = selectionKey;
+    if (layer instanceof L.CircleMarker || layer instanceof L.Marker) {
+      // Point d'une couche regroupée : zoom jusqu'au dégroupage
+      map.current.setView(layer.getLatLng(), Math.max(map.current.getZoom(), entry.clusterGroup ? CLUSTER_MAX_ZOOM + 1 : 16));
+    } else if (layer instanceof L.Polyline && layer.getBounds().isValid()) {
+      map.current.fitBounds(layer.getBounds(), { padding: [40, 40], maxZoom: 17 });
+    }
+  }, [layers, activeLayerId, selectedFeatureIndex, mapLoaded]);
+
+  // Circuits importés depuis la base (tracés complets de route_geometry)
+  useEffect(() => {
+    if (!mapLoaded || !map.current || !importedRoutesLayerRef.current) return;
+
+    importedRoutesLayerRef.current.clearLayers();
+    // Circuits relus après une modification en temps réel : la vue est conservée
+    const hadRoutes = importedRoutesShownRef.current;
+    importedRoutesShownRef.current = Boolean(routesGeoJSON?.features?.length);
+
+    if (routesGeoJSON && routesGeoJSON.features?.length > 0) {
+      const routesLayer = L.geoJSON(routesGeoJSON, {
+        style: {
+          color: '#3B82F6',
+          weight: 4,
+          opacity: 0.8
         },
         onEachFeature: (feature, layer) => {
-          if (feature.properties) {
-            let popupContent = `<div style="padding: 12px; max-width: 250px;">`;
-            popupContent += `<h3 style="font-weight: bold; color: #047857; margin-bottom: 8px; font-size: 14px;">${feature.properties.name || 'Élément'}</h3>`;
-            
-            Object.entries(feature.properties).forEach(([key, value]) => {
-              if (value !== null && value !== undefined && key !== 'name' && key !== 'id') {
-                const displayKey = key.replace(/_/g, ' ').replace(/\b\w/g, (l: string) => l.toUpperCase());
-                popupContent += `<div style="font-size: 12px; margin-bottom: 4px;"><span style="font-weight: 500; color: #374151;">${displayKey}:</span> <span style="color: #6b7280;">${value}</span></div>`;
-              }
-            });
-            popupContent += `</div>`;
-
-            layer.bindPopup(popupContent);
-          }
+          const props = feature.properties || {};
+          layer.on('click', () => handleToolClickRef.current('sweeping_routes', feature));
+          layer.bindPopup(`
+            <div style="padding: 12px; max-width: 250px;">
+              <h3 style="font-weight: bold; color: #1D4ED8; margin-bottom: 8px; font-size: 14px;">${escapeHtml(props.name || 'Circuit')}</h3>
+              ${props.code ? `<div style="font-size: 12px; margin-bottom: 4px;"><span style="font-weight: 500; color: #374151;">Code:</span> <span style="color: #6b7280;">${escapeHtml(props.code)}</span></div>` : ''}
+              <div style="font-size: 12px; margin-bottom: 4px;"><span style="font-weight: 500; color: #374151;">Équipe:</span> <span style="color: #6b7280;">${escapeHtml(props.shift || '-')}</span></div>
+              <div style="font-size: 12px; margin-bottom: 4px;"><span style="font-weight: 500; color: #374151;">Longueur:</span> <span style="color: #6b7280;">${escapeHtml(props.length_meters ?? '-')} m</span></div>
+              <div style="font-size: 12px;"><span style="font-weight: 500; color: #374151;">Longueur mesurée:</span> <span style="color: #6b7280;">${formatDistance(geometryLength(feature.geometry))}</span></div>
+            </div>
+          `);
         }
       });
 
-      datasetLayerRef.current.addLayer(geoJsonLayer);
+      importedRoutesLayerRef.current.addLayer(routesLayer);
 
-      // Centrer la carte sur les données
       try {
-        const bounds = geoJsonLayer.getBounds();
-        if (bounds.isValid()) {
+        const bounds = routesLayer.getBounds();
+        if (bounds.isValid() && !hadRoutes) {
           map.current.fitBounds(bounds, { padding: [20, 20] });
         }
       } catch (error) {
-        console.warn('Could not fit bounds for dataset:', error);
+        console.warn('Could not fit bounds for imported routes:', error);
       }
     }
-  }, [datasetGeoJSON, mapLoaded]);
+    flashPendingRef.current();
+  }, [routesGeoJSON, mapLoaded]);
 
   // Gestion des routes sélectionnées
   useEffect(() => {
@@ -335,50 +791,6 @@ const MapView: React.FC<MapViewProps> = ({
     }
   }, [selectedRoute, mapLoaded]);
 
-  // Gestion des couches personnalisées
-  useEffect(() => {
-    if (!mapLoaded || !map.current) return;
-
-    // Supprimer les couches personnalisées existantes
-    customLayersRef.current.forEach(layerGroup => {
-      map.current?.removeLayer(layerGroup);
-    });
-    customLayersRef.current = [];
-
-    // Ajouter les nouvelles couches
-    activeLayers.forEach((layer, index) => {
-      if (layer.visible && layer.data) {
-        const layerGroup = L.layerGroup();
-        
-        try {
-          const geoJsonLayer = L.geoJSON(layer.data, {
-            style: layer.paint || {
-              color: '#059669',
-              weight: 2,
-              opacity: 0.8
-            }
-          });
-          
-          layerGroup.addLayer(geoJsonLayer);
-          layerGroup.addTo(map.current!);
-          customLayersRef.current.push(layerGroup);
-        } catch (error) {
-          console.warn(`Could not add custom layer ${layer.name}:`, error);
-        }
-      }
-    });
-  }, [activeLayers, mapLoaded]);
-
-  // Mise à jour des couches
-  useEffect(() => {
-    setActiveLayers(layers);
-  }, [layers]);
-
-  const handleLayerChange = (updatedLayers: MapLayer[]) => {
-    setActiveLayers(updatedLayers);
-    onLayerChange?.(updatedLayers);
-  };
-
   return (
     <div className="relative w-full h-full">
       {/* SONAGED Logo Watermark */}
@@ -398,43 +810,34 @@ const MapView: React.FC<MapViewProps> = ({
         style={{ minHeight: '400px' }}
       />
       
-      {/* Panneau de contrôle des couches */}
-      {activeLayers.length > 0 && (
-        <div className="absolute top-4 left-4 bg-white p-4 rounded-lg shadow-lg max-w-xs z-[1000]">
-          <h3 className="font-semibold text-gray-800 mb-3">Couches</h3>
-          {activeLayers.map((layer, index) => (
-            <div key={index} className="flex items-center mb-2">
-              <input
-                type="checkbox"
-                checked={layer.visible}
-                onChange={(e) => {
-                  const updatedLayers = [...activeLayers];
-                  updatedLayers[index] = { ...layer, visible: e.target.checked };
-                  handleLayerChange(updatedLayers);
-                }}
-                className="mr-2"
-              />
-              <span className="text-sm text-gray-700">{layer.name}</span>
-            </div>
-          ))}
-        </div>
-      )}
-
       {/* Légende personnalisée */}
-      {showLegend && activeLayers.length > 0 && (
+      {showLegend && layers.length > 0 && (
         <div className="absolute bottom-4 left-4 bg-white p-4 rounded-lg shadow-lg max-w-xs z-[1000]">
           <h3 className="font-semibold text-gray-800 text-sm mb-3">Légende</h3>
-          {activeLayers.filter(layer => layer.visible).map((layer, index) => (
-            <div key={index} className="flex items-center mb-2">
-              <div 
-                className="w-4 h-4 rounded mr-2"
-                style={{ 
-                  backgroundColor: layer.paint?.color || layer.paint?.fillColor || '#059669'
-                }}
-              />
-              <span className="text-xs text-gray-700">{layer.name}</span>
-            </div>
-          ))}
+          <div className="max-h-64 overflow-y-auto">
+            {layers.filter(layer => layer.visible).map(layer => {
+              const entries = legendEntries(layer.style, layer.data);
+              return entries.length === 1 && !entries[0].label ? (
+                <div key={layer.id} className="flex items-center mb-2">
+                  <span className="mr-2"><LegendSymbol symbol={entries[0].symbol} type={layer.type} /></span>
+                  <span className="text-xs text-gray-700">{layer.name}</span>
+                </div>
+              ) : (
+                <div key={layer.id} className="mb-2">
+                  <div className="text-xs font-medium text-gray-700 mb-1">
+                    {layer.name}
+                    {layer.style?.field && <span className="font-normal text-gray-500"> ({layer.style.field})</span>}
+                  </div>
+                  {entries.map(entry => (
+                    <div key={entry.label} className="flex items-center mb-1 pl-1">
+                      <span className="mr-2"><LegendSymbol symbol={entry.symbol} type={layer.type} size={14} /></span>
+                      <span className="text-xs text-gray-600">{entry.label}</span>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
           {/* Légende pour les points de collecte */}
           <div className="mt-3 pt-3 border-t border-gray-200">
             <h4 className="font-medium text-gray-800 text-xs mb-2">Points de collecte</h4>
@@ -446,10 +849,15 @@ const MapView: React.FC<MapViewProps> = ({
               <div className="w-3 h-3 rounded-full bg-yellow-500 mr-2" />
               <span className="text-xs text-gray-600">30-70%</span>
             </div>
-            <div className="flex items-center">
+            <div className="flex items-center mb-1">
               <div className="w-3 h-3 rounded-full bg-red-500 mr-2" />
               <span className="text-xs text-gray-600">&gt; 70%</span>
             </div>
+            <div className="flex items-center">
+              <div className="w-3 h-3 rounded-full bg-gray-200 mr-2" />
+              <span className="text-xs text-gray-600">Non relevé</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">Groupes : effectif et remplissage moyen</p>
           </div>
         </div>
       )}
@@ -470,6 +878,56 @@ const MapView: React.FC<MapViewProps> = ({
         </div>
       )}
 
+      {/* Saisie et modification des éléments de la table éditée */}
+      {mapLoaded && map.current && editTable && editTool && (
+        <MapEditor
+          key={`${editTable}:${editTool}:${editTarget?.id ?? ''}:${editSession}`}
+          map={map.current}
+          table={editTable}
+          tool={editTool}
+          target={editTarget}
+          snapLines={snapLines}
+          onCreate={(geometry) => onGeometryEdit?.({ kind: 'create', table: editTable, geometry })}
+          onUpdate={(target, geometry) => {
+            onGeometryEdit?.({ kind: 'update', table: editTable, target, geometry });
+            setEditTarget(null);
+          }}
+          onCancel={() => setEditTarget(null)}
+        />
+      )}
+
+      {/* Outils de mesure (désactivés pendant l'édition) */}
+      {mapLoaded && (
+        <div className="absolute top-28 right-4 bg-white rounded-lg shadow-lg z-[1000] flex flex-col overflow-hidden">
+          {([
+            { value: 'distance', label: 'Mesurer une distance', icon: Ruler },
+            { value: 'area', label: 'Mesurer une surface', icon: LandPlot },
+            { value: 'route', label: 'Comparer la longueur d\'un circuit à sa longueur enregistrée', icon: Route },
+          ] as const).map(({ value, label, icon: Icon }) => (
+            <button
+              key={value}
+              className={`p-2 disabled:opacity-40 disabled:cursor-not-allowed ${
+                measureMode === value ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+              }`}
+              onClick={() => setMeasureMode(measureMode === value ? null : value)}
+              disabled={Boolean(editTool)}
+              title={label}
+            >
+              <Icon size={18} />
+            </button>
+          ))}
+        </div>
+      )}
+      {mapLoaded && map.current && measureMode && !editTool && (
+        <MapMeasure
+          key={measureMode}
+          map={map.current}
+          mode={measureMode}
+          route={measuredRoute}
+          onClose={() => setMeasureMode(null)}
+        />
+      )}
+
       {/* Indicateur de chargement */}
       {!mapLoaded && (
         <div className="absolute inset-0 bg-gray-100 flex items-center justify-center z-[1000]">
@@ -483,10 +941,28 @@ const MapView: React.FC<MapViewProps> = ({
       {/* CSS pour les marqueurs personnalisés */}
       <style dangerouslySetInnerHTML={{
         __html: `
-          .custom-collection-marker {
+          .custom-collection-marker,
+          .layer-symbol-marker,
+          .map-cluster-marker,
+          .map-edit-handle {
             background: transparent !important;
             border: none !important;
           }
+          .map-drawing,
+          .map-drawing .leaflet-interactive {
+            cursor: crosshair;
+          }
+          .layer-label {
+            background: rgba(255, 255, 255, 0.85);
+            border: none;
+            box-shadow: none;
+            padding: 0 4px;
+            font-size: 11px;
+            color: #1f2937;
+          }
+          .layer-label::before {
+            display: none;
+          }
         `
       }} />
     </div>
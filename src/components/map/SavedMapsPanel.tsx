@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertCircle, FolderOpen, Save, Trash2 } from 'lucide-react';
+import { SavedMap } from '../../types';
+import { deleteSavedMap, fetchSavedMaps } from '../../lib/supabase';
+
+interface SavedMapsPanelProps {
+  // Carte ouverte (enregistrer la remplace, sinon une nouvelle carte est créée)
+  currentMap: { id: string; name: string } | null;
+  // Nombre de couches enregistrables (jeux du catalogue)
+  layerCount: number;
+  onSave: (name: string, asNew: boolean) => Promise<void>;
+  onOpen: (map: SavedMap) => Promise<void>;
+  canDelete: (map: SavedMap) => boolean;
+}
+
+// Cartes enregistrées : enregistrement de la composition courante et réouverture
+const SavedMapsPanel = ({ currentMap, layerCount, onSave, onOpen, canDelete }: SavedMapsPanelProps) => {
+  const [maps, setMaps] = useState<SavedMap[] | null>(null);
+  const [name, setName] = useState(currentMap?.name || '');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMaps = useCallback(async () => {
+    try {
+      setMaps(await fetchSavedMaps());
+    } catch (err) {
+      setMaps([]);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMaps();
+  }, [loadMaps]);
+
+  useEffect(() => {
+    setName(currentMap?.name || '');
+  }, [currentMap]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = (asNew: boolean) =>
+    run(async () => {
+      await onSave(name.trim(), asNew);
+      await loadMaps();
+    });
+
+  const handleDelete = (map: SavedMap) => {
+    if (!confirm(`Supprimer la carte « ${map.name} » ? Les jeux de données ne sont pas supprimés.`)) return;
+    run(async () => {
+      await deleteSavedMap(map.id);
+      await loadMaps();
+    });
+  };
+
+  const renamed = currentMap !== null && name.trim() !== currentMap.name;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex space-x-1.5">
+        <input
+          type="text"
+          className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-green-500 focus:border-green-500"
+          placeholder="Nom de la carte"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button
+          className="px-2 py-1.5 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
+          onClick={() => handleSave(currentMap === null)}
+          disabled={busy || !name.trim() || layerCount === 0}
+          title={currentMap ? `Mettre à jour « ${currentMap.name} »` : 'Enregistrer une nouvelle carte'}
+        >
+          <Save size={14} className="mr-1" />
+          Enregistrer
+        </button>
+      </div>
+      {currentMap && (
+        <div className="flex items-center justify-between text-xs text-gray-500">
+          <span className="truncate">Carte ouverte : {currentMap.name}</span>
+          <button
+            className="text-green-600 hover:text-green-700 whitespace-nowrap ml-2 disabled:opacity-50"
+            onClick={() => handleSave(true)}
+            disabled={busy || !name.trim() || layerCount === 0 || !renamed}
+            title="Changez le nom pour enregistrer une copie"
+          >
+            Enregistrer sous ce nom
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center p-2 bg-red-50 rounded-md">
+          <AlertCircle size={14} className="text-red-500 mr-1.5 flex-shrink-0" />
+          <span className="text-xs text-red-700">{error}</span>
+        </div>
+      )}
+
+      {maps === null ? (
+        <div className="text-xs text-gray-500 animate-pulse">Chargement des cartes...</div>
+      ) : maps.length === 0 ? (
+        <div className="text-xs text-gray-500">Aucune carte enregistrée.</div>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md max-h-48 overflow-y-auto">
+          {maps.map(map => (
+            <li key={map.id} className={`flex items-center px-2 py-1.5 ${map.id === currentMap?.id ? 'bg-green-50' : ''}`}>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-gray-800 truncate">{map.name}</div>
+                <div className="text-xs text-gray-500">
+                  {map.layers.length} couche(s) · {new Date(map.updatedAt).toLocaleDateString('fr-FR')}
+                  {map.createdBy && ` · ${map.createdBy}`}
+                </div>
+              </div>
+              <button
+                className="p-1 text-green-600 hover:text-green-700 disabled:opacity-50"
+                onClick={() => run(() => onOpen(map))}
+                disabled={busy}
+                title="Ouvrir"
+              >
+                <FolderOpen size={16} />
+              </button>
+              {canDelete(map) && (
+                <button
+                  className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  onClick={() => handleDelete(map)}
+                  disabled={busy}
+                  title="Supprimer"
+                >
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SavedMapsPanel;
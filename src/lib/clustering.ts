@@ -0,0 +1,105 @@
+import type { FeatureCollection } from 'geojson';
+import type { PointCluster } from '../types';
+
+// ==============================
+// REGROUPEMENT DES POINTS
+// ==============================
+// Les points proches à l'écran sont regroupés sur une grille en pixels (Web
+// Mercator) : la grille est fixe pour un niveau de zoom, les groupes ne bougent
+// donc pas quand la carte est déplacée.
+
+// Couches de points regroupées à partir de ce nombre d'entités
+export const CLUSTER_MIN_POINTS = 200;
+// Au-delà de ce niveau de zoom, tous les points sont affichés
+export const CLUSTER_MAX_ZOOM = 16;
+// Côté d'une maille, en pixels à l'écran
+export const CLUSTER_CELL_PX = 60;
+
+const TILE_PX = 256;
+
+const projectX = (longitude: number, zoom: number) => ((longitude + 180) / 360) * TILE_PX * 2 ** zoom;
+
+const projectY = (latitude: number, zoom: number) => {
+  const sin = Math.sin((latitude * Math.PI) / 180);
+  return (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * TILE_PX * 2 ** zoom;
+};
+
+// Côté d'une maille en degrés, pour le regroupement fait par la base
+export const clusterCellSize = (zoom: number) => (360 / (TILE_PX * 2 ** zoom)) * CLUSTER_CELL_PX;
+
+// Couleur du niveau de remplissage (points de collecte et groupes)
+export const fillLevelColor = (level?: number | null) => {
+  if (level === null || level === undefined) return '#E5E7EB';
+  if (level < 30) return '#10B981';
+  if (level < 70) return '#F59E0B';
+  return '#EF4444';
+};
+
+export interface ClusterPoint {
+  // Index de l'entité dans sa collection
+  index: number;
+  longitude: number;
+  latitude: number;
+  fillLevel: number | null;
+}
+
+export interface PointGroup extends PointCluster {
+  indexes: number[];
+}
+
+// Points d'une collection (géométries Point), avec leur niveau de remplissage
+export const clusterPointsOf = (collection: FeatureCollection): ClusterPoint[] =>
+  collection.features.flatMap((feature, index) => {
+    if (feature.geometry?.type !== 'Point') return [];
+    const [longitude, latitude] = feature.geometry.coordinates;
+    if (!Number.isFinite(longitude) || !Number.isFinite(latitude)) return [];
+    const raw = feature.properties?.fill_level ?? feature.properties?.fillLevel;
+    const level = raw === null || raw === undefined || raw === '' ? NaN : Number(raw);
+    return [{ index, longitude, latitude, fillLevel: Number.isFinite(level) ? level : null }];
+  });
+
+const summarize = (points: ClusterPoint[]): PointGroup => {
+  let longitude = 0;
+  let latitude = 0;
+  let levelSum = 0;
+  let levelCount = 0;
+  const extent: PointGroup['extent'] = [Infinity, Infinity, -Infinity, -Infinity];
+  points.forEach(point => {
+    longitude += point.longitude;
+    latitude += point.latitude;
+    if (point.fillLevel !== null) {
+      levelSum += point.fillLevel;
+      levelCount++;
+    }
+    extent[0] = Math.min(extent[0], point.longitude);
+    extent[1] = Math.min(extent[1], point.latitude);
+    extent[2] = Math.max(extent[2], point.longitude);
+    extent[3] = Math.max(extent[3], point.latitude);
+  });
+  return {
+    longitude: longitude / points.length,
+    latitude: latitude / points.length,
+    count: points.length,
+    fillLevel: levelCount > 0 ? levelSum / levelCount : null,
+    extent,
+    indexes: points.map(p => p.index),
+  };
+};
+
+// Groupes des points pour un niveau de zoom ; un groupe d'un seul point est
+// affiché comme le point lui-même
+export const clusterPoints = (points: ClusterPoint[], zoom: number): PointGroup[] => {
+  if (zoom > CLUSTER_MAX_ZOOM) return points.map(point => summarize([point]));
+  const cells = new Map<string, ClusterPoint[]>();
+  points.forEach(point => {
+    const key = `${Math.floor(projectX(point.longitude, zoom) / CLUSTER_CELL_PX)}:${Math.floor(projectY(point.latitude, zoom) / CLUSTER_CELL_PX)}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(point);
+    else cells.set(key, [point]);
+  });
+  return Array.from(cells.values()).map(summarize);
+};
+
+// Effectif d'un groupe, abrégé au-delà du millier
+export const formatClusterCount = (count: number) =>
+  count >= 1000 ? `${(count / 1000).toLocaleString('fr-FR', { maximumFractionDigits: 1 })} k` : String(count);
@@ -0,0 +1,309 @@
+import Papa from 'papaparse';
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+import { CsvEncoding, CsvGeometrySource, CsvImportOptions, CsvUnlocatedRow } from '../types';
+import { reprojectGeometry } from './projections';
+
+// ==============================
+// LECTURE CSV (ENCODAGE, SÉPARATEUR)
+// ==============================
+
+export const CSV_ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252 / Latin-1 (Excel)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Virgule (,)' },
+  { value: ';', label: 'Point-virgule (;)' },
+  { value: '\t', label: 'Tabulation' },
+  { value: '|', label: 'Barre verticale (|)' },
+];
+
+// BOM s'il existe, sinon UTF-8 strict, sinon Windows-1252 (exports Excel)
+export const detectCsvEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+export const decodeCsv = (bytes: Uint8Array, encoding: CsvEncoding) =>
+  new TextDecoder(encoding).decode(bytes);
+
+export const detectCsvDelimiter = (text: string) =>
+  Papa.parse(text, { preview: 20, delimitersToGuess: CSV_DELIMITERS.map(d => d.value) }).meta.delimiter || ',';
+
+export const parseCsvRows = (text: string, delimiter: string, preview?: number) => {
+  const result = Papa.parse<Record<string, string>>(text, { header: true, delimiter, preview, skipEmptyLines: false });
+  return { headers: result.meta.fields || [], rows: result.data };
+};
+
+// ==============================
+// COLONNES DE GÉOMÉTRIE
+// ==============================
+
+const X_ALIASES = ['longitude', 'lon', 'long', 'lng', 'x', 'coord_x', 'x_utm', 'easting', 'est'];
+const Y_ALIASES = ['latitude', 'lat', 'y', 'coord_y', 'y_utm', 'northing', 'nord'];
+const WKT_ALIASES = ['wkt', 'wkt_geom', 'geom', 'geometry', 'geometrie', 'the_geom', 'shape'];
+
+const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+const findColumn = (headers: string[], aliases: string[]) => {
+  const normalized = headers.map(normalizeHeader);
+  const index = aliases.map(a => normalized.indexOf(a)).find(i => i >= 0);
+  return index === undefined ? '' : headers[index];
+};
+
+const WKT_PATTERN = /^\s*(SRID=\d+;\s*)?(POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION)\b/i;
+
+// Colonne WKT si ses valeurs en ont l'allure, sinon colonnes X/Y reconnues
+export const guessGeometrySource = (headers: string[], rows: Record<string, string>[]): CsvGeometrySource => {
+  const wktColumn = findColumn(headers, WKT_ALIASES)
+    || headers.find(h => rows.some(r => WKT_PATTERN.test(r[h] || '')))
+    || '';
+  const sample = rows.find(r => wktColumn && r[wktColumn]?.trim());
+  if (wktColumn && sample && WKT_PATTERN.test(sample[wktColumn])) {
+    return { mode: 'wkt', column: wktColumn };
+  }
+  return { mode: 'xy', x: findColumn(headers, X_ALIASES), y: findColumn(headers, Y_ALIASES) };
+};
+
+// Options proposées pour un CSV sans réglages enregistrés
+export const guessCsvOptions = (bytes: Uint8Array): CsvImportOptions => {
+  const encoding = detectCsvEncoding(bytes);
+  const text = decodeCsv(bytes, encoding);
+  const delimiter = detectCsvDelimiter(text);
+  const { headers, rows } = parseCsvRows(text, delimiter, 50);
+  return { encoding, delimiter, geometry: guessGeometrySource(headers, rows), sourceCrs: null };
+};
+
+// ==============================
+// WKT
+// ==============================
+
+// Lecture WKT / EWKT (préfixe SRID ignoré) ; Z conservé, M ignoré. EMPTY → null
+export const parseWkt = (text: string): Geometry | null => {
+  const source = text.trim().replace(/^SRID=\d+;\s*/i, '');
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`WKT invalide : ${message}`);
+  };
+  const skip = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+  const peekWord = () => {
+    skip();
+    return /^[A-Za-z]+/.exec(source.slice(pos))?.[0].toUpperCase() ?? '';
+  };
+  const word = () => {
+    const value = peekWord();
+    if (!value) fail(`mot-clé attendu à la position ${pos}`);
+    pos += value.length;
+    return value;
+  };
+  const peek = (char: string) => {
+    skip();
+    return source[pos] === char;
+  };
+  const expect = (char: string) => {
+    if (!peek(char)) fail(`« ${char} » attendu à la position ${pos}`);
+    pos++;
+  };
+  const number = () => {
+    skip();
+    const match = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(source.slice(pos));
+    if (!match) return fail(`nombre attendu à la position ${pos}`);
+    pos += match[0].length;
+    return Number(match[0]);
+  };
+  const list = <T>(item: () => T): T[] => {
+    expect('(');
+    const items = [item()];
+    while (peek(',')) {
+      pos++;
+      items.push(item());
+    }
+    expect(')');
+    return items;
+  };
+
+  const geometry = (): Geometry | null => {
+    const type = word();
+    const dimension = ['Z', 'M', 'ZM'].includes(peekWord()) ? word() : '';
+    if (peekWord() === 'EMPTY') {
+      word();
+      return null;
+    }
+    // M seul : la troisième valeur est une mesure, pas une altitude
+    const position = (): Position => {
+      const values = [number(), number()];
+      while (!peek(',') && !peek(')')) values.push(number());
+      return dimension === 'M' || values.length < 3 ? values.slice(0, 2) : values.slice(0, 3);
+    };
+    const ring = () => list(position);
+    const polygon = () => list(ring);
+
+    switch (type) {
+      case 'POINT':
+        return { type: 'Point', coordinates: list(position)[0] };
+      case 'LINESTRING':
+        return { type: 'LineString', coordinates: ring() };
+      case 'POLYGON':
+        return { type: 'Polygon', coordinates: polygon() };
+      case 'MULTIPOINT':
+        // MULTIPOINT (1 2, 3 4) et MULTIPOINT ((1 2), (3 4)) sont tous deux admis
+        return { type: 'MultiPoint', coordinates: list(() => (peek('(') ? list(position)[0] : position())) };
+      case 'MULTILINESTRING':
+        return { type: 'MultiLineString', coordinates: list(ring) };
+      case 'MULTIPOLYGON':
+        return { type: 'MultiPolygon', coordinates: list(polygon) };
+      case 'GEOMETRYCOLLECTION':
+        return { type: 'GeometryCollection', geometries: list(geometry).filter((g): g is Geometry => g !== null) };
+      default:
+        return fail(`type ${type} non supporté`);
+    }
+  };
+
+  const result = geometry();
+  skip();
+  if (pos < source.length) fail(`caractères inattendus à la position ${pos}`);
+  return result;
+};
+
+const positionToWkt = (position: Position) => position.join(' ');
+const positionsToWkt = (positions: Position[]) => `(${positions.map(positionToWkt).join(', ')})`;
+const ringsToWkt = (rings: Position[][]) => `(${rings.map(positionsToWkt).join(', ')})`;
+
+// Z déduit de la première position
+const hasZ = (geometry: Geometry): boolean => {
+  if (geometry.type === 'GeometryCollection') return geometry.geometries.some(hasZ);
+  let first: unknown = geometry.coordinates;
+  while (Array.isArray(first) && Array.isArray(first[0])) first = first[0];
+  return Array.isArray(first) && first.length > 2;
+};
+
+// Écriture WKT (Z ajouté si la géométrie en porte)
+export const geometryToWkt = (geometry: Geometry): string => {
+  const z = hasZ(geometry) ? ' Z' : '';
+  switch (geometry.type) {
+    case 'Point':
+      return `POINT${z} (${positionToWkt(geometry.coordinates)})`;
+    case 'LineString':
+      return `LINESTRING${z} ${positionsToWkt(geometry.coordinates)}`;
+    case 'Polygon':
+      return `POLYGON${z} ${ringsToWkt(geometry.coordinates)}`;
+    case 'MultiPoint':
+      return `MULTIPOINT${z} (${geometry.coordinates.map(p => `(${positionToWkt(p)})`).join(', ')})`;
+    case 'MultiLineString':
+      return `MULTILINESTRING${z} ${ringsToWkt(geometry.coordinates)}`;
+    case 'MultiPolygon':
+      return `MULTIPOLYGON${z} (${geometry.coordinates.map(ringsToWkt).join(', ')})`;
+    case 'GeometryCollection':
+      return `GEOMETRYCOLLECTION (${geometry.geometries.map(geometryToWkt).join(', ')})`;
+  }
+};
+
+// ==============================
+// CONVERSION EN GEOJSON
+// ==============================
+
+// Nombre saisi avec virgule décimale (exports Excel français) ou espaces de milliers
+const parseCoordinate = (value: string | undefined) => {
+  const text = (value ?? '').trim().replace(/\s+/g, '');
+  if (!text) return null;
+  const normalized = /^[-+]?\d+,\d+$/.test(text) ? text.replace(',', '.') : text;
+  const number = Number(normalized);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+export interface CsvConversionResult {
+  collection: FeatureCollection;
+  headers: string[];
+  total: number;
+  unlocated: CsvUnlocatedRow[];
+  sourceSystems: string[];
+}
+
+// Convertit les lignes en points/géométries WGS84 ; chaque ligne non localisée
+// (coordonnées absentes, WKT illisible, hors du Sénégal…) est signalée avec sa raison
+export const csvToGeoJSON = (text: string, options: CsvImportOptions): CsvConversionResult => {
+  const { headers, rows } = parseCsvRows(text, options.delimiter);
+  const features: Feature[] = [];
+  const unlocated: CsvUnlocatedRow[] = [];
+  const sourceSystems = new Set<string>();
+  let total = 0;
+
+  rows.forEach((row, index) => {
+    if (Object.values(row).every(v => v === undefined || v === null || String(v).trim() === '')) return;
+    total++;
+    // Ligne 1 = en-tête
+    const line = index + 2;
+
+    let geometry: Geometry | null = null;
+    if (options.geometry.mode === 'wkt') {
+      const wkt = row[options.geometry.column]?.trim();
+      if (!wkt) {
+        unlocated.push({ line, reason: 'Géométrie WKT absente' });
+        return;
+      }
+      try {
+        geometry = parseWkt(wkt);
+      } catch (error) {
+        unlocated.push({ line, reason: error instanceof Error ? error.message : String(error) });
+        return;
+      }
+      if (!geometry) {
+        unlocated.push({ line, reason: 'Géométrie vide (EMPTY)' });
+        return;
+      }
+    } else {
+      const { x: xColumn, y: yColumn } = options.geometry;
+      const x = parseCoordinate(row[xColumn]);
+      const y = parseCoordinate(row[yColumn]);
+      if (x === null || y === null) {
+        unlocated.push({ line, reason: 'Coordonnées absentes' });
+        return;
+      }
+      if (Number.isNaN(x) || Number.isNaN(y)) {
+        unlocated.push({ line, reason: `Coordonnées non numériques : « ${row[xColumn]} », « ${row[yColumn]} »` });
+        return;
+      }
+      geometry = { type: 'Point', coordinates: [x, y] };
+    }
+
+    const conversion = reprojectGeometry(geometry, options.sourceCrs);
+    if (conversion.status !== 'converted' || !conversion.geometry) {
+      unlocated.push({ line, reason: conversion.error || 'Conversion impossible' });
+      return;
+    }
+    if (conversion.sourceSystem) sourceSystems.add(conversion.sourceSystem);
+
+    const properties: Record<string, string> = { ...row };
+    if (options.geometry.mode === 'wkt') delete properties[options.geometry.column];
+    features.push({ type: 'Feature', geometry: conversion.geometry, properties });
+  });
+
+  return {
+    collection: { type: 'FeatureCollection', features },
+    headers,
+    total,
+    unlocated,
+    sourceSystems: Array.from(sourceSystems),
+  };
+};
+
+// Lit un fichier CSV avec ses réglages enregistrés, ou à défaut des réglages détectés
+export const parseCsvFile = async (file: Blob, options?: CsvImportOptions | null) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const resolved = options || guessCsvOptions(bytes);
+  return csvToGeoJSON(decodeCsv(bytes, resolved.encoding), resolved);
+};
@@ -0,0 +1,308 @@
+import shp from 'shpjs';
+import type { Feature, FeatureCollection } from 'geojson';
+import type { DatasetMetadata, DatasetVersion } from '../types';
+import {
+  fetchRawFileBlob,
+  fetchRawFileImportOptions,
+  fetchTableGeoJSON,
+  refreshTableDataset,
+  supabase,
+  uploadWholeGeoJSON
+} from './supabase';
+import { TARGET_FIELDS } from './importMapping';
+import { validateRow } from './importValidation';
+import { parseKmlFile } from './kml';
+import { openGeoPackage } from './geopackage';
+import { parseCsvFile } from './csv';
+
+// ==============================
+// CONTENU DES JEUX DU REGISTRE
+// ==============================
+// Lecture d'un jeu du catalogue en GeoJSON selon son stockage : couche métier,
+// GeoJSON complet ou fichier brut converti côté client. Un ZIP shapefile
+// multi-couches renvoie un tableau de collections ; null si le format n'est pas
+// visualisable (PDF).
+
+export const loadDatasetGeoJSON = async (dataset: DatasetMetadata) => {
+  // 1. Couche métier (table complète)
+  if (dataset.storage === 'table' && dataset.table) {
+    return fetchTableGeoJSON(dataset.table);
+  }
+  if (!dataset.contentId) return null;
+
+  // 2. GeoJSON complet (geojson_datasets)
+  if (dataset.storage === 'geojson') {
+    const { data, error } = await supabase.from('geojson_datasets').select('data').eq('id', dataset.contentId).single();
+    return !error && data ? data.data : null;
+  }
+  if (dataset.storage !== 'raw_file') return null;
+
+  switch (dataset.format) {
+    // 3. SHP zippé
+    case 'SHP': {
+      const blob = await fetchRawFileBlob(dataset.contentId);
+      try {
+        return await shp(await blob.arrayBuffer());
+      } catch {
+        throw new Error('Erreur lors de la conversion du SHP en GeoJSON.');
+      }
+    }
+    // 4. KML/KMZ
+    case 'KML':
+      return parseKmlFile(await fetchRawFileBlob(dataset.contentId));
+    // 5. GeoPackage : toutes les couches
+    case 'GPKG': {
+      const reader = await openGeoPackage(await fetchRawFileBlob(dataset.contentId));
+      try {
+        return reader.readLayers(reader.layers.map(l => l.name));
+      } finally {
+        reader.close();
+      }
+    }
+    // 6. CSV : réglages enregistrés à l'import, ou détectés
+    case 'CSV': {
+      const [blob, csvOptions] = await Promise.all([
+        fetchRawFileBlob(dataset.contentId),
+        fetchRawFileImportOptions(dataset.contentId),
+      ]);
+      const { collection, unlocated } = await parseCsvFile(blob, csvOptions);
+      if (unlocated.length > 0) {
+        console.warn(`${unlocated.length} ligne(s) CSV non localisée(s)`, unlocated);
+      }
+      return collection;
+    }
+    default:
+      return null;
+  }
+};
+
+// Une seule FeatureCollection (un ZIP shapefile multi-couches donne un tableau de collections)
+export const asFeatureCollection = (geojson: FeatureCollection | FeatureCollection[]): FeatureCollection =>
+  Array.isArray(geojson) ? { type: 'FeatureCollection', features: geojson.flatMap(c => c.features) } : geojson;
+
+// Jeu visualisable sous forme d'une seule FeatureCollection
+export const loadDatasetCollection = async (dataset: DatasetMetadata): Promise<FeatureCollection | null> => {
+  const geojson = await loadDatasetGeoJSON(dataset);
+  return geojson ? asFeatureCollection(geojson as FeatureCollection | FeatureCollection[]) : null;
+};
+
+// Contenu d'une version donnée d'un jeu du registre
+export const loadDatasetVersionCollection = (dataset: DatasetMetadata, version: DatasetVersion) =>
+  loadDatasetCollection({ ...dataset, contentId: version.geojson_dataset_id || version.raw_file_id || undefined });
+
+// ==============================
+// COMPARAISON DE VERSIONS
+// ==============================
+// Les features de deux versions sont appariées par une propriété identifiante ;
+// sans identifiant, seules les features strictement identiques sont appariées et
+// les différences apparaissent en ajouts et suppressions.
+
+export interface FeatureChange {
+  key: string;
+  name: string;
+  before: Feature;
+  after: Feature;
+  properties: string[];
+  geometry: boolean;
+}
+
+export interface FeatureDiff {
+  key: string | null;
+  added: Feature[];
+  removed: Feature[];
+  modified: FeatureChange[];
+  unchanged: number;
+}
+
+const KEY_CANDIDATES = /^(id|fid|uuid|code|ref|reference|identifiant|objectid)$|(_id|_code)$/i;
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+const featureName = (feature: Feature) =>
+  String(feature.properties?.name ?? feature.properties?.nom ?? feature.properties?.NAME ?? '');
+
+// Propriétés présentes et uniques dans les deux versions, identifiants probables en tête
+export const featureKeyCandidates = (before: FeatureCollection, after: FeatureCollection) => {
+  const features = [...before.features, ...after.features];
+  const names = Array.from(new Set(features.flatMap(f => Object.keys(f.properties || {}))));
+  const isUnique = (collection: FeatureCollection, name: string) => {
+    const values = collection.features.map(f => f.properties?.[name]);
+    return values.every(v => !isBlank(v)) && new Set(values.map(String)).size === values.length;
+  };
+  return names
+    .filter(name => isUnique(before, name) && isUnique(after, name))
+    .sort((a, b) => Number(KEY_CANDIDATES.test(b)) - Number(KEY_CANDIDATES.test(a)));
+};
+
+const indexFeatures = (collection: FeatureCollection, keyOf: (feature: Feature) => string) => {
+  const index = new Map<string, Feature>();
+  collection.features.forEach(feature => {
+    const key = keyOf(feature);
+    // Doublons : numérotés dans l'ordre du fichier
+    let unique = key;
+    for (let n = 2; index.has(unique); n++) unique = `${key}#${n}`;
+    index.set(unique, feature);
+  });
+  return index;
+};
+
+export const diffFeatureCollections = (
+  before: FeatureCollection,
+  after: FeatureCollection,
+  key: string | null
+): FeatureDiff => {
+  const keyOf = key
+    ? (feature: Feature) => String(feature.properties?.[key] ?? '')
+    : (feature: Feature) => JSON.stringify([feature.geometry, feature.properties]);
+  const previous = indexFeatures(before, keyOf);
+  const next = indexFeatures(after, keyOf);
+
+  const diff: FeatureDiff = { key, added: [], removed: [], modified: [], unchanged: 0 };
+  next.forEach((feature, featureKey) => {
+    const old = previous.get(featureKey);
+    if (!old) {
+      diff.added.push(feature);
+      return;
+    }
+    const names = new Set([...Object.keys(old.properties || {}), ...Object.keys(feature.properties || {})]);
+    const properties = Array.from(names).filter(
+      name => JSON.stringify(old.properties?.[name] ?? null) !== JSON.stringify(feature.properties?.[name] ?? null)
+    );
+    const geometry = JSON.stringify(old.geometry) !== JSON.stringify(feature.geometry);
+    if (properties.length > 0 || geometry) {
+      diff.modified.push({ key: featureKey, name: featureName(feature), before: old, after: feature, properties, geometry });
+    } else {
+      diff.unchanged++;
+    }
+  });
+  previous.forEach((feature, featureKey) => {
+    if (!next.has(featureKey)) diff.removed.push(feature);
+  });
+  return diff;
+};
+
+// ==============================
+// ÉDITION ATTRIBUTAIRE
+// ==============================
+// Les valeurs modifiées dans la table attributaire sont enregistrées selon le
+// stockage du jeu : mise à jour des lignes d'une couche métier, ou nouvelle
+// version d'un GeoJSON complet (l'historique n'est jamais réécrit). Un fichier
+// brut garde son format d'origine et reste en lecture seule.
+
+export interface AttributeEdit {
+  featureIndex: number;
+  property: string;
+  value: unknown;
+}
+
+export interface ParsedAttribute {
+  value: unknown;
+  error?: string;
+}
+
+// Jeu actif du registre dont le contenu peut être modifié
+export const isDatasetEditable = (dataset: DatasetMetadata | null | undefined) =>
+  !!dataset?.id && dataset.status === 'active' && (
+    dataset.storage === 'table' ? !!dataset.table : dataset.storage === 'geojson' && !!dataset.contentId
+  );
+
+// Colonnes modifiables : les colonnes attributaires d'une couche métier
+// (ni identifiant ni horodatage), toutes celles d'un GeoJSON
+export const editableAttributeColumns = (dataset: DatasetMetadata, columns: string[]) =>
+  dataset.storage === 'table' && dataset.table
+    ? TARGET_FIELDS[dataset.table].map(f => f.column).filter(c => columns.includes(c))
+    : columns;
+
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, vrai: true, oui: true, false: false, faux: false, non: false };
+
+// Valeur saisie dans une cellule, convertie d'après le type de la colonne : contraintes
+// de la table pour une couche métier, type de la valeur précédente pour un GeoJSON
+export const parseAttributeEdit = (
+  dataset: DatasetMetadata,
+  feature: Feature,
+  property: string,
+  text: string
+): ParsedAttribute => {
+  const trimmed = text.trim();
+  if (dataset.storage === 'table' && dataset.table) {
+    const field = TARGET_FIELDS[dataset.table].find(f => f.column === property);
+    if (!field) return { value: null, error: 'Colonne non modifiable' };
+    const { row, errors } = validateRow(dataset.table, { ...feature.properties, [property]: trimmed });
+    const error = errors.find(e => e.startsWith(field.label));
+    return { value: trimmed === '' ? null : row[property], error };
+  }
+
+  if (trimmed === '') return { value: null };
+  const previous = feature.properties?.[property];
+  if (typeof previous === 'number') {
+    const n = Number(trimmed.replace(',', '.'));
+    return Number.isFinite(n) ? { value: n } : { value: null, error: `« ${trimmed} » n'est pas un nombre` };
+  }
+  if (typeof previous === 'boolean') {
+    const b = BOOLEAN_VALUES[trimmed.toLowerCase()];
+    return b === undefined ? { value: null, error: 'Valeur attendue : oui ou non' } : { value: b };
+  }
+  return { value: trimmed };
+};
+
+// Rang d'une entité dans une collection relue (emprise, modifications d'autres
+// utilisateurs), retrouvée par son identifiant ; null si elle n'y figure plus
+export const remapFeatureIndex = (previous: FeatureCollection, next: FeatureCollection, index: number | null) => {
+  if (index === null) return null;
+  const id = previous.features[index]?.properties?.id;
+  if (id === undefined || id === null) return null;
+  const found = next.features.findIndex(f => f.properties?.id === id);
+  return found === -1 ? null : found;
+};
+
+// Copie de la collection avec les valeurs modifiées (features non modifiées partagées)
+export const applyAttributeEdits = (collection: FeatureCollection, edits: AttributeEdit[]): FeatureCollection => {
+  const features = [...collection.features];
+  edits.forEach(({ featureIndex, property, value }) => {
+    const feature = features[featureIndex];
+    features[featureIndex] = { ...feature, properties: { ...feature.properties, [property]: value } };
+  });
+  return { ...collection, features };
+};
+
+// Enregistre les modifications et renvoie la collection à jour
+export const saveAttributeEdits = async (
+  dataset: DatasetMetadata,
+  collection: FeatureCollection,
+  edits: AttributeEdit[],
+  author: string
+): Promise<FeatureCollection> => {
+  if (!isDatasetEditable(dataset)) throw new Error('Ce jeu de données est en lecture seule.');
+  const updated = applyAttributeEdits(collection, edits);
+
+  if (dataset.storage === 'table' && dataset.table) {
+    const table = dataset.table;
+    const changesById = new Map<string, Record<string, unknown>>();
+    edits.forEach(({ featureIndex, property, value }) => {
+      const id = collection.features[featureIndex]?.properties?.id;
+      if (typeof id !== 'string') throw new Error(`Entité ${featureIndex + 1} sans identifiant : modification impossible.`);
+      changesById.set(id, { ...changesById.get(id), [property]: value });
+    });
+    for (const [id, changes] of changesById) {
+      const { error } = await supabase.from(table).update(changes).eq('id', id);
+      if (error) throw new Error(`Erreur lors de l'enregistrement : ${error.message}`);
+    }
+    // Index de recherche du catalogue à jour
+    await refreshTableDataset(table).catch(error => console.warn('Registre non mis à jour:', error));
+    return updated;
+  }
+
+  const registration = {
+    name: dataset.name,
+    description: dataset.description,
+    category: dataset.category,
+    source: dataset.source,
+    licence: dataset.licence || '',
+    owner: author,
+    tags: dataset.tags,
+  };
+  const note = `Modification attributaire (${edits.length} valeur(s))`;
+  const { error } = await uploadWholeGeoJSON(updated, registration, { datasetId: dataset.id, note });
+  if (error) throw new Error(`Erreur lors de l'enregistrement : ${error.message}`);
+  return updated;
+};
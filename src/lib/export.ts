@@ -0,0 +1,109 @@
+import Papa from 'papaparse';
+import type { Feature, FeatureCollection } from 'geojson';
+import { BUILTIN_PROJECTIONS, transformGeometry } from './projections';
+import { geometryToWkt } from './csv';
+import { geoJSONToKml } from './kml';
+import { geoJSONToGeoPackage } from './geopackage';
+import { geoJSONToShapefileZip } from './shapefile';
+
+// ==============================
+// EXPORT MULTI-FORMATS
+// ==============================
+// Les jeux de données du catalogue sont chargés en WGS84 ; l'export les
+// reprojette au besoin dans le système demandé par les bureaux d'études.
+
+export type ExportFormat = 'geojson' | 'shp' | 'csv' | 'kml' | 'gpkg';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimetype: string }[] = [
+  { value: 'geojson', label: 'GeoJSON', extension: 'geojson', mimetype: 'application/geo+json' },
+  { value: 'shp', label: 'Shapefile (ZIP)', extension: 'zip', mimetype: 'application/zip' },
+  { value: 'csv', label: 'CSV (coordonnées + WKT)', extension: 'csv', mimetype: 'text/csv' },
+  { value: 'kml', label: 'KML (Google Earth)', extension: 'kml', mimetype: 'application/vnd.google-earth.kml+xml' },
+  { value: 'gpkg', label: 'GeoPackage', extension: 'gpkg', mimetype: 'application/geopackage+sqlite3' },
+];
+
+// Systèmes de sortie : ceux dont la WKT est connue (.prj, GeoPackage)
+export const EXPORT_CRS = BUILTIN_PROJECTIONS.filter(p => p.wkt);
+
+// Le KML impose WGS84
+export const formatSupportsCrs = (format: ExportFormat) => format !== 'kml';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  crs: string;
+  name: string;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  filename: string;
+  exported: number;
+  skipped: number;
+}
+
+const reproject = (collection: FeatureCollection, crs: string): FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: collection.features
+    .filter(f => f.geometry)
+    .map(f => ({ ...f, geometry: transformGeometry(f.geometry, 'EPSG:4326', crs) })),
+});
+
+// CSV : attributs, X/Y pour les points, WKT pour toutes les géométries
+const toCsv = (features: Feature[], crs: string) => {
+  const projected = crs !== 'EPSG:4326';
+  const [xColumn, yColumn] = projected ? ['x', 'y'] : ['longitude', 'latitude'];
+  const rows: Record<string, unknown>[] = features.map(feature => {
+    const properties = Object.fromEntries(
+      Object.entries(feature.properties || {}).map(([k, v]) => [k, v !== null && typeof v === 'object' ? JSON.stringify(v) : v])
+    );
+    const point = feature.geometry.type === 'Point' ? feature.geometry.coordinates : null;
+    return { ...properties, [xColumn]: point?.[0] ?? '', [yColumn]: point?.[1] ?? '', wkt: geometryToWkt(feature.geometry) };
+  });
+  // En-tête : toutes les propriétés rencontrées, pas seulement celles du premier objet
+  const fields = Array.from(new Set(rows.flatMap(row => Object.keys(row).filter(k => k !== xColumn && k !== yColumn && k !== 'wkt'))))
+    .concat(xColumn, yColumn, 'wkt');
+  // BOM : Excel reconnaît l'UTF-8
+  return '\uFEFF' + Papa.unparse({ fields, data: rows.map(row => fields.map(field => row[field] ?? '')) });
+};
+
+export const exportFeatureCollection = async (collection: FeatureCollection, options: ExportOptions): Promise<ExportResult> => {
+  const format = EXPORT_FORMATS.find(f => f.value === options.format);
+  if (!format) throw new Error(`Format d'export inconnu : ${options.format}`);
+  const crs = formatSupportsCrs(options.format) ? options.crs : 'EPSG:4326';
+  const projection = EXPORT_CRS.find(p => p.code === crs);
+  if (!projection) throw new Error(`Système de sortie non disponible : ${crs}`);
+
+  const baseName = options.name.replace(/\s+/g, '_') || 'export';
+  const suffix = crs === 'EPSG:4326' ? '' : `_${crs.replace(':', '')}`;
+  const filename = `${baseName}${suffix}.${format.extension}`;
+  const projected = reproject(collection, crs);
+  const exported = projected.features.length;
+  let skipped = collection.features.length - exported;
+
+  let content: BlobPart;
+  switch (options.format) {
+    case 'geojson':
+      // Membre "crs" (GeoJSON 2008) hors WGS84, relu à l'import ; pas d'URN EPSG
+      // pour un code interne, qui désignerait un autre système
+      content = JSON.stringify(crs === 'EPSG:4326' || projection.internal
+        ? projected
+        : { ...projected, crs: { type: 'name', properties: { name: `urn:ogc:def:crs:EPSG::${crs.split(':')[1]}` } } }, null, 2);
+      break;
+    case 'csv':
+      content = toCsv(projected.features, crs);
+      break;
+    case 'kml':
+      content = geoJSONToKml(projected, options.name);
+      break;
+    case 'gpkg':
+      // Le GeoPackage est écrit à partir du WGS84 et reprojeté par l'écrivain
+      content = await geoJSONToGeoPackage(collection, { layerName: options.name, targetCrs: crs });
+      break;
+    case 'shp': {
+      const result = await geoJSONToShapefileZip(projected, { name: baseName, prj: projection.wkt });
+      skipped += result.skipped;
+      return { blob: result.blob, filename, exported: exported - result.skipped, skipped };
+    }
+  }
+  return { blob: new Blob([content], { type: format.mimetype }), filename, exported, skipped };
+};
@@ -0,0 +1,208 @@
+import type { Feature, FeatureCollection, Point, Position } from 'geojson';
+import type { EditTarget, EditableGeometry, ImportTable } from '../types';
+import type { Database, Json } from '../types/supabase';
+import { TARGET_FIELDS } from './importMapping';
+import { validateRow } from './importValidation';
+import { geometryLength } from './measurement';
+import { db, refreshTableDataset } from './supabase';
+
+type Tables = Database['public']['Tables'];
+
+// ==============================
+// ÉDITION DES TABLES MÉTIER SUR LA CARTE
+// ==============================
+// Points de collecte et mobilier sont localisés par latitude, longitude et
+// geometry ; le tracé d'un circuit est stocké à part, dans route_geometry.
+
+export const EDIT_TABLES: { value: ImportTable; label: string }[] = [
+  { value: 'collection_points', label: 'Points de collecte' },
+  { value: 'urban_furniture', label: 'Mobilier urbain' },
+  { value: 'sweeping_routes', label: 'Circuits de balayage' },
+];
+
+export const isLineTable = (table: ImportTable) => table === 'sweeping_routes';
+
+// Parties d'un tracé (aucune pour un point)
+export const lineParts = (geometry: EditableGeometry): Position[][] =>
+  geometry.type === 'LineString' ? [geometry.coordinates] : geometry.type === 'MultiLineString' ? geometry.coordinates : [];
+
+// Élément d'une table d'après une entité affichée : identifiant en base et
+// géométrie du type de la table
+export const editTargetOf = (table: ImportTable, feature: Feature | undefined): EditTarget | null => {
+  const id = feature?.properties?.id;
+  const geometry = feature?.geometry;
+  if (typeof id !== 'string' || !geometry) return null;
+  const matches = isLineTable(table)
+    ? geometry.type === 'LineString' || geometry.type === 'MultiLineString'
+    : geometry.type === 'Point';
+  return matches ? { id, name: String(feature.properties?.name ?? ''), geometry: geometry as EditableGeometry } : null;
+};
+
+// Tracés d'une collection servant à l'accrochage, hors élément en cours de modification
+export const snapLinesOf = (collection: FeatureCollection | null | undefined, excludeId?: string | null): Position[][] =>
+  (collection?.features || []).flatMap(feature => {
+    const geometry = feature.geometry;
+    if (!geometry || (excludeId && feature.properties?.id === excludeId)) return [];
+    if (geometry.type === 'LineString') return [geometry.coordinates];
+    return geometry.type === 'MultiLineString' ? geometry.coordinates : [];
+  });
+
+// ==============================
+// ACCROCHAGE
+// ==============================
+// Calculé en pixels à l'écran, pour une tolérance identique à tous les zooms.
+
+export const SNAP_TOLERANCE_PX = 12;
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+const screenDistance = (a: ScreenPoint, b: ScreenPoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+// Point du segment [a, b] le plus proche de target
+const closestOnSegment = (target: ScreenPoint, a: ScreenPoint, b: ScreenPoint): ScreenPoint => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length2 = dx * dx + dy * dy;
+  const t = length2 === 0 ? 0 : Math.max(0, Math.min(1, ((target.x - a.x) * dx + (target.y - a.y) * dy) / length2));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+};
+
+// Position accrochée aux tracés à moins de tolerance pixels : un sommet en
+// priorité, sinon le point le plus proche d'un segment (null : rien à proximité)
+export const snapToLines = (
+  target: ScreenPoint,
+  lines: ScreenPoint[][],
+  tolerance = SNAP_TOLERANCE_PX
+): ScreenPoint | null => {
+  let vertex: ScreenPoint | null = null;
+  let best = tolerance;
+  for (const line of lines) {
+    for (const point of line) {
+      const distance = screenDistance(target, point);
+      if (distance <= best) {
+        vertex = point;
+        best = distance;
+      }
+    }
+  }
+  if (vertex) return vertex;
+
+  let onSegment: ScreenPoint | null = null;
+  for (const line of lines) {
+    for (let i = 1; i < line.length; i++) {
+      const point = closestOnSegment(target, line[i - 1], line[i]);
+      const distance = screenDistance(target, point);
+      if (distance <= best) {
+        onSegment = point;
+        best = distance;
+      }
+    }
+  }
+  return onSegment;
+};
+
+// ==============================
+// ATTRIBUTS DES NOUVEAUX ÉLÉMENTS
+// ==============================
+
+// Valeurs initiales du formulaire : valeurs par défaut des colonnes, date du jour
+// pour l'installation d'un mobilier, longueur géodésique du tracé pour un circuit
+export const initialAttributes = (table: ImportTable, geometry: EditableGeometry): Record<string, string> => {
+  const values = Object.fromEntries(TARGET_FIELDS[table].map(field => [field.column, field.defaultValue ?? '']));
+  if (table === 'urban_furniture') values.install_date = new Date().toISOString().slice(0, 10);
+  if (isLineTable(table)) values.length_meters = String(Math.round(geometryLength(geometry)));
+  return values;
+};
+
+export interface AttributeValidation {
+  row: Record<string, unknown>;
+  // Message d'erreur par colonne
+  errors: Record<string, string>;
+}
+
+// Valide la saisie d'après les contraintes de la table (validateRow) ; les champs
+// vides sont enregistrés à null, sauf l'adresse (NOT NULL)
+export const validateAttributes = (table: ImportTable, values: Record<string, string>): AttributeValidation => {
+  const trimmed = Object.fromEntries(Object.entries(values).map(([column, value]) => [column, value.trim()]));
+  const { row, errors } = validateRow(table, trimmed);
+  const result: AttributeValidation = { row: {}, errors: {} };
+  TARGET_FIELDS[table].forEach(field => {
+    const error = errors.find(e => e === `${field.label} obligatoire` || e.startsWith(`${field.label} : `));
+    if (error) result.errors[field.column] = error;
+    const value = row[field.column];
+    result.row[field.column] = value === '' || value === undefined ? (field.column === 'location' ? '' : null) : value;
+  });
+  return result;
+};
+
+// ==============================
+// ENREGISTREMENT (API db)
+// ==============================
+
+const pointColumns = (geometry: EditableGeometry) => {
+  const [longitude, latitude] = (geometry as Point).coordinates;
+  return { latitude, longitude, geometry: geometry as unknown as Json };
+};
+
+// Nombre d'entités, emprise et index du catalogue à jour après une modification
+const refreshRegistry = (table: ImportTable) =>
+  refreshTableDataset(table).catch(error => console.warn('Registre non mis à jour:', error));
+
+// Crée un élément avec ses attributs validés ; renvoie son identifiant
+export const createTableFeature = async (
+  table: ImportTable,
+  row: Record<string, unknown>,
+  geometry: EditableGeometry
+): Promise<string> => {
+  let id: string;
+  if (table === 'sweeping_routes') {
+    const created = await db.sweepingRoutes.create(row as Tables['sweeping_routes']['Insert']).select('id').single();
+    if (created.error) throw new Error(`Erreur lors de l'enregistrement du circuit : ${created.error.message}`);
+    id = created.data.id;
+    const { error } = await db.routeGeometry.upsert({ route_id: id, geometry: geometry as unknown as Json });
+    if (error) {
+      // Un circuit sans tracé n'apparaîtrait pas sur la carte
+      await db.sweepingRoutes.delete(id);
+      throw new Error(`Erreur lors de l'enregistrement du tracé : ${error.message}`);
+    }
+  } else {
+    const created = table === 'collection_points'
+      ? await db.collectionPoints.create({ ...row, ...pointColumns(geometry) } as Tables['collection_points']['Insert']).select('id').single()
+      : await db.urbanFurniture.create({ ...row, ...pointColumns(geometry) } as Tables['urban_furniture']['Insert']).select('id').single();
+    if (created.error) throw new Error(`Erreur lors de l'enregistrement : ${created.error.message}`);
+    id = created.data.id;
+  }
+  await refreshRegistry(table);
+  return id;
+};
+
+// Enregistre la nouvelle géométrie d'un élément (déplacement, tracé remodelé)
+export const updateTableGeometry = async (table: ImportTable, id: string, geometry: EditableGeometry) => {
+  const { error } = table === 'sweeping_routes'
+    ? await db.routeGeometry.upsert({ route_id: id, geometry: geometry as unknown as Json })
+    : table === 'collection_points'
+      ? await db.collectionPoints.update(id, pointColumns(geometry))
+      : await db.urbanFurniture.update(id, pointColumns(geometry));
+  if (error) throw new Error(`Erreur lors de l'enregistrement de la géométrie : ${error.message}`);
+  await refreshRegistry(table);
+};
+
+// Violation de clé étrangère (Postgres) : l'élément est référencé par un historique
+const FOREIGN_KEY_VIOLATION = '23503';
+
+// Supprime un élément (le tracé d'un circuit est supprimé en cascade)
+export const deleteTableFeature = async (table: ImportTable, id: string) => {
+  const { error } = table === 'sweeping_routes'
+    ? await db.sweepingRoutes.delete(id)
+    : table === 'collection_points'
+      ? await db.collectionPoints.delete(id)
+      : await db.urbanFurniture.delete(id);
+  if (error?.code === FOREIGN_KEY_VIOLATION) {
+    throw new Error('Cet élément a un historique (collectes, maintenances) : passez-le au statut « inactive » plutôt que de le supprimer.');
+  }
+  if (error) throw new Error(`Erreur lors de la suppression : ${error.message}`);
+  await refreshRegistry(table);
+};
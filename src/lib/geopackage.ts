@@ -0,0 +1,424 @@
+import type { Database as SqlDatabase, SqlJsStatic, SqlValue } from 'sql.js';
+import type { Feature, FeatureCollection, Geometry, GeoJsonProperties, Position } from 'geojson';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+import { getProjections, isProjectionRegistered, resolvePrjDefinition, transformGeometry } from './projections';
+
+// ==============================
+// GEOPACKAGE (SQLITE) CÔTÉ CLIENT
+// ==============================
+// Lecture et écriture via sql.js (SQLite compilé en WebAssembly), chargé à la
+// demande pour ne pas alourdir le bundle principal.
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+const loadSqlJs = () => {
+  if (!sqlJsPromise) {
+    sqlJsPromise = import('sql.js').then(({ default: initSqlJs }) => initSqlJs({ locateFile: () => sqlWasmUrl }));
+  }
+  return sqlJsPromise;
+};
+
+export interface GeoPackageLayer {
+  name: string;
+  identifier: string;
+  geometryColumn: string;
+  geometryType: string;
+  srsId: number;
+  featureCount: number;
+}
+
+// ==============================
+// WKB
+// ==============================
+
+const WKB_TYPES = ['', 'Point', 'LineString', 'Polygon', 'MultiPoint', 'MultiLineString', 'MultiPolygon', 'GeometryCollection'] as const;
+
+const readWkb = (view: DataView, start: number): { geometry: Geometry | null; offset: number } => {
+  let offset = start;
+  const littleEndian = view.getUint8(offset) === 1;
+  offset += 1;
+  let rawType = view.getUint32(offset, littleEndian);
+  offset += 4;
+
+  // EWKB (drapeaux dans les bits de poids fort) ou ISO (milliers)
+  let hasZ = (rawType & 0x80000000) !== 0;
+  let hasM = (rawType & 0x40000000) !== 0;
+  if (rawType & 0x20000000) offset += 4;
+  rawType &= 0x0fffffff;
+  const iso = Math.floor(rawType / 1000);
+  if (iso === 1 || iso === 3) hasZ = true;
+  if (iso === 2 || iso === 3) hasM = true;
+  const type = WKB_TYPES[rawType % 1000];
+  const dimensions = 2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0);
+
+  const readPosition = (): Position => {
+    const position: Position = [view.getFloat64(offset, littleEndian), view.getFloat64(offset + 8, littleEndian)];
+    if (hasZ) position.push(view.getFloat64(offset + 16, littleEndian));
+    offset += dimensions * 8;
+    return position;
+  };
+  const readCount = () => {
+    const count = view.getUint32(offset, littleEndian);
+    offset += 4;
+    return count;
+  };
+  const readPositions = () => Array.from({ length: readCount() }, readPosition);
+  const readParts = () => Array.from({ length: readCount() }, () => {
+    const part = readWkb(view, offset);
+    offset = part.offset;
+    return part.geometry;
+  }).filter((g): g is Geometry => g !== null);
+
+  switch (type) {
+    case 'Point': {
+      const position = readPosition();
+      return { geometry: position.some(Number.isNaN) ? null : { type, coordinates: position }, offset };
+    }
+    case 'LineString':
+      return { geometry: { type, coordinates: readPositions() }, offset };
+    case 'Polygon':
+      return { geometry: { type, coordinates: Array.from({ length: readCount() }, readPositions) }, offset };
+    case 'MultiPoint':
+      return { geometry: { type, coordinates: readParts().map(g => (g as { coordinates: Position }).coordinates) }, offset };
+    case 'MultiLineString':
+      return { geometry: { type, coordinates: readParts().map(g => (g as { coordinates: Position[] }).coordinates) }, offset };
+    case 'MultiPolygon':
+      return { geometry: { type, coordinates: readParts().map(g => (g as { coordinates: Position[][] }).coordinates) }, offset };
+    case 'GeometryCollection':
+      return { geometry: { type, geometries: readParts() }, offset };
+    default:
+      throw new Error(`Type WKB non supporté : ${rawType}`);
+  }
+};
+
+// En-tête GeoPackage : "GP", version, drapeaux, srs_id, enveloppe optionnelle, puis WKB
+const ENVELOPE_SIZES = [0, 32, 48, 48, 64];
+
+const readGeoPackageGeometry = (blob: Uint8Array): Geometry | null => {
+  if (blob.length < 8 || blob[0] !== 0x47 || blob[1] !== 0x50) throw new Error('Géométrie GeoPackage invalide');
+  const flags = blob[3];
+  if (flags & 0x10) return null;
+  const envelopeSize = ENVELOPE_SIZES[(flags >> 1) & 0x07] ?? 0;
+  const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength);
+  return readWkb(view, 8 + envelopeSize).geometry;
+};
+
+class ByteWriter {
+  private buffer = new ArrayBuffer(1024);
+  private view = new DataView(this.buffer);
+  length = 0;
+
+  private ensure(size: number) {
+    if (this.length + size <= this.buffer.byteLength) return;
+    const next = new ArrayBuffer(Math.max(this.buffer.byteLength * 2, this.length + size));
+    new Uint8Array(next).set(new Uint8Array(this.buffer, 0, this.length));
+    this.buffer = next;
+    this.view = new DataView(next);
+  }
+
+  uint8(value: number) {
+    this.ensure(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  int32(value: number) {
+    this.ensure(4);
+    this.view.setInt32(this.length, value, true);
+    this.length += 4;
+  }
+
+  uint32(value: number) {
+    this.ensure(4);
+    this.view.setUint32(this.length, value, true);
+    this.length += 4;
+  }
+
+  float64(value: number) {
+    this.ensure(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  bytes() {
+    return new Uint8Array(this.buffer, 0, this.length).slice();
+  }
+}
+
+// Toutes les positions d'une géométrie, quelle que soit sa profondeur
+const positionsOf = (geometry: Geometry): Position[] => {
+  if (geometry.type === 'GeometryCollection') return geometry.geometries.flatMap(positionsOf);
+  if (geometry.type === 'Point') return [geometry.coordinates];
+  if (geometry.type === 'LineString' || geometry.type === 'MultiPoint') return geometry.coordinates;
+  if (geometry.type === 'Polygon' || geometry.type === 'MultiLineString') return geometry.coordinates.flat();
+  return geometry.coordinates.flat(2);
+};
+
+const hasZ = (geometry: Geometry) => positionsOf(geometry).some(p => p.length > 2);
+
+// WKB ISO little-endian ; Z écrit si la géométrie en porte
+const writeWkb = (writer: ByteWriter, geometry: Geometry, withZ: boolean) => {
+  const typeCode = WKB_TYPES.indexOf(geometry.type) + (withZ ? 1000 : 0);
+  writer.uint8(1);
+  writer.uint32(typeCode);
+  const writePosition = (position: Position) => {
+    writer.float64(position[0]);
+    writer.float64(position[1]);
+    if (withZ) writer.float64(position[2] ?? 0);
+  };
+  const writePositions = (positions: Position[]) => {
+    writer.uint32(positions.length);
+    positions.forEach(writePosition);
+  };
+  switch (geometry.type) {
+    case 'Point':
+      writePosition(geometry.coordinates);
+      break;
+    case 'LineString':
+      writePositions(geometry.coordinates);
+      break;
+    case 'Polygon':
+      writer.uint32(geometry.coordinates.length);
+      geometry.coordinates.forEach(writePositions);
+      break;
+    case 'MultiPoint':
+      writer.uint32(geometry.coordinates.length);
+      geometry.coordinates.forEach(p => writeWkb(writer, { type: 'Point', coordinates: p }, withZ));
+      break;
+    case 'MultiLineString':
+      writer.uint32(geometry.coordinates.length);
+      geometry.coordinates.forEach(l => writeWkb(writer, { type: 'LineString', coordinates: l }, withZ));
+      break;
+    case 'MultiPolygon':
+      writer.uint32(geometry.coordinates.length);
+      geometry.coordinates.forEach(p => writeWkb(writer, { type: 'Polygon', coordinates: p }, withZ));
+      break;
+    case 'GeometryCollection':
+      writer.uint32(geometry.geometries.length);
+      geometry.geometries.forEach(g => writeWkb(writer, g, withZ));
+      break;
+  }
+};
+
+const writeGeoPackageGeometry = (geometry: Geometry, srsId: number) => {
+  const writer = new ByteWriter();
+  const positions = positionsOf(geometry);
+  // Enveloppe XY (indicateur 1) : minx, maxx, miny, maxy
+  writer.uint8(0x47);
+  writer.uint8(0x50);
+  writer.uint8(0);
+  writer.uint8(0b00000011);
+  writer.int32(srsId);
+  const xs = positions.map(p => p[0]);
+  const ys = positions.map(p => p[1]);
+  [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)].forEach(v => writer.float64(v));
+  writeWkb(writer, geometry, hasZ(geometry));
+  return writer.bytes();
+};
+
+// ==============================
+// LECTURE
+// ==============================
+
+const queryRows = (db: SqlDatabase, sql: string, params: SqlValue[] = []) => {
+  const statement = db.prepare(sql);
+  statement.bind(params);
+  const rows: Record<string, SqlValue>[] = [];
+  while (statement.step()) rows.push(statement.getAsObject());
+  statement.free();
+  return rows;
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+// Code proj4 du système d'une couche : EPSG si connu, sinon définition WKT
+const resolveLayerCrs = (db: SqlDatabase, srsId: number) => {
+  if (srsId === 4326 || srsId <= 0) return 'EPSG:4326';
+  const [srs] = queryRows(db, 'SELECT organization, organization_coordsys_id, definition FROM gpkg_spatial_ref_sys WHERE srs_id = ?', [srsId]);
+  if (!srs) throw new Error(`Système ${srsId} absent de gpkg_spatial_ref_sys`);
+  const code = `${String(srs.organization).toUpperCase()}:${srs.organization_coordsys_id}`;
+  if (isProjectionRegistered(code)) return code;
+  return resolvePrjDefinition(String(srs.definition));
+};
+
+export interface GeoPackageReader {
+  layers: GeoPackageLayer[];
+  readLayer: (name: string) => FeatureCollection;
+  // Couches choisies regroupées en une seule FeatureCollection (propriété "layer" ajoutée
+  // quand plusieurs couches sont lues)
+  readLayers: (names: string[]) => FeatureCollection;
+  close: () => void;
+}
+
+export const openGeoPackage = async (data: ArrayBuffer | Blob): Promise<GeoPackageReader> => {
+  const SQL = await loadSqlJs();
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const db = new SQL.Database(new Uint8Array(buffer));
+
+  let layers: GeoPackageLayer[];
+  try {
+    layers = queryRows(db, `
+      SELECT c.table_name, c.identifier, g.column_name, g.geometry_type_name, g.srs_id
+      FROM gpkg_contents c
+      JOIN gpkg_geometry_columns g ON g.table_name = c.table_name
+      WHERE c.data_type = 'features'
+      ORDER BY c.table_name
+    `).map(row => ({
+      name: String(row.table_name),
+      identifier: String(row.identifier ?? row.table_name),
+      geometryColumn: String(row.column_name),
+      geometryType: String(row.geometry_type_name),
+      srsId: Number(row.srs_id),
+      featureCount: Number(queryRows(db, `SELECT COUNT(*) AS n FROM ${quoteIdentifier(String(row.table_name))}`)[0].n),
+    }));
+  } catch (error) {
+    db.close();
+    throw new Error(`Le fichier n'est pas un GeoPackage valide : ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const readLayer = (name: string): FeatureCollection => {
+    const layer = layers.find(l => l.name === name);
+    if (!layer) throw new Error(`Couche ${name} introuvable`);
+    const crs = resolveLayerCrs(db, layer.srsId);
+    const features: Feature[] = [];
+    queryRows(db, `SELECT * FROM ${quoteIdentifier(layer.name)}`).forEach(row => {
+      const blob = row[layer.geometryColumn];
+      const raw = blob instanceof Uint8Array ? readGeoPackageGeometry(blob) : null;
+      if (!raw) return;
+      const properties: GeoJsonProperties = {};
+      Object.entries(row).forEach(([key, value]) => {
+        if (key !== layer.geometryColumn && !(value instanceof Uint8Array)) properties[key] = value;
+      });
+      features.push({ type: 'Feature', geometry: transformGeometry(raw, crs, 'EPSG:4326'), properties });
+    });
+    return { type: 'FeatureCollection', features };
+  };
+
+  const readLayers = (names: string[]): FeatureCollection => ({
+    type: 'FeatureCollection',
+    features: names.flatMap(name => readLayer(name).features.map(f => (
+      names.length > 1 ? { ...f, properties: { ...f.properties, layer: name } } : f
+    ))),
+  });
+
+  return { layers, readLayer, readLayers, close: () => db.close() };
+};
+
+// ==============================
+// ÉCRITURE
+// ==============================
+
+const WGS84_WKT = 'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,AUTHORITY["EPSG","7030"]],' +
+  'AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],UNIT["degree",0.0174532925199433,' +
+  'AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]';
+
+const CORE_TABLES = `
+  CREATE TABLE gpkg_spatial_ref_sys (
+    srs_name TEXT NOT NULL, srs_id INTEGER NOT NULL PRIMARY KEY, organization TEXT NOT NULL,
+    organization_coordsys_id INTEGER NOT NULL, definition TEXT NOT NULL, description TEXT
+  );
+  CREATE TABLE gpkg_contents (
+    table_name TEXT NOT NULL PRIMARY KEY, data_type TEXT NOT NULL, identifier TEXT UNIQUE,
+    description TEXT DEFAULT '', last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+    min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE,
+    srs_id INTEGER REFERENCES gpkg_spatial_ref_sys(srs_id)
+  );
+  CREATE TABLE gpkg_geometry_columns (
+    table_name TEXT NOT NULL, column_name TEXT NOT NULL, geometry_type_name TEXT NOT NULL,
+    srs_id INTEGER NOT NULL REFERENCES gpkg_spatial_ref_sys(srs_id), z TINYINT NOT NULL, m TINYINT NOT NULL,
+    PRIMARY KEY (table_name, column_name)
+  );
+  INSERT INTO gpkg_spatial_ref_sys VALUES
+    ('Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', NULL),
+    ('Undefined geographic SRS', 0, 'NONE', 0, 'undefined', NULL);
+`;
+
+// Identifiants srs_id des systèmes sans code EPSG (≥ 100000 : hors registre)
+const INTERNAL_SRS_ID_BASE = 100000;
+
+const columnType = (values: unknown[]) => {
+  const present = values.filter(v => v !== null && v !== undefined && v !== '');
+  if (present.length === 0) return 'TEXT';
+  if (present.every(v => typeof v === 'boolean' || (typeof v === 'number' && Number.isInteger(v)))) return 'INTEGER';
+  if (present.every(v => typeof v === 'number')) return 'REAL';
+  return 'TEXT';
+};
+
+const toSqlValue = (value: unknown): SqlValue => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return JSON.stringify(value);
+};
+
+export interface GeoPackageExportOptions {
+  layerName?: string;
+  // Système de sortie (EPSG:xxxx) ; les géométries en entrée sont en WGS84
+  targetCrs?: string;
+}
+
+// Écrit une FeatureCollection WGS84 dans un GeoPackage à une couche
+export const geoJSONToGeoPackage = async (collection: FeatureCollection, options: GeoPackageExportOptions = {}) => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  const layerName = (options.layerName || 'export').replace(/[^\w]+/g, '_').replace(/^(\d)/, '_$1').toLowerCase() || 'export';
+  const targetCrs = options.targetCrs || 'EPSG:4326';
+  const projection = getProjections().find(p => p.code === targetCrs);
+  const epsgCode = Number(targetCrs.split(':')[1]) || 4326;
+  // Code interne : identifiant hors plage EPSG, organisation NONE, la WKT fait foi
+  const srsId = projection?.internal ? INTERNAL_SRS_ID_BASE + epsgCode : epsgCode;
+
+  try {
+    db.run('PRAGMA application_id = 1196444487');
+    db.run('PRAGMA user_version = 10400');
+    db.run(CORE_TABLES);
+    db.run('INSERT INTO gpkg_spatial_ref_sys VALUES (?, ?, ?, ?, ?, ?)', [
+      srsId === 4326 ? 'WGS 84' : projection?.label || targetCrs,
+      srsId,
+      projection?.internal ? 'NONE' : 'EPSG',
+      srsId,
+      srsId === 4326 ? WGS84_WKT : projection?.wkt || 'undefined',
+      null,
+    ]);
+
+    const features = collection.features
+      .filter(f => f.geometry)
+      .map(f => ({ ...f, geometry: transformGeometry(f.geometry, 'EPSG:4326', targetCrs) }));
+    const keys = Array.from(new Set(features.flatMap(f => Object.keys(f.properties || {}))))
+      .filter(k => k.toLowerCase() !== 'fid' && k.toLowerCase() !== 'geom');
+    const columns = keys.map(key => ({ key, type: columnType(features.map(f => f.properties?.[key])) }));
+    const geometryTypes = new Set(features.map(f => f.geometry.type.toUpperCase()));
+    const geometryType = geometryTypes.size === 1 ? [...geometryTypes][0] : 'GEOMETRY';
+
+    db.run(`CREATE TABLE ${quoteIdentifier(layerName)} (
+      fid INTEGER PRIMARY KEY AUTOINCREMENT,
+      geom BLOB${columns.map(c => `, ${quoteIdentifier(c.key)} ${c.type}`).join('')}
+    )`);
+
+    const insert = db.prepare(`INSERT INTO ${quoteIdentifier(layerName)} (geom${columns.map(c => `, ${quoteIdentifier(c.key)}`).join('')})
+      VALUES (?${columns.map(() => ', ?').join('')})`);
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    db.run('BEGIN');
+    features.forEach(feature => {
+      const blob = writeGeoPackageGeometry(feature.geometry, srsId);
+      const envelope = new DataView(blob.buffer, 8, 32);
+      minX = Math.min(minX, envelope.getFloat64(0, true));
+      maxX = Math.max(maxX, envelope.getFloat64(8, true));
+      minY = Math.min(minY, envelope.getFloat64(16, true));
+      maxY = Math.max(maxY, envelope.getFloat64(24, true));
+      insert.run([blob, ...columns.map(c => toSqlValue(feature.properties?.[c.key]))]);
+    });
+    insert.free();
+    db.run('COMMIT');
+
+    const bounds = features.length > 0 ? [minX, minY, maxX, maxY] : [null, null, null, null];
+    db.run('INSERT INTO gpkg_contents (table_name, data_type, identifier, min_x, min_y, max_x, max_y, srs_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [layerName, 'features', options.layerName || layerName, ...bounds, srsId]);
+    db.run('INSERT INTO gpkg_geometry_columns VALUES (?, ?, ?, ?, ?, ?)',
+      [layerName, 'geom', geometryType, srsId, features.some(f => hasZ(f.geometry)) ? 1 : 0, 0]);
+
+    return db.export();
+  } finally {
+    db.close();
+  }
+};
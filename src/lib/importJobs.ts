@@ -0,0 +1,88 @@
+import type { ImportBatch, ImportJob, ImportTable } from '../types';
+
+// ==============================
+// SUIVI DES IMPORTS PAR LOTS (localStorage)
+// ==============================
+// Seul l'état des lots est conservé : pour reprendre un import interrompu,
+// le même fichier est relu avec les mêmes paramètres et les lots déjà
+// insérés sont sautés.
+
+const IMPORT_JOBS_KEY = 'sonaged_import_jobs';
+
+export const DEFAULT_BATCH_SIZE = 200;
+
+// Empreinte des lignes préparées : un changement de mapping ou de système
+// source produit un autre import, qui ne doit pas reprendre l'ancien
+const hashString = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const getImportJobKey = (table: ImportTable, fileName: string, rows: unknown[]) =>
+  `${table}:${fileName}:${rows.length}:${hashString(JSON.stringify(rows))}`;
+
+const loadJobs = (): Record<string, ImportJob> => {
+  try {
+    const saved = localStorage.getItem(IMPORT_JOBS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('Failed to parse import jobs:', error);
+    return {};
+  }
+};
+
+export const getImportJob = (key: string): ImportJob | null => loadJobs()[key] || null;
+
+export const saveImportJob = (job: ImportJob) => {
+  const jobs = loadJobs();
+  jobs[job.key] = { ...job, updatedAt: new Date().toISOString() };
+  try {
+    localStorage.setItem(IMPORT_JOBS_KEY, JSON.stringify(jobs));
+  } catch (error) {
+    console.warn('Impossible d\'enregistrer l\'état de l\'import:', error);
+  }
+};
+
+export const clearImportJob = (key: string) => {
+  const jobs = loadJobs();
+  delete jobs[key];
+  localStorage.setItem(IMPORT_JOBS_KEY, JSON.stringify(jobs));
+};
+
+export const createImportJob = (
+  key: string,
+  table: ImportTable,
+  fileName: string,
+  total: number,
+  batchSize = DEFAULT_BATCH_SIZE
+): ImportJob => {
+  const batches: ImportBatch[] = [];
+  for (let start = 0; start < total; start += batchSize) {
+    batches.push({
+      index: batches.length,
+      start,
+      end: Math.min(start + batchSize, total),
+      status: 'pending',
+      inserted: 0,
+      attempts: 0,
+    });
+  }
+  const now = new Date().toISOString();
+  return { key, table, fileName, total, batchSize, batches, startedAt: now, updatedAt: now };
+};
+
+export const getJobProgress = (job: ImportJob) => {
+  const inserted = job.batches.reduce((sum, b) => sum + b.inserted, 0);
+  const failed = job.batches
+    .filter(b => b.status === 'failed')
+    .reduce((sum, b) => sum + (b.end - b.start), 0);
+  return {
+    inserted,
+    failed,
+    remaining: job.total - inserted - failed,
+    done: job.batches.every(b => b.status === 'inserted'),
+  };
+};
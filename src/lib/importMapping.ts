@@ -0,0 +1,117 @@
+import type { AttributeMapping, ImportTable, TargetField } from '../types';
+import type { Database } from '../types/supabase';
+
+type Tables = Database['public']['Tables'];
+
+// Valeurs admises par les contraintes CHECK (typées d'après Database)
+const COLLECTION_POINT_TYPES: Tables['collection_points']['Insert']['type'][] = ['container', 'bin', 'center'];
+const WASTE_TYPES: Tables['collection_points']['Insert']['waste_type'][] = ['general', 'recyclable', 'organic', 'hazardous'];
+const ACTIVITY_STATUSES: NonNullable<Tables['collection_points']['Insert']['status']>[] = ['active', 'inactive', 'maintenance'];
+const FURNITURE_TYPES: Tables['urban_furniture']['Insert']['type'][] = ['PRN', 'BAC_RUE', 'POINT_PROPRE'];
+const FURNITURE_STATUSES: NonNullable<Tables['urban_furniture']['Insert']['status']>[] = ['good', 'needs-maintenance', 'damaged', 'inactive'];
+const SHIFTS: Tables['sweeping_routes']['Insert']['shift'][] = ['matin', 'soir'];
+
+// ==============================
+// COLONNES CIBLES DES TABLES MÉTIER
+// ==============================
+// latitude, longitude et geometry viennent de la géométrie reprojetée :
+// seules les colonnes attributaires sont mappables.
+
+export const TARGET_FIELDS: Record<ImportTable, TargetField[]> = {
+  collection_points: [
+    { column: 'name', label: 'Nom', kind: 'text', required: true },
+    { column: 'type', label: 'Type', kind: 'enum', options: COLLECTION_POINT_TYPES, defaultValue: 'bin' },
+    { column: 'capacity_kg', label: 'Capacité (kg)', kind: 'number', defaultValue: '0' },
+    { column: 'waste_type', label: 'Type de déchet', kind: 'enum', options: WASTE_TYPES, defaultValue: 'general' },
+    { column: 'status', label: 'Statut', kind: 'enum', options: ACTIVITY_STATUSES, defaultValue: 'active' },
+    { column: 'commune_id', label: 'Commune (id)', kind: 'text', required: true },
+  ],
+  urban_furniture: [
+    { column: 'name', label: 'Nom', kind: 'text', required: true },
+    { column: 'type', label: 'Type', kind: 'enum', options: FURNITURE_TYPES, defaultValue: 'PRN' },
+    { column: 'location', label: 'Adresse', kind: 'text', defaultValue: '' },
+    { column: 'install_date', label: 'Date d\'installation', kind: 'date', required: true },
+    { column: 'last_maintenance_date', label: 'Dernière maintenance', kind: 'date' },
+    { column: 'capacity_kg', label: 'Capacité (kg)', kind: 'number', defaultValue: '0' },
+    { column: 'status', label: 'État', kind: 'enum', options: FURNITURE_STATUSES, defaultValue: 'good' },
+    { column: 'commune_id', label: 'Commune (id)', kind: 'text', required: true },
+  ],
+  sweeping_routes: [
+    { column: 'name', label: 'Nom', kind: 'text', required: true },
+    { column: 'code', label: 'Code', kind: 'text' },
+    { column: 'shift', label: 'Équipe', kind: 'enum', options: SHIFTS, defaultValue: 'matin' },
+    { column: 'length_meters', label: 'Longueur (m)', kind: 'number', defaultValue: '0' },
+    { column: 'estimated_duration_minutes', label: 'Durée estimée (min)', kind: 'number', defaultValue: '0' },
+    { column: 'status', label: 'Statut', kind: 'enum', options: ACTIVITY_STATUSES, defaultValue: 'active' },
+    { column: 'commune_id', label: 'Commune (id)', kind: 'text', required: true },
+  ],
+};
+
+// Noms de propriétés reconnus par défaut (anciennement codés en dur dans l'import)
+const DEFAULT_ALIASES: Record<string, string[]> = {
+  name: ['name', 'nom', 'NAME', 'NOM', 'nomcircuit'],
+  type: ['type', 'TYPE'],
+  capacity_kg: ['capacity_kg', 'capacite_kg', 'CAPACITY_KG'],
+  waste_type: ['waste_type', 'type_dechet', 'WASTE_TYPE'],
+  status: ['status', 'statut', 'STATUS', 'STATUT'],
+  commune_id: ['commune_id', 'COMMUNE_ID'],
+  location: ['location', 'adresse', 'LOCATION', 'ADRESSE'],
+  install_date: ['install_date', 'date_installation', 'INSTALL_DATE'],
+  last_maintenance_date: ['last_maintenance_date', 'derniere_maintenance', 'LAST_MAINTENANCE'],
+  code: ['code', 'CODE', 'identifiant', 'IDENTIFIANT'],
+  shift: ['shift', 'equipe', 'SHIFT', 'EQUIPE'],
+  length_meters: ['length_meters', 'longueur_m', 'LENGTH_METERS', 'LONGUEUR_M'],
+  estimated_duration_minutes: ['estimated_duration_minutes', 'duree_estimee_min', 'ESTIMATED_DURATION', 'DUREE_ESTIMEE'],
+};
+
+// Liste les propriétés présentes dans les features d'un GeoJSON
+export const collectSourceProperties = (features: { properties?: Record<string, unknown> | null }[]) => {
+  const keys = new Set<string>();
+  features.forEach(f => Object.keys(f.properties || {}).forEach(k => keys.add(k)));
+  return Array.from(keys).sort((a, b) => a.localeCompare(b));
+};
+
+// Propose un mapping à partir des alias connus et des propriétés disponibles
+export const suggestMapping = (table: ImportTable, sourceProperties: string[]): AttributeMapping => {
+  const lowered = new Map(sourceProperties.map(p => [p.toLowerCase(), p]));
+  return TARGET_FIELDS[table].reduce<AttributeMapping>((mapping, field) => {
+    const aliases = DEFAULT_ALIASES[field.column] || [field.column];
+    const source = aliases.map(a => sourceProperties.includes(a) ? a : lowered.get(a.toLowerCase())).find(Boolean);
+    mapping[field.column] = { source: source || null, defaultValue: field.defaultValue };
+    return mapping;
+  }, {});
+};
+
+// Construit les colonnes attributaires d'une ligne à partir des propriétés d'une feature
+export const applyMapping = (
+  table: ImportTable,
+  properties: Record<string, unknown> | null | undefined,
+  mapping: AttributeMapping,
+  index: number
+): Record<string, unknown> => {
+  const row: Record<string, unknown> = {};
+  TARGET_FIELDS[table].forEach(field => {
+    const { source, defaultValue } = mapping[field.column] || {};
+    const raw = source ? properties?.[source] : undefined;
+    const value = raw === undefined || raw === null || raw === '' ? defaultValue : raw;
+
+    if (field.kind === 'number') {
+      // Une valeur non numérique est conservée telle quelle pour être signalée à la validation
+      const n = value === undefined ? 0 : Number(value);
+      row[field.column] = Number.isFinite(n) ? n : value;
+    } else if (value === undefined || value === '') {
+      if (field.column === 'name') row[field.column] = `Élément ${index + 1}`;
+      else row[field.column] = field.column === 'location' ? '' : null;
+    } else {
+      row[field.column] = typeof value === 'string' ? value.trim() : String(value);
+    }
+  });
+  return row;
+};
+
+// Clés métier proposées pour rapprocher un ré-import des lignes existantes
+export const DEFAULT_MERGE_KEYS: Record<ImportTable, string[]> = {
+  collection_points: ['name', 'commune_id'],
+  urban_furniture: ['name', 'commune_id'],
+  sweeping_routes: ['code'],
+};
@@ -0,0 +1,91 @@
+import type { ImportTable } from '../types';
+import { TARGET_FIELDS } from './importMapping';
+
+// ==============================
+// VALIDATION DES LIGNES AVANT INSERTION
+// ==============================
+// Les contraintes reprennent celles de la migration (CHECK, NOT NULL, DATE)
+// et des types Database : une ligne rejetée ici l'aurait été par Postgres,
+// mais en faisant échouer tout le lot.
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Normalise une date en AAAA-MM-JJ. Formats acceptés : ISO (avec ou sans heure),
+// JJ/MM/AAAA et JJ-MM-AAAA.
+export const normalizeDate = (value: unknown): string | null => {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== 'string') return null;
+  const text = value.trim();
+  let year: number, month: number, day: number;
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/);
+  const french = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (french) {
+    [day, month, year] = [Number(french[1]), Number(french[2]), Number(french[3])];
+  } else {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+// Identifiant UUID (commune_id) : une valeur mal formée ferait rejeter tout le lot
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Valide et normalise les colonnes attributaires d'une ligne.
+// Retourne la ligne normalisée et la liste des erreurs (vide si valide).
+export const validateRow = (table: ImportTable, row: Record<string, unknown>) => {
+  const errors: string[] = [];
+  const normalized: Record<string, unknown> = { ...row };
+
+  TARGET_FIELDS[table].forEach(field => {
+    const value = row[field.column];
+    if (isEmpty(value)) {
+      if (field.required) errors.push(`${field.label} obligatoire`);
+      return;
+    }
+
+    switch (field.kind) {
+      case 'enum': {
+        const match = field.options?.find(o => o.toLowerCase() === String(value).toLowerCase());
+        if (match) normalized[field.column] = match;
+        else errors.push(`${field.label} : « ${value} » invalide (valeurs admises : ${field.options?.join(', ')})`);
+        break;
+      }
+      case 'number': {
+        const n = typeof value === 'number' ? value : Number(String(value).replace(',', '.'));
+        if (!Number.isFinite(n)) {
+          errors.push(`${field.label} : « ${value} » n'est pas un nombre`);
+        } else if (n < 0) {
+          errors.push(`${field.label} : valeur négative (${n})`);
+        } else {
+          normalized[field.column] = field.column === 'estimated_duration_minutes' ? Math.round(n) : n;
+        }
+        break;
+      }
+      case 'date': {
+        const date = normalizeDate(value);
+        if (date) normalized[field.column] = date;
+        else errors.push(`${field.label} : date « ${value} » non reconnue (AAAA-MM-JJ ou JJ/MM/AAAA)`);
+        break;
+      }
+      default:
+        if (field.column === 'name' && String(value).length > 200) {
+          errors.push(`${field.label} : 200 caractères maximum`);
+        }
+        if (field.column === 'commune_id' && !UUID_PATTERN.test(String(value))) {
+          errors.push(`${field.label} : « ${value} » n'est pas un identifiant valide (UUID)`);
+        }
+    }
+  });
+
+  return { row: normalized, errors };
+};
@@ -0,0 +1,230 @@
+import JSZip from 'jszip';
+import type { Feature, FeatureCollection, Geometry, GeoJsonProperties, Position } from 'geojson';
+
+// ==============================
+// LECTURE KML / KMZ → GEOJSON
+// ==============================
+// Les coordonnées KML sont toujours en WGS84 (lon,lat[,alt]) : aucune
+// reprojection n'est nécessaire.
+
+// Recherche par nom local : les fichiers Google Earth mélangent les espaces
+// de noms kml, gx et atom
+const children = (parent: Element, name: string) =>
+  Array.from(parent.children).filter(el => el.localName === name);
+
+const firstChild = (parent: Element, name: string) => children(parent, name)[0] as Element | undefined;
+
+const descendants = (parent: Element, name: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+const textOf = (el: Element | undefined) => el?.textContent?.trim() ?? '';
+
+const parseCoordinates = (text: string): Position[] =>
+  text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => tuple.split(',').map(Number))
+    .filter(position => position.length >= 2 && position.every(n => Number.isFinite(n)))
+    .map(position => (position.length > 2 && position[2] !== 0 ? position.slice(0, 3) : position.slice(0, 2)));
+
+const parseRing = (boundary: Element | undefined) => {
+  const ring = boundary && firstChild(boundary, 'LinearRing');
+  return ring ? parseCoordinates(textOf(firstChild(ring, 'coordinates'))) : [];
+};
+
+const parseGeometry = (el: Element): Geometry | null => {
+  switch (el.localName) {
+    case 'Point': {
+      const [position] = parseCoordinates(textOf(firstChild(el, 'coordinates')));
+      return position ? { type: 'Point', coordinates: position } : null;
+    }
+    case 'LineString':
+    case 'LinearRing': {
+      const coordinates = parseCoordinates(textOf(firstChild(el, 'coordinates')));
+      return coordinates.length >= 2 ? { type: 'LineString', coordinates } : null;
+    }
+    case 'Polygon': {
+      const outer = parseRing(firstChild(el, 'outerBoundaryIs'));
+      if (outer.length < 4) return null;
+      const inner = children(el, 'innerBoundaryIs').map(parseRing).filter(r => r.length >= 4);
+      return { type: 'Polygon', coordinates: [outer, ...inner] };
+    }
+    case 'Track': {
+      // gx:Track : une position par élément gx:coord, séparée par des espaces
+      const coordinates = children(el, 'coord')
+        .map(c => textOf(c).split(/\s+/).map(Number))
+        .filter(p => p.length >= 2 && p.every(n => Number.isFinite(n)));
+      return coordinates.length >= 2 ? { type: 'LineString', coordinates } : null;
+    }
+    case 'MultiGeometry':
+    case 'MultiTrack': {
+      const parts = Array.from(el.children)
+        .map(parseGeometry)
+        .filter((g): g is Geometry => g !== null);
+      if (parts.length === 0) return null;
+      if (parts.length === 1) return parts[0];
+      // Regroupe les parties homogènes en Multi*, sinon GeometryCollection
+      const types = new Set(parts.map(p => p.type));
+      if (types.size === 1) {
+        const [type] = types;
+        if (type === 'Point') return { type: 'MultiPoint', coordinates: parts.map(p => (p as { coordinates: Position }).coordinates) };
+        if (type === 'LineString') return { type: 'MultiLineString', coordinates: parts.map(p => (p as { coordinates: Position[] }).coordinates) };
+        if (type === 'Polygon') return { type: 'MultiPolygon', coordinates: parts.map(p => (p as { coordinates: Position[][] }).coordinates) };
+      }
+      return { type: 'GeometryCollection', geometries: parts };
+    }
+    default:
+      return null;
+  }
+};
+
+const GEOMETRY_TAGS = ['Point', 'LineString', 'LinearRing', 'Polygon', 'MultiGeometry', 'Track', 'MultiTrack'];
+
+// ExtendedData : <Data name><value> et <SchemaData><SimpleData name>
+const parseExtendedData = (placemark: Element) => {
+  const properties: Record<string, string> = {};
+  const extended = firstChild(placemark, 'ExtendedData');
+  if (!extended) return properties;
+  descendants(extended, 'Data').forEach(data => {
+    const name = data.getAttribute('name');
+    if (name) properties[name] = textOf(firstChild(data, 'value'));
+  });
+  descendants(extended, 'SimpleData').forEach(data => {
+    const name = data.getAttribute('name');
+    if (name) properties[name] = textOf(data);
+  });
+  return properties;
+};
+
+const folderPath = (placemark: Element) => {
+  const names: string[] = [];
+  let parent = placemark.parentElement;
+  while (parent) {
+    if (parent.localName === 'Folder') {
+      const name = textOf(firstChild(parent, 'name'));
+      if (name) names.unshift(name);
+    }
+    parent = parent.parentElement;
+  }
+  return names.join(' / ');
+};
+
+export const kmlToGeoJSON = (kml: string): FeatureCollection => {
+  const doc = new DOMParser().parseFromString(kml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Le fichier KML n\'est pas un XML valide');
+  }
+
+  const features: Feature[] = [];
+  descendants(doc.documentElement, 'Placemark').forEach(placemark => {
+    const geometryElement = Array.from(placemark.children).find(el => GEOMETRY_TAGS.includes(el.localName));
+    const geometry = geometryElement ? parseGeometry(geometryElement) : null;
+    if (!geometry) return;
+
+    const properties: GeoJsonProperties = { ...parseExtendedData(placemark) };
+    const name = textOf(firstChild(placemark, 'name'));
+    const description = textOf(firstChild(placemark, 'description'));
+    const folder = folderPath(placemark);
+    if (name) properties.name = name;
+    if (description) properties.description = description;
+    if (folder) properties.folder = folder;
+
+    features.push({ type: 'Feature', geometry, properties });
+  });
+
+  return { type: 'FeatureCollection', features };
+};
+
+// Un KMZ est une archive ZIP contenant doc.kml (ou à défaut le premier .kml)
+export const readKmz = async (data: ArrayBuffer | Blob) => {
+  const zip = await JSZip.loadAsync(data);
+  const kmlFiles = Object.values(zip.files).filter(f => !f.dir && f.name.toLowerCase().endsWith('.kml'));
+  const main = kmlFiles.find(f => f.name.toLowerCase().endsWith('doc.kml')) || kmlFiles[0];
+  if (!main) throw new Error('Aucun fichier .kml trouvé dans l\'archive KMZ');
+  return main.async('string');
+};
+
+// Lit un fichier KML ou KMZ (détecté par sa signature ZIP « PK »)
+export const parseKmlFile = async (file: Blob): Promise<FeatureCollection> => {
+  const buffer = await file.arrayBuffer();
+  const bytes = new Uint8Array(buffer, 0, Math.min(2, buffer.byteLength));
+  const isZip = bytes[0] === 0x50 && bytes[1] === 0x4b;
+  const kml = isZip ? await readKmz(buffer) : new TextDecoder('utf-8').decode(buffer);
+  return kmlToGeoJSON(kml);
+};
+
+// ==============================
+// ÉCRITURE GEOJSON → KML
+// ==============================
+
+export const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const formatPositions = (positions: Position[]) => positions.map(p => p.join(',')).join(' ');
+
+const ringToKml = (ring: Position[]) =>
+  `<LinearRing><coordinates>${formatPositions(ring)}</coordinates></LinearRing>`;
+
+const polygonToKml = (rings: Position[][]) => {
+  const [outer, ...inner] = rings;
+  return `<Polygon><outerBoundaryIs>${ringToKml(outer)}</outerBoundaryIs>${
+    inner.map(r => `<innerBoundaryIs>${ringToKml(r)}</innerBoundaryIs>`).join('')
+  }</Polygon>`;
+};
+
+const geometryToKml = (geometry: Geometry): string => {
+  switch (geometry.type) {
+    case 'Point':
+      return `<Point><coordinates>${geometry.coordinates.join(',')}</coordinates></Point>`;
+    case 'LineString':
+      return `<LineString><tessellate>1</tessellate><coordinates>${formatPositions(geometry.coordinates)}</coordinates></LineString>`;
+    case 'Polygon':
+      return polygonToKml(geometry.coordinates);
+    case 'MultiPoint':
+      return `<MultiGeometry>${geometry.coordinates.map(p => geometryToKml({ type: 'Point', coordinates: p })).join('')}</MultiGeometry>`;
+    case 'MultiLineString':
+      return `<MultiGeometry>${geometry.coordinates.map(l => geometryToKml({ type: 'LineString', coordinates: l })).join('')}</MultiGeometry>`;
+    case 'MultiPolygon':
+      return `<MultiGeometry>${geometry.coordinates.map(polygonToKml).join('')}</MultiGeometry>`;
+    case 'GeometryCollection':
+      return `<MultiGeometry>${geometry.geometries.map(geometryToKml).join('')}</MultiGeometry>`;
+  }
+};
+
+// Les propriétés autres que nom et description vont dans ExtendedData
+export const geoJSONToKml = (collection: FeatureCollection, documentName = 'Export SONAGED') => {
+  const placemarks = collection.features
+    .filter(feature => feature.geometry)
+    .map(feature => {
+      const properties = feature.properties || {};
+      const name = properties.name ?? properties.nom ?? '';
+      const description = properties.description ?? '';
+      const data = Object.entries(properties)
+        .filter(([key, value]) => !['name', 'nom', 'description'].includes(key) && value !== null && value !== undefined && typeof value !== 'object')
+        .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+        .join('');
+      return [
+        '<Placemark>',
+        name !== '' ? `<name>${escapeXml(String(name))}</name>` : '',
+        description !== '' ? `<description>${escapeXml(String(description))}</description>` : '',
+        data ? `<ExtendedData>${data}</ExtendedData>` : '',
+        geometryToKml(feature.geometry),
+        '</Placemark>',
+      ].join('');
+    });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    `<Document><name>${escapeXml(documentName)}</name>`,
+    ...placemarks,
+    '</Document>',
+    '</kml>',
+  ].join('\n');
+};
@@ -0,0 +1,149 @@
+import type { FeatureCollection } from 'geojson';
+import type { DatasetExtent, DatasetMetadata, MapLayer, MapViewState, SavedMapLayer, ViewportTable } from '../types';
+import { computeExtent, fetchDatasetById } from './supabase';
+import { loadDatasetCollection } from './datasets';
+
+// ==============================
+// COUCHES DE LA CARTE INTERACTIVE
+// ==============================
+// Chaque jeu du catalogue ouvert sur la carte devient une couche (identifiée
+// par l'id du jeu). La liste va de la couche du dessus à celle du dessous.
+
+// Type de couche d'après la géométrie la plus fréquente
+export const layerTypeOf = (collection: FeatureCollection): MapLayer['type'] => {
+  const counts = { point: 0, line: 0, polygon: 0 };
+  collection.features.forEach(feature => {
+    const type = feature.geometry?.type || '';
+    if (type.endsWith('Point')) counts.point++;
+    else if (type.endsWith('LineString')) counts.line++;
+    else if (type.endsWith('Polygon')) counts.polygon++;
+  });
+  return (Object.keys(counts) as (keyof typeof counts)[]).reduce((a, b) => (counts[b] > counts[a] ? b : a));
+};
+
+// Tables ponctuelles trop denses pour être lues en entier : seule l'emprise de la
+// carte est chargée, au fil des déplacements
+export const viewportTableOf = (dataset: DatasetMetadata): ViewportTable | null =>
+  dataset.storage === 'table' && (dataset.table === 'collection_points' || dataset.table === 'urban_furniture')
+    ? dataset.table
+    : null;
+
+const emptyCollection = (): FeatureCollection => ({ type: 'FeatureCollection', features: [] });
+
+export const datasetLayer = (dataset: DatasetMetadata, data: FeatureCollection): MapLayer => {
+  const viewportTable = viewportTableOf(dataset);
+  return {
+    id: dataset.id,
+    name: dataset.name,
+    type: viewportTable ? 'point' : layerTypeOf(data),
+    source: dataset.storage === 'table' && dataset.table ? dataset.table : 'datasets',
+    visible: true,
+    opacity: 1,
+    datasetId: dataset.id,
+    data,
+    ...(viewportTable && { viewportTable }),
+  };
+};
+
+// Contenu initial d'une couche : vide pour les tables chargées par emprise
+export const loadLayerData = async (dataset: DatasetMetadata): Promise<FeatureCollection | null> =>
+  viewportTableOf(dataset) ? emptyCollection() : loadDatasetCollection(dataset);
+
+// Déplace une couche d'un rang vers le haut (-1) ou vers le bas (+1)
+export const moveLayer = (layers: MapLayer[], id: string, offset: -1 | 1) => {
+  const from = layers.findIndex(l => l.id === id);
+  const to = from + offset;
+  if (from === -1 || to < 0 || to >= layers.length) return layers;
+  const next = [...layers];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
+
+// Filtre des couches par type de géométrie (null : toutes les couches)
+export type LayerGeometryFilter = Exclude<MapLayer['type'], 'raster'> | null;
+
+export const matchesGeometryFilter = (layer: MapLayer, filter: LayerGeometryFilter) =>
+  filter === null || layer.type === filter;
+
+// Entités d'une couche dont l'emprise recoupe celle de la carte (export de la vue courante)
+export const layerFeaturesInExtent = (layer: MapLayer, extent: DatasetExtent): FeatureCollection => {
+  const [west, south, east, north] = extent;
+  return {
+    type: 'FeatureCollection',
+    features: (layer.data?.features || []).filter(feature => {
+      const bounds = computeExtent({ type: 'FeatureCollection', features: [feature] });
+      return bounds !== null && bounds[0] <= east && bounds[2] >= west && bounds[1] <= north && bounds[3] >= south;
+    }),
+  };
+};
+
+// Réglages enregistrables des couches issues du catalogue (symbologie comprise)
+export const savedLayersOf = (layers: MapLayer[]): SavedMapLayer[] =>
+  layers.flatMap(layer => layer.datasetId
+    ? [{ datasetId: layer.datasetId, name: layer.name, visible: layer.visible, opacity: layer.opacity, style: layer.style }]
+    : []);
+
+export interface LoadedMapLayers {
+  layers: MapLayer[];
+  datasets: DatasetMetadata[];
+  // Couches dont le jeu est supprimé, illisible ou sans contenu visualisable
+  missing: string[];
+}
+
+// Relit le contenu des jeux d'une carte enregistrée ou d'une session
+export const loadMapLayers = async (entries: SavedMapLayer[]): Promise<LoadedMapLayers> => {
+  const results = await Promise.allSettled(entries.map(async entry => {
+    const dataset = await fetchDatasetById(entry.datasetId);
+    const data = dataset ? await loadLayerData(dataset) : null;
+    if (!dataset || !data) throw new Error(entry.name);
+    return {
+      dataset,
+      layer: { ...datasetLayer(dataset, data), name: entry.name, visible: entry.visible, opacity: entry.opacity, style: entry.style },
+    };
+  }));
+
+  const loaded: LoadedMapLayers = { layers: [], datasets: [], missing: [] };
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      loaded.layers.push(result.value.layer);
+      loaded.datasets.push(result.value.dataset);
+    } else {
+      loaded.missing.push(entries[i].name);
+    }
+  });
+  return loaded;
+};
+
+// ==============================
+// SESSION DE CARTE (sessionStorage)
+// ==============================
+// Les couches ouvertes survivent à un passage par le catalogue : seuls les
+// réglages sont conservés, le contenu des jeux est relu au retour.
+
+const MAP_SESSION_KEY = 'sonaged_map_session';
+
+export interface MapSession {
+  layers: SavedMapLayer[];
+  activeLayerId: string | null;
+  view: MapViewState | null;
+  // Carte enregistrée en cours de modification
+  savedMap: { id: string; name: string } | null;
+}
+
+export const loadMapSession = (): MapSession | null => {
+  try {
+    const saved = sessionStorage.getItem(MAP_SESSION_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('Failed to parse map session:', error);
+    return null;
+  }
+};
+
+export const saveMapSession = (session: MapSession) => {
+  try {
+    sessionStorage.setItem(MAP_SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.warn('Impossible d\'enregistrer la session de carte:', error);
+  }
+};
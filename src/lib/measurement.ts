@@ -0,0 +1,158 @@
+import type { Geometry, Position } from 'geojson';
+
+// ==============================
+// MESURES GÉODÉSIQUES
+// ==============================
+// Distances sur l'ellipsoïde WGS84 (formules de Vincenty) et surfaces sur la
+// sphère de même surface que l'ellipsoïde : les mesures ne dépendent ni de la
+// projection de la carte ni du niveau de zoom.
+
+const WGS84_A = 6378137;
+const WGS84_F = 1 / 298.257223563;
+const WGS84_B = WGS84_A * (1 - WGS84_F);
+// Rayon de la sphère authalique (même surface que l'ellipsoïde WGS84)
+const AUTHALIC_RADIUS = 6371007.181;
+const MAX_ITERATIONS = 200;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Distance orthodromique sur la sphère authalique (points quasi antipodaux,
+// pour lesquels Vincenty ne converge pas)
+const sphericalDistance = ([lon1, lat1]: Position, [lon2, lat2]: Position) => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * AUTHALIC_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Distance géodésique en mètres entre deux positions [longitude, latitude]
+// (problème inverse de Vincenty)
+export const geodesicDistance = (from: Position, to: Position): number => {
+  const [lon1, lat1] = from;
+  const [lon2, lat2] = to;
+  const L = toRadians(lon2 - lon1);
+  const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat1)));
+  const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(lat2)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  let sinSigma = 0;
+  let cosSigma = 0;
+  let sigma = 0;
+  let cos2Alpha = 0;
+  let cos2SigmaM = 0;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    sinSigma = Math.sqrt((cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2);
+    if (sinSigma === 0) return 0;
+    cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    cos2Alpha = 1 - sinAlpha ** 2;
+    // Ligne équatoriale : cos2Alpha nul
+    cos2SigmaM = cos2Alpha === 0 ? 0 : cosSigma - (2 * sinU1 * sinU2) / cos2Alpha;
+    const C = (WGS84_F / 16) * cos2Alpha * (4 + WGS84_F * (4 - 3 * cos2Alpha));
+    const previous = lambda;
+    lambda = L + (1 - C) * WGS84_F * sinAlpha
+      * (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)));
+    if (Math.abs(lambda - previous) < 1e-12) {
+      const u2 = (cos2Alpha * (WGS84_A ** 2 - WGS84_B ** 2)) / WGS84_B ** 2;
+      const A = 1 + (u2 / 16384) * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)));
+      const B = (u2 / 1024) * (256 + u2 * (-128 + u2 * (74 - 47 * u2)));
+      const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+        cosSigma * (-1 + 2 * cos2SigmaM ** 2)
+        - (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)
+      ));
+      return WGS84_B * A * (sigma - deltaSigma);
+    }
+  }
+  return sphericalDistance(from, to);
+};
+
+// Longueur d'une polyligne en mètres
+export const pathLength = (positions: Position[]) =>
+  positions.slice(1).reduce((total, position, i) => total + geodesicDistance(positions[i], position), 0);
+
+// Longueur des lignes d'une géométrie (0 pour un point ou un polygone)
+export const geometryLength = (geometry: Geometry | null | undefined): number => {
+  if (geometry?.type === 'LineString') return pathLength(geometry.coordinates);
+  if (geometry?.type === 'MultiLineString') return geometry.coordinates.reduce((total, part) => total + pathLength(part), 0);
+  return 0;
+};
+
+// Anneau sans son sommet de fermeture
+const openRing = (ring: Position[]) =>
+  ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+    ? ring.slice(0, -1)
+    : ring;
+
+// Surface en m² d'un polygone simple (anneau fermé ou non) : somme des trapèzes
+// sphériques, Chamberlain et Duquette (JPL, 2007)
+export const ringArea = (ring: Position[]) => {
+  const positions = openRing(ring);
+  const count = positions.length;
+  if (count < 3) return 0;
+  let total = 0;
+  for (let i = 0; i < count; i++) {
+    const previous = positions[(i + count - 1) % count];
+    const next = positions[(i + 1) % count];
+    total += (toRadians(next[0]) - toRadians(previous[0])) * Math.sin(toRadians(positions[i][1]));
+  }
+  return Math.abs((total * AUTHALIC_RADIUS ** 2) / 2);
+};
+
+// Périmètre en mètres d'un anneau, segment de fermeture compris
+export const ringPerimeter = (ring: Position[]) => {
+  const positions = openRing(ring);
+  return positions.length < 2 ? 0 : pathLength([...positions, positions[0]]);
+};
+
+// ==============================
+// AFFICHAGE DES MESURES
+// ==============================
+
+const formatNumber = (value: number, digits: number) =>
+  value.toLocaleString('fr-FR', { maximumFractionDigits: digits });
+
+// Distance en mètres jusqu'au kilomètre, puis en kilomètres
+export const formatDistance = (meters: number) =>
+  Math.abs(meters) < 1000 ? `${formatNumber(Math.round(meters), 0)} m` : `${formatNumber(meters / 1000, 2)} km`;
+
+// Surface en m² jusqu'à l'hectare, puis en hectares
+export const formatArea = (squareMeters: number) =>
+  squareMeters < 10000 ? `${formatNumber(Math.round(squareMeters), 0)} m²` : `${formatNumber(squareMeters / 10000, 2)} ha`;
+
+// ==============================
+// LONGUEUR DES CIRCUITS
+// ==============================
+
+export interface LengthComparison {
+  // Longueur mesurée sur le tracé
+  measured: number;
+  // length_meters enregistré (null : non renseigné)
+  stored: number | null;
+  // Écart mesuré − enregistré, en mètres et en proportion de la valeur enregistrée
+  difference: number | null;
+  ratio: number | null;
+}
+
+// Longueur mesurée d'un circuit comparée à sa longueur enregistrée
+export const compareRouteLength = (geometry: Geometry | null | undefined, storedLength: unknown): LengthComparison => {
+  const measured = geometryLength(geometry);
+  const parsed = storedLength === null || storedLength === undefined || storedLength === '' ? NaN : Number(storedLength);
+  const stored = Number.isFinite(parsed) ? parsed : null;
+  const difference = stored === null ? null : measured - stored;
+  return { measured, stored, difference, ratio: stored && difference !== null ? difference / stored : null };
+};
+
+// Écart signé, « +130 m (+11,8 %) »
+export const formatLengthDifference = ({ difference, ratio }: LengthComparison) => {
+  if (difference === null) return '';
+  const sign = difference > 0 ? '+' : difference < 0 ? '−' : '';
+  const percent = ratio === null ? '' : ` (${sign}${formatNumber(Math.abs(ratio) * 100, 1)} %)`;
+  return `${sign}${formatDistance(Math.abs(difference))}${percent}`;
+};
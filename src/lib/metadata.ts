@@ -0,0 +1,319 @@
+import type { DatasetMetadata, DatasetMetadataSheet, UpdateFrequency } from '../types';
+import { escapeXml } from './kml';
+
+// ==============================
+// LISTES DE CODES ISO 19115
+// ==============================
+
+export const UPDATE_FREQUENCIES: { value: UpdateFrequency; label: string }[] = [
+  { value: 'continual', label: 'Continue' },
+  { value: 'daily', label: 'Quotidienne' },
+  { value: 'weekly', label: 'Hebdomadaire' },
+  { value: 'fortnightly', label: 'Bimensuelle' },
+  { value: 'monthly', label: 'Mensuelle' },
+  { value: 'quarterly', label: 'Trimestrielle' },
+  { value: 'biannually', label: 'Semestrielle' },
+  { value: 'annually', label: 'Annuelle' },
+  { value: 'asNeeded', label: 'Selon les besoins' },
+  { value: 'irregular', label: 'Irrégulière' },
+  { value: 'notPlanned', label: 'Non planifiée' },
+  { value: 'unknown', label: 'Inconnue' },
+];
+
+// MD_TopicCategoryCode
+export const TOPIC_CATEGORIES: { value: string; label: string }[] = [
+  { value: 'farming', label: 'Agriculture' },
+  { value: 'biota', label: 'Biote' },
+  { value: 'boundaries', label: 'Limites administratives' },
+  { value: 'climatologyMeteorologyAtmosphere', label: 'Climatologie, météorologie' },
+  { value: 'economy', label: 'Économie' },
+  { value: 'elevation', label: 'Altimétrie' },
+  { value: 'environment', label: 'Environnement' },
+  { value: 'geoscientificInformation', label: 'Géosciences' },
+  { value: 'health', label: 'Santé' },
+  { value: 'imageryBaseMapsEarthCover', label: 'Imagerie, cartes de base' },
+  { value: 'intelligenceMilitary', label: 'Renseignement, défense' },
+  { value: 'inlandWaters', label: 'Eaux intérieures' },
+  { value: 'location', label: 'Localisation' },
+  { value: 'oceans', label: 'Océans' },
+  { value: 'planningCadastre', label: 'Aménagement, cadastre' },
+  { value: 'society', label: 'Société' },
+  { value: 'structure', label: 'Aménagements urbains' },
+  { value: 'transportation', label: 'Transports' },
+  { value: 'utilitiesCommunication', label: 'Réseaux de services' },
+];
+
+// Licences proposées à l'upload et dans la fiche
+export const DATASET_LICENCES = [
+  'Usage interne SONAGED',
+  'Licence Ouverte / Etalab 2.0',
+  'ODbL',
+  'CC BY 4.0',
+];
+
+// Codes ISO 639-2
+export const METADATA_LANGUAGES: { value: string; label: string }[] = [
+  { value: 'fre', label: 'Français' },
+  { value: 'eng', label: 'Anglais' },
+  { value: 'wol', label: 'Wolof' },
+];
+
+// ==============================
+// FICHE DE MÉTADONNÉES
+// ==============================
+
+export type MetadataErrors = Partial<Record<keyof DatasetMetadataSheet, string>>;
+
+export const metadataSheetOf = (dataset: DatasetMetadata): DatasetMetadataSheet => ({
+  name: dataset.name,
+  description: dataset.description,
+  category: dataset.category,
+  source: dataset.source,
+  licence: dataset.licence || '',
+  owner: dataset.owner,
+  tags: dataset.tags,
+  topicCategory: dataset.topicCategory || '',
+  language: dataset.language || 'fre',
+  lineage: dataset.lineage || '',
+  updateFrequency: dataset.updateFrequency || '',
+  crs: dataset.crs || '',
+  contactName: dataset.contactName || '',
+  contactOrganisation: dataset.contactOrganisation || '',
+  contactEmail: dataset.contactEmail || '',
+});
+
+// Champs obligatoires pour la publication sur l'IDS
+const REQUIRED_FIELDS: { field: keyof DatasetMetadataSheet; label: string }[] = [
+  { field: 'name', label: 'Le titre' },
+  { field: 'description', label: 'Le résumé' },
+  { field: 'category', label: 'La catégorie' },
+  { field: 'topicCategory', label: 'La catégorie thématique ISO' },
+  { field: 'language', label: 'La langue' },
+  { field: 'lineage', label: 'La généalogie' },
+  { field: 'licence', label: 'La licence' },
+  { field: 'updateFrequency', label: 'La fréquence de mise à jour' },
+  { field: 'crs', label: 'Le système de coordonnées' },
+  { field: 'contactOrganisation', label: "L'organisme de contact" },
+  { field: 'contactEmail', label: "L'e-mail de contact" },
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const validateMetadataSheet = (sheet: DatasetMetadataSheet): MetadataErrors => {
+  const errors: MetadataErrors = {};
+  REQUIRED_FIELDS.forEach(({ field, label }) => {
+    const value = sheet[field];
+    if (Array.isArray(value) ? value.length === 0 : !String(value).trim()) {
+      errors[field] = `${label} est obligatoire.`;
+    }
+  });
+  if (sheet.crs && !/^EPSG:\d{4,6}$/.test(sheet.crs)) {
+    errors.crs = 'Code attendu au format EPSG:XXXX.';
+  }
+  if (sheet.contactEmail.trim() && !EMAIL_PATTERN.test(sheet.contactEmail.trim())) {
+    errors.contactEmail = 'Adresse e-mail invalide.';
+  }
+  return errors;
+};
+
+// ==============================
+// EXPORT DE LA FICHE (JSON, XML ISO 19139)
+// ==============================
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Enregistrement structuré selon les sections ISO 19115
+export const metadataRecordJson = (dataset: DatasetMetadata, sheet: DatasetMetadataSheet) => {
+  const contact = {
+    individualName: sheet.contactName || null,
+    organisationName: sheet.contactOrganisation,
+    electronicMailAddress: sheet.contactEmail,
+    role: 'pointOfContact',
+  };
+  return {
+    fileIdentifier: dataset.id,
+    language: sheet.language,
+    characterSet: 'utf8',
+    hierarchyLevel: 'dataset',
+    contact,
+    dateStamp: today(),
+    metadataStandardName: 'ISO 19115:2003/19139',
+    referenceSystemInfo: { code: sheet.crs, codeSpace: 'EPSG' },
+    identificationInfo: {
+      title: sheet.name,
+      abstract: sheet.description,
+      dates: [
+        ...(dataset.createdAt ? [{ date: dataset.createdAt, dateType: 'creation' }] : []),
+        ...(dataset.lastUpdated ? [{ date: dataset.lastUpdated, dateType: 'revision' }] : []),
+      ],
+      pointOfContact: contact,
+      owner: sheet.owner || null,
+      maintenanceAndUpdateFrequency: sheet.updateFrequency,
+      keywords: [sheet.category, ...sheet.tags],
+      useLimitation: sheet.licence,
+      language: sheet.language,
+      topicCategory: sheet.topicCategory,
+      extent: dataset.extent
+        ? {
+            // Ordre imposé par le schéma EX_GeographicBoundingBox
+            westBoundLongitude: dataset.extent[0],
+            eastBoundLongitude: dataset.extent[2],
+            southBoundLatitude: dataset.extent[1],
+            northBoundLatitude: dataset.extent[3],
+          }
+        : null,
+    },
+    distributionInfo: { format: dataset.format },
+    dataQualityInfo: {
+      scope: 'dataset',
+      lineage: sheet.lineage,
+      source: sheet.source || null,
+    },
+  };
+};
+
+interface XmlNode {
+  tag: string;
+  attributes?: Record<string, string>;
+  children?: XmlNode[] | string;
+}
+
+const GMD_NAMESPACES = {
+  'xmlns:gmd': 'http://www.isotc211.org/2005/gmd',
+  'xmlns:gco': 'http://www.isotc211.org/2005/gco',
+  'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+  'xsi:schemaLocation': 'http://www.isotc211.org/2005/gmd http://schemas.opengis.net/csw/2.0.2/profiles/apiso/1.0.0/apiso.xsd',
+};
+
+const CODE_LIST_URL = 'http://standards.iso.org/iso/19139/resources/gmxCodelists.xml';
+
+const node = (tag: string, children: XmlNode[] | string, attributes?: Record<string, string>): XmlNode => ({ tag, attributes, children });
+
+const text = (tag: string, value: string) => node(tag, [node('gco:CharacterString', value)]);
+
+const code = (tag: string, codeList: string, value: string) =>
+  node(tag, [node(`gmd:${codeList}`, value, { codeList: `${CODE_LIST_URL}#${codeList}`, codeListValue: value })]);
+
+const languageCode = (value: string) =>
+  node('gmd:language', [node('gmd:LanguageCode', value, { codeList: 'http://www.loc.gov/standards/iso639-2/', codeListValue: value })]);
+
+const serialize = (xml: XmlNode, depth = 0): string => {
+  const indent = '  '.repeat(depth);
+  const attributes = Object.entries(xml.attributes || {})
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('');
+  if (typeof xml.children === 'string') {
+    return `${indent}<${xml.tag}${attributes}>${escapeXml(xml.children)}</${xml.tag}>`;
+  }
+  if (!xml.children || xml.children.length === 0) return `${indent}<${xml.tag}${attributes}/>`;
+  return [
+    `${indent}<${xml.tag}${attributes}>`,
+    ...xml.children.map(child => serialize(child, depth + 1)),
+    `${indent}</${xml.tag}>`,
+  ].join('\n');
+};
+
+const responsibleParty = (tag: string, sheet: DatasetMetadataSheet) =>
+  node(tag, [
+    node('gmd:CI_ResponsibleParty', [
+      ...(sheet.contactName ? [text('gmd:individualName', sheet.contactName)] : []),
+      text('gmd:organisationName', sheet.contactOrganisation),
+      node('gmd:contactInfo', [
+        node('gmd:CI_Contact', [
+          node('gmd:address', [node('gmd:CI_Address', [text('gmd:electronicMailAddress', sheet.contactEmail)])]),
+        ]),
+      ]),
+      code('gmd:role', 'CI_RoleCode', 'pointOfContact'),
+    ]),
+  ]);
+
+const citationDate = (date: string, dateType: string) =>
+  node('gmd:date', [
+    node('gmd:CI_Date', [node('gmd:date', [node('gco:Date', date)]), code('gmd:dateType', 'CI_DateTypeCode', dateType)]),
+  ]);
+
+// Fiche au format XML ISO 19139 (gmd:MD_Metadata), moissonnable par les catalogues CSW
+export const metadataRecordXml = (dataset: DatasetMetadata, sheet: DatasetMetadataSheet) => {
+  const record = metadataRecordJson(dataset, sheet);
+  const { identificationInfo: identification } = record;
+
+  const root = node(
+    'gmd:MD_Metadata',
+    [
+      text('gmd:fileIdentifier', record.fileIdentifier),
+      languageCode(record.language),
+      code('gmd:characterSet', 'MD_CharacterSetCode', record.characterSet),
+      code('gmd:hierarchyLevel', 'MD_ScopeCode', record.hierarchyLevel),
+      responsibleParty('gmd:contact', sheet),
+      node('gmd:dateStamp', [node('gco:Date', record.dateStamp)]),
+      text('gmd:metadataStandardName', record.metadataStandardName),
+      node('gmd:referenceSystemInfo', [
+        node('gmd:MD_ReferenceSystem', [
+          node('gmd:referenceSystemIdentifier', [
+            node('gmd:RS_Identifier', [text('gmd:code', sheet.crs), text('gmd:codeSpace', 'EPSG')]),
+          ]),
+        ]),
+      ]),
+      node('gmd:identificationInfo', [
+        node('gmd:MD_DataIdentification', [
+          node('gmd:citation', [
+            node('gmd:CI_Citation', [
+              text('gmd:title', identification.title),
+              ...identification.dates.map(d => citationDate(d.date, d.dateType)),
+            ]),
+          ]),
+          text('gmd:abstract', identification.abstract),
+          responsibleParty('gmd:pointOfContact', sheet),
+          node('gmd:resourceMaintenance', [
+            node('gmd:MD_MaintenanceInformation', [
+              code('gmd:maintenanceAndUpdateFrequency', 'MD_MaintenanceFrequencyCode', identification.maintenanceAndUpdateFrequency),
+            ]),
+          ]),
+          node('gmd:descriptiveKeywords', [
+            node('gmd:MD_Keywords', identification.keywords.filter(Boolean).map(k => text('gmd:keyword', k))),
+          ]),
+          node('gmd:resourceConstraints', [
+            node('gmd:MD_LegalConstraints', [
+              text('gmd:useLimitation', identification.useLimitation),
+              code('gmd:accessConstraints', 'MD_RestrictionCode', 'license'),
+            ]),
+          ]),
+          languageCode(identification.language),
+          node('gmd:topicCategory', [node('gmd:MD_TopicCategoryCode', identification.topicCategory)]),
+          ...(identification.extent
+            ? [
+                node('gmd:extent', [
+                  node('gmd:EX_Extent', [
+                    node('gmd:geographicElement', [
+                      node(
+                        'gmd:EX_GeographicBoundingBox',
+                        Object.entries(identification.extent).map(([name, value]) =>
+                          node(`gmd:${name}`, [node('gco:Decimal', String(value))])
+                        )
+                      ),
+                    ]),
+                  ]),
+                ]),
+              ]
+            : []),
+        ]),
+      ]),
+      node('gmd:distributionInfo', [
+        node('gmd:MD_Distribution', [
+          node('gmd:distributionFormat', [
+            node('gmd:MD_Format', [text('gmd:name', record.distributionInfo.format), text('gmd:version', 'inconnue')]),
+          ]),
+        ]),
+      ]),
+      node('gmd:dataQualityInfo', [
+        node('gmd:DQ_DataQuality', [
+          node('gmd:scope', [node('gmd:DQ_Scope', [code('gmd:level', 'MD_ScopeCode', 'dataset')])]),
+          node('gmd:lineage', [node('gmd:LI_Lineage', [text('gmd:statement', record.dataQualityInfo.lineage)])]),
+        ]),
+      ]),
+    ],
+    GMD_NAMESPACES
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${serialize(root)}\n`;
+};
@@ -0,0 +1,397 @@
+import proj4 from 'proj4';
+import type { Geometry, Position } from 'geojson';
+import type { CrsOrigin, ProjectionDefinition } from '../types';
+
+// ==============================
+// DÉFINITIONS PROJ4 POUR LE SÉNÉGAL
+// ==============================
+const WGS84_GEOGCS = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const utmWkt = (zone: number) =>
+  `PROJCS["WGS_1984_UTM_Zone_${zone}N",${WGS84_GEOGCS},PROJECTION["Transverse_Mercator"],` +
+  `PARAMETER["False_Easting",500000.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",${zone * 6 - 183}.0],` +
+  'PARAMETER["Scale_Factor",0.9996],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]';
+
+export const BUILTIN_PROJECTIONS: ProjectionDefinition[] = [
+  {
+    code: 'EPSG:4326',
+    label: 'WGS84 (latitude/longitude)',
+    proj4: '+proj=longlat +datum=WGS84 +no_defs',
+    wkt: WGS84_GEOGCS,
+  },
+  {
+    code: 'EPSG:32628',
+    label: 'UTM Zone 28N (le plus couramment utilisé au Sénégal)',
+    proj4: '+proj=utm +zone=28 +datum=WGS84 +units=m +no_defs',
+    wkt: utmWkt(28),
+  },
+  {
+    code: 'EPSG:32627',
+    label: 'UTM Zone 27N',
+    proj4: '+proj=utm +zone=27 +datum=WGS84 +units=m +no_defs',
+    wkt: utmWkt(27),
+  },
+  {
+    code: 'EPSG:2147',
+    label: 'Lambert Sénégal',
+    proj4: '+proj=lcc +lat_1=13.5 +lat_2=15.5 +lat_0=14.5 +lon_0=-14 +x_0=400000 +y_0=300000 +ellps=clrk80 +towgs84=-263,6,431,0,0,0,0 +units=m +no_defs',
+    // Sans AUTHORITY : le code 2147 n'est qu'un identifiant interne. TOWGS84 permet
+    // de relire le .prj sans perdre le décalage de datum.
+    internal: true,
+    wkt: 'PROJCS["Lambert_Senegal",GEOGCS["GCS_Clarke_1880",DATUM["D_Clarke_1880",' +
+      'SPHEROID["Clarke_1880_RGS",6378249.145,293.465],TOWGS84[-263,6,431,0,0,0,0]],' +
+      'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Lambert_Conformal_Conic"],' +
+      'PARAMETER["False_Easting",400000.0],PARAMETER["False_Northing",300000.0],PARAMETER["Central_Meridian",-14.0],' +
+      'PARAMETER["Standard_Parallel_1",13.5],PARAMETER["Standard_Parallel_2",15.5],PARAMETER["Latitude_Of_Origin",14.5],' +
+      'UNIT["Meter",1.0]]',
+  },
+];
+
+proj4.defs(BUILTIN_PROJECTIONS.map(p => [p.code, p.proj4]));
+
+export const SENEGAL_BOUNDS = { minLon: -17.8, maxLon: -11.2, minLat: 12.0, maxLat: 16.8 };
+
+const CUSTOM_PROJECTIONS_KEY = 'sonaged_custom_projections';
+
+export const isInSenegal = (longitude: number, latitude: number) =>
+  longitude >= SENEGAL_BOUNDS.minLon && longitude <= SENEGAL_BOUNDS.maxLon &&
+  latitude >= SENEGAL_BOUNDS.minLat && latitude <= SENEGAL_BOUNDS.maxLat;
+
+// ==============================
+// PROJECTIONS PERSONNALISÉES (localStorage)
+// ==============================
+
+export const getCustomProjections = (): ProjectionDefinition[] => {
+  try {
+    const saved = localStorage.getItem(CUSTOM_PROJECTIONS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Failed to parse custom projections:', error);
+    return [];
+  }
+};
+
+// Enregistre les définitions personnalisées auprès de proj4 au chargement
+getCustomProjections().forEach(p => {
+  try {
+    proj4.defs(p.code, p.proj4);
+  } catch (error) {
+    console.warn(`Définition proj4 invalide pour ${p.code}:`, error);
+  }
+});
+
+export const getProjections = (): ProjectionDefinition[] => [
+  ...BUILTIN_PROJECTIONS,
+  ...getCustomProjections(),
+];
+
+export const isProjectionRegistered = (code: string) => !!proj4.defs(code);
+
+export const normalizeEpsgCode = (code: string) => {
+  const match = code.trim().match(/^(?:EPSG:)?(\d{4,6})$/i);
+  return match ? `EPSG:${match[1]}` : code.trim();
+};
+
+// Valide puis enregistre une définition proj4 saisie par l'utilisateur
+export const addCustomProjection = (code: string, definition: string, label?: string) => {
+  const normalized = normalizeEpsgCode(code);
+  if (!/^EPSG:\d{4,6}$/.test(normalized)) {
+    throw new Error(`Code EPSG invalide : "${code}"`);
+  }
+  if (BUILTIN_PROJECTIONS.some(p => p.code === normalized)) {
+    throw new Error(`${normalized} est déjà défini`);
+  }
+  try {
+    proj4(definition, 'EPSG:4326', [0, 0]);
+  } catch (error) {
+    throw new Error(`Définition proj4 invalide : ${error instanceof Error ? error.message : error}`);
+  }
+  proj4.defs(normalized, definition);
+
+  const projection: ProjectionDefinition = {
+    code: normalized,
+    label: label || normalized,
+    proj4: definition,
+    custom: true,
+  };
+  const others = getCustomProjections().filter(p => p.code !== normalized);
+  localStorage.setItem(CUSTOM_PROJECTIONS_KEY, JSON.stringify([...others, projection]));
+  return projection;
+};
+
+export const removeCustomProjection = (code: string) => {
+  const remaining = getCustomProjections().filter(p => p.code !== code);
+  localStorage.setItem(CUSTOM_PROJECTIONS_KEY, JSON.stringify(remaining));
+};
+
+// ==============================
+// RÉSOLUTION DU SYSTÈME SOURCE
+// ==============================
+
+// Membre "crs" d'un GeoJSON (ex : "EPSG:32628", "urn:ogc:def:crs:EPSG::32628", "urn:ogc:def:crs:OGC:1.3:CRS84")
+export const parseGeoJSONCrs = (crs: { properties?: { name?: unknown } } | null | undefined): string | null => {
+  const name = crs?.properties?.name;
+  if (typeof name !== 'string') return null;
+  if (/CRS84$/i.test(name)) return 'EPSG:4326';
+  const match = name.match(/EPSG:(?:[\d.]*:)?(\d{4,6})$/i);
+  if (!match) {
+    throw new Error(`Membre "crs" non reconnu : ${name}`);
+  }
+  return `EPSG:${match[1]}`;
+};
+
+// Contenu d'un fichier .prj (WKT). Retourne le code EPSG reconnu ou
+// enregistre la WKT telle quelle auprès de proj4.
+export const resolvePrjDefinition = (wkt: string): string => {
+  const text = wkt.trim();
+  if (!text) throw new Error('Le fichier .prj est vide');
+
+  // Le dernier AUTHORITY d'une WKT OGC est celui du système projeté
+  const authorities = [...text.matchAll(/AUTHORITY\["EPSG",\s*"?(\d+)"?\]/gi)];
+  if (authorities.length > 0) {
+    const code = `EPSG:${authorities[authorities.length - 1][1]}`;
+    if (isProjectionRegistered(code)) return code;
+  }
+
+  // WKT ESRI sans AUTHORITY
+  const utm = text.match(/WGS_?1984_UTM_Zone_(\d{1,2})N/i);
+  if (utm) {
+    const code = `EPSG:326${utm[1].padStart(2, '0')}`;
+    if (isProjectionRegistered(code)) return code;
+  }
+  if (/^GEOGCS\["(GCS_)?WGS_?(19)?84"/i.test(text)) return 'EPSG:4326';
+
+  const code = `PRJ:${text.match(/^(?:PROJCS|GEOGCS)\["([^"]+)"/i)?.[1] || 'inconnu'}`;
+  try {
+    proj4.defs(code, text);
+    proj4(code, 'EPSG:4326', [0, 0]);
+  } catch (error) {
+    throw new Error(`Fichier .prj non interprétable : ${error instanceof Error ? error.message : error}`);
+  }
+  return code;
+};
+
+// Systèmes testés, dans l'ordre, quand aucune source n'est précisée
+const AUTO_DETECT_CANDIDATES = ['EPSG:4326', 'EPSG:32628', 'EPSG:32627', 'EPSG:2147'];
+
+export interface CrsDetection {
+  code: string | null;
+  // Systèmes plaçant autant de points au Sénégal que le système retenu
+  candidates: string[];
+}
+
+// Détecte le système source d'un ensemble de points : retient la projection qui
+// place le plus de points au Sénégal. Les plages UTM 27N et 28N se recouvrent,
+// un point isolé ne suffit donc pas à trancher ; en cas d'égalité, la détection
+// est ambiguë et le système doit être choisi explicitement.
+export const detectCoordinateSystem = (points: number[][]): CrsDetection => {
+  const candidates = [...AUTO_DETECT_CANDIDATES, ...getCustomProjections().map(p => p.code)];
+  const scores = candidates.map(code => {
+    let inside = 0;
+    points.forEach(([x, y]) => {
+      try {
+        const [longitude, latitude] = code === 'EPSG:4326' ? [x, y] : proj4(code, 'EPSG:4326', [x, y]);
+        if (isInSenegal(longitude, latitude)) inside++;
+      } catch {
+        // point non projetable dans ce système
+      }
+    });
+    return { code, inside };
+  });
+  const best = Math.max(0, ...scores.map(s => s.inside));
+  if (best === 0) return { code: null, candidates: [] };
+  const tied = scores.filter(s => s.inside === best).map(s => s.code);
+  return { code: tied.length === 1 ? tied[0] : null, candidates: tied };
+};
+
+// ==============================
+// CONVERSION
+// ==============================
+
+export interface ConversionResult {
+  longitude: number | null;
+  latitude: number | null;
+  sourceSystem?: string;
+  status: 'converted' | 'out_of_bounds' | 'invalid' | 'undetected' | 'error';
+  error?: string;
+}
+
+export const convertCoordinates = (coordinates: number[], sourceCrs?: string | null): ConversionResult => {
+  if (!Array.isArray(coordinates) || coordinates.length < 2) {
+    return { longitude: null, latitude: null, status: 'invalid', error: 'Coordonnées invalides' };
+  }
+  const [x, y] = coordinates;
+  if (typeof x !== 'number' || typeof y !== 'number' || !isFinite(x) || !isFinite(y)) {
+    return { longitude: null, latitude: null, status: 'invalid', error: 'Coordonnées non numériques' };
+  }
+  const sourceSystem = sourceCrs || detectCoordinateSystem([[x, y]]).code;
+  if (!sourceSystem) {
+    return {
+      longitude: null,
+      latitude: null,
+      status: 'undetected',
+      error: `Système de coordonnées non détecté pour [${x}, ${y}] : aucune projection connue ne place ce point au Sénégal`
+    };
+  }
+  try {
+    const [longitude, latitude] = sourceSystem === 'EPSG:4326' ? [x, y] : proj4(sourceSystem, 'EPSG:4326', [x, y]);
+    if (!isInSenegal(longitude, latitude)) {
+      return {
+        longitude: null,
+        latitude: null,
+        sourceSystem,
+        status: 'out_of_bounds',
+        error: `Coordonnées converties hors limites du Sénégal: [${longitude.toFixed(2)}, ${latitude.toFixed(2)}]`
+      };
+    }
+    return {
+      longitude: Number(longitude.toFixed(6)),
+      latitude: Number(latitude.toFixed(6)),
+      sourceSystem,
+      status: 'converted'
+    };
+  } catch (error) {
+    return {
+      longitude: null,
+      latitude: null,
+      sourceSystem,
+      status: 'error',
+      error: `Erreur de conversion: ${error instanceof Error ? error.message : error}`
+    };
+  }
+};
+
+export interface GeometryConversionResult {
+  geometry: Geometry | null;
+  sourceSystem?: string;
+  status: ConversionResult['status'];
+  vertices: number;
+  error?: string;
+}
+
+// Profondeur d'imbrication des positions par type de géométrie
+const POSITION_DEPTH: Record<string, number> = {
+  Point: 0,
+  MultiPoint: 1,
+  LineString: 1,
+  MultiLineString: 2,
+  Polygon: 2,
+  MultiPolygon: 3,
+};
+
+// Reprojette une géométrie complète, sommet par sommet, vers WGS84.
+// La géométrie est rejetée dès qu'un sommet est invalide ou hors du Sénégal.
+export const reprojectGeometry = (geometry: Geometry | null | undefined, sourceCrs?: string | null): GeometryConversionResult => {
+  if (!geometry) {
+    return { geometry: null, status: 'invalid', vertices: 0, error: 'Géométrie absente' };
+  }
+  if (geometry.type === 'GeometryCollection') {
+    const parts = geometry.geometries.map(g => reprojectGeometry(g, sourceCrs));
+    const failed = parts.find(p => p.status !== 'converted');
+    const vertices = parts.reduce((sum, p) => sum + p.vertices, 0);
+    if (failed) return { ...failed, geometry: null, vertices };
+    return {
+      geometry: { type: 'GeometryCollection', geometries: parts.map(p => p.geometry as Geometry) },
+      sourceSystem: parts[0]?.sourceSystem,
+      status: 'converted',
+      vertices,
+    };
+  }
+  const depth = POSITION_DEPTH[geometry.type];
+  if (depth === undefined || !Array.isArray(geometry.coordinates)) {
+    return { geometry: null, status: 'invalid', vertices: 0, error: `Type de géométrie non supporté: ${geometry.type}` };
+  }
+
+  let vertices = 0;
+  let sourceSystem: string | undefined;
+  let failure: ConversionResult | null = null;
+
+  const convertPosition = (position: Position): Position => {
+    vertices++;
+    const result = convertCoordinates(position, sourceCrs);
+    if (result.longitude === null || result.latitude === null) {
+      if (!failure) failure = result;
+      return position;
+    }
+    sourceSystem = sourceSystem || result.sourceSystem;
+    return position.length > 2 ? [result.longitude, result.latitude, ...position.slice(2)] : [result.longitude, result.latitude];
+  };
+
+  const walk = (coordinates: unknown, level: number): unknown => {
+    if (!Array.isArray(coordinates)) throw new Error('Structure de coordonnées invalide');
+    return level === 0 ? convertPosition(coordinates as Position) : coordinates.map(c => walk(c, level - 1));
+  };
+
+  let coordinates: unknown;
+  try {
+    coordinates = walk(geometry.coordinates, depth);
+  } catch (error) {
+    return { geometry: null, status: 'invalid', vertices, error: error instanceof Error ? error.message : String(error) };
+  }
+  if (vertices === 0) {
+    return { geometry: null, status: 'invalid', vertices, error: 'Géométrie vide' };
+  }
+  if (failure) {
+    const { status, error, sourceSystem: failedSystem } = failure as ConversionResult;
+    return { geometry: null, status, vertices, sourceSystem: failedSystem, error: `Sommet rejeté : ${error}` };
+  }
+  return {
+    geometry: { type: geometry.type, coordinates } as Geometry,
+    sourceSystem,
+    status: 'converted',
+    vertices,
+  };
+};
+
+// Transforme une géométrie d'un système à un autre, sans contrôle d'emprise
+// (visualisation et export). Z est conservé.
+export const transformGeometry = (geometry: Geometry, fromCrs: string, toCrs: string): Geometry => {
+  if (fromCrs === toCrs) return geometry;
+  if (!isProjectionRegistered(fromCrs)) throw new Error(`Système ${fromCrs} non enregistré`);
+  if (!isProjectionRegistered(toCrs)) throw new Error(`Système ${toCrs} non enregistré`);
+  if (geometry.type === 'GeometryCollection') {
+    return { type: 'GeometryCollection', geometries: geometry.geometries.map(g => transformGeometry(g, fromCrs, toCrs)) };
+  }
+  const converter = proj4(fromCrs, toCrs);
+  const walk = (coordinates: unknown, level: number): unknown => {
+    if (level > 0) return (coordinates as unknown[]).map(c => walk(c, level - 1));
+    const [x, y, ...rest] = coordinates as Position;
+    return [...converter.forward([x, y]), ...rest];
+  };
+  return { type: geometry.type, coordinates: walk(geometry.coordinates, POSITION_DEPTH[geometry.type]) } as Geometry;
+};
+
+// Choisit le système source d'un import selon la priorité :
+// choix explicite > fichier .prj > membre "crs" du GeoJSON > détection automatique
+// sur les points fournis (un point représentatif par feature).
+export const resolveSourceCrs = (
+  geojson: { crs?: { properties?: { name?: unknown } } } | null | undefined,
+  options: { sourceCrs?: string | null; prj?: string | null } = {},
+  samplePoints: number[][] = []
+): { code: string | null; origin: CrsOrigin } => {
+  if (options.sourceCrs) {
+    const code = normalizeEpsgCode(options.sourceCrs);
+    if (!isProjectionRegistered(code)) {
+      throw new Error(`Système ${code} inconnu : ajoutez sa définition proj4 avant l'import`);
+    }
+    return { code, origin: 'explicit' };
+  }
+  if (options.prj) {
+    return { code: resolvePrjDefinition(options.prj), origin: 'prj' };
+  }
+  const fromCrs = parseGeoJSONCrs(geojson?.crs);
+  if (fromCrs) {
+    if (!isProjectionRegistered(fromCrs)) {
+      throw new Error(`Le GeoJSON déclare ${fromCrs}, qui n'est pas défini : ajoutez sa définition proj4 ou choisissez le système source`);
+    }
+    return { code: fromCrs, origin: 'geojson' };
+  }
+  const detection = detectCoordinateSystem(samplePoints);
+  if (!detection.code && detection.candidates.length > 1) {
+    throw new Error(
+      `Système de coordonnées ambigu : les données sont compatibles avec ${detection.candidates.join(', ')}. Choisissez le système source.`
+    );
+  }
+  return { code: detection.code, origin: 'auto' };
+};
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import type { Database } from '../types/supabase';
+import { supabase } from './supabase';
+
+// ==============================
+// MISES À JOUR EN TEMPS RÉEL
+// ==============================
+// Les pages ouvertes suivent les modifications faites par les autres
+// utilisateurs (publication supabase_realtime) sans rechargement ; les
+// éléments modifiés sont signalés par un clignotement (classe realtime-flash).
+
+export type RealtimeTable = 'collection_points' | 'urban_furniture' | 'sweeping_routes' | 'alerts';
+
+type TableRow<T extends RealtimeTable> = Database['public']['Tables'][T]['Row'];
+
+// Modification d'une ligne ; row est absente pour une suppression
+export type TableChange = {
+  [T in RealtimeTable]: {
+    table: T;
+    event: 'INSERT' | 'UPDATE' | 'DELETE';
+    id: string;
+    row: TableRow<T> | null;
+  };
+}[RealtimeTable];
+
+// Durée du clignotement d'un élément modifié
+export const REALTIME_FLASH_MS = 2400;
+
+let channelCount = 0;
+
+// Abonnement aux modifications de plusieurs tables ; renvoie le désabonnement
+export const subscribeToTables = (tables: RealtimeTable[], onChange: (change: TableChange) => void) => {
+  const channel = supabase.channel(`realtime:${tables.join(',')}:${++channelCount}`);
+  tables.forEach(table => {
+    channel.on('postgres_changes', { event: '*', schema: 'public', table }, (payload: RealtimePostgresChangesPayload<TableRow<typeof table>>) => {
+      const row = payload.eventType === 'DELETE' ? null : payload.new;
+      const id = row?.id ?? (payload.old as Partial<TableRow<typeof table>>).id;
+      if (id) onChange({ table, event: payload.eventType, id, row } as TableChange);
+    });
+  });
+  channel.subscribe();
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
+
+// Identifiants des éléments à faire clignoter, retirés après REALTIME_FLASH_MS
+export const useFlashedIds = () => {
+  const [flashedIds, setFlashedIds] = useState<Set<string>>(() => new Set());
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const flash = useCallback((id: string) => {
+    setFlashedIds(current => new Set(current).add(id));
+    clearTimeout(timers.current.get(id));
+    timers.current.set(id, setTimeout(() => {
+      timers.current.delete(id);
+      setFlashedIds(current => {
+        const next = new Set(current);
+        next.delete(id);
+        return next;
+      });
+    }, REALTIME_FLASH_MS));
+  }, []);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach(timer => clearTimeout(timer));
+  }, []);
+
+  return [flashedIds, flash] as const;
+};
@@ -0,0 +1,294 @@
+import JSZip from 'jszip';
+import type { Feature, FeatureCollection, Geometry, Position } from 'geojson';
+
+// ==============================
+// ÉCRITURE SHAPEFILE (ZIP)
+// ==============================
+// Un shapefile ne porte qu'un type de géométrie : les features sont réparties
+// en un jeu .shp/.shx/.dbf/.prj/.cpg par famille (points, multipoints, lignes,
+// polygones). Les géométries sont écrites en 2D ; les attributs en UTF-8.
+
+const SHAPE_TYPES = { point: 1, polyline: 3, polygon: 5, multipoint: 8 } as const;
+type ShapeFamily = keyof typeof SHAPE_TYPES;
+
+const FAMILY_SUFFIXES: Record<ShapeFamily, string> = {
+  point: 'points',
+  multipoint: 'multipoints',
+  polyline: 'lignes',
+  polygon: 'polygones',
+};
+
+const familyOf = (geometry: Geometry): ShapeFamily | null => {
+  switch (geometry.type) {
+    case 'Point':
+      return 'point';
+    case 'MultiPoint':
+      return 'multipoint';
+    case 'LineString':
+    case 'MultiLineString':
+      return 'polyline';
+    case 'Polygon':
+    case 'MultiPolygon':
+      return 'polygon';
+    default:
+      return null;
+  }
+};
+
+// Aire signée (positive dans le sens trigonométrique)
+const signedArea = (ring: Position[]) =>
+  ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + (x1 * y2 - x2 * y1);
+  }, 0) / 2;
+
+// Anneaux extérieurs dans le sens horaire, trous dans le sens trigonométrique
+const orientRing = (ring: Position[], outer: boolean) =>
+  (signedArea(ring) > 0) === outer ? [...ring].reverse() : ring;
+
+// Parties (anneaux ou lignes) d'une géométrie linéaire ou surfacique
+const partsOf = (geometry: Geometry): Position[][] => {
+  switch (geometry.type) {
+    case 'LineString':
+      return [geometry.coordinates];
+    case 'MultiLineString':
+      return geometry.coordinates;
+    case 'Polygon':
+      return geometry.coordinates.map((ring, i) => orientRing(ring, i === 0));
+    case 'MultiPolygon':
+      return geometry.coordinates.flatMap(polygon => polygon.map((ring, i) => orientRing(ring, i === 0)));
+    default:
+      return [];
+  }
+};
+
+const boundsOf = (positions: Position[]) => {
+  const xs = positions.map(p => p[0]);
+  const ys = positions.map(p => p[1]);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+// Contenu d'un enregistrement .shp (sans son en-tête)
+const encodeShape = (geometry: Geometry, family: ShapeFamily) => {
+  if (family === 'point') {
+    const [x, y] = (geometry as { coordinates: Position }).coordinates;
+    const view = new DataView(new ArrayBuffer(20));
+    view.setInt32(0, SHAPE_TYPES.point, true);
+    view.setFloat64(4, x, true);
+    view.setFloat64(12, y, true);
+    return { bytes: view.buffer, bounds: [x, y, x, y] };
+  }
+
+  const parts = family === 'multipoint'
+    ? [(geometry as { coordinates: Position[] }).coordinates]
+    : partsOf(geometry);
+  const positions = parts.flat();
+  const bounds = boundsOf(positions);
+  const partsSize = family === 'multipoint' ? 0 : 4 + parts.length * 4;
+  const view = new DataView(new ArrayBuffer(4 + 32 + partsSize + 4 + positions.length * 16));
+  let offset = 0;
+  view.setInt32(offset, SHAPE_TYPES[family], true);
+  offset += 4;
+  bounds.forEach(v => {
+    view.setFloat64(offset, v, true);
+    offset += 8;
+  });
+  if (family !== 'multipoint') {
+    view.setInt32(offset, parts.length, true);
+    offset += 4;
+  }
+  view.setInt32(offset, positions.length, true);
+  offset += 4;
+  if (family !== 'multipoint') {
+    let start = 0;
+    parts.forEach(part => {
+      view.setInt32(offset, start, true);
+      offset += 4;
+      start += part.length;
+    });
+  }
+  positions.forEach(([x, y]) => {
+    view.setFloat64(offset, x, true);
+    view.setFloat64(offset + 8, y, true);
+    offset += 16;
+  });
+  return { bytes: view.buffer, bounds };
+};
+
+// En-tête commun .shp / .shx (100 octets)
+const writeHeader = (view: DataView, family: ShapeFamily, lengthBytes: number, bounds: number[]) => {
+  view.setInt32(0, 9994, false);
+  view.setInt32(24, lengthBytes / 2, false);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, SHAPE_TYPES[family], true);
+  bounds.forEach((v, i) => view.setFloat64(36 + i * 8, v, true));
+};
+
+const writeShp = (features: Feature[], family: ShapeFamily) => {
+  const records = features.map(f => encodeShape(f.geometry, family));
+  const bounds = records.reduce(
+    (b, r) => [Math.min(b[0], r.bounds[0]), Math.min(b[1], r.bounds[1]), Math.max(b[2], r.bounds[2]), Math.max(b[3], r.bounds[3])],
+    [Infinity, Infinity, -Infinity, -Infinity]
+  );
+  const shpLength = 100 + records.reduce((sum, r) => sum + 8 + r.bytes.byteLength, 0);
+  const shxLength = 100 + records.length * 8;
+  const shp = new DataView(new ArrayBuffer(shpLength));
+  const shx = new DataView(new ArrayBuffer(shxLength));
+  writeHeader(shp, family, shpLength, bounds);
+  writeHeader(shx, family, shxLength, bounds);
+
+  let offset = 100;
+  records.forEach((record, i) => {
+    shx.setInt32(100 + i * 8, offset / 2, false);
+    shx.setInt32(104 + i * 8, record.bytes.byteLength / 2, false);
+    shp.setInt32(offset, i + 1, false);
+    shp.setInt32(offset + 4, record.bytes.byteLength / 2, false);
+    new Uint8Array(shp.buffer, offset + 8).set(new Uint8Array(record.bytes));
+    offset += 8 + record.bytes.byteLength;
+  });
+  return { shp: shp.buffer, shx: shx.buffer };
+};
+
+// ==============================
+// DBF
+// ==============================
+
+interface DbfField {
+  property: string;
+  name: string;
+  type: 'C' | 'N';
+  length: number;
+  decimals: number;
+}
+
+const encoder = new TextEncoder();
+
+const toText = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Tronque sans couper un caractère UTF-8 multi-octets
+const truncateBytes = (text: string, maxBytes: number) => {
+  let bytes = encoder.encode(text);
+  let end = text.length;
+  while (bytes.length > maxBytes && end > 0) {
+    end--;
+    bytes = encoder.encode(text.slice(0, end));
+  }
+  return bytes;
+};
+
+// Noms de champs DBF : 10 caractères ASCII maximum, uniques
+const fieldNames = (properties: string[]) => {
+  const used = new Set<string>();
+  return properties.map(property => {
+    const base = property.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w]/g, '_').slice(0, 10) || 'champ';
+    let name = base;
+    for (let i = 1; used.has(name.toUpperCase()); i++) name = `${base.slice(0, 10 - String(i).length - 1)}_${i}`;
+    used.add(name.toUpperCase());
+    return name;
+  });
+};
+
+const buildFields = (features: Feature[]): DbfField[] => {
+  const properties = Array.from(new Set(features.flatMap(f => Object.keys(f.properties || {}))));
+  const names = fieldNames(properties);
+  return properties.map((property, i) => {
+    const values = features.map(f => f.properties?.[property]).filter(v => v !== null && v !== undefined && v !== '');
+    if (values.length > 0 && values.every(v => typeof v === 'number' && Number.isFinite(v))) {
+      const integer = values.every(v => Number.isInteger(v));
+      return { property, name: names[i], type: 'N', length: integer ? 18 : 24, decimals: integer ? 0 : 8 };
+    }
+    const length = Math.min(254, Math.max(1, ...values.map(v => encoder.encode(toText(v)).length)));
+    return { property, name: names[i], type: 'C', length, decimals: 0 };
+  });
+};
+
+const writeDbf = (features: Feature[]) => {
+  const fields = buildFields(features);
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, f) => sum + f.length, 0);
+  const bytes = new Uint8Array(headerLength + features.length * recordLength + 1);
+  const view = new DataView(bytes.buffer);
+  const now = new Date();
+
+  view.setUint8(0, 0x03);
+  view.setUint8(1, now.getFullYear() - 1900);
+  view.setUint8(2, now.getMonth() + 1);
+  view.setUint8(3, now.getDate());
+  view.setUint32(4, features.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fields.forEach((field, i) => {
+    const offset = 32 + i * 32;
+    bytes.set(encoder.encode(field.name), offset);
+    view.setUint8(offset + 11, field.type.charCodeAt(0));
+    view.setUint8(offset + 16, field.length);
+    view.setUint8(offset + 17, field.decimals);
+  });
+  view.setUint8(headerLength - 1, 0x0d);
+
+  features.forEach((feature, r) => {
+    let offset = headerLength + r * recordLength;
+    bytes.fill(0x20, offset, offset + recordLength);
+    offset += 1;
+    fields.forEach(field => {
+      const value = feature.properties?.[field.property];
+      if (field.type === 'N') {
+        const text = typeof value === 'number' && Number.isFinite(value) ? value.toFixed(field.decimals) : '';
+        bytes.set(encoder.encode(text.slice(0, field.length).padStart(field.length, ' ')), offset);
+      } else {
+        bytes.set(truncateBytes(toText(value), field.length), offset);
+      }
+      offset += field.length;
+    });
+  });
+  bytes[bytes.length - 1] = 0x1a;
+  return bytes;
+};
+
+// ==============================
+// ARCHIVE
+// ==============================
+
+export interface ShapefileExportResult {
+  blob: Blob;
+  files: string[];
+  // Features sans géométrie ou en GeometryCollection, non exportables
+  skipped: number;
+}
+
+export const geoJSONToShapefileZip = async (
+  collection: FeatureCollection,
+  options: { name: string; prj?: string }
+): Promise<ShapefileExportResult> => {
+  const groups = new Map<ShapeFamily, Feature[]>();
+  let skipped = 0;
+  collection.features.forEach(feature => {
+    const family = feature.geometry ? familyOf(feature.geometry) : null;
+    if (!family) {
+      skipped++;
+      return;
+    }
+    groups.set(family, [...(groups.get(family) || []), feature]);
+  });
+  if (groups.size === 0) throw new Error('Aucune géométrie exportable en Shapefile');
+
+  const baseName = options.name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w-]+/g, '_') || 'export';
+  const zip = new JSZip();
+  const files: string[] = [];
+  groups.forEach((features, family) => {
+    const name = groups.size > 1 ? `${baseName}_${FAMILY_SUFFIXES[family]}` : baseName;
+    const { shp, shx } = writeShp(features, family);
+    zip.file(`${name}.shp`, shp);
+    zip.file(`${name}.shx`, shx);
+    zip.file(`${name}.dbf`, writeDbf(features));
+    zip.file(`${name}.cpg`, 'UTF-8');
+    if (options.prj) zip.file(`${name}.prj`, options.prj);
+    files.push(`${name}.shp`);
+  });
+
+  return { blob: await zip.generateAsync({ type: 'blob' }), files, skipped };
+};
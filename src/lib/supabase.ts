@@ -1,78 +1,43 @@
 import { createClient } from '@supabase/supabase-js';
+import type { PostgrestError } from '@supabase/supabase-js';
+import type { FeatureCollection, Geometry, LineString, MultiLineString, Position } from 'geojson';
 import type { Database } from '../types/supabase';
-import proj4 from 'proj4';
+import type {
+  AttributeMapping,
+  CollectionPoint,
+  Commune,
+  ConversionReport,
+  CsvImportOptions,
+  DashboardAlert,
+  DatasetExtent,
+  DatasetMetadata,
+  DatasetMetadataSheet,
+  DatasetReference,
+  DatasetRegistration,
+  DatasetSearchFilters,
+  DatasetVersion,
+  FeatureConversionReport,
+  ImportJob,
+  ImportTable,
+  LayerStyle,
+  MappingProfile,
+  MergeDiff,
+  MergeOptions,
+  MergeRecordChange,
+  PointCluster,
+  SavedMap,
+  SavedMapLayer,
+  UrbanFurnitureItem,
+  ViewportTable
+} from '../types';
+import { reprojectGeometry, resolveSourceCrs } from './projections';
+import { TARGET_FIELDS, applyMapping, collectSourceProperties, suggestMapping } from './importMapping';
+import { UUID_PATTERN, validateRow } from './importValidation';
+import { clusterCellSize } from './clustering';
+import { clearImportJob, createImportJob, getImportJob, getImportJobKey, getJobProgress, saveImportJob } from './importJobs';
 
-// ==============================
-// DÉFINITIONS PROJ4 POUR LE SÉNÉGAL
-// ==============================
-proj4.defs([
-  [
-    'EPSG:4326', // WGS84 (latitude/longitude)
-    '+proj=longlat +datum=WGS84 +no_defs'
-  ],
-  [
-    'EPSG:32628', // UTM Zone 28N (le plus couramment utilisé au Sénégal)
-    '+proj=utm +zone=28 +datum=WGS84 +units=m +no_defs'
-  ],
-  [
-    'EPSG:32627', // UTM Zone 27N (partie ouest du Sénégal)
-    '+proj=utm +zone=27 +datum=WGS84 +units=m +no_defs'
-  ],
-  [
-    'EPSG:2147', // Lambert Sénégal 
-    '+proj=lcc +lat_1=13.5 +lat_2=15.5 +lat_0=14.5 +lon_0=-14 +x_0=400000 +y_0=300000 +ellps=clrk80 +towgs84=-263,6,431,0,0,0,0 +units=m +no_defs'
-  ]
-]);
-
-// Détecte le système source selon les valeurs
-const detectCoordinateSystem = (x: number, y: number) => {
-  if (x >= -180 && x <= 180 && y >= -90 && y <= 90) return 'EPSG:4326';
-  if (x >= 200000 && x <= 800000 && y >= 1400000 && y <= 1900000) return 'EPSG:32628';
-  if (x >= 400000 && x <= 900000 && y >= 1400000 && y <= 1900000) return 'EPSG:32627';
-  if (x >= 200000 && x <= 600000 && y >= 0 && y <= 500000) return 'EPSG:2147';
-  console.warn(`Système de coordonnées non détecté pour [${x}, ${y}], utilisation d'UTM 28N par défaut`);
-  return 'EPSG:32628';
-};
-
-const convertCoordinates = (coordinates: number[]) => {
-  if (!Array.isArray(coordinates) || coordinates.length < 2) {
-    return { longitude: null, latitude: null, error: 'Coordonnées invalides' };
-  }
-  const [x, y] = coordinates;
-  if (typeof x !== 'number' || typeof y !== 'number') {
-    return { longitude: null, latitude: null, error: 'Coordonnées non numériques' };
-  }
-  try {
-    const sourceProj = detectCoordinateSystem(x, y);
-    if (sourceProj === 'EPSG:4326') {
-      return { longitude: x, latitude: y, sourceSystem: sourceProj };
-    }
-    const [longitude, latitude] = proj4(sourceProj, 'EPSG:4326', [x, y]);
-    const senegalBounds = { minLon: -17.8, maxLon: -11.2, minLat: 12.0, maxLat: 16.8 };
-    if (longitude >= senegalBounds.minLon && longitude <= senegalBounds.maxLon &&
-        latitude >= senegalBounds.minLat && latitude <= senegalBounds.maxLat) {
-      return {
-        longitude: Number(longitude.toFixed(6)),
-        latitude: Number(latitude.toFixed(6)),
-        sourceSystem: sourceProj
-      };
-    } else {
-      return {
-        longitude: null,
-        latitude: null,
-        error: `Coordonnées converties hors limites du Sénégal: [${longitude.toFixed(2)}, ${latitude.toFixed(2)}]`
-      };
-    }
-  } catch (error: any) {
-    return {
-      longitude: null,
-      latitude: null,
-      error: `Erreur de conversion: ${error.message}`
-    };
-  }
-};
-
-const extractCoordinates = (geometry: any) => {
+const extractCoordinates = (geometry: any): number[] | null => {
+  if (geometry?.type === 'GeometryCollection') return extractCoordinates(geometry.geometries?.[0]);
   if (!geometry || !geometry.coordinates) return null;
   switch (geometry.type) {
     case 'Point': return geometry.coordinates;
@@ -108,148 +73,1432 @@ export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey, {
   },
 });
 
+// PostgREST plafonne le nombre de lignes d'une réponse (1000 par défaut) : une
+// table entière est lue par pages, dans un ordre stable, jusqu'à une page incomplète
+const READ_PAGE_SIZE = 1000;
+
+const selectAllPages = async <T>(
+  readPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<{ data: T[]; error: PostgrestError | null }> => {
+  const data: T[] = [];
+  for (let from = 0; ; from += READ_PAGE_SIZE) {
+    const page = await readPage(from, from + READ_PAGE_SIZE - 1);
+    if (page.error) return { data, error: page.error };
+    data.push(...(page.data || []));
+    if (!page.data || page.data.length < READ_PAGE_SIZE) return { data, error: null };
+  }
+};
+
 // ==============================
 // UPLOADS BRUTS : GEOJSON, FICHIERS (ZIP, PDF, CSV)
 // ==============================
 
-// Upload d'un GeoJSON complet dans une table dédiée
+// Nouvelle version d'un jeu déjà inscrit au registre
+export interface DatasetVersionUpload {
+  datasetId: string;
+  note: string;
+}
+
+// Upload d'un GeoJSON complet dans une table dédiée, inscrit au registre
+// (ou ajouté comme nouvelle version d'un jeu existant)
 export async function uploadWholeGeoJSON(
   geojson: any,
-  name: string,
-  description: string
+  metadata: DatasetRegistration,
+  version: DatasetVersionUpload | null = null
 ) {
   const { data, error } = await supabase
     .from('geojson_datasets')
     .insert([
       {
-        name,
-        description,
+        name: metadata.name,
+        description: metadata.description,
         data: geojson, // toute la FeatureCollection d'un coup
       }
-    ]);
-  return { data, error };
+    ])
+    .select('id')
+    .single();
+  if (error || !data) return { data: null, error: error || new Error('GeoJSON non enregistré') };
+
+  const content = { geojson_dataset_id: data.id };
+  const { error: registryError } = version
+    ? await addDatasetVersion(version.datasetId, content, await collectionStats(geojson), metadata.owner, version.note)
+    : await registerDataset(metadata, 'GeoJSON', 'geojson', content, geojson);
+  if (registryError) {
+    await supabase.from('geojson_datasets').delete().eq('id', data.id);
+    return { data: null, error: registryError };
+  }
+  return { data, error: null };
+}
+
+// ==============================
+// FICHIERS BRUTS (ZIP, PDF, CSV) DANS SUPABASE STORAGE
+// ==============================
+// Le contenu est stocké dans le bucket ; raw_files ne garde que les métadonnées
+// et le chemin de l'objet. Les anciennes lignes ont leur contenu en bytea
+// (filedata) tant qu'elles n'ont pas été migrées.
+
+export const RAW_FILES_BUCKET = 'raw-files';
+export const MAX_RAW_FILE_SIZE = 50 * 1024 * 1024;
+
+const RAW_FILE_MIME_TYPES: Record<string, string> = {
+  shp: 'application/zip',
+  csv: 'text/csv',
+  pdf: 'application/pdf',
+  gpkg: 'application/geopackage+sqlite3',
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} o`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} Ko`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} Mo`;
+};
+
+const buildStoragePath = (filetype: string, filename: string) => {
+  const safeName = filename.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w.-]+/g, '_');
+  return `${filetype}/${crypto.randomUUID()}-${safeName}`;
+};
+
+// Contenu bytea renvoyé par PostgREST (chaîne hexadécimale "\x…") ou tableau
+// d'octets sérialisé par les anciens uploads
+const decodeInlineFileData = (filedata: unknown): Uint8Array | null => {
+  if (typeof filedata === 'string' && filedata.startsWith('\\x')) {
+    const hex = filedata.slice(2);
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+    return bytes;
+  }
+  if (Array.isArray(filedata)) return new Uint8Array(filedata);
+  if (filedata && typeof filedata === 'object') return new Uint8Array(Object.values(filedata as Record<string, number>));
+  return null;
+};
+
+export interface RawFileUploadOptions {
+  // Réglages de lecture d'un CSV (séparateur, colonnes X/Y ou WKT, système)
+  importOptions?: CsvImportOptions | null;
+  // Contenu déjà lu d'un fichier géographique : emprise et nombre d'entités
+  collection?: FeatureCollection | null;
+  version?: DatasetVersionUpload | null;
 }
 
-// Upload d'un fichier brut (zip/pdf/csv) dans une table dédiée
+// Upload d'un fichier brut (zip/pdf/csv) dans le bucket, avec sa ligne de métadonnées
+// et son inscription au registre (ou comme nouvelle version d'un jeu existant).
+// Les réglages de lecture d'un CSV sont conservés pour la visualisation.
 export async function uploadRawFile(
   file: File,
-  name: string,
-  description: string,
-  filetype: string
+  metadata: DatasetRegistration,
+  filetype: string,
+  options: RawFileUploadOptions = {}
 ) {
-  const arrayBuffer = await file.arrayBuffer();
-  const uint8Array = new Uint8Array(arrayBuffer);
+  const { importOptions = null, collection = null, version = null } = options;
+  if (file.size > MAX_RAW_FILE_SIZE) {
+    return {
+      data: null,
+      error: new Error(`Fichier trop volumineux (${formatFileSize(file.size)}) : la taille maximale est de ${formatFileSize(MAX_RAW_FILE_SIZE)}.`)
+    };
+  }
+
+  const storagePath = buildStoragePath(filetype, file.name);
+  const mimetype = file.type || RAW_FILE_MIME_TYPES[filetype] || 'application/octet-stream';
+  const { error: storageError } = await supabase.storage
+    .from(RAW_FILES_BUCKET)
+    .upload(storagePath, file, { contentType: mimetype, upsert: false });
+  if (storageError) {
+    return { data: null, error: new Error(`Envoi vers le stockage impossible : ${storageError.message}`) };
+  }
 
   const { data, error } = await supabase
     .from('raw_files')
     .insert([
       {
-        name,
-        description,
+        name: metadata.name,
+        description: metadata.description,
         filetype,
         filename: file.name,
-        filedata: uint8Array,
+        filesize: file.size,
+        mimetype,
+        storage_path: storagePath,
+        import_options: importOptions,
       }
-    ]);
-  return { data, error };
+    ])
+    .select('id')
+    .single();
+  if (error || !data) {
+    // Pas d'objet orphelin dans le bucket si la ligne n'a pas pu être créée
+    await supabase.storage.from(RAW_FILES_BUCKET).remove([storagePath]);
+    return { data: null, error: error || new Error('Fichier non enregistré') };
+  }
+
+  const content = { raw_file_id: data.id };
+  const { error: registryError } = version
+    ? await addDatasetVersion(version.datasetId, content, await collectionStats(collection), metadata.owner, version.note)
+    : await registerDataset(metadata, filetype.toUpperCase(), 'raw_file', content, collection);
+  if (registryError) {
+    await supabase.from('raw_files').delete().eq('id', data.id);
+    await supabase.storage.from(RAW_FILES_BUCKET).remove([storagePath]);
+    return { data: null, error: registryError };
+  }
+  return { data, error: null };
+}
+
+// URL de téléchargement d'un fichier brut : URL signée pour les fichiers du bucket
+// (le navigateur télécharge directement depuis le stockage), URL locale pour les
+// lignes pas encore migrées
+export async function getRawFileDownloadUrl(id: string, expiresIn = 3600) {
+  const { data, error } = await supabase
+    .from('raw_files')
+    .select('filename, filetype, storage_path')
+    .eq('id', id)
+    .single();
+  if (error || !data) throw new Error(error?.message || 'Fichier introuvable');
+
+  if (data.storage_path) {
+    const { data: signed, error: signError } = await supabase.storage
+      .from(RAW_FILES_BUCKET)
+      .createSignedUrl(data.storage_path, expiresIn, { download: data.filename || true });
+    if (signError || !signed) throw new Error(signError?.message || 'URL de téléchargement indisponible');
+    return { url: signed.signedUrl, filename: data.filename as string, local: false };
+  }
+
+  const blob = await fetchRawFileBlob(id);
+  return { url: URL.createObjectURL(blob), filename: data.filename as string, local: true };
+}
+
+// Réglages de lecture enregistrés à l'import d'un CSV (null pour les anciens fichiers)
+export async function fetchRawFileImportOptions(id: string): Promise<CsvImportOptions | null> {
+  const { data, error } = await supabase
+    .from('raw_files')
+    .select('import_options')
+    .eq('id', id)
+    .single();
+  if (error) throw new Error(error.message);
+  return (data?.import_options as CsvImportOptions | null) ?? null;
+}
+
+// Contenu d'un fichier brut, pour la visualisation (SHP, CSV)
+export async function fetchRawFileBlob(id: string): Promise<Blob> {
+  const { data, error } = await supabase
+    .from('raw_files')
+    .select('filetype, mimetype, storage_path')
+    .eq('id', id)
+    .single();
+  if (error || !data) throw new Error(error?.message || 'Fichier introuvable');
+
+  if (data.storage_path) {
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from(RAW_FILES_BUCKET)
+      .download(data.storage_path);
+    if (downloadError || !blob) throw new Error(downloadError?.message || 'Téléchargement impossible');
+    return blob;
+  }
+
+  const { data: inline, error: inlineError } = await supabase
+    .from('raw_files')
+    .select('filedata')
+    .eq('id', id)
+    .single();
+  const bytes = decodeInlineFileData(inline?.filedata);
+  if (inlineError || !bytes) throw new Error(inlineError?.message || 'Contenu du fichier absent');
+  return new Blob([bytes], { type: data.mimetype || RAW_FILE_MIME_TYPES[data.filetype] || 'application/octet-stream' });
+}
+
+// Lignes dont le contenu est encore stocké en base
+export async function listInlineRawFiles() {
+  return supabase
+    .from('raw_files')
+    .select('id, name, filename, filetype')
+    .is('storage_path', null);
+}
+
+// Déplace le contenu des anciennes lignes vers le bucket, une ligne à la fois
+// pour ne jamais charger tous les fichiers en mémoire
+export async function migrateInlineRawFiles(onProgress?: (done: number, total: number) => void) {
+  const { data: rows, error } = await listInlineRawFiles();
+  if (error) throw new Error(error.message);
+
+  const failed: { id: string; name: string; error: string }[] = [];
+  let migrated = 0;
+  for (const [i, row] of (rows || []).entries()) {
+    try {
+      const blob = await fetchRawFileBlob(row.id);
+      const storagePath = buildStoragePath(row.filetype, row.filename || `${row.id}.${row.filetype}`);
+      const { error: uploadError } = await supabase.storage
+        .from(RAW_FILES_BUCKET)
+        .upload(storagePath, blob, { contentType: blob.type, upsert: false });
+      if (uploadError) throw new Error(uploadError.message);
+      const { error: updateError } = await supabase
+        .from('raw_files')
+        .update({ storage_path: storagePath, filesize: blob.size, mimetype: blob.type, filedata: null })
+        .eq('id', row.id);
+      if (updateError) {
+        await supabase.storage.from(RAW_FILES_BUCKET).remove([storagePath]);
+        throw new Error(updateError.message);
+      }
+      migrated++;
+    } catch (e) {
+      failed.push({ id: row.id, name: row.name, error: e instanceof Error ? e.message : String(e) });
+    }
+    onProgress?.(i + 1, rows?.length || 0);
+  }
+  return { migrated, failed };
 }
 
 // ==============================
 // UPLOAD GEOJSON AVEC PROJ4
 // ==============================
+export interface UploadGeoJSONOptions {
+  // Code EPSG choisi par l'utilisateur (prioritaire sur tout le reste)
+  sourceCrs?: string | null;
+  // Contenu WKT d'un fichier .prj accompagnant le GeoJSON
+  prj?: string | null;
+  // Correspondance propriétés source → colonnes cibles (sinon alias par défaut)
+  mapping?: AttributeMapping | null;
+  // Simulation : conversion et validation sans insertion
+  dryRun?: boolean;
+  // Fusion avec les lignes existantes au lieu d'un ajout systématique
+  merge?: MergeOptions | null;
+}
+
+export interface PreparedImportRow {
+  index: number;
+  // Identifiant de la ligne existante mise à jour (mode fusion)
+  id?: string;
+  row: Record<string, unknown>;
+  geometry: Geometry;
+}
+
+export interface PreparedImport {
+  table: ImportTable;
+  rows: PreparedImportRow[];
+  // Colonnes alimentées par une propriété du fichier
+  mappedColumns: string[];
+  report: ConversionReport;
+  conversionStats: { total: number; success: number; failed: number; systems: Record<string, number> };
+  merge?: MergeDiff;
+}
+
+// Convertit, mappe et valide chaque feature sans toucher à la base
+export const prepareGeoJSONImport = (
+  geojson: any,
+  table: ImportTable,
+  options: UploadGeoJSONOptions = {}
+): PreparedImport => {
+  if (!geojson || typeof geojson !== 'object') throw new Error('Le fichier doit contenir un objet JSON valide');
+  if (geojson.type !== 'FeatureCollection') throw new Error('Le GeoJSON doit être de type "FeatureCollection"');
+  if (!geojson.features || !Array.isArray(geojson.features)) throw new Error('Le GeoJSON doit contenir un tableau "features"');
+  if (geojson.features.length === 0) throw new Error('Le GeoJSON ne contient aucune feature');
+
+  const samplePoints = geojson.features
+    .map((feature: any) => extractCoordinates(feature?.geometry))
+    .filter((c: unknown): c is number[] => Array.isArray(c));
+  const { code: sourceCrs, origin: crsOrigin } = resolveSourceCrs(geojson, options, samplePoints);
+  const conversionStats = { total: geojson.features.length, success: 0, failed: 0, systems: {} as Record<string, number> };
+  const report: ConversionReport = { crs: sourceCrs, crsOrigin, features: [] };
+  const mapping = options.mapping || suggestMapping(table, collectSourceProperties(geojson.features));
+  const rows: PreparedImportRow[] = [];
+
+  geojson.features.forEach((feature: any, index: number) => {
+    const attributes = applyMapping(table, feature?.properties, mapping, index);
+    const featureReport: FeatureConversionReport = {
+      index,
+      name: attributes.name as string,
+      status: 'invalid',
+    };
+    report.features.push(featureReport);
+    try {
+      const converted = reprojectGeometry(feature?.geometry, sourceCrs);
+      featureReport.status = converted.status;
+      featureReport.sourceSystem = converted.sourceSystem;
+      featureReport.geometryType = feature?.geometry?.type;
+      featureReport.vertices = converted.vertices;
+      if (!converted.geometry) {
+        conversionStats.failed++;
+        featureReport.reason = converted.error;
+        return;
+      }
+      const geometry = converted.geometry;
+      // Premier sommet de la géométrie reprojetée : sert de localisation ponctuelle
+      const [longitude, latitude] = extractCoordinates(geometry) as number[];
+      featureReport.longitude = longitude;
+      featureReport.latitude = latitude;
+
+      const { row, errors } = validateRow(table, attributes);
+      if (errors.length > 0) {
+        conversionStats.failed++;
+        featureReport.status = 'rejected';
+        featureReport.errors = errors;
+        featureReport.reason = errors.join(' ; ');
+        return;
+      }
+
+      conversionStats.success++;
+      if (converted.sourceSystem) conversionStats.systems[converted.sourceSystem] = (conversionStats.systems[converted.sourceSystem] || 0) + 1;
+      // La géométrie des circuits est stockée à part, dans route_geometry
+      rows.push({
+        index,
+        row: table === 'sweeping_routes' ? row : { ...row, latitude, longitude, geometry },
+        geometry,
+      });
+    } catch (error) {
+      conversionStats.failed++;
+      featureReport.status = 'error';
+      featureReport.reason = error instanceof Error ? error.message : 'Erreur inconnue';
+    }
+  });
+
+  const mappedColumns = TARGET_FIELDS[table].map(f => f.column).filter(column => !!mapping[column]?.source);
+  return { table, rows, mappedColumns, report, conversionStats };
+};
+
+// ==============================
+// FUSION AVEC LES DONNÉES EXISTANTES
+// ==============================
+
+const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+
+// Égalité tolérante : nombres à 1e-7 près (coordonnées, DECIMAL), ordre des clés
+// JSONB indifférent, null et chaîne vide équivalents
+const sameValue = (a: unknown, b: unknown): boolean => {
+  if (isBlank(a) && isBlank(b)) return true;
+  if (typeof a === 'number' || typeof b === 'number') {
+    return Math.abs(Number(a) - Number(b)) < 1e-7;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => sameValue(v, b[i]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keysA = Object.keys(a).filter(k => !isBlank((a as Record<string, unknown>)[k]));
+    const keysB = Object.keys(b).filter(k => !isBlank((b as Record<string, unknown>)[k]));
+    return keysA.length === keysB.length &&
+      keysA.every(k => sameValue((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+  }
+  return String(a) === String(b);
+};
+
+const mergeKeyOf = (row: Record<string, unknown>, key: string[]) => {
+  const parts = key.map(column => row[column]);
+  if (parts.some(isBlank)) return null;
+  return parts.map(p => String(p).trim().toLowerCase()).join(' | ');
+};
+
+const pick = (row: Record<string, unknown>, columns: string[]) =>
+  columns.reduce<Record<string, unknown>>((acc, column) => {
+    if (column in row) acc[column] = row[column];
+    return acc;
+  }, {});
+
+// Rapproche les lignes préparées des lignes existantes par clé métier.
+// Seules les colonnes alimentées par le fichier (et la géométrie) sont comparées
+// et mises à jour : une colonne non mappée garde sa valeur en base.
+export const planGeoJSONMerge = async (prepared: PreparedImport, options: MergeOptions): Promise<PreparedImport> => {
+  const { table, mappedColumns } = prepared;
+  if (options.key.length === 0) throw new Error('Choisissez au moins une colonne de clé pour la fusion');
+
+  const isRoute = table === 'sweeping_routes';
+  // Toute la table : une ligne non lue serait ré-insérée en doublon, ou jugée absente
+  const { data, error } = await selectAllPages((from, to) =>
+    supabase.from(table).select(isRoute ? '*, route_geometry(geometry)' : '*').order('id').range(from, to)
+  );
+  if (error) throw new Error(`Lecture des données existantes impossible : ${error.message}`);
+
+  type ExistingRow = Record<string, unknown> & { id: string; route_geometry?: unknown };
+  const existingByKey = new Map<string, ExistingRow>();
+  (data as unknown as ExistingRow[]).forEach(existing => {
+    const key = mergeKeyOf(existing, options.key);
+    if (key && !existingByKey.has(key)) existingByKey.set(key, existing);
+  });
+
+  const targetColumns = TARGET_FIELDS[table].map(f => f.column);
+  const comparedColumns = isRoute ? mappedColumns : [...mappedColumns, 'latitude', 'longitude'];
+  const keyLabels = options.key.map(column => TARGET_FIELDS[table].find(f => f.column === column)?.label || column);
+  const report: ConversionReport = { ...prepared.report, features: prepared.report.features.map(f => ({ ...f })) };
+  const conversionStats = { ...prepared.conversionStats };
+  const diff: MergeDiff = { key: options.key, deactivateMissing: options.deactivateMissing, added: [], changed: [], unchanged: 0, removed: [] };
+  const rows: PreparedImportRow[] = [];
+  const seen = new Set<string>();
+
+  const reject = (index: number, reason: string) => {
+    const featureReport = report.features.find(f => f.index === index);
+    if (featureReport) {
+      featureReport.status = 'rejected';
+      featureReport.errors = [reason];
+      featureReport.reason = reason;
+    }
+    conversionStats.success--;
+    conversionStats.failed++;
+  };
+
+  prepared.rows.forEach(prepRow => {
+    const key = mergeKeyOf(prepRow.row, options.key);
+    const name = String(prepRow.row.name ?? '');
+    if (!key) return reject(prepRow.index, `Clé de fusion vide (${keyLabels.join(', ')})`);
+    if (seen.has(key)) return reject(prepRow.index, `Clé « ${key} » en double dans le fichier`);
+    seen.add(key);
+
+    const existing = existingByKey.get(key);
+    if (!existing) {
+      diff.added.push({ key, name });
+      rows.push(prepRow);
+      return;
+    }
+
+    const changes: MergeRecordChange['changes'] = {};
+    comparedColumns.forEach(column => {
+      if (!sameValue(existing[column], prepRow.row[column])) {
+        changes[column] = { before: existing[column], after: prepRow.row[column] };
+      }
+    });
+    const relation = (Array.isArray(existing.route_geometry) ? existing.route_geometry[0] : existing.route_geometry) as
+      { geometry?: Geometry } | null | undefined;
+    const existingGeometry = (isRoute ? relation?.geometry : existing.geometry) as Geometry | null | undefined;
+    if (!sameValue(existingGeometry, prepRow.geometry)) {
+      changes.geometry = { before: existingGeometry?.type ?? null, after: prepRow.geometry.type };
+    }
+
+    if (Object.keys(changes).length === 0) {
+      diff.unchanged++;
+      return;
+    }
+    diff.changed.push({ id: existing.id, key, name, changes });
+    rows.push({
+      ...prepRow,
+      id: existing.id,
+      row: {
+        ...pick(existing, targetColumns),
+        ...pick(prepRow.row, isRoute ? mappedColumns : [...mappedColumns, 'latitude', 'longitude', 'geometry']),
+      },
+    });
+  });
+
+  // Seules les lignes identifiables par la clé peuvent être considérées absentes
+  if (options.deactivateMissing) {
+    existingByKey.forEach((existing, key) => {
+      if (!seen.has(key) && existing.status !== 'inactive') {
+        diff.removed.push({ id: existing.id, key, name: String(existing.name ?? '') });
+      }
+    });
+  }
+
+  return { ...prepared, rows, report, conversionStats, merge: diff };
+};
+
+export interface CommitImportOptions {
+  // Nom du fichier source, utilisé pour retrouver un import interrompu
+  fileName?: string;
+  batchSize?: number;
+  // État d'un import précédent à reprendre (sinon recherché dans localStorage)
+  job?: ImportJob | null;
+  signal?: AbortSignal;
+  onProgress?: (job: ImportJob) => void;
+}
+
+const cloneJob = (job: ImportJob): ImportJob => ({ ...job, batches: job.batches.map(b => ({ ...b })) });
+
+// Met à jour les lignes existantes d'un lot (mode fusion)
+const updateImportBatch = async (table: ImportTable, rows: PreparedImportRow[]) => {
+  const { error } = await supabase.from(table).upsert(rows.map(r => ({ ...r.row, id: r.id })));
+  if (error) throw new Error(error.message);
+  if (table === 'sweeping_routes') {
+    const { error: geometryError } = await supabase
+      .from('route_geometry')
+      .upsert(rows.map(r => ({ route_id: r.id, geometry: r.geometry })));
+    if (geometryError) throw new Error(`géométries non mises à jour : ${geometryError.message}`);
+  }
+  return rows.length;
+};
+
+// Insère un lot de lignes ; pour les circuits, le lot n'est validé qu'avec ses géométries
+const insertImportBatch = async (table: ImportTable, batchRows: PreparedImportRow[]) => {
+  const updates = batchRows.filter(r => r.id);
+  const rows = batchRows.filter(r => !r.id);
+  // Une mise à jour rejouée est idempotente : elle passe avant les insertions
+  const updated = updates.length > 0 ? await updateImportBatch(table, updates) : 0;
+  if (rows.length === 0) return updated;
+  if (table !== 'sweeping_routes') {
+    const { error } = await supabase.from(table).insert(rows.map(r => r.row));
+    if (error) throw new Error(error.message);
+    return updated + rows.length;
+  }
+  const inserted = await supabase.from(table).insert(rows.map(r => r.row)).select('id');
+  if (inserted.error) throw new Error(inserted.error.message);
+  const ids = (inserted.data || []).map((row: { id: string }) => row.id);
+  // PostgREST renvoie les lignes dans l'ordre d'insertion
+  const geometries = ids.map((id: string, i: number) => ({ route_id: id, geometry: rows[i].geometry }));
+  const { error: geometryError } = await supabase.from('route_geometry').insert(geometries);
+  if (geometryError) {
+    // Retire les circuits sans géométrie pour qu'une nouvelle tentative ne crée pas de doublons
+    await supabase.from(table).delete().in('id', ids);
+    throw new Error(`géométries non enregistrées : ${geometryError.message}`);
+  }
+  return updated + ids.length;
+};
+
+// Insère les lignes validées d'un import préparé, par lots. Un lot en échec
+// n'interrompt pas les suivants ; rappeler la fonction avec le même état
+// ne rejoue que les lots non insérés.
+export const commitGeoJSONImport = async (prepared: PreparedImport, options: CommitImportOptions = {}) => {
+  const { table, rows, report, conversionStats, merge } = prepared;
+  if (rows.length === 0 && !merge?.removed.length) {
+    throw Object.assign(new Error('Aucune feature valide trouvée dans le GeoJSON après conversion'), { report });
+  }
+  const fileName = options.fileName || 'import';
+  const key = getImportJobKey(table, fileName, rows.map(r => r.row));
+  const job = cloneJob(options.job || getImportJob(key) || createImportJob(key, table, fileName, rows.length, options.batchSize));
+  let aborted = false;
+
+  for (const batch of job.batches) {
+    if (batch.status === 'inserted') continue;
+    if (options.signal?.aborted) {
+      aborted = true;
+      break;
+    }
+    batch.status = 'running';
+    batch.attempts++;
+    batch.error = undefined;
+    saveImportJob(job);
+    options.onProgress?.(cloneJob(job));
+    try {
+      batch.inserted = await insertImportBatch(table, rows.slice(batch.start, batch.end));
+      batch.status = 'inserted';
+    } catch (error) {
+      batch.inserted = 0;
+      batch.status = 'failed';
+      batch.error = error instanceof Error ? error.message : String(error);
+      console.error(`Lot ${batch.index + 1} en échec:`, error);
+    }
+    saveImportJob(job);
+    options.onProgress?.(cloneJob(job));
+  }
+
+  const progress = getJobProgress(job);
+  // Désactivation des absents, une fois toutes les lignes du fichier enregistrées
+  let deactivated = 0;
+  let deactivationError: string | null = null;
+  if (progress.done && !aborted && merge?.deactivateMissing && merge.removed.length > 0) {
+    const { error } = await supabase
+      .from(table)
+      .update({ status: 'inactive' })
+      .in('id', merge.removed.map(r => r.id));
+    if (error) deactivationError = error.message;
+    else deactivated = merge.removed.length;
+  }
+  if (progress.done && !deactivationError) clearImportJob(key);
+  // Nombre d'entités et emprise de la couche à jour dans le registre
+  if (progress.inserted > 0 || deactivated > 0) {
+    await refreshTableDataset(table).catch(error => console.warn('Registre non mis à jour:', error));
+  }
+  return {
+    count: progress.inserted,
+    failedRows: progress.failed,
+    deactivated,
+    deactivationError,
+    skipped: conversionStats.failed,
+    aborted,
+    job: cloneJob(job),
+    conversionStats,
+    report
+  };
+};
+
 export const uploadGeoJSONWithProj4 = async (
   geojson: any,
-  table: 'collection_points' | 'urban_furniture' | 'sweeping_routes'
+  table: ImportTable,
+  options: UploadGeoJSONOptions = {}
 ) => {
   try {
-    if (!geojson || typeof geojson !== 'object') throw new Error('Le fichier doit contenir un objet JSON valide');
-    if (geojson.type !== 'FeatureCollection') throw new Error('Le GeoJSON doit être de type "FeatureCollection"');
-    if (!geojson.features || !Array.isArray(geojson.features)) throw new Error('Le GeoJSON doit contenir un tableau "features"');
-    if (geojson.features.length === 0) throw new Error('Le GeoJSON ne contient aucune feature');
-
-    const conversionStats = { total: geojson.features.length, success: 0, failed: 0, systems: {} as Record<string, number> };
-
-    const toInsert = geojson.features.map((feature: any, index: number) => {
-      try {
-        const coordinates = extractCoordinates(feature.geometry);
-        if (!coordinates) { conversionStats.failed++; return null; }
-        const { longitude, latitude, sourceSystem, error } = convertCoordinates(coordinates);
-        if (longitude === null || latitude === null) { conversionStats.failed++; return null; }
-        conversionStats.success++;
-        if (sourceSystem) conversionStats.systems[sourceSystem] = (conversionStats.systems[sourceSystem] || 0) + 1;
-
-        const baseData = {
-          latitude,
-          longitude,
-          commune_id: feature.properties?.commune_id || feature.properties?.COMMUNE_ID || null,
-        };
-
-        const getName = () =>
-          feature.properties?.name ||
-          feature.properties?.nom ||
-          feature.properties?.NAME ||
-          feature.properties?.NOM ||
-          `Élément ${index + 1}`;
-
-        const getStatus = () =>
-          feature.properties?.status ||
-          feature.properties?.statut ||
-          feature.properties?.STATUS ||
-          feature.properties?.STATUT;
-
-        if (table === 'collection_points') {
-          return {
-            ...baseData,
-            name: getName(),
-            type: feature.properties?.type || feature.properties?.TYPE || 'bin',
-            capacity_kg: Number(feature.properties?.capacity_kg || feature.properties?.capacite_kg || feature.properties?.CAPACITY_KG) || 0,
-            waste_type: feature.properties?.waste_type || feature.properties?.type_dechet || feature.properties?.WASTE_TYPE || 'general',
-            status: getStatus() || 'active',
-          };
-        }
-        if (table === 'urban_furniture') {
-          return {
-            ...baseData,
-            type: feature.properties?.type || feature.properties?.TYPE || 'PRN',
-            name: getName(),
-            location: feature.properties?.location || feature.properties?.adresse || feature.properties?.LOCATION || feature.properties?.ADRESSE || '',
-            install_date: feature.properties?.install_date || feature.properties?.date_installation || feature.properties?.INSTALL_DATE || new Date().toISOString(),
-            last_maintenance_date: feature.properties?.last_maintenance_date || feature.properties?.derniere_maintenance || feature.properties?.LAST_MAINTENANCE || null,
-            capacity_kg: Number(feature.properties?.capacity_kg || feature.properties?.capacite_kg || feature.properties?.CAPACITY_KG) || 0,
-            status: getStatus() || 'good',
-          };
-        }
-        if (table === 'sweeping_routes') {
-          return {
-            name: getName(),
-            code: feature.properties?.code || feature.properties?.CODE || feature.properties?.identifiant || feature.properties?.IDENTIFIANT || null,
-            commune_id: feature.properties?.commune_id || feature.properties?.COMMUNE_ID || null,
-            shift: feature.properties?.shift || feature.properties?.equipe || feature.properties?.SHIFT || feature.properties?.EQUIPE || 'matin',
-            length_meters: Number(feature.properties?.length_meters || feature.properties?.longueur_m || feature.properties?.LENGTH_METERS || feature.properties?.LONGUEUR_M) || 0,
-            estimated_duration_minutes: Number(feature.properties?.estimated_duration_minutes || feature.properties?.duree_estimee_min || feature.properties?.ESTIMATED_DURATION || feature.properties?.DUREE_ESTIMEE) || 0,
-            status: getStatus() || 'active',
-            ...(longitude && latitude ? { latitude, longitude } : {})
-          };
-        }
-        return null;
-      } catch (e) { conversionStats.failed++; return null; }
-    }).filter(item => item !== null);
-
-    if (toInsert.length === 0) throw new Error('Aucune feature valide trouvée dans le GeoJSON après conversion');
-    const { data, error } = await supabase.from(table).insert(toInsert);
-    if (error) throw new Error(`Erreur lors de l'insertion en base : ${error.message}`);
-    return {
-      data,
-      count: toInsert.length,
-      skipped: conversionStats.failed,
-      conversionStats
-    };
+    let prepared = prepareGeoJSONImport(geojson, table, options);
+    if (options.merge) prepared = await planGeoJSONMerge(prepared, options.merge);
+    if (options.dryRun) {
+      return {
+        data: null,
+        count: prepared.rows.length,
+        skipped: prepared.conversionStats.failed,
+        conversionStats: prepared.conversionStats,
+        report: prepared.report,
+        prepared
+      };
+    }
+    return await commitGeoJSONImport(prepared);
   } catch (error) {
     console.error('💥 Erreur dans uploadGeoJSON:', error);
     throw error;
   }
 };
 
+// ==============================
+// COUCHES MÉTIER EN GEOJSON
+// ==============================
+
+type SweepingRouteRow = Database['public']['Tables']['sweeping_routes']['Row'];
+type RouteGeometryRelation = Pick<Database['public']['Tables']['route_geometry']['Row'], 'geometry'>;
+// Relation 1-1 : PostgREST peut renvoyer un objet ou un tableau
+type SweepingRouteWithGeometry = SweepingRouteRow & {
+  route_geometry: RouteGeometryRelation | RouteGeometryRelation[] | null;
+};
+
+export type RouteFeatureCollection = FeatureCollection<LineString | MultiLineString, SweepingRouteRow>;
+
+// Circuits de balayage en base, avec leur tracé complet (route_geometry)
+export const fetchSweepingRoutesGeoJSON = async (): Promise<RouteFeatureCollection> => {
+  const { data, error } = await selectAllPages((from, to) =>
+    supabase.from('sweeping_routes').select('*, route_geometry(geometry)').order('id').range(from, to)
+  );
+  if (error) throw new Error(`Erreur lors du chargement des circuits : ${error.message}`);
+
+  const features = (data as unknown as SweepingRouteWithGeometry[]).flatMap(row => {
+    const { route_geometry, ...properties } = row;
+    const relation = Array.isArray(route_geometry) ? route_geometry[0] : route_geometry;
+    const geometry = relation?.geometry as LineString | MultiLineString | null | undefined;
+    return geometry ? [{ type: 'Feature' as const, geometry, properties }] : [];
+  });
+  return { type: 'FeatureCollection', features };
+};
+
+// Points de collecte et mobilier urbain : géométrie stockée, sinon longitude/latitude ;
+// avec une emprise, seuls les éléments qu'elle contient sont lus
+const fetchPointTableGeoJSON = async (table: ViewportTable, extent?: DatasetExtent) => {
+  const { data, error } = await selectAllPages((from, to) => {
+    let request = supabase.from(table).select('*');
+    if (extent) {
+      const [west, south, east, north] = extent;
+      request = request.gte('longitude', west).lte('longitude', east).gte('latitude', south).lte('latitude', north);
+    }
+    return request.order('id').range(from, to);
+  });
+  if (error) throw new Error(`Erreur lors du chargement de ${table} : ${error.message}`);
+
+  const features = data.flatMap(row => {
+    const { geometry: stored, ...properties } = row;
+    const geometry = (stored as Geometry | null)
+      || (Number.isFinite(row.longitude) && Number.isFinite(row.latitude)
+        ? { type: 'Point' as const, coordinates: [row.longitude, row.latitude] }
+        : null);
+    return geometry ? [{ type: 'Feature' as const, geometry, properties }] : [];
+  });
+  return { type: 'FeatureCollection' as const, features };
+};
+
+// Contenu courant d'une table métier (toutes ses lignes), pour la visualisation et l'export
+export const fetchTableGeoJSON = (table: ImportTable) =>
+  table === 'sweeping_routes' ? fetchSweepingRoutesGeoJSON() : fetchPointTableGeoJSON(table);
+
+// Au-delà de ce nombre d'éléments dans l'emprise, la base renvoie des groupes
+export const VIEWPORT_FEATURE_LIMIT = 2000;
+
+type ClusterRow = Database['public']['Functions']['map_point_clusters']['Returns'][number];
+
+export interface PointTableViewport {
+  collection: FeatureCollection;
+  clusters: PointCluster[];
+  // Éléments de la table dans l'emprise
+  total: number;
+}
+
+// Contenu d'une table ponctuelle dans l'emprise de la carte : les éléments eux-mêmes,
+// ou des groupes calculés par la base (map_point_clusters) s'ils sont trop nombreux
+export async function fetchPointTableViewport(table: ViewportTable, extent: DatasetExtent, zoom: number): Promise<PointTableViewport> {
+  const [west, south, east, north] = extent;
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .gte('longitude', west).lte('longitude', east).gte('latitude', south).lte('latitude', north);
+  if (error) throw new Error(`Erreur lors du chargement de ${table} : ${error.message}`);
+
+  const total = count ?? 0;
+  if (total <= VIEWPORT_FEATURE_LIMIT) {
+    return { collection: await fetchPointTableGeoJSON(table, extent), clusters: [], total };
+  }
+
+  const { data, error: clusterError } = await supabase.rpc('map_point_clusters', {
+    target_table: table, west, south, east, north, cell_size: clusterCellSize(zoom)
+  });
+  if (clusterError) throw new Error(`Erreur lors du regroupement de ${table} : ${clusterError.message}`);
+  return {
+    collection: { type: 'FeatureCollection', features: [] },
+    clusters: ((data || []) as ClusterRow[]).map(row => ({
+      longitude: row.longitude,
+      latitude: row.latitude,
+      count: Number(row.point_count),
+      fillLevel: row.fill_level,
+      extent: [row.min_lon, row.min_lat, row.max_lon, row.max_lat] as DatasetExtent,
+    })),
+    total,
+  };
+}
+
+// ==============================
+// REGISTRE DES JEUX DE DONNÉES
+// ==============================
+// Une ligne de datasets par jeu du catalogue : GeoJSON complet, fichier brut ou
+// couche métier. Les uploads l'alimentent avec l'emprise, le nombre d'entités et
+// l'index de recherche (valeurs attributaires, communes couvertes).
+
+type DatasetRow = Database['public']['Tables']['datasets']['Row'];
+type DatasetContent = Pick<Database['public']['Tables']['dataset_versions']['Insert'], 'geojson_dataset_id' | 'raw_file_id'>;
+type DatasetStats = Pick<
+  Database['public']['Tables']['dataset_versions']['Insert'],
+  'feature_count' | 'extent' | 'attributes_text' | 'commune_ids'
+>;
+
+// Colonnes lues par le catalogue (sans l'index de recherche, volumineux)
+const DATASET_COLUMNS = 'id, name, description, category, source, licence, owner, tags, format, feature_count, extent, storage, geojson_dataset_id, raw_file_id, source_table, current_version, topic_category, language, lineage, update_frequency, crs, contact_name, contact_organisation, contact_email, status, archived_at, deleted_at, deleted_by, created_at, updated_at';
+
+const positionsOf = (geometry: Geometry | null | undefined): Position[] => {
+  if (!geometry) return [];
+  switch (geometry.type) {
+    case 'Point': return [geometry.coordinates];
+    case 'MultiPoint':
+    case 'LineString': return geometry.coordinates;
+    case 'MultiLineString':
+    case 'Polygon': return geometry.coordinates.flat();
+    case 'MultiPolygon': return geometry.coordinates.flat(2);
+    case 'GeometryCollection': return geometry.geometries.flatMap(positionsOf);
+  }
+};
+
+// Emprise WGS84 d'une collection (null sans géométrie)
+export const computeExtent = (collection: FeatureCollection | null | undefined): DatasetExtent | null => {
+  let extent: DatasetExtent | null = null;
+  (collection?.features || []).forEach(feature => {
+    positionsOf(feature.geometry).forEach(([x, y]) => {
+      if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+      extent = extent
+        ? [Math.min(extent[0], x), Math.min(extent[1], y), Math.max(extent[2], x), Math.max(extent[3], y)]
+        : [x, y, x, y];
+    });
+  });
+  return extent;
+};
+
+const MAX_ATTRIBUTE_LENGTH = 200;
+const MAX_ATTRIBUTES_TEXT = 100000;
+
+// Minuscules sans accents, pour comparer des libellés saisis à la main
+const normalizeLabel = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+// Valeurs attributaires distinctes (textes courts et entiers), indexées en plein texte
+const attributeSearchText = (collection: FeatureCollection | null) => {
+  const values = new Set<string>();
+  (collection?.features || []).forEach(feature => {
+    Object.values(feature.properties || {}).forEach(value => {
+      const text = typeof value === 'string' ? value.trim() : Number.isInteger(value) ? String(value) : '';
+      if (text && text.length <= MAX_ATTRIBUTE_LENGTH && !UUID_PATTERN.test(text)) values.add(text);
+    });
+  });
+  return values.size > 0 ? Array.from(values).join(' ').slice(0, MAX_ATTRIBUTES_TEXT) : null;
+};
+
+export async function fetchCommunes(): Promise<Commune[]> {
+  const { data, error } = await supabase.from('communes').select('id, name, code').order('name');
+  if (error) throw new Error(`Erreur lors du chargement des communes : ${error.message}`);
+  return data || [];
+}
+
+// Communes citées dans un champ « commune » (commune_id, COMMUNE, nom_commune…),
+// par identifiant, code ou nom
+const COMMUNE_FIELD = /commun/i;
+
+const matchCommuneIds = async (collection: FeatureCollection | null) => {
+  const cited = new Set<string>();
+  (collection?.features || []).forEach(feature => {
+    Object.entries(feature.properties || {}).forEach(([key, value]) => {
+      if (COMMUNE_FIELD.test(key) && (typeof value === 'string' || typeof value === 'number')) {
+        cited.add(normalizeLabel(String(value)));
+      }
+    });
+  });
+  if (cited.size === 0) return [];
+
+  let communes: Commune[];
+  try {
+    communes = await fetchCommunes();
+  } catch (err) {
+    console.warn('Communes non rattachées au jeu de données', err);
+    return [];
+  }
+  return communes
+    .filter(c => cited.has(c.id.toLowerCase()) || cited.has(normalizeLabel(c.code)) || cited.has(normalizeLabel(c.name)))
+    .map(c => c.id);
+};
+
+const collectionStats = async (collection: FeatureCollection | null): Promise<DatasetStats> => ({
+  feature_count: Array.isArray(collection?.features) ? collection.features.length : null,
+  extent: computeExtent(collection),
+  attributes_text: attributeSearchText(collection),
+  commune_ids: await matchCommuneIds(collection),
+});
+
+// Inscription d'un nouveau jeu, avec sa version 1
+const registerDataset = async (
+  metadata: DatasetRegistration,
+  format: string,
+  storage: DatasetRow['storage'],
+  content: DatasetContent,
+  collection: FeatureCollection | null
+) => {
+  const stats = await collectionStats(collection);
+  const { data, error } = await supabase
+    .from('datasets')
+    .insert([
+      {
+        name: metadata.name,
+        description: metadata.description || null,
+        category: metadata.category,
+        source: metadata.source || null,
+        licence: metadata.licence || null,
+        owner: metadata.owner || null,
+        tags: metadata.tags,
+        format,
+        storage,
+        ...content,
+        ...stats,
+      }
+    ])
+    .select('id')
+    .single();
+  if (error || !data) return { error: error || new Error('Jeu de données non inscrit au registre') };
+
+  const { error: versionError } = await supabase.from('dataset_versions').insert([
+    { dataset_id: data.id, version: 1, ...content, ...stats, uploaded_by: metadata.owner || null, note: 'Version initiale' }
+  ]);
+  if (versionError) {
+    await supabase.from('datasets').delete().eq('id', data.id);
+    return { error: versionError };
+  }
+  return { error: null };
+};
+
+// Ajoute une version et en fait la version courante du jeu
+const addDatasetVersion = async (
+  datasetId: string,
+  content: DatasetContent,
+  stats: DatasetStats,
+  uploadedBy: string,
+  note: string,
+  restoredFrom: number | null = null
+) => {
+  const { data: last, error: lastError } = await supabase
+    .from('dataset_versions')
+    .select('version')
+    .eq('dataset_id', datasetId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (lastError) return { error: lastError };
+
+  const version = (last?.version ?? 0) + 1;
+  const { error } = await supabase.from('dataset_versions').insert([
+    {
+      dataset_id: datasetId,
+      version,
+      geojson_dataset_id: content.geojson_dataset_id ?? null,
+      raw_file_id: content.raw_file_id ?? null,
+      ...stats,
+      uploaded_by: uploadedBy || null,
+      note: note || null,
+      restored_from: restoredFrom,
+    }
+  ]);
+  if (error) return { error };
+
+  const { error: updateError } = await supabase
+    .from('datasets')
+    .update({
+      geojson_dataset_id: content.geojson_dataset_id ?? null,
+      raw_file_id: content.raw_file_id ?? null,
+      ...stats,
+      current_version: version,
+    })
+    .eq('id', datasetId);
+  if (updateError) {
+    await supabase.from('dataset_versions').delete().eq('dataset_id', datasetId).eq('version', version);
+    return { error: updateError };
+  }
+  return { error: null };
+};
+
+// Historique d'un jeu, de la plus récente à la plus ancienne version
+export async function fetchDatasetVersions(datasetId: string): Promise<DatasetVersion[]> {
+  const { data, error } = await supabase
+    .from('dataset_versions')
+    .select('id, dataset_id, version, geojson_dataset_id, raw_file_id, feature_count, extent, uploaded_by, note, restored_from, created_at')
+    .eq('dataset_id', datasetId)
+    .order('version', { ascending: false });
+  if (error) throw new Error(`Erreur lors du chargement de l'historique : ${error.message}`);
+  return data || [];
+}
+
+// Restaurer une version crée une nouvelle version pointant vers son contenu :
+// l'historique n'est jamais réécrit
+export async function restoreDatasetVersion(datasetId: string, version: DatasetVersion, uploadedBy: string, note = '') {
+  // L'index de recherche de la version restaurée redevient celui du jeu
+  const { data: search, error: searchError } = await supabase
+    .from('dataset_versions')
+    .select('attributes_text, commune_ids')
+    .eq('id', version.id)
+    .single();
+  if (searchError) throw new Error(searchError.message);
+
+  const { error } = await addDatasetVersion(
+    datasetId,
+    { geojson_dataset_id: version.geojson_dataset_id, raw_file_id: version.raw_file_id },
+    {
+      feature_count: version.feature_count,
+      extent: version.extent,
+      attributes_text: search.attributes_text,
+      commune_ids: search.commune_ids,
+    },
+    uploadedBy,
+    note || `Restauration de la version ${version.version}`,
+    version.version
+  );
+  if (error) throw new Error(error.message);
+}
+
+type DatasetListRow = Omit<DatasetRow, 'attributes_text' | 'commune_ids' | 'search_vector' | 'min_lon' | 'min_lat' | 'max_lon' | 'max_lat'>;
+type RawFileSize = { filesize: number | null };
+
+// Relation n-1 vers raw_files : PostgREST peut renvoyer un objet ou un tableau
+const rawFileSize = (rawFiles: RawFileSize | RawFileSize[] | null | undefined) =>
+  (Array.isArray(rawFiles) ? rawFiles[0] : rawFiles)?.filesize ?? undefined;
+
+const toDatasetMetadata = (row: DatasetListRow & { raw_files?: RawFileSize | RawFileSize[] | null }): DatasetMetadata => ({
+  id: row.id,
+  name: row.name,
+  description: row.description || '',
+  category: row.category,
+  source: row.source || '',
+  lastUpdated: row.updated_at ? row.updated_at.slice(0, 10) : '',
+  format: row.format as DatasetMetadata['format'],
+  owner: row.owner || '',
+  tags: row.tags || [],
+  licence: row.licence ?? undefined,
+  featureCount: row.feature_count ?? undefined,
+  extent: row.extent?.length === 4 ? (row.extent as DatasetExtent) : undefined,
+  storage: row.storage,
+  contentId: row.geojson_dataset_id || row.raw_file_id || undefined,
+  table: row.source_table ?? undefined,
+  fileSize: rawFileSize(row.raw_files),
+  currentVersion: row.current_version,
+  createdAt: row.created_at ? row.created_at.slice(0, 10) : undefined,
+  topicCategory: row.topic_category ?? undefined,
+  language: row.language,
+  lineage: row.lineage ?? undefined,
+  updateFrequency: (row.update_frequency as DatasetMetadata['updateFrequency']) ?? undefined,
+  crs: row.crs ?? undefined,
+  contactName: row.contact_name ?? undefined,
+  contactOrganisation: row.contact_organisation ?? undefined,
+  contactEmail: row.contact_email ?? undefined,
+  status: row.status,
+  archivedAt: row.archived_at ?? undefined,
+  deletedAt: row.deleted_at ?? undefined,
+  deletedBy: row.deleted_by ?? undefined,
+});
+
+// Jeux de données du catalogue répondant aux critères ; la taille des fichiers
+// bruts vient de raw_files. Le texte est cherché dans les métadonnées et les
+// valeurs attributaires (search_vector, sans accents), l'emprise par intersection
+// de rectangles.
+export async function fetchDatasetRegistry(filters: DatasetSearchFilters = {}): Promise<DatasetMetadata[]> {
+  let request = supabase.from('datasets').select(`${DATASET_COLUMNS}, raw_files(filesize)` as const);
+  request = filters.includeArchived ? request.in('status', ['active', 'archived']) : request.eq('status', 'active');
+
+  const query = normalizeLabel(filters.query || '');
+  if (query) request = request.textSearch('search_vector', query, { type: 'websearch', config: 'french' });
+  if (filters.dateFrom) request = request.gte('updated_at', filters.dateFrom);
+  if (filters.dateTo) request = request.lte('updated_at', `${filters.dateTo}T23:59:59.999`);
+  if (filters.owner) request = request.eq('owner', filters.owner);
+  if (filters.communeId) request = request.contains('commune_ids', [filters.communeId]);
+  if (filters.extent) {
+    const [west, south, east, north] = filters.extent;
+    request = request.lte('min_lon', east).gte('max_lon', west).lte('min_lat', north).gte('max_lat', south);
+  }
+
+  const { data, error } = await request.order('name');
+  if (error) throw new Error(`Erreur lors du chargement du catalogue : ${error.message}`);
+  return (data || []).map(row => toDatasetMetadata(row));
+}
+
+// Propriétaires distincts, pour le filtre du catalogue
+export async function fetchDatasetOwners(): Promise<string[]> {
+  const { data, error } = await supabase.from('datasets').select('owner').not('owner', 'is', null).neq('status', 'deleted');
+  if (error) throw new Error(error.message);
+  return Array.from(new Set((data || []).map(row => row.owner as string))).sort((a, b) => a.localeCompare(b));
+}
+
+export async function fetchDatasetById(id: string): Promise<DatasetMetadata | null> {
+  // Un jeu en corbeille n'est plus accessible par son lien
+  const { data, error } = await supabase.from('datasets').select(DATASET_COLUMNS).eq('id', id).neq('status', 'deleted').maybeSingle();
+  if (error) throw new Error(error.message);
+  return data ? toDatasetMetadata(data) : null;
+}
+
+// Enregistre la fiche de métadonnées d'un jeu (validée par lib/metadata)
+export async function updateDatasetMetadata(id: string, sheet: DatasetMetadataSheet) {
+  const { error } = await supabase
+    .from('datasets')
+    .update({
+      name: sheet.name.trim(),
+      description: sheet.description.trim() || null,
+      category: sheet.category.trim(),
+      source: sheet.source.trim() || null,
+      licence: sheet.licence || null,
+      owner: sheet.owner.trim() || null,
+      tags: sheet.tags,
+      topic_category: sheet.topicCategory || null,
+      language: sheet.language,
+      lineage: sheet.lineage.trim() || null,
+      update_frequency: sheet.updateFrequency || null,
+      crs: sheet.crs || null,
+      contact_name: sheet.contactName.trim() || null,
+      contact_organisation: sheet.contactOrganisation.trim() || null,
+      contact_email: sheet.contactEmail.trim() || null,
+    })
+    .eq('id', id);
+  if (error) throw new Error(`Erreur lors de l'enregistrement des métadonnées : ${error.message}`);
+}
+
+// Recalcule le nombre d'entités, l'emprise et l'index de recherche d'une couche
+// métier après un import. Le nombre est compté par la base (lignes sans géométrie
+// comprises) ; l'emprise et l'index portent sur toute la table, lue par pages.
+export async function refreshTableDataset(table: ImportTable) {
+  const [collection, { count, error: countError }] = await Promise.all([
+    fetchTableGeoJSON(table),
+    supabase.from(table).select('id', { count: 'exact', head: true }),
+  ]);
+  if (countError) throw new Error(countError.message);
+  const stats = await collectionStats(collection);
+  const { error } = await supabase
+    .from('datasets')
+    .update({ ...stats, feature_count: count ?? stats.feature_count })
+    .eq('source_table', table);
+  if (error) throw new Error(error.message);
+}
+
+// ==============================
+// ARCHIVAGE ET CORBEILLE
+// ==============================
+// Un jeu supprimé reste TRASH_RETENTION_DAYS jours en corbeille : il peut être
+// restauré, puis son contenu (toutes versions) est définitivement effacé.
+
+// Même délai que la fonction purge_expired_datasets de la base
+export const TRASH_RETENTION_DAYS = 30;
+
+export async function archiveDataset(id: string, archived: boolean) {
+  const { error } = await supabase
+    .from('datasets')
+    .update({ status: archived ? 'archived' : 'active', archived_at: archived ? new Date().toISOString() : null })
+    .eq('id', id);
+  if (error) throw new Error(error.message);
+}
+
+export async function trashDataset(id: string, deletedBy: string) {
+  const { error } = await supabase
+    .from('datasets')
+    .update({ status: 'deleted', deleted_at: new Date().toISOString(), deleted_by: deletedBy || null })
+    .eq('id', id);
+  if (error) throw new Error(error.message);
+}
+
+export async function restoreTrashedDataset(id: string) {
+  const { error } = await supabase
+    .from('datasets')
+    .update({ status: 'active', archived_at: null, deleted_at: null, deleted_by: null })
+    .eq('id', id);
+  if (error) throw new Error(error.message);
+}
+
+// Jeux en corbeille, du plus récemment supprimé au plus ancien
+export async function fetchDatasetTrash(): Promise<DatasetMetadata[]> {
+  const { data, error } = await supabase
+    .from('datasets')
+    .select(DATASET_COLUMNS)
+    .eq('status', 'deleted')
+    .order('deleted_at', { ascending: false });
+  if (error) throw new Error(`Erreur lors du chargement de la corbeille : ${error.message}`);
+  return (data || []).map(row => toDatasetMetadata(row));
+}
+
+// Jours restants avant la suppression définitive d'un jeu en corbeille
+export const trashDaysLeft = (dataset: DatasetMetadata) => {
+  if (!dataset.deletedAt) return TRASH_RETENTION_DAYS;
+  const elapsed = (Date.now() - new Date(dataset.deletedAt).getTime()) / 86400000;
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed));
+};
+
+// Suppression définitive : la ligne du registre (versions et liens en cascade),
+// puis le contenu de toutes les versions et les objets du bucket
+export async function purgeDataset(id: string) {
+  const [{ data: dataset, error }, { data: versions, error: versionsError }] = await Promise.all([
+    supabase.from('datasets').select('storage, geojson_dataset_id, raw_file_id').eq('id', id).single(),
+    supabase.from('dataset_versions').select('geojson_dataset_id, raw_file_id').eq('dataset_id', id),
+  ]);
+  if (error || !dataset) throw new Error(error?.message || 'Jeu de données introuvable');
+  if (versionsError) throw new Error(versionsError.message);
+  if (dataset.storage === 'table') throw new Error('Une couche métier ne peut pas être supprimée du catalogue');
+
+  const contents = [dataset, ...(versions || [])];
+  const geojsonIds = Array.from(new Set(contents.flatMap(c => (c.geojson_dataset_id ? [c.geojson_dataset_id] : []))));
+  const rawFileIds = Array.from(new Set(contents.flatMap(c => (c.raw_file_id ? [c.raw_file_id] : []))));
+  const { data: rawFiles, error: rawFilesError } = rawFileIds.length > 0
+    ? await supabase.from('raw_files').select('storage_path').in('id', rawFileIds)
+    : { data: [], error: null };
+  if (rawFilesError) throw new Error(rawFilesError.message);
+
+  const { error: deleteError } = await supabase.from('datasets').delete().eq('id', id);
+  if (deleteError) throw new Error(deleteError.message);
+
+  if (geojsonIds.length > 0) await supabase.from('geojson_datasets').delete().in('id', geojsonIds);
+  if (rawFileIds.length > 0) await supabase.from('raw_files').delete().in('id', rawFileIds);
+  const paths = (rawFiles || []).flatMap(f => (f.storage_path ? [f.storage_path] : []));
+  if (paths.length > 0) await supabase.storage.from(RAW_FILES_BUCKET).remove(paths);
+}
+
+// Efface les jeux restés en corbeille au-delà du délai de rétention. La base le
+// fait chaque nuit (tâche pg_cron) ; l'appel rattrape les jeux expirés depuis.
+export async function purgeExpiredDatasets() {
+  const { data, error } = await supabase.rpc('purge_expired_datasets');
+  if (error) throw new Error(error.message);
+  return data ?? 0;
+}
+
+// Liens de partage enregistrés depuis la carte
+export async function createSharedLink(datasetId: string, url: string, createdBy: string) {
+  const { error } = await supabase.from('shared_links').insert([{ dataset_id: datasetId, url, created_by: createdBy || null }]);
+  if (error) throw new Error(error.message);
+}
+
+// Ce qui pointe vers un jeu, à confirmer avant sa suppression : cartes
+// enregistrées qui l'affichent et liens de partage
+export async function fetchDatasetReferences(datasetId: string): Promise<DatasetReference[]> {
+  const [links, layers] = await Promise.all([
+    supabase
+      .from('shared_links')
+      .select('url, created_by, created_at')
+      .eq('dataset_id', datasetId)
+      .order('created_at', { ascending: false }),
+    supabase.from('saved_map_layers').select('map_id').eq('dataset_id', datasetId),
+  ]);
+  const error = links.error || layers.error;
+  if (error) throw new Error(`Erreur lors de la recherche des références : ${error.message}`);
+
+  const mapIds = Array.from(new Set((layers.data || []).map(l => l.map_id)));
+  const maps = mapIds.length > 0
+    ? await supabase.from('saved_maps').select('name, created_by, created_at').in('id', mapIds).order('name')
+    : { data: [], error: null };
+  if (maps.error) throw new Error(`Erreur lors de la recherche des références : ${maps.error.message}`);
+
+  return [
+    ...(maps.data || []).map(map => ({
+      kind: 'map_layer' as const,
+      label: map.name,
+      createdBy: map.created_by,
+      createdAt: map.created_at,
+    })),
+    ...(links.data || []).map(link => ({
+      kind: 'shared_link' as const,
+      label: link.url,
+      createdBy: link.created_by,
+      createdAt: link.created_at,
+    })),
+  ];
+}
+
+// ==============================
+// CARTES ENREGISTRÉES
+// ==============================
+// Une carte garde l'ordre, la visibilité, l'opacité et la symbologie de ses couches
+// (jeux du catalogue) ainsi que sa vue ; le contenu des jeux est relu à l'ouverture.
+
+export type SavedMapInput = Pick<SavedMap, 'name' | 'description' | 'view' | 'layers'> & { id?: string };
+
+// Cartes enregistrées, de la plus récemment modifiée à la plus ancienne
+export async function fetchSavedMaps(): Promise<SavedMap[]> {
+  const { data: maps, error } = await supabase.from('saved_maps').select('*').order('updated_at', { ascending: false });
+  if (error) throw new Error(`Erreur lors du chargement des cartes : ${error.message}`);
+  if (!maps || maps.length === 0) return [];
+
+  const { data: layers, error: layersError } = await supabase
+    .from('saved_map_layers')
+    .select('map_id, dataset_id, position, name, visible, opacity, style')
+    .in('map_id', maps.map(m => m.id))
+    .order('position');
+  if (layersError) throw new Error(`Erreur lors du chargement des cartes : ${layersError.message}`);
+
+  return maps.map(map => ({
+    id: map.id,
+    name: map.name,
+    description: map.description || '',
+    view: map.center?.length === 2 && map.zoom !== null
+      ? { center: [map.center[0], map.center[1]] as [number, number], zoom: map.zoom }
+      : null,
+    layers: (layers || []).filter(l => l.map_id === map.id).map(l => ({
+      datasetId: l.dataset_id,
+      name: l.name,
+      visible: l.visible,
+      opacity: l.opacity,
+      style: (l.style as LayerStyle | null) ?? undefined,
+    })),
+    createdBy: map.created_by,
+    createdAt: map.created_at,
+    updatedAt: map.updated_at,
+  }));
+}
+
+const insertSavedMapLayers = async (mapId: string, layers: SavedMapLayer[]) => {
+  if (layers.length === 0) return null;
+  const { error } = await supabase.from('saved_map_layers').insert(layers.map((layer, position) => ({
+    map_id: mapId,
+    dataset_id: layer.datasetId,
+    position,
+    name: layer.name,
+    visible: layer.visible,
+    opacity: layer.opacity,
+    style: layer.style ?? null,
+  })));
+  return error;
+};
+
+// Enregistre une nouvelle carte, ou remplace la composition d'une carte existante ;
+// renvoie l'identifiant de la carte
+export async function saveMap(map: SavedMapInput, createdBy: string): Promise<string> {
+  const row = {
+    name: map.name.trim(),
+    description: map.description.trim() || null,
+    center: map.view?.center || null,
+    zoom: map.view ? Math.round(map.view.zoom) : null,
+  };
+
+  if (map.id) {
+    const { error } = await supabase.from('saved_maps').update(row).eq('id', map.id);
+    if (error) throw new Error(`Erreur lors de l'enregistrement de la carte : ${error.message}`);
+    const { error: deleteError } = await supabase.from('saved_map_layers').delete().eq('map_id', map.id);
+    if (deleteError) throw new Error(`Erreur lors de l'enregistrement de la carte : ${deleteError.message}`);
+    const layersError = await insertSavedMapLayers(map.id, map.layers);
+    if (layersError) throw new Error(`Couches non enregistrées : ${layersError.message}`);
+    return map.id;
+  }
+
+  const { data, error } = await supabase
+    .from('saved_maps')
+    .insert([{ ...row, created_by: createdBy || null }])
+    .select('id')
+    .single();
+  if (error || !data) throw new Error(`Erreur lors de l'enregistrement de la carte : ${error?.message}`);
+  const layersError = await insertSavedMapLayers(data.id, map.layers);
+  if (layersError) {
+    await supabase.from('saved_maps').delete().eq('id', data.id);
+    throw new Error(`Couches non enregistrées : ${layersError.message}`);
+  }
+  return data.id;
+}
+
+export async function deleteSavedMap(id: string) {
+  const { error } = await supabase.from('saved_maps').delete().eq('id', id);
+  if (error) throw new Error(`Erreur lors de la suppression de la carte : ${error.message}`);
+}
+
+// ==============================
+// SUIVI OPÉRATIONNEL
+// ==============================
+// Lignes des tables métier converties pour les pages (carte, mobilier urbain,
+// tableau de bord) ; les mêmes conversions s'appliquent aux lignes reçues en
+// temps réel. Les colonnes DECIMAL peuvent arriver en texte, d'où Number().
+
+type CollectionPointRow = Database['public']['Tables']['collection_points']['Row'];
+type LatestCollectionRow = Database['public']['Views']['latest_collections']['Row'];
+type UrbanFurnitureRow = Database['public']['Tables']['urban_furniture']['Row'];
+type AlertRow = Database['public']['Tables']['alerts']['Row'];
+
+// Point de collecte de la carte : coordonnées [latitude, longitude], niveau de
+// remplissage et date de la dernière collecte (vue latest_collections)
+export const toCollectionPoint = (row: CollectionPointRow, latest?: LatestCollectionRow): CollectionPoint => ({
+  id: row.id,
+  name: row.name,
+  type: row.type,
+  coordinates: [Number(row.latitude), Number(row.longitude)],
+  capacity: Number(row.capacity_kg),
+  fillLevel: row.fill_level ?? undefined,
+  lastCollection: latest?.collection_date,
+  wasteType: row.waste_type,
+});
+
+// Identifiants passés dans l'URL d'un filtre in() : par lots
+const ID_BATCH_SIZE = 200;
+
+// Points de collecte en service (les points inactifs sont écartés) de l'emprise
+// affichée, avec la dernière collecte de ces seuls points
+export async function fetchCollectionPoints(extent: DatasetExtent): Promise<CollectionPoint[]> {
+  const [west, south, east, north] = extent;
+  const points = await selectAllPages((from, to) =>
+    db.collectionPoints.getActive()
+      .gte('longitude', west).lte('longitude', east).gte('latitude', south).lte('latitude', north)
+      .order('id').range(from, to)
+  );
+  if (points.error) throw new Error(`Erreur lors du chargement des points de collecte : ${points.error.message}`);
+
+  const rows = points.data.filter(row => Number.isFinite(Number(row.latitude)) && Number.isFinite(Number(row.longitude)));
+  const latestByPoint = new Map<string, LatestCollectionRow>();
+  for (let start = 0; start < rows.length; start += ID_BATCH_SIZE) {
+    const ids = rows.slice(start, start + ID_BATCH_SIZE).map(row => row.id);
+    const latest = await db.collectionHistory.getLatest().in('collection_point_id', ids);
+    if (latest.error) throw new Error(`Erreur lors du chargement des collectes : ${latest.error.message}`);
+    (latest.data || []).forEach(row => latestByPoint.set(row.collection_point_id, row));
+  }
+  return rows.map(row => toCollectionPoint(row, latestByPoint.get(row.id)));
+}
+
+// Points de collecte en service, pour les indicateurs
+export async function countCollectionPoints(): Promise<number> {
+  const { count, error } = await supabase
+    .from('collection_points')
+    .select('id', { count: 'exact', head: true })
+    .neq('status', 'inactive');
+  if (error) throw new Error(`Erreur lors du comptage des points de collecte : ${error.message}`);
+  return count ?? 0;
+}
+
+export const toUrbanFurnitureItem = (row: UrbanFurnitureRow): UrbanFurnitureItem => ({
+  id: row.id,
+  type: row.type,
+  name: row.name,
+  location: row.location,
+  installDate: row.install_date,
+  lastMaintenance: row.last_maintenance_date ?? undefined,
+  status: row.status,
+  capacity: Number(row.capacity_kg),
+  fillLevel: row.fill_level ?? undefined,
+});
+
+export async function fetchUrbanFurniture(): Promise<UrbanFurnitureItem[]> {
+  const { data, error } = await selectAllPages((from, to) =>
+    db.urbanFurniture.getAll().order('name').order('id').range(from, to)
+  );
+  if (error) throw new Error(`Erreur lors du chargement du mobilier urbain : ${error.message}`);
+  return data.map(toUrbanFurnitureItem);
+}
+
+export const toDashboardAlert = (row: AlertRow): DashboardAlert => ({
+  id: row.id,
+  type: row.type,
+  severity: row.severity,
+  title: row.title,
+  description: row.description,
+  status: row.status,
+  createdAt: row.created_at,
+});
+
+// Alertes non résolues, de la plus récente à la plus ancienne
+export async function fetchOpenAlerts(limit: number): Promise<DashboardAlert[]> {
+  const { data, error } = await supabase
+    .from('alerts')
+    .select('*')
+    .neq('status', 'resolved')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw new Error(`Erreur lors du chargement des alertes : ${error.message}`);
+  return (data || []).map(toDashboardAlert);
+}
+
 // ==============================
 // API DB (CRUD + upload avancé)
 // ==============================
@@ -257,17 +1506,34 @@ export const uploadGeoJSONWithProj4 = async (
 export const db = {
   collectionPoints: {
     getAll: () => supabase.from('collection_points').select('*'),
+    getActive: () => supabase.from('collection_points').select('*').neq('status', 'inactive'),
     getById: (id: string) => supabase.from('collection_points').select('*').eq('id', id).single(),
     create: (data: Database['public']['Tables']['collection_points']['Insert']) => supabase.from('collection_points').insert(data),
     update: (id: string, data: Partial<Database['public']['Tables']['collection_points']['Insert']>) => supabase.from('collection_points').update(data).eq('id', id),
     delete: (id: string) => supabase.from('collection_points').delete().eq('id', id),
   },
+  collectionHistory: {
+    getByPoint: (pointId: string) =>
+      supabase.from('collection_history').select('*').eq('collection_point_id', pointId).order('collection_date', { ascending: false }),
+    getLatest: () => supabase.from('latest_collections').select('*'),
+  },
   sweepingRoutes: {
     getAll: () => supabase.from('sweeping_routes').select('*'),
     getById: (id: string) => supabase.from('sweeping_routes').select('*').eq('id', id).single(),
     create: (data: Database['public']['Tables']['sweeping_routes']['Insert']) => supabase.from('sweeping_routes').insert(data),
     update: (id: string, data: Partial<Database['public']['Tables']['sweeping_routes']['Insert']>) => supabase.from('sweeping_routes').update(data).eq('id', id),
     delete: (id: string) => supabase.from('sweeping_routes').delete().eq('id', id),
+    getAllWithGeometry: () => supabase.from('sweeping_routes').select('*, route_geometry(geometry)'),
+  },
+  routeGeometry: {
+    getByRouteId: (routeId: string) => supabase.from('route_geometry').select('*').eq('route_id', routeId).single(),
+    upsert: (data: Database['public']['Tables']['route_geometry']['Insert']) => supabase.from('route_geometry').upsert(data),
+  },
+  mappingProfiles: {
+    getByTable: (table: ImportTable) => supabase.from('import_mapping_profiles').select('*').eq('target_table', table).order('name'),
+    save: (profile: Omit<MappingProfile, 'id' | 'created_at'>) =>
+      supabase.from('import_mapping_profiles').upsert(profile, { onConflict: 'name,target_table' }).select().single(),
+    delete: (id: string) => supabase.from('import_mapping_profiles').delete().eq('id', id),
   },
   urbanFurniture: {
     getAll: () => supabase.from('urban_furniture').select('*'),
@@ -0,0 +1,211 @@
+import type { Feature, FeatureCollection } from 'geojson';
+import type { GraduatedMethod, LayerStyle, LayerSymbol, PointIcon, StyleCategory, StyleClass } from '../types';
+
+// ==============================
+// SYMBOLES
+// ==============================
+
+export const DEFAULT_SYMBOL: LayerSymbol = { color: '#059669', icon: 'circle' };
+
+export const defaultLayerStyle = (): LayerStyle => ({
+  kind: 'single',
+  symbol: DEFAULT_SYMBOL,
+  categories: [],
+  classes: [],
+});
+
+export const POINT_ICONS: { value: PointIcon; label: string }[] = [
+  { value: 'circle', label: 'Cercle' },
+  { value: 'square', label: 'Carré' },
+  { value: 'triangle', label: 'Triangle' },
+  { value: 'diamond', label: 'Losange' },
+  { value: 'star', label: 'Étoile' },
+  { value: 'cross', label: 'Croix' },
+];
+
+// Tracés SVG des formes de points (repère 20 × 20)
+export const POINT_ICON_PATHS: Record<PointIcon, string> = {
+  circle: 'M10 2a8 8 0 1 0 0 16a8 8 0 1 0 0-16Z',
+  square: 'M3 3h14v14H3Z',
+  triangle: 'M10 2L18.5 17H1.5Z',
+  diamond: 'M10 1L19 10L10 19L1 10Z',
+  star: 'M10 1.5l2.6 5.4 5.9.8-4.3 4.1 1 5.8L10 14.8l-5.2 2.8 1-5.8-4.3-4.1 5.9-.8Z',
+  cross: 'M7 2h6v5h5v6h-5v5H7v-5H2V7h5Z',
+};
+
+// Couleurs distinctes des catégories
+const CATEGORY_COLORS = ['#059669', '#2563EB', '#DC2626', '#D97706', '#7C3AED', '#DB2777', '#0891B2', '#65A30D', '#EA580C', '#4B5563'];
+
+// Dégradés des classes, de la plus petite valeur à la plus grande
+export const COLOR_RAMPS: { value: string; label: string; colors: [string, string] }[] = [
+  { value: 'greens', label: 'Verts', colors: ['#D1FAE5', '#065F46'] },
+  { value: 'blues', label: 'Bleus', colors: ['#DBEAFE', '#1E40AF'] },
+  { value: 'reds', label: 'Rouges', colors: ['#FEE2E2', '#991B1B'] },
+  { value: 'heat', label: 'Jaune → rouge', colors: ['#FDE68A', '#B91C1C'] },
+];
+
+const hexToRgb = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+export const rampColors = ([from, to]: [string, string], count: number) => {
+  const start = hexToRgb(from);
+  const end = hexToRgb(to);
+  return Array.from({ length: count }, (_, i) => {
+    const t = count === 1 ? 1 : i / (count - 1);
+    return '#' + start.map((c, k) => Math.round(c + (end[k] - c) * t).toString(16).padStart(2, '0')).join('');
+  });
+};
+
+// ==============================
+// ATTRIBUTS
+// ==============================
+
+// Valeur d'un attribut en texte (catégories, étiquettes)
+const valueText = (value: unknown) => (value === null || value === undefined ? '' : String(value).trim());
+
+// Nombre lu dans un attribut (les CSV livrent souvent des nombres en texte)
+const numericValue = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const parsed = Number(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+// Champs dont toutes les valeurs renseignées sont numériques
+export const numericFields = (collection: FeatureCollection, fields: string[]) =>
+  fields.filter(field => {
+    let found = false;
+    for (const feature of collection.features) {
+      const value = feature.properties?.[field];
+      if (valueText(value) === '') continue;
+      if (numericValue(value) === null) return false;
+      found = true;
+    }
+    return found;
+  });
+
+// ==============================
+// CATÉGORIES ET CLASSES
+// ==============================
+
+// Au-delà, les valeurs suivantes prennent le symbole des « autres valeurs »
+export const MAX_CATEGORIES = 50;
+
+// Une catégorie par valeur distincte ; les symboles déjà choisis sont conservés et,
+// pour les points, chaque catégorie reçoit aussi sa forme (types de mobilier…)
+export const buildCategories = (
+  collection: FeatureCollection,
+  field: string,
+  withIcons: boolean,
+  previous: StyleCategory[] = []
+): StyleCategory[] => {
+  const values = new Set<string>();
+  collection.features.forEach(feature => {
+    const text = valueText(feature.properties?.[field]);
+    if (text) values.add(text);
+  });
+  return Array.from(values)
+    .sort((a, b) => a.localeCompare(b, 'fr', { numeric: true }))
+    .slice(0, MAX_CATEGORIES)
+    .map((value, i) => ({
+      value,
+      symbol: previous.find(c => c.value === value)?.symbol || {
+        color: CATEGORY_COLORS[i % CATEGORY_COLORS.length],
+        icon: withIcons ? POINT_ICONS[i % POINT_ICONS.length].value : 'circle',
+      },
+    }));
+};
+
+const roundBreak = (value: number) => Number(value.toPrecision(4));
+
+// Bornes des classes (nombre de classes + 1) ; les quantiles confondus sont fusionnés
+export const classBreaks = (values: number[], count: number, method: GraduatedMethod): number[] => {
+  const sorted = [...values].sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  if (min === max) return [min, max];
+  const breaks = Array.from({ length: count + 1 }, (_, i) => {
+    if (i === 0) return min;
+    if (i === count) return max;
+    return roundBreak(method === 'equal'
+      ? min + ((max - min) * i) / count
+      : sorted[Math.round(((sorted.length - 1) * i) / count)]);
+  });
+  return breaks.filter((b, i) => i === 0 || b > breaks[i - 1]);
+};
+
+export const buildClasses = (
+  collection: FeatureCollection,
+  field: string,
+  count: number,
+  method: GraduatedMethod,
+  ramp: [string, string],
+  icon: PointIcon
+): StyleClass[] => {
+  const values = collection.features
+    .map(feature => numericValue(feature.properties?.[field]))
+    .filter((v): v is number => v !== null);
+  const breaks = classBreaks(values, count, method);
+  const colors = rampColors(ramp, Math.max(breaks.length - 1, 1));
+  return breaks.slice(1).map((max, i) => ({ min: breaks[i], max, symbol: { color: colors[i], icon } }));
+};
+
+// ==============================
+// RENDU ET LÉGENDE
+// ==============================
+
+const classOf = (classes: StyleClass[], value: number) =>
+  classes.find((c, i) => value >= c.min && (value < c.max || (i === classes.length - 1 && value <= c.max)));
+
+// Catégorie ou classe d'une entité (undefined : autres valeurs)
+const matchOf = (style: LayerStyle, properties: Feature['properties'] | undefined) => {
+  const value = style.field ? properties?.[style.field] : undefined;
+  if (style.kind === 'categorized') {
+    const text = valueText(value);
+    return style.categories.find(c => c.value === text);
+  }
+  const number = numericValue(value);
+  return number === null ? undefined : classOf(style.classes, number);
+};
+
+// Symbole d'une entité selon la symbologie de sa couche
+export const symbolFor = (style: LayerStyle | undefined, properties: Feature['properties'] | undefined): LayerSymbol => {
+  if (!style) return DEFAULT_SYMBOL;
+  if (style.kind === 'single' || !style.field) return style.symbol;
+  return matchOf(style, properties)?.symbol || style.symbol;
+};
+
+export const labelFor = (style: LayerStyle | undefined, properties: Feature['properties'] | undefined) => {
+  if (!style?.labelField) return null;
+  return valueText(properties?.[style.labelField]) || null;
+};
+
+const formatBound = (value: number) => value.toLocaleString('fr-FR', { maximumFractionDigits: 2 });
+
+export const classLabel = (styleClass: StyleClass) => `${formatBound(styleClass.min)} – ${formatBound(styleClass.max)}`;
+
+export interface LegendEntry {
+  label: string;
+  symbol: LayerSymbol;
+  // Nombre d'entités de la couche qui prennent ce symbole
+  count: number;
+}
+
+// Légende générée depuis la symbologie, une entrée par catégorie ou classe ; les
+// « autres valeurs » n'apparaissent que si des entités n'entrent dans aucune d'elles
+export const legendEntries = (style: LayerStyle | undefined, collection?: FeatureCollection): LegendEntry[] => {
+  const features = collection?.features || [];
+  if (!style || style.kind === 'single' || !style.field) {
+    return [{ label: '', symbol: style?.symbol || DEFAULT_SYMBOL, count: features.length }];
+  }
+  const counts = new Map<StyleCategory | StyleClass | undefined, number>();
+  features.forEach(feature => {
+    const match = matchOf(style, feature.properties);
+    counts.set(match, (counts.get(match) || 0) + 1);
+  });
+  const entries = style.kind === 'categorized'
+    ? style.categories.map(c => ({ label: c.value, symbol: c.symbol, count: counts.get(c) || 0 }))
+    : style.classes.map(c => ({ label: classLabel(c), symbol: c.symbol, count: counts.get(c) || 0 }));
+  const others = counts.get(undefined) || 0;
+  return others > 0 ? [...entries, { label: 'Autres valeurs', symbol: style.symbol, count: others }] : entries;
+};
@@ -116,7 +116,11 @@ const CollectionRoutes = () => {
     <div className="h-full flex flex-col">
       <div className="mb-4 flex items-center justify-between">
         <h1 className="text-green-600">Circuits de collecte</h1>
-        <button className="btn-primary flex items-center bg-green-600 hover:bg-green-700">
+        {/* Tracé du nouveau circuit sur la carte, outil de création ouvert */}
+        <button
+          className="btn-primary flex items-center bg-green-600 hover:bg-green-700"
+          onClick={() => navigate('/map', { state: { editTable: 'sweeping_routes' } })}
+        >
           <Plus size={16} className="mr-1.5" />
           Nouveau circuit
         </button>
@@ -5,6 +5,7 @@ import {
   Map as MapIcon, 
   TrendingUp, 
   AlertTriangle,
+  AlertCircle,
   ArrowUpRight,
   Database,
   Download,
@@ -24,10 +25,44 @@ import {
   Cell,
 } from 'recharts';
 import { saveAs } from 'file-saver';
+import { DashboardAlert } from '../types';
+import { countCollectionPoints, fetchOpenAlerts, toDashboardAlert } from '../lib/supabase';
+import { subscribeToTables, useFlashedIds } from '../lib/realtime';
+
+// Alertes récentes affichées
+const ALERT_COUNT = 5;
+
+const SEVERITY_LABELS: Record<DashboardAlert['severity'], string> = {
+  low: 'Faible',
+  medium: 'Modéré',
+  high: 'Élevé',
+  critical: 'Critique',
+};
+
+const SEVERITY_COLORS: Record<DashboardAlert['severity'], string> = {
+  low: 'bg-gray-100 text-gray-700',
+  medium: 'bg-amber-100 text-amber-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800',
+};
+
+// Ancienneté d'une alerte (« Il y a 5 heures »)
+const formatElapsed = (date: string) => {
+  const minutes = Math.max(0, Math.round((Date.now() - new Date(date).getTime()) / 60000));
+  if (minutes < 1) return 'À l\'instant';
+  if (minutes < 60) return `Il y a ${minutes} minute${minutes > 1 ? 's' : ''}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `Il y a ${hours} heure${hours > 1 ? 's' : ''}`;
+  return new Date(date).toLocaleDateString('fr-FR');
+};
 
 const Dashboard = () => {
   const [isLoading, setIsLoading] = useState(true);
   const [showExportMenu, setShowExportMenu] = useState(false);
+  const [alerts, setAlerts] = useState<DashboardAlert[] | null>(null);
+  const [alertsError, setAlertsError] = useState<string | null>(null);
+  const [collectionPointCount, setCollectionPointCount] = useState<number | null>(null);
+  const [flashedIds, flash] = useFlashedIds();
 
   useEffect(() => {
     // Simulate data loading
@@ -38,6 +73,39 @@ const Dashboard = () => {
     return () => clearTimeout(timer);
   }, []);
 
+  // Alertes en cours et nombre de points de collecte, puis suivi en temps réel :
+  // une alerte créée ou modifiée clignote, une alerte résolue quitte la liste
+  useEffect(() => {
+    fetchOpenAlerts(ALERT_COUNT)
+      .then(setAlerts)
+      .catch(error => {
+        setAlerts([]);
+        setAlertsError(error instanceof Error ? error.message : String(error));
+      });
+    countCollectionPoints()
+      .then(setCollectionPointCount)
+      .catch(error => console.error('Erreur lors du comptage des points de collecte:', error));
+
+    return subscribeToTables(['alerts', 'collection_points'], change => {
+      if (change.table === 'collection_points') {
+        countCollectionPoints()
+          .then(setCollectionPointCount)
+          .catch(error => console.error('Erreur lors du comptage des points de collecte:', error));
+        return;
+      }
+      if (change.table !== 'alerts') return;
+      const row = change.row;
+      setAlerts(current => {
+        const others = (current || []).filter(a => a.id !== change.id);
+        if (!row || row.status === 'resolved') return others;
+        return [toDashboardAlert(row), ...others]
+          .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+          .slice(0, ALERT_COUNT);
+      });
+      if (row) flash(row.id);
+    });
+  }, [flash]);
+
   const wasteCollectionData = [
     { month: 'Jan', recyclable: 400, general: 240, organic: 180 },
     { month: 'Fév', recyclable: 380, general: 238, organic: 190 },
@@ -57,7 +125,7 @@ const Dashboard = () => {
   const kpiCards = [
     {
       title: 'Points de collecte',
-      value: '324',
+      value: collectionPointCount === null ? '…' : collectionPointCount.toLocaleString('fr-FR'),
       change: '+12',
       icon: MapIcon,
       color: 'bg-green-50 text-green-600',
@@ -85,30 +153,6 @@ const Dashboard = () => {
     },
   ];
 
-  const alerts = [
-    {
-      id: 1,
-      title: 'Conteneur presque plein',
-      location: 'Avenue Léopold Sédar Senghor',
-      level: '90%',
-      time: 'Il y a 1 heure',
-    },
-    {
-      id: 2,
-      title: 'Collecte manquée',
-      location: 'Quartier Sacré-Cœur',
-      level: 'Critique',
-      time: 'Il y a 5 heures',
-    },
-    {
-      id: 3,
-      title: 'Véhicule en maintenance',
-      location: 'Camion #37',
-      level: 'Modéré',
-      time: 'Aujourd\'hui',
-    },
-  ];
-
   const exportToCSV = () => {
     // Convert data to CSV format
     const csvData = wasteCollectionData.map(row => 
@@ -263,8 +307,22 @@ const Dashboard = () => {
             </Link>
           </div>
           <div className="space-y-4">
-            {alerts.map((alert) => (
-              <div key={alert.id} className="flex items-start p-3 bg-gray-50 rounded-lg">
+            {alertsError && (
+              <div className="flex items-center p-3 bg-red-50 rounded-md">
+                <AlertCircle size={16} className="text-red-500 mr-2 flex-shrink-0" />
+                <span className="text-sm text-red-700">{alertsError}</span>
+              </div>
+            )}
+            {alerts === null ? (
+              <div className="animate-pulse text-gray-400">Chargement des alertes...</div>
+            ) : alerts.length === 0 && !alertsError ? (
+              <p className="text-sm text-gray-500">Aucune alerte en cours.</p>
+            ) : null}
+            {(alerts || []).map((alert) => (
+              <div
+                key={alert.id}
+                className={`flex items-start p-3 bg-gray-50 rounded-lg ${flashedIds.has(alert.id) ? 'realtime-flash' : ''}`}
+              >
                 <div className="mr-3 mt-1">
                   <div className="p-2 bg-amber-100 rounded-full">
                     <AlertTriangle size={16} className="text-amber-600" />
@@ -273,13 +331,16 @@ const Dashboard = () => {
                 <div className="flex-1">
                   <div className="flex items-center justify-between">
                     <p className="font-medium text-green-600">{alert.title}</p>
-                    <span className="text-xs text-gray-500">{alert.time}</span>
+                    <span className="text-xs text-gray-500">{formatElapsed(alert.createdAt)}</span>
                   </div>
-                  <p className="text-sm text-gray-600 mt-1">{alert.location}</p>
+                  <p className="text-sm text-gray-600 mt-1">{alert.description}</p>
                   <div className="flex items-center mt-2">
-                    <span className="text-xs px-2 py-1 bg-amber-100 text-amber-800 rounded-full">
-                      {alert.level}
+                    <span className={`text-xs px-2 py-1 rounded-full ${SEVERITY_COLORS[alert.severity]}`}>
+                      {SEVERITY_LABELS[alert.severity]}
                     </span>
+                    {alert.status === 'in_progress' && (
+                      <span className="text-xs text-gray-500 ml-2">En cours de traitement</span>
+                    )}
                   </div>
                 </div>
               </div>
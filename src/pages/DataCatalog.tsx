@@ -1,8 +1,30 @@
-import React, { useState, useEffect } from "react";
-import Papa from "papaparse";
+import React, { useState, useEffect, useRef, useCallback } from "react";
+import type { FeatureCollection } from "geojson";
 import shp from "shpjs";
 import JSZip from "jszip";
-import { db, supabase, uploadWholeGeoJSON, uploadRawFile } from "../lib/supabase";
+import {
+  db,
+  supabase,
+  uploadWholeGeoJSON,
+  uploadRawFile,
+  commitGeoJSONImport,
+  PreparedImport,
+  fetchRawFileBlob,
+  getRawFileDownloadUrl,
+  listInlineRawFiles,
+  migrateInlineRawFiles,
+  formatFileSize,
+  MAX_RAW_FILE_SIZE,
+  fetchDatasetRegistry,
+  fetchDatasetOwners,
+  fetchCommunes,
+  archiveDataset
+} from "../lib/supabase";
+import { loadDatasetCollection, loadDatasetGeoJSON } from "../lib/datasets";
+import { useAuth } from "../contexts/AuthContext";
+import { parseKmlFile } from "../lib/kml";
+import { GeoPackageLayer, GeoPackageReader, openGeoPackage } from "../lib/geopackage";
+import { CsvConversionResult } from "../lib/csv";
 import {
   Download,
   Filter,
@@ -19,174 +41,313 @@ import {
   Upload,
   X,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  Globe,
+  FileOutput,
+  History,
+  Layers,
+  Square,
+  FileText,
+  Archive,
+  ArchiveRestore
 } from 'lucide-react';
 import { useNavigate } from "react-router-dom";
+import CrsSelector from "../components/import/CrsSelector";
+import ConversionReportView from "../components/import/ConversionReportView";
+import AttributeMappingEditor from "../components/import/AttributeMappingEditor";
+import ImportPreviewMap from "../components/map/ImportPreviewMap";
+import ImportProgress from "../components/import/ImportProgress";
+import ImportModeSelector from "../components/import/ImportModeSelector";
+import MergeDiffView from "../components/import/MergeDiffView";
+import GeoPackageLayerPicker from "../components/import/GeoPackageLayerPicker";
+import CsvImportWizard from "../components/import/CsvImportWizard";
+import DatasetExportDialog from "../components/catalog/DatasetExportDialog";
+import DatasetHistoryDialog from "../components/catalog/DatasetHistoryDialog";
+import ExtentSearchMap from "../components/catalog/ExtentSearchMap";
+import DatasetMetadataDialog from "../components/catalog/DatasetMetadataDialog";
+import DatasetDeleteDialog from "../components/catalog/DatasetDeleteDialog";
+import DatasetTrashDialog from "../components/catalog/DatasetTrashDialog";
+import { clearImportJob, getImportJob, getImportJobKey, getJobProgress } from "../lib/importJobs";
+import { DEFAULT_MERGE_KEYS, collectSourceProperties, suggestMapping } from "../lib/importMapping";
+import { DATASET_LICENCES } from "../lib/metadata";
+import { viewportTableOf } from "../lib/mapSession";
+import { AttributeMapping, Commune, ConversionReport, CsvImportOptions, DatasetExtent, DatasetMetadata, DatasetRegistration, DatasetSearchFilters, DatasetVersion, ImportJob, ImportMode, MergeOptions } from "../types";
 
-type DatasetMetadata = {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  source: string;
-  lastUpdated: string;
-  format: string;
-  owner: string;
-  tags: string[];
-  fileUrl?: string;
-};
+type ImportTarget = "geojson_datasets" | "collection_points" | "urban_furniture" | "sweeping_routes";
 
-const mockDatasets: DatasetMetadata[] = [
-  {
-    id: '1',
-    name: 'Points de collecte Dakar',
-    description: 'Localisation de tous les points de collecte des déchets dans la région de Dakar',
-    category: 'Points d\'intérêt',
-    source: 'Sonaged',
-    lastUpdated: '2025-03-10',
-    format: 'GeoJSON',
-    owner: 'Direction technique',
-    tags: ['collecte', 'conteneurs', 'bacs'],
-  },
-  {
-    id: '2',
-    name: 'Circuits de collecte 2025',
-    description: 'Tracés des circuits de collecte des déchets pour l\'année 2025',
-    category: 'Itinéraires',
-    source: 'Département Logistique',
-    lastUpdated: '2025-02-15',
-    format: 'SHP',
-    owner: 'Service Logistique',
-    tags: ['circuits', 'itinéraires', 'collecte'],
-  },
-  {
-    id: '3',
-    name: 'Zones de couverture',
-    description: 'Zones géographiques de couverture des services de collecte',
-    category: 'Zonage',
-    source: 'Direction Aménagement',
-    lastUpdated: '2025-01-25',
-    format: 'SHP',
-    owner: 'Service SIG',
-    tags: ['zones', 'couverture', 'aménagement'],
-  },
-  {
-    id: '4',
-    name: 'Données population 2024',
-    description: 'Densité de population par quartier pour l\'année 2024',
-    category: 'Statistiques',
-    source: 'Agence Nationale de la Statistique',
-    lastUpdated: '2024-12-05',
-    format: 'CSV',
-    owner: 'Service Planification',
-    tags: ['population', 'densité', 'quartiers'],
-  }
+const importTargets: { value: ImportTarget; label: string }[] = [
+  { value: "geojson_datasets", label: "Jeu de données brut (GeoJSON complet)" },
+  { value: "collection_points", label: "Points de collecte" },
+  { value: "urban_furniture", label: "Mobilier urbain" },
+  { value: "sweeping_routes", label: "Circuits de balayage" },
 ];
 
+// Un ZIP peut contenir plusieurs shapefiles : leurs features sont regroupées
+const parseShapefileZip = async (file: File): Promise<FeatureCollection> => {
+  const result = await shp(await file.arrayBuffer());
+  const collections = Array.isArray(result) ? result : [result];
+  return {
+    type: "FeatureCollection",
+    features: collections.flatMap(c => c.features),
+  };
+};
+
 const DataCatalog = () => {
   const [datasets, setDatasets] = useState<DatasetMetadata[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  // Filtres avancés, appliqués côté serveur avec la recherche texte
+  const [searchFilters, setSearchFilters] = useState<DatasetSearchFilters>({});
+  const [showMoreFilters, setShowMoreFilters] = useState(false);
+  const [showExtentSearch, setShowExtentSearch] = useState(false);
+  const [owners, setOwners] = useState<string[]>([]);
+  const [communes, setCommunes] = useState<Commune[]>([]);
+  const searchRequestRef = useRef(0);
   const [selectedFormat, setSelectedFormat] = useState<string | null>(null);
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showAddModal, setShowAddModal] = useState(false);
-  const [uploadType, setUploadType] = useState<"SHP" | "CSV" | "PDF" | "GeoJSON" | null>(null);
+  const [uploadType, setUploadType] = useState<"SHP" | "CSV" | "PDF" | "GeoJSON" | "KML" | "GPKG" | null>(null);
   const [uploadFile, setUploadFile] = useState<File | null>(null);
   const [uploadName, setUploadName] = useState("");
   const [uploadDescription, setUploadDescription] = useState("");
+  const [uploadCategory, setUploadCategory] = useState("");
+  const [uploadSource, setUploadSource] = useState("");
+  const [uploadLicence, setUploadLicence] = useState(DATASET_LICENCES[0]);
+  const [uploadTags, setUploadTags] = useState("");
   const [uploadStatus, setUploadStatus] = useState<string | null>(null);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [shpDebugFileList, setShpDebugFileList] = useState<string[] | null>(null);
+  const [importTarget, setImportTarget] = useState<ImportTarget>("geojson_datasets");
+  const [sourceCrs, setSourceCrs] = useState<string | null>(null);
+  const [prjFile, setPrjFile] = useState<File | null>(null);
+  const [conversionReport, setConversionReport] = useState<ConversionReport | null>(null);
+  const [parsedGeoJSON, setParsedGeoJSON] = useState<FeatureCollection | null>(null);
+  const [attributeMapping, setAttributeMapping] = useState<AttributeMapping>({});
+  const [preparedImport, setPreparedImport] = useState<PreparedImport | null>(null);
+  const [importJob, setImportJob] = useState<ImportJob | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>("insert");
+  const [mergeOptions, setMergeOptions] = useState<MergeOptions>({ key: [], deactivateMissing: false });
+  const importAbortRef = useRef<AbortController | null>(null);
+  const [inlineRawFileCount, setInlineRawFileCount] = useState(0);
+  const [migrationStatus, setMigrationStatus] = useState<string | null>(null);
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [csvBytes, setCsvBytes] = useState<Uint8Array | null>(null);
+  const [csvImportOptions, setCsvImportOptions] = useState<CsvImportOptions | null>(null);
+  const gpkgReaderRef = useRef<GeoPackageReader | null>(null);
+  const [gpkgLayers, setGpkgLayers] = useState<GeoPackageLayer[]>([]);
+  const [selectedGpkgLayers, setSelectedGpkgLayers] = useState<string[]>([]);
+  const [gpkgVisualisation, setGpkgVisualisation] = useState<{
+    dataset: DatasetMetadata;
+    reader: GeoPackageReader;
+    selected: string[];
+  } | null>(null);
+  const [exportDataset, setExportDataset] = useState<DatasetMetadata | null>(null);
+  const [historyDatasetId, setHistoryDatasetId] = useState<string | null>(null);
+  const [metadataDataset, setMetadataDataset] = useState<DatasetMetadata | null>(null);
+  const [deleteDataset, setDeleteDataset] = useState<DatasetMetadata | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  // Jeu dont on téléverse une nouvelle version
+  const [versionTarget, setVersionTarget] = useState<DatasetMetadata | null>(null);
+  const [uploadVersionNote, setUploadVersionNote] = useState("");
 
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const currentUserName = user ? [user.firstName, user.lastName].filter(Boolean).join(" ") || user.username : "";
+  const historyDataset = datasets.find(d => d.id === historyDatasetId) || null;
 
+  // Recherche lancée 300 ms après la dernière frappe
   useEffect(() => {
-    fetchDatasets();
+    const timer = setTimeout(() => setDebouncedQuery(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Listes des filtres avancés
+  useEffect(() => {
+    fetchDatasetOwners().then(setOwners).catch(error => console.error("Erreur lors du chargement des propriétaires:", error));
+    fetchCommunes().then(setCommunes).catch(error => console.error("Erreur lors du chargement des communes:", error));
   }, []);
 
-  // Récupère les datasets des différentes tables (mock, collection_points, geojson_datasets, raw_files)
-  const fetchDatasets = async () => {
-    setIsLoading(true);
+  // Libère la base SQLite en mémoire d'un GeoPackage ouvert
+  useEffect(() => () => gpkgReaderRef.current?.close(), []);
+
+  // Fichiers bruts encore stockés en base, à migrer vers le bucket (admin)
+  useEffect(() => {
+    if (user?.role !== "admin") return;
+    listInlineRawFiles().then(({ data }) => setInlineRawFileCount(data?.length || 0));
+  }, [user?.role]);
+
+  const handleMigrateRawFiles = async () => {
+    setIsMigrating(true);
+    setMigrationStatus("Migration en cours...");
     try {
-      const datasetsList: DatasetMetadata[] = [...mockDatasets];
-
-      // collection_points (GeoJSON éclaté)
-      const { data: cpData } = await db.collectionPoints.getAll();
-      if (cpData) {
-        datasetsList.push(...cpData.map((d: any) => ({
-          id: d.id,
-          name: d.name,
-          description: d.description || "",
-          category: d.type || "Importé",
-          source: "Supabase",
-          lastUpdated: d.updated_at || "",
-          format: "GeoJSON",
-          owner: "Utilisateur actuel",
-          tags: [],
-        })));
-      }
+      const { migrated, failed } = await migrateInlineRawFiles((done, total) =>
+        setMigrationStatus(`Migration en cours : ${done} / ${total}`)
+      );
+      setMigrationStatus(failed.length > 0
+        ? `${migrated} fichier(s) migré(s), ${failed.length} en échec : ${failed.map(f => `${f.name} (${f.error})`).join(", ")}`
+        : `${migrated} fichier(s) migré(s) vers le stockage.`);
+      setInlineRawFileCount(failed.length);
+    } catch (error) {
+      setMigrationStatus("Migration impossible : " + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setIsMigrating(false);
+    }
+  };
 
-      // geojson_datasets (GeoJSON brut, 1 fichier = 1 ligne)
-      const { data: geojsonDatasets } = await supabase.from("geojson_datasets").select("*");
-      if (geojsonDatasets) {
-        datasetsList.push(...geojsonDatasets.map((d: any) => ({
-          id: d.id,
-          name: d.name,
-          description: d.description || "",
-          category: "GeoJSON brut",
-          source: "Supabase",
-          lastUpdated: d.updated_at || "",
-          format: "GeoJSON",
-          owner: "Utilisateur actuel",
-          tags: [],
-        })));
-      }
+  const isGeographicUpload = uploadType === "GeoJSON" || uploadType === "SHP" || uploadType === "KML" || uploadType === "GPKG" || uploadType === "CSV";
+  const isTableImport = isGeographicUpload && importTarget !== "geojson_datasets";
+  const sourceProperties = parsedGeoJSON ? collectSourceProperties(parsedGeoJSON.features || []) : [];
 
-      // raw_files (SHP/CSV/PDF bruts)
-      const { data: rawFiles } = await supabase.from("raw_files").select("*");
-      if (rawFiles) {
-        datasetsList.push(...rawFiles.map((d: any) => ({
-          id: d.id,
-          name: d.name,
-          description: d.description || "",
-          category: "Fichier brut",
-          source: "Supabase",
-          lastUpdated: d.updated_at || "",
-          format: d.filetype ? d.filetype.toUpperCase() : "FICHIER",
-          owner: "Utilisateur actuel",
-          tags: [],
-          fileUrl: undefined // à gérer si tu utilises Supabase Storage pour les fichiers volumineux
-        })));
-      }
+  // Propose un mapping dès que le fichier ou la table cible change
+  useEffect(() => {
+    if (importTarget === "geojson_datasets" || !parsedGeoJSON) return;
+    setAttributeMapping(suggestMapping(importTarget, collectSourceProperties(parsedGeoJSON.features || [])));
+  }, [importTarget, parsedGeoJSON]);
+
+  // Clé de fusion proposée selon la table cible
+  useEffect(() => {
+    if (importTarget === "geojson_datasets") return;
+    setMergeOptions(options => ({ ...options, key: DEFAULT_MERGE_KEYS[importTarget] }));
+  }, [importTarget]);
 
-      setDatasets(datasetsList);
+  // Toute modification des paramètres invalide la vérification précédente
+  useEffect(() => {
+    setPreparedImport(null);
+    setConversionReport(null);
+    setImportJob(null);
+  }, [importTarget, parsedGeoJSON, sourceCrs, prjFile, attributeMapping, importMode, mergeOptions]);
+
+  // Récupère les jeux de données du registre (GeoJSON, fichiers bruts, couches métier)
+  // répondant à la recherche ; seule la dernière requête lancée est affichée
+  const fetchDatasets = useCallback(async () => {
+    const request = ++searchRequestRef.current;
+    setIsLoading(true);
+    let results: DatasetMetadata[] = [];
+    try {
+      results = await fetchDatasetRegistry({ ...searchFilters, query: debouncedQuery });
     } catch (error) {
-      setDatasets(mockDatasets);
+      console.error("Erreur lors du chargement du catalogue:", error);
     }
+    if (request !== searchRequestRef.current) return;
+    setDatasets(results);
     setIsLoading(false);
-  };
+  }, [debouncedQuery, searchFilters]);
+
+  useEffect(() => {
+    fetchDatasets();
+  }, [fetchDatasets]);
+
+  const updateSearchFilter = <K extends keyof DatasetSearchFilters>(key: K, value: DatasetSearchFilters[K]) =>
+    setSearchFilters(filters => ({ ...filters, [key]: value || undefined }));
+
+  const handleExtentChange = useCallback(
+    (extent: DatasetExtent | null) => setSearchFilters(filters => ({ ...filters, extent: extent || undefined })),
+    []
+  );
+
+  const activeFilterCount = Object.values(searchFilters).filter(Boolean).length;
 
   const resetUploadForm = () => {
     setUploadType(null);
     setUploadFile(null);
     setUploadName("");
     setUploadDescription("");
+    setUploadCategory("");
+    setUploadSource("");
+    setUploadLicence(DATASET_LICENCES[0]);
+    setUploadTags("");
+    setVersionTarget(null);
+    setUploadVersionNote("");
     setUploadStatus(null);
     setUploadError(null);
     setIsUploading(false);
     setShpDebugFileList(null);
+    setImportTarget("geojson_datasets");
+    setSourceCrs(null);
+    setPrjFile(null);
+    setConversionReport(null);
+    setParsedGeoJSON(null);
+    setAttributeMapping({});
+    setPreparedImport(null);
+    setImportJob(null);
+    setImportMode("insert");
+    importAbortRef.current?.abort();
+    importAbortRef.current = null;
+    closeGeoPackage();
+    setCsvBytes(null);
+    setCsvImportOptions(null);
+  };
+
+  // Le CSV est converti par l'assistant : ses lignes localisées alimentent le mapping et l'import
+  const handleCsvChange = (options: CsvImportOptions, conversion: CsvConversionResult | null) => {
+    setCsvImportOptions(options);
+    setParsedGeoJSON(conversion?.collection ?? null);
+  };
+
+  const closeGeoPackage = () => {
+    gpkgReaderRef.current?.close();
+    gpkgReaderRef.current = null;
+    setGpkgLayers([]);
+    setSelectedGpkgLayers([]);
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Seules les couches cochées sont importées
+  const handleGpkgLayersChange = (selected: string[]) => {
+    setSelectedGpkgLayers(selected);
+    setParsedGeoJSON(selected.length > 0 && gpkgReaderRef.current ? gpkgReaderRef.current.readLayers(selected) : null);
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
       if (uploadType === 'SHP' && !file.name.endsWith('.zip')) {
         setUploadError('Pour les fichiers SHP, veuillez fournir un fichier ZIP contenant tous les composants du Shapefile (.shp, .shx, .dbf).');
         return;
       }
+      if (uploadType === 'KML' && !/\.km[lz]$/i.test(file.name)) {
+        setUploadError('Les fichiers Google Earth doivent avoir l\'extension .kml ou .kmz.');
+        return;
+      }
+      if (uploadType === 'GPKG' && !file.name.toLowerCase().endsWith('.gpkg')) {
+        setUploadError('Les GeoPackage doivent avoir l\'extension .gpkg.');
+        return;
+      }
+      if ((uploadType === 'CSV' || uploadType === 'PDF') && file.size > MAX_RAW_FILE_SIZE) {
+        setUploadError(`Fichier trop volumineux (${formatFileSize(file.size)}) : la taille maximale est de ${formatFileSize(MAX_RAW_FILE_SIZE)}.`);
+        return;
+      }
       setUploadFile(file);
       setUploadError(null);
+      setParsedGeoJSON(null);
+      closeGeoPackage();
+      setCsvBytes(null);
+
+      // Lecture immédiate des fichiers géographiques pour le mapping des attributs
+      try {
+        if (uploadType === 'GeoJSON') {
+          setParsedGeoJSON(JSON.parse(await file.text()));
+        } else if (uploadType === 'SHP') {
+          setParsedGeoJSON(await parseShapefileZip(file));
+        } else if (uploadType === 'KML') {
+          setParsedGeoJSON(await parseKmlFile(file));
+        } else if (uploadType === 'CSV') {
+          setCsvBytes(new Uint8Array(await file.arrayBuffer()));
+        } else if (uploadType === 'GPKG') {
+          const reader = await openGeoPackage(file);
+          if (reader.layers.length === 0) {
+            reader.close();
+            throw new Error("aucune couche vectorielle dans le GeoPackage");
+          }
+          gpkgReaderRef.current = reader;
+          setGpkgLayers(reader.layers);
+          setSelectedGpkgLayers(reader.layers.map(l => l.name));
+          setParsedGeoJSON(reader.readLayers(reader.layers.map(l => l.name)));
+        }
+      } catch (err) {
+        setUploadError("Lecture du fichier impossible : " + (err instanceof Error && err.message ? err.message : "format invalide"));
+      }
     }
   };
 
@@ -201,17 +362,100 @@ const DataCatalog = () => {
     setUploadStatus("Traitement en cours...");
     setUploadError(null);
     setShpDebugFileList(null);
+    setConversionReport(null);
 
     try {
+      if (isTableImport) {
+        // Import dans une table métier avec reprojection proj4 et mapping des attributs :
+        // une première soumission vérifie les lignes, la seconde confirme l'insertion
+        if (uploadType === "GPKG" && selectedGpkgLayers.length === 0) throw new Error("Choisissez au moins une couche du GeoPackage");
+        if (uploadType === "CSV" && !parsedGeoJSON) throw new Error("Choisissez les colonnes de localisation du CSV");
+        if (!parsedGeoJSON) throw new Error("Le fichier n'a pas pu être lu");
+        if (!preparedImport) {
+          const prj = uploadType === "GeoJSON" && prjFile ? await prjFile.text() : null;
+          const result = await db.uploadGeoJSON(parsedGeoJSON, importTarget, {
+            // Les coordonnées KML sont en WGS84 par définition ; les couches GeoPackage
+            // et les lignes CSV sont reprojetées en WGS84 à la lecture
+            sourceCrs: uploadType === "KML" || uploadType === "GPKG" || uploadType === "CSV" ? "EPSG:4326" : sourceCrs,
+            prj,
+            mapping: attributeMapping,
+            merge: importMode === "merge" ? mergeOptions : null,
+            dryRun: true
+          });
+          setConversionReport(result.report);
+          if (!('prepared' in result)) return;
+          setPreparedImport(result.prepared);
+          // Un import interrompu du même fichier, avec les mêmes paramètres, est repris
+          const previousJob = getImportJob(getImportJobKey(importTarget, uploadFile.name, result.prepared.rows.map(r => r.row)));
+          setImportJob(previousJob);
+          const removed = result.prepared.merge?.removed.length || 0;
+          if (result.count === 0 && removed > 0) {
+            setUploadStatus(`Vérification terminée : aucune ligne à écrire, ${removed} ligne(s) à désactiver. Confirmez pour appliquer.`);
+          } else if (result.count === 0) {
+            setUploadStatus(`Vérification terminée : aucune ligne valide, ${result.skipped} rejetée(s).`);
+          } else if (previousJob) {
+            setUploadStatus(`Import interrompu retrouvé : ${getJobProgress(previousJob).inserted} ligne(s) déjà insérée(s) sur ${previousJob.total}. Confirmez pour reprendre les lots restants.`);
+          } else {
+            setUploadStatus(`Vérification terminée : ${result.count} ligne(s) prête(s) à importer, ${result.skipped} rejetée(s). Confirmez pour lancer l'import.`);
+          }
+          return;
+        }
+        try {
+          importAbortRef.current = new AbortController();
+          setConversionReport(preparedImport.report);
+          const result = await commitGeoJSONImport(preparedImport, {
+            fileName: uploadFile.name,
+            job: importJob,
+            signal: importAbortRef.current.signal,
+            onProgress: setImportJob,
+          });
+          setImportJob(result.job);
+          if (result.aborted) {
+            setUploadStatus(`Import interrompu : ${result.count} ligne(s) insérée(s) sur ${result.job.total}. Confirmez pour reprendre.`);
+          } else if (result.failedRows > 0) {
+            setUploadStatus(`${result.count} ligne(s) insérée(s), ${result.failedRows} en échec. Réessayez les lots en échec.`);
+          } else if (result.deactivationError) {
+            setUploadStatus(`${result.count} ligne(s) enregistrée(s), mais la désactivation des absents a échoué : ${result.deactivationError}. Confirmez pour réessayer.`);
+          } else {
+            setPreparedImport(null);
+            setUploadStatus(`${result.count} élément(s) importé(s), ${result.skipped} ignoré(s)${result.deactivated > 0 ? `, ${result.deactivated} désactivé(s)` : ""}.`);
+          }
+        } catch (err) {
+          const { report } = err as { report?: ConversionReport };
+          if (report) setConversionReport(report);
+          throw err;
+        } finally {
+          importAbortRef.current = null;
+        }
+        await fetchDatasets();
+        return;
+      }
+
+      // Métadonnées inscrites au registre avec le jeu de données
+      const registration: DatasetRegistration = {
+        name: uploadName,
+        description: uploadDescription,
+        category: uploadCategory.trim() || (uploadType === "PDF" ? "Document" : "Non classé"),
+        source: uploadSource.trim(),
+        licence: uploadLicence,
+        owner: currentUserName,
+        tags: uploadTags.split(",").map(tag => tag.trim()).filter(Boolean),
+      };
+      const version = versionTarget ? { datasetId: versionTarget.id, note: uploadVersionNote.trim() } : null;
+
       if (uploadType === "GeoJSON") {
         const text = await uploadFile.text();
         const geojson = JSON.parse(text);
         // Stocke l'objet complet dans geojson_datasets
-        const { error } = await uploadWholeGeoJSON(geojson, uploadName, uploadDescription);
+        const { error } = await uploadWholeGeoJSON(geojson, registration, version);
         if (error) throw error;
-      } else if (uploadType === "SHP" || uploadType === "CSV" || uploadType === "PDF") {
-        // Stocke le fichier binaire (ZIP, CSV, PDF) dans raw_files
-        const { error } = await uploadRawFile(uploadFile, uploadName, uploadDescription, uploadType.toLowerCase());
+      } else if (uploadType === "SHP" || uploadType === "KML" || uploadType === "GPKG" || uploadType === "CSV" || uploadType === "PDF") {
+        // Stocke le fichier binaire (ZIP, KML/KMZ, GeoPackage, CSV, PDF) dans raw_files
+        const { error } = await uploadRawFile(uploadFile, registration, uploadType.toLowerCase(), {
+          importOptions: uploadType === "CSV" ? csvImportOptions : null,
+          collection: parsedGeoJSON,
+          version,
+        });
         if (error) throw error;
       } else {
         setUploadError("Type de fichier non supporté.");
@@ -219,145 +463,130 @@ const DataCatalog = () => {
         return;
       }
 
-      setUploadStatus("Upload réussi !");
+      setUploadStatus(versionTarget ? "Nouvelle version enregistrée !" : "Upload réussi !");
       await fetchDatasets();
       setTimeout(() => {
         setShowAddModal(false);
         resetUploadForm();
       }, 2000);
-    } catch (err: any) {
-      setUploadError("Erreur lors de l'upload : " + (err.message || "Erreur inconnue"));
+    } catch (err) {
+      setUploadError("Erreur lors de l'upload : " + (err instanceof Error && err.message ? err.message : "Erreur inconnue"));
       setUploadStatus(null);
     } finally {
       setIsUploading(false);
     }
   };
 
-  // PATCH : handleVisualiser gère tous les formats, y compris SHP et CSV
+  const openOnMap = (dataset: DatasetMetadata, datasetGeoJSON: unknown) => {
+    navigate('/map', {
+      state: {
+        dataset,
+        datasetGeoJSON,
+        focusedDataset: dataset
+      }
+    });
+  };
+
+  // PATCH : handleVisualiser gère tous les formats, y compris SHP, KML, GeoPackage et CSV
   const handleVisualiser = async (dataset: DatasetMetadata) => {
     try {
-      let datasetGeoJSON = null;
-
-      // 1. GeoJSON éclaté (collection_points)
-      if (dataset.format === "GeoJSON" && dataset.source === "Supabase" && dataset.category !== "GeoJSON brut") {
-        const { data, error } = await db.collectionPoints.getById(dataset.id);
-        if (!error && data) {
-          datasetGeoJSON = {
-            type: "FeatureCollection",
-            features: [
-              {
-                type: "Feature",
-                geometry: {
-                  type: "Point",
-                  coordinates: [data.longitude, data.latitude]
-                },
-                properties: {
-                  id: data.id,
-                  name: data.name,
-                  type: data.type,
-                  commune_id: data.commune_id,
-                  capacity_kg: data.capacity_kg,
-                  waste_type: data.waste_type,
-                  status: data.status
-                }
-              }
-            ]
-          };
-        }
-      }
-      // 2. GeoJSON brut
-      else if (dataset.format === "GeoJSON" && dataset.category === "GeoJSON brut") {
-        const { data, error } = await supabase.from("geojson_datasets").select("data").eq("id", dataset.id).single();
-        if (!error && data) {
-          datasetGeoJSON = data.data;
-        }
-      }
-      // 3. SHP (raw_files)
-      else if (dataset.format === "SHP" && dataset.category === "Fichier brut") {
-        const { data, error } = await supabase.from("raw_files").select("filename, filedata").eq("id", dataset.id).single();
-        if (!error && data?.filedata) {
-          const blob = new Blob([new Uint8Array(data.filedata)], { type: "application/zip" });
-          try {
-            datasetGeoJSON = await shp(blob);
-          } catch (e) {
-            alert("Erreur lors de la conversion du SHP en GeoJSON.");
-            return;
-          }
-        }
-      }
-      // 4. CSV (raw_files)
-      else if (dataset.format === "CSV" && dataset.category === "Fichier brut") {
-        const { data, error } = await supabase.from("raw_files").select("filename, filedata").eq("id", dataset.id).single();
-        if (!error && data?.filedata) {
-          const blob = new Blob([new Uint8Array(data.filedata)], { type: "text/csv" });
-          const text = await blob.text();
-          const result = Papa.parse(text, { header: true });
-          if (result.data && Array.isArray(result.data)) {
-            datasetGeoJSON = {
-              type: "FeatureCollection",
-              features: result.data
-                .filter((row: any) => row.longitude && row.latitude)
-                .map((row: any) => ({
-                  type: "Feature",
-                  geometry: {
-                    type: "Point",
-                    coordinates: [parseFloat(row.longitude), parseFloat(row.latitude)]
-                  },
-                  properties: row
-                }))
-            };
-          }
+      // GeoPackage multi-couches : l'utilisateur choisit les couches à afficher
+      if (dataset.format === "GPKG" && dataset.storage === "raw_file" && dataset.contentId) {
+        const reader = await openGeoPackage(await fetchRawFileBlob(dataset.contentId));
+        if (reader.layers.length > 1) {
+          setGpkgVisualisation({ dataset, reader, selected: reader.layers.map(l => l.name) });
+          return;
         }
+        const datasetGeoJSON = reader.readLayers(reader.layers.map(l => l.name));
+        reader.close();
+        openOnMap(dataset, datasetGeoJSON);
+        return;
       }
-      // 5. Mock/fallback
-      else if (dataset.format === "GeoJSON" && dataset.source !== "Supabase") {
-        datasetGeoJSON = {
-          type: "FeatureCollection",
-          features: [{
-            type: "Feature",
-            geometry: { type: "Point", coordinates: [-17.4441, 14.6928] },
-            properties: { name: dataset.name, description: dataset.description, category: dataset.category }
-          }]
-        };
+
+      // Points de collecte et mobilier : la carte ne lit que son emprise
+      if (viewportTableOf(dataset)) {
+        openOnMap(dataset, null);
+        return;
       }
 
+      const datasetGeoJSON = await loadDatasetGeoJSON(dataset);
       if (!datasetGeoJSON) {
         alert("Impossible de visualiser ce format ou données absentes.");
         return;
       }
 
-      navigate('/map', {
-        state: {
-          dataset,
-          datasetGeoJSON,
-          focusedDataset: dataset
-        }
-      });
+      openOnMap(dataset, datasetGeoJSON);
     } catch (error) {
       console.error('Erreur lors de la visualisation:', error);
-      alert('Erreur lors du chargement des données pour la visualisation');
+      alert(error instanceof Error && error.message.includes("SHP")
+        ? error.message
+        : 'Erreur lors du chargement des données pour la visualisation');
+    }
+  };
+
+  const handleGpkgVisualisation = () => {
+    if (!gpkgVisualisation) return;
+    const { dataset, reader, selected } = gpkgVisualisation;
+    try {
+      openOnMap(dataset, reader.readLayers(selected));
+    } catch (error) {
+      console.error('Erreur lors de la lecture du GeoPackage:', error);
+      alert('Erreur lors du chargement des couches du GeoPackage');
+    } finally {
+      reader.close();
+      setGpkgVisualisation(null);
     }
   };
 
+  const closeGpkgVisualisation = () => {
+    gpkgVisualisation?.reader.close();
+    setGpkgVisualisation(null);
+  };
+
+  // Archivage (administrateurs) : le jeu reste consultable mais quitte le catalogue par défaut
+  const handleArchive = async (dataset: DatasetMetadata) => {
+    try {
+      await archiveDataset(dataset.id, dataset.status !== "archived");
+      await fetchDatasets();
+    } catch (error) {
+      alert("Archivage impossible : " + (error instanceof Error ? error.message : String(error)));
+    }
+  };
+
+  // Ré-upload d'un jeu existant : même format, enregistré comme nouvelle version
+  const startNewVersion = (dataset: DatasetMetadata) => {
+    resetUploadForm();
+    setVersionTarget(dataset);
+    setUploadType(dataset.format);
+    setUploadName(dataset.name);
+    setUploadDescription(dataset.description);
+    setHistoryDatasetId(null);
+    setShowAddModal(true);
+  };
+
+  const handleViewVersion = (dataset: DatasetMetadata, version: DatasetVersion, collection: unknown) => {
+    openOnMap({ ...dataset, name: `${dataset.name} (version ${version.version})` }, collection);
+  };
+
   const handleDownload = async (dataset: DatasetMetadata) => {
-    // Pour les fichiers bruts (PDF, ZIP, CSV) en raw_files
-    if ((dataset.format === "PDF" || dataset.format === "SHP" || dataset.format === "CSV") && dataset.category === "Fichier brut") {
-      const { data, error } = await supabase.from("raw_files").select("filename, filedata").eq("id", dataset.id).single();
-      if (!error && data && data.filedata) {
-        const blob = new Blob([new Uint8Array(data.filedata)], { type: dataset.format === "PDF" ? "application/pdf" : dataset.format === "SHP" ? "application/zip" : "text/csv" });
-        const url = URL.createObjectURL(blob);
+    // Pour les fichiers bruts (PDF, ZIP, KML/KMZ, GeoPackage, CSV) en raw_files
+    if (dataset.storage === "raw_file" && dataset.contentId) {
+      try {
+        // URL signée : le navigateur télécharge directement depuis le stockage
+        const { url, filename, local } = await getRawFileDownloadUrl(dataset.contentId);
         const a = document.createElement("a");
         a.href = url;
-        a.download = data.filename || "fichier";
+        a.download = filename || "fichier";
         a.click();
-        URL.revokeObjectURL(url);
-      } else {
+        if (local) URL.revokeObjectURL(url);
+      } catch (error) {
+        console.error("Erreur lors du téléchargement:", error);
         alert("Impossible de télécharger le fichier.");
       }
     }
-    // Pour GeoJSON brut
-    else if (dataset.format === "GeoJSON" && dataset.category === "GeoJSON brut") {
-      const { data, error } = await supabase.from("geojson_datasets").select("data, name").eq("id", dataset.id).single();
+    // Pour GeoJSON complet
+    else if (dataset.storage === "geojson" && dataset.contentId) {
+      const { data, error } = await supabase.from("geojson_datasets").select("data, name").eq("id", dataset.contentId).single();
       if (!error && data && data.data) {
         const blob = new Blob([JSON.stringify(data.data, null, 2)], { type: "application/geo+json" });
         const url = URL.createObjectURL(blob);
@@ -368,50 +597,20 @@ const DataCatalog = () => {
         URL.revokeObjectURL(url);
       }
     }
-    // Pour collection_points (GeoJSON éclaté)
-    else if (dataset.format === "GeoJSON" && dataset.source === "Supabase" && dataset.category !== "GeoJSON brut") {
-      const { data, error } = await db.collectionPoints.getById(dataset.id);
-      if (!error && data) {
-        const geojson = {
-          type: "FeatureCollection",
-          features: [
-            {
-              type: "Feature",
-              geometry: {
-                type: "Point",
-                coordinates: [data.longitude, data.latitude]
-              },
-              properties: data
-            }
-          ]
-        };
-        const blob = new Blob([JSON.stringify(geojson, null, 2)], { type: "application/geo+json" });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        a.href = url;
-        a.download = `${dataset.name.replace(/\s+/g, "_")}.geojson`;
-        a.click();
-        URL.revokeObjectURL(url);
-      }
-    }
-    // Pour mock datasets
-    else if (dataset.fileUrl) {
-      window.open(dataset.fileUrl, "_blank");
+    // Sinon : export dans le format et le système choisis
+    else if (dataset.format !== "PDF") {
+      setExportDataset(dataset);
     }
     else {
       alert("Téléchargement non disponible pour ce format.");
     }
   };
 
+  // La recherche texte et les filtres avancés sont faits par le serveur
   const filteredDatasets = datasets.filter((dataset) => {
-    const matchesSearch =
-      searchQuery === "" ||
-      dataset.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      dataset.description.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      dataset.tags.some((tag) => tag.toLowerCase().includes(searchQuery.toLowerCase()));
     const matchesFormat = selectedFormat === null || dataset.format === selectedFormat;
     const matchesCategory = selectedCategory === null || dataset.category === selectedCategory;
-    return matchesSearch && matchesFormat && matchesCategory;
+    return matchesFormat && matchesCategory;
   });
 
   const uniqueFormats = Array.from(new Set(datasets.map((dataset) => dataset.format)));
@@ -425,6 +624,8 @@ const DataCatalog = () => {
         return <Database size={16} className="text-green-500" />;
       case 'CSV':
         return <FileType2 size={16} className="text-green-500" />;
+      case 'GPKG':
+        return <Layers size={16} className="text-green-500" />;
       case 'PDF':
         return <FileType2 size={16} className="text-red-500" />;
       default:
@@ -434,6 +635,8 @@ const DataCatalog = () => {
 
   const categoryIcon = (category: string) => {
     switch (category) {
+      case 'Couche métier':
+        return <Layers size={16} className="text-green-600" />;
       case 'Points d\'intérêt':
         return <MapIcon size={16} className="text-green-600" />;
       case 'Itinéraires':
@@ -451,19 +654,49 @@ const DataCatalog = () => {
     <div className="h-full flex flex-col">
       <div className="mb-4 flex items-center justify-between">
         <h1 className="text-2xl font-bold text-green-600">Catalogue de données</h1>
-        <button 
-          className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md flex items-center transition-colors"
-          onClick={() => setShowAddModal(true)}
-        >
-          <Plus size={16} className="mr-1.5" />
-          Ajouter un jeu de données
-        </button>
+        <div className="flex space-x-2">
+          {user?.role === "admin" && (
+            <button
+              className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+              onClick={() => setShowTrash(true)}
+            >
+              <Trash2 size={16} className="mr-1.5" />
+              Corbeille
+            </button>
+          )}
+          <button 
+            className="bg-green-600 hover:bg-green-700 text-white px-4 py-2 rounded-md flex items-center transition-colors"
+            onClick={() => setShowAddModal(true)}
+          >
+            <Plus size={16} className="mr-1.5" />
+            Ajouter un jeu de données
+          </button>
+        </div>
       </div>
+      {user?.role === "admin" && (inlineRawFileCount > 0 || migrationStatus) && (
+        <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md flex items-center justify-between">
+          <div className="flex items-center text-sm text-yellow-800">
+            <AlertCircle size={16} className="mr-2 flex-shrink-0" />
+            {migrationStatus || `${inlineRawFileCount} fichier(s) brut(s) encore stocké(s) en base. Migrez-les vers le stockage pour permettre leur téléchargement direct.`}
+          </div>
+          {inlineRawFileCount > 0 && (
+            <button
+              onClick={handleMigrateRawFiles}
+              className="ml-4 px-3 py-1.5 bg-yellow-600 text-white text-sm rounded-md hover:bg-yellow-700 disabled:opacity-50 whitespace-nowrap"
+              disabled={isMigrating}
+            >
+              Migrer vers le stockage
+            </button>
+          )}
+        </div>
+      )}
       {showAddModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+          <div className={`bg-white rounded-lg shadow-xl w-full ${importTarget !== "geojson_datasets" ? "max-w-3xl" : "max-w-lg"} max-h-[90vh] overflow-y-auto`}>
             <div className="flex items-center justify-between p-4 border-b">
-              <h3 className="text-lg font-medium">Ajouter un jeu de données</h3>
+              <h3 className="text-lg font-medium">
+                {versionTarget ? `Nouvelle version — ${versionTarget.name}` : "Ajouter un jeu de données"}
+              </h3>
               <button 
                 onClick={() => {
                   setShowAddModal(false);
@@ -496,6 +729,24 @@ const DataCatalog = () => {
                     <span className="block text-sm font-medium">GeoJSON (.geojson)</span>
                     <span className="block text-xs text-gray-500 mt-1">Données géographiques</span>
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => setUploadType('KML')}
+                    className="p-4 border-2 border-dashed rounded-lg hover:border-green-500 hover:bg-green-50 transition-colors"
+                  >
+                    <Globe size={24} className="mx-auto mb-2 text-green-600" />
+                    <span className="block text-sm font-medium">KML / KMZ (.kml, .kmz)</span>
+                    <span className="block text-xs text-gray-500 mt-1">Tracés Google Earth</span>
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setUploadType('GPKG')}
+                    className="p-4 border-2 border-dashed rounded-lg hover:border-green-500 hover:bg-green-50 transition-colors"
+                  >
+                    <Layers size={24} className="mx-auto mb-2 text-green-600" />
+                    <span className="block text-sm font-medium">GeoPackage (.gpkg)</span>
+                    <span className="block text-xs text-gray-500 mt-1">Une ou plusieurs couches</span>
+                  </button>
                   <button
                     type="button"
                     onClick={() => setUploadType('CSV')}
@@ -527,7 +778,7 @@ const DataCatalog = () => {
                       onChange={(e) => setUploadName(e.target.value)}
                       className="w-full px-3 py-2 border rounded-md focus:ring-1 focus:ring-green-500 focus:border-green-500"
                       required
-                      disabled={isUploading}
+                      disabled={isUploading || !!versionTarget}
                     />
                   </div>
                   <div>
@@ -542,6 +793,84 @@ const DataCatalog = () => {
                       disabled={isUploading}
                     />
                   </div>
+                  {versionTarget && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Note de version
+                      </label>
+                      <input
+                        type="text"
+                        value={uploadVersionNote}
+                        onChange={(e) => setUploadVersionNote(e.target.value)}
+                        placeholder="Ex. : ajout des circuits de Pikine"
+                        className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                        disabled={isUploading}
+                      />
+                    </div>
+                  )}
+                  {!isTableImport && !versionTarget && (
+                    <>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Catégorie
+                          </label>
+                          <input
+                            type="text"
+                            list="dataset-categories"
+                            value={uploadCategory}
+                            onChange={(e) => setUploadCategory(e.target.value)}
+                            placeholder={uploadType === "PDF" ? "Document" : "Non classé"}
+                            className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                            disabled={isUploading}
+                          />
+                          <datalist id="dataset-categories">
+                            {uniqueCategories.map(category => <option key={category} value={category} />)}
+                          </datalist>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Source / producteur
+                          </label>
+                          <input
+                            type="text"
+                            value={uploadSource}
+                            onChange={(e) => setUploadSource(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                            disabled={isUploading}
+                          />
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-2 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Licence
+                          </label>
+                          <select
+                            value={uploadLicence}
+                            onChange={(e) => setUploadLicence(e.target.value)}
+                            className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                            disabled={isUploading}
+                          >
+                            {DATASET_LICENCES.map(licence => <option key={licence} value={licence}>{licence}</option>)}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            Mots-clés
+                          </label>
+                          <input
+                            type="text"
+                            value={uploadTags}
+                            onChange={(e) => setUploadTags(e.target.value)}
+                            placeholder="collecte, bacs, Dakar"
+                            className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                            disabled={isUploading}
+                          />
+                        </div>
+                      </div>
+                    </>
+                  )}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">
                       Fichier ({uploadType}) *
@@ -555,7 +884,7 @@ const DataCatalog = () => {
                             <input
                               type="file"
                               className="sr-only"
-                              accept={uploadType === 'PDF' ? '.pdf' : uploadType === 'CSV' ? '.csv' : uploadType === 'GeoJSON' ? '.geojson,.json' : '.zip'}
+                              accept={uploadType === 'PDF' ? '.pdf' : uploadType === 'CSV' ? '.csv' : uploadType === 'GeoJSON' ? '.geojson,.json' : uploadType === 'KML' ? '.kml,.kmz' : uploadType === 'GPKG' ? '.gpkg' : '.zip'}
                               onChange={handleFileUpload}
                               required
                               disabled={isUploading}
@@ -563,7 +892,9 @@ const DataCatalog = () => {
                           </label>
                         </div>
                         {uploadFile ? (
-                          <p className="text-sm text-green-600 font-medium">{uploadFile.name}</p>
+                          <p className="text-sm text-green-600 font-medium">
+                            {uploadFile.name} <span className="text-gray-500 font-normal">({formatFileSize(uploadFile.size)})</span>
+                          </p>
                         ) : (
                           <p className="text-xs text-gray-500">
                             {uploadType === 'SHP' 
@@ -572,9 +903,141 @@ const DataCatalog = () => {
                             }
                           </p>
                         )}
+                        {uploadType !== 'GeoJSON' && (
+                          <p className="text-xs text-gray-400">Taille maximale des fichiers bruts : {formatFileSize(MAX_RAW_FILE_SIZE)}</p>
+                        )}
                       </div>
                     </div>
                   </div>
+                  {uploadType === "CSV" && csvBytes && uploadFile && (
+                    <CsvImportWizard
+                      key={`${uploadFile.name}-${uploadFile.lastModified}`}
+                      bytes={csvBytes}
+                      onChange={handleCsvChange}
+                      disabled={isUploading}
+                    />
+                  )}
+                  {isGeographicUpload && !versionTarget && (
+                    <>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Destination
+                        </label>
+                        <select
+                          value={importTarget}
+                          onChange={(e) => setImportTarget(e.target.value as ImportTarget)}
+                          className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                          disabled={isUploading}
+                        >
+                          {importTargets.map(t => (
+                            <option key={t.value} value={t.value}>
+                              {t.value === "geojson_datasets" && uploadType === "SHP"
+                                ? "Fichier brut (ZIP)"
+                                : t.value === "geojson_datasets" && uploadType === "GPKG" ? "Fichier brut (GeoPackage)"
+                                : t.value === "geojson_datasets" && uploadType === "CSV" ? "Fichier brut (CSV)" : t.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      {importTarget !== "geojson_datasets" && (
+                        <>
+                          <ImportModeSelector
+                            table={importTarget}
+                            mode={importMode}
+                            mergeOptions={mergeOptions}
+                            onModeChange={setImportMode}
+                            onMergeOptionsChange={setMergeOptions}
+                            disabled={isUploading}
+                          />
+                          {uploadType === "GPKG" && gpkgLayers.length > 0 && (
+                            <GeoPackageLayerPicker
+                              layers={gpkgLayers}
+                              selected={selectedGpkgLayers}
+                              onChange={handleGpkgLayersChange}
+                              disabled={isUploading}
+                            />
+                          )}
+                          {uploadType === "KML" ? (
+                            <p className="text-xs text-gray-500">
+                              Les coordonnées KML sont toujours en WGS84 (EPSG:4326) : aucun système source à choisir.
+                            </p>
+                          ) : uploadType === "GPKG" ? (
+                            <p className="text-xs text-gray-500">
+                              Chaque couche est reprojetée depuis le système déclaré dans le GeoPackage : aucun système source à choisir.
+                            </p>
+                          ) : uploadType === "CSV" ? null : (
+                            <CrsSelector value={sourceCrs} onChange={setSourceCrs} disabled={isUploading} />
+                          )}
+                          {uploadType === "GeoJSON" && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Fichier de projection (.prj, optionnel)
+                              </label>
+                              <input
+                                type="file"
+                                accept=".prj"
+                                onChange={(e) => setPrjFile(e.target.files?.[0] || null)}
+                                className="block w-full text-sm text-gray-600 file:mr-3 file:py-1.5 file:px-3 file:rounded-md file:border-0 file:text-sm file:bg-green-50 file:text-green-700 hover:file:bg-green-100"
+                                disabled={isUploading}
+                              />
+                            </div>
+                          )}
+                          {parsedGeoJSON && (
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                Correspondance des attributs
+                              </label>
+                              <AttributeMappingEditor
+                                table={importTarget}
+                                sourceProperties={sourceProperties}
+                                sampleFeatures={parsedGeoJSON.features || []}
+                                mapping={attributeMapping}
+                                onChange={setAttributeMapping}
+                                disabled={isUploading}
+                              />
+                            </div>
+                          )}
+                        </>
+                      )}
+                    </>
+                  )}
+                  {conversionReport && <ConversionReportView report={conversionReport} />}
+                  {preparedImport?.merge && <MergeDiffView diff={preparedImport.merge} />}
+                  {importJob && (
+                    <div className="space-y-1">
+                      <ImportProgress job={importJob} />
+                      {!isUploading && (
+                        <button
+                          type="button"
+                          onClick={() => {
+                            clearImportJob(importJob.key);
+                            setImportJob(null);
+                            setUploadStatus(null);
+                          }}
+                          className="text-xs text-gray-500 hover:text-gray-700 underline"
+                        >
+                          Oublier cet import et repartir de zéro
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {preparedImport && preparedImport.rows.length > 0 && (
+                    <div>
+                      <h4 className="text-xs font-medium text-gray-700 mb-1">
+                        Aperçu des {preparedImport.rows.length} ligne(s) acceptée(s)
+                      </h4>
+                      <ImportPreviewMap
+                        data={{
+                          type: "FeatureCollection",
+                          features: preparedImport.rows.map(({ row, geometry }) => ({
+                            type: "Feature",
+                            geometry,
+                            properties: { name: row.name }
+                          }))
+                        }}
+                      />
+                    </div>
+                  )}
                   {/* Debug list for SHP zip content */}
                   {uploadType === "SHP" && shpDebugFileList && (
                     <div className="p-2 bg-yellow-50 rounded text-xs mt-2">
@@ -597,24 +1060,45 @@ const DataCatalog = () => {
                     </div>
                   )}
                   <div className="flex justify-end space-x-3 pt-4 border-t">
-                    <button
-                      type="button"
-                      onClick={() => setUploadType(null)}
-                      className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-800"
-                      disabled={isUploading}
-                    >
-                      Retour
-                    </button>
+                    {!versionTarget && (
+                      <button
+                        type="button"
+                        onClick={() => setUploadType(null)}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-800"
+                        disabled={isUploading}
+                      >
+                        Retour
+                      </button>
+                    )}
+                    {isUploading && importJob && (
+                      <button
+                        type="button"
+                        onClick={() => importAbortRef.current?.abort()}
+                        className="px-4 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-md hover:bg-red-50"
+                      >
+                        Interrompre
+                      </button>
+                    )}
                     <button
                       type="submit"
                       className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center"
-                      disabled={isUploading}
+                      disabled={
+                        isUploading ||
+                        (preparedImport?.rows.length === 0 && !preparedImport.merge?.removed.length) ||
+                        (importMode === "merge" && mergeOptions.key.length === 0) ||
+                        (isTableImport && uploadType === "GPKG" && selectedGpkgLayers.length === 0)
+                      }
                     >
                       {isUploading ? (
                         <>
                           <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                          Importation...
+                          {preparedImport ? 'Importation...' : 'Vérification...'}
                         </>
+                      ) : isTableImport ? (
+                        !preparedImport ? 'Vérifier'
+                          : importJob && getJobProgress(importJob).failed > 0 ? 'Réessayer les lots en échec'
+                          : importJob ? "Reprendre l'import"
+                          : `Confirmer l'import (${preparedImport.rows.length})`
                       ) : (
                         'Importer'
                       )}
@@ -626,6 +1110,81 @@ const DataCatalog = () => {
           </div>
         </div>
       )}
+      {exportDataset && (
+        <DatasetExportDialog
+          datasetName={exportDataset.name}
+          loadCollection={() => loadDatasetCollection(exportDataset)}
+          onClose={() => setExportDataset(null)}
+        />
+      )}
+
+      {historyDataset && (
+        <DatasetHistoryDialog
+          dataset={historyDataset}
+          currentUser={currentUserName}
+          onViewVersion={(version, collection) => handleViewVersion(historyDataset, version, collection)}
+          onNewVersion={() => startNewVersion(historyDataset)}
+          onRestored={fetchDatasets}
+          onClose={() => setHistoryDatasetId(null)}
+        />
+      )}
+
+      {metadataDataset && (
+        <DatasetMetadataDialog
+          dataset={metadataDataset}
+          categories={uniqueCategories}
+          onSaved={fetchDatasets}
+          onClose={() => setMetadataDataset(null)}
+        />
+      )}
+
+      {deleteDataset && (
+        <DatasetDeleteDialog
+          dataset={deleteDataset}
+          deletedBy={currentUserName}
+          onDeleted={fetchDatasets}
+          onClose={() => setDeleteDataset(null)}
+        />
+      )}
+
+      {showTrash && <DatasetTrashDialog onRestored={fetchDatasets} onClose={() => setShowTrash(false)} />}
+
+      {gpkgVisualisation && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+            <div className="flex items-center justify-between p-4 border-b">
+              <h3 className="text-lg font-medium">Couches à visualiser — {gpkgVisualisation.dataset.name}</h3>
+              <button onClick={closeGpkgVisualisation} className="text-gray-400 hover:text-gray-500">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="p-4 space-y-4">
+              <GeoPackageLayerPicker
+                layers={gpkgVisualisation.reader.layers}
+                selected={gpkgVisualisation.selected}
+                onChange={(selected) => setGpkgVisualisation({ ...gpkgVisualisation, selected })}
+              />
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={closeGpkgVisualisation}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 hover:text-gray-800"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="button"
+                  onClick={handleGpkgVisualisation}
+                  className="px-4 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+                  disabled={gpkgVisualisation.selected.length === 0}
+                >
+                  Visualiser
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
       <div className="bg-white p-4 rounded-lg shadow-sm mb-4 border border-gray-200">
         <div className="flex flex-col md:flex-row space-y-3 md:space-y-0 md:space-x-4">
           <div className="relative flex-1">
@@ -635,7 +1194,7 @@ const DataCatalog = () => {
             <input
               type="text"
               className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md text-sm placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-green-500 focus:border-green-500"
-              placeholder="Rechercher un jeu de données..."
+              placeholder="Rechercher dans les métadonnées et les attributs..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
             />
@@ -671,12 +1230,106 @@ const DataCatalog = () => {
                 <ChevronDown size={14} className="text-gray-500" />
               </div>
             </div>
-            <button className="px-3 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-1 focus:ring-green-500 focus:border-green-500 flex items-center">
+            <button
+              type="button"
+              onClick={() => setShowMoreFilters(show => !show)}
+              className={`px-3 py-2 border rounded-md text-sm font-medium flex items-center focus:outline-none focus:ring-1 focus:ring-green-500 focus:border-green-500 ${
+                showMoreFilters || activeFilterCount > 0
+                  ? "border-green-500 text-green-700 bg-green-50"
+                  : "border-gray-300 text-gray-700 bg-white hover:bg-gray-50"
+              }`}
+            >
               <Filter size={16} className="mr-1.5" />
-              Plus de filtres
+              Plus de filtres{activeFilterCount > 0 ? ` (${activeFilterCount})` : ""}
             </button>
           </div>
         </div>
+        {showMoreFilters && (
+          <div className="mt-4 pt-4 border-t border-gray-200">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Mis à jour du</label>
+                <input
+                  type="date"
+                  className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                  value={searchFilters.dateFrom || ""}
+                  max={searchFilters.dateTo}
+                  onChange={(e) => updateSearchFilter("dateFrom", e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">au</label>
+                <input
+                  type="date"
+                  className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                  value={searchFilters.dateTo || ""}
+                  min={searchFilters.dateFrom}
+                  onChange={(e) => updateSearchFilter("dateTo", e.target.value)}
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Propriétaire</label>
+                <select
+                  className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                  value={searchFilters.owner || ""}
+                  onChange={(e) => updateSearchFilter("owner", e.target.value)}
+                >
+                  <option value="">Tous propriétaires</option>
+                  {owners.map((owner) => (
+                    <option key={owner} value={owner}>{owner}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Commune</label>
+                <select
+                  className="w-full px-3 py-2 border rounded-md text-sm focus:ring-1 focus:ring-green-500 focus:border-green-500"
+                  value={searchFilters.communeId || ""}
+                  onChange={(e) => updateSearchFilter("communeId", e.target.value)}
+                >
+                  <option value="">Toutes communes</option>
+                  {communes.map((commune) => (
+                    <option key={commune.id} value={commune.id}>{commune.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <label className="mt-3 flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="mr-2 text-green-600 focus:ring-green-500"
+                checked={searchFilters.includeArchived || false}
+                onChange={(e) => updateSearchFilter("includeArchived", e.target.checked)}
+              />
+              Inclure les jeux archivés
+            </label>
+            <div className="flex items-center justify-between mt-3">
+              <button
+                type="button"
+                onClick={() => setShowExtentSearch(show => !show)}
+                className="px-3 py-1.5 border border-gray-300 rounded-md text-xs font-medium text-gray-700 bg-white hover:bg-gray-50 flex items-center"
+              >
+                <Square size={14} className="mr-1.5" />
+                {showExtentSearch ? "Masquer la carte" : "Rechercher par emprise"}
+                {searchFilters.extent && !showExtentSearch ? " (zone active)" : ""}
+              </button>
+              {activeFilterCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setSearchFilters({})}
+                  className="text-xs font-medium text-gray-600 hover:text-gray-800"
+                >
+                  Réinitialiser les filtres
+                </button>
+              )}
+            </div>
+            {showExtentSearch && (
+              <div className="mt-3">
+                <ExtentSearchMap value={searchFilters.extent || null} onChange={handleExtentChange} datasets={filteredDatasets} />
+              </div>
+            )}
+          </div>
+        )}
       </div>
       <div className="bg-white rounded-lg shadow-sm flex-1 overflow-hidden border border-gray-200">
         {isLoading ? (
@@ -725,8 +1378,18 @@ const DataCatalog = () => {
                           <Database size={20} className="text-green-600" />
                         </div>
                         <div className="ml-4">
-                          <div className="text-sm font-medium text-green-600">{dataset.name}</div>
+                          <div className="text-sm font-medium text-green-600">
+                            {dataset.name}
+                            {dataset.status === "archived" && (
+                              <span className="ml-2 px-1.5 py-0.5 text-xs font-medium bg-gray-100 text-gray-600 rounded">Archivé</span>
+                            )}
+                          </div>
                           <div className="text-sm text-gray-500 line-clamp-2">{dataset.description}</div>
+                          {(dataset.source || dataset.licence) && (
+                            <div className="text-xs text-gray-400">
+                              {[dataset.source, dataset.licence].filter(Boolean).join(" · ")}
+                            </div>
+                          )}
                           <div className="mt-1 flex flex-wrap gap-1">
                             {dataset.tags.map((tag) => (
                               <span key={tag} className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
@@ -747,6 +1410,12 @@ const DataCatalog = () => {
                       <div className="flex items-center">
                         <div className="mr-2">{formatIcon(dataset.format)}</div>
                         <div className="text-sm text-green-600">{dataset.format}</div>
+                        {dataset.fileSize !== undefined && (
+                          <div className="ml-2 text-xs text-gray-400">{formatFileSize(dataset.fileSize)}</div>
+                        )}
+                        {dataset.featureCount !== undefined && (
+                          <div className="ml-2 text-xs text-gray-400">{dataset.featureCount} entité(s)</div>
+                        )}
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
@@ -775,6 +1444,58 @@ const DataCatalog = () => {
                         <Download size={16} className="mr-1" />
                         Télécharger
                       </button>
+                      {dataset.format !== "PDF" && (
+                        <button
+                          className="ml-3 text-green-600 hover:text-green-700 inline-flex items-center"
+                          onClick={() => setExportDataset(dataset)}
+                          title="Exporter (GeoJSON, Shapefile, CSV, KML, GeoPackage)"
+                        >
+                          <FileOutput size={16} className="mr-1" />
+                          Exporter
+                        </button>
+                      )}
+                      {dataset.storage !== "table" && (
+                        <button
+                          className="ml-3 text-green-600 hover:text-green-700 inline-flex items-center"
+                          onClick={() => setHistoryDatasetId(dataset.id)}
+                          title="Versions du jeu de données"
+                        >
+                          <History size={16} className="mr-1" />
+                          v{dataset.currentVersion ?? 1}
+                        </button>
+                      )}
+                      <button
+                        className="ml-3 text-green-600 hover:text-green-700 inline-flex items-center"
+                        onClick={() => setMetadataDataset(dataset)}
+                        title="Fiche de métadonnées (ISO 19115)"
+                      >
+                        <FileText size={16} className="mr-1" />
+                        Fiche
+                      </button>
+                      {user?.role === "admin" && dataset.storage !== "table" && (
+                        <button
+                          className="ml-3 text-green-600 hover:text-green-700 inline-flex items-center"
+                          onClick={() => handleArchive(dataset)}
+                          title={dataset.status === "archived" ? "Remettre dans le catalogue" : "Masquer du catalogue sans supprimer"}
+                        >
+                          {dataset.status === "archived" ? (
+                            <ArchiveRestore size={16} className="mr-1" />
+                          ) : (
+                            <Archive size={16} className="mr-1" />
+                          )}
+                          {dataset.status === "archived" ? "Désarchiver" : "Archiver"}
+                        </button>
+                      )}
+                      {user?.role === "admin" && dataset.storage !== "table" && (
+                        <button
+                          className="ml-3 text-red-600 hover:text-red-700 inline-flex items-center"
+                          onClick={() => setDeleteDataset(dataset)}
+                          title="Mettre à la corbeille"
+                        >
+                          <Trash2 size={16} className="mr-1" />
+                          Supprimer
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
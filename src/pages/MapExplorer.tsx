@@ -1,16 +1,53 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useParams, useLocation, useNavigate } from 'react-router-dom';
+import type { Feature, FeatureCollection } from 'geojson';
 import MapView from '../components/map/MapView';
 import MapExport from '../components/map/MapExport';
-import { MapLayer } from '../types';
-import { db, supabase } from '../lib/supabase';
-import Papa from 'papaparse';
-import shp from 'shpjs';
+import AttributeTable from '../components/map/AttributeTable';
+import LayerControl from '../components/map/LayerControl';
+import AddLayerDialog from '../components/map/AddLayerDialog';
+import LayerStyleEditor from '../components/map/LayerStyleEditor';
+import SavedMapsPanel from '../components/map/SavedMapsPanel';
+import EditToolbar from '../components/map/EditToolbar';
+import FeatureAttributeForm from '../components/map/FeatureAttributeForm';
+import DatasetExportDialog from '../components/catalog/DatasetExportDialog';
+import { DatasetExtent, DatasetMetadata, EditTool, EditableGeometry, GeometryEdit, ImportTable, MapLayer, MapViewState, SavedMap } from '../types';
+import { RouteFeatureCollection, fetchSweepingRoutesGeoJSON, fetchDatasetById, fetchPointTableViewport, createSharedLink, saveMap } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  AttributeEdit,
+  asFeatureCollection,
+  editableAttributeColumns,
+  isDatasetEditable,
+  parseAttributeEdit,
+  remapFeatureIndex,
+  saveAttributeEdits
+} from '../lib/datasets';
+import { collectSourceProperties } from '../lib/importMapping';
+import { RealtimeTable, TableChange } from '../lib/realtime';
+import { deleteTableFeature, updateTableGeometry } from '../lib/featureEditing';
+import {
+  LayerGeometryFilter,
+  MapSession,
+  datasetLayer,
+  layerFeaturesInExtent,
+  loadLayerData,
+  loadMapLayers,
+  loadMapSession,
+  matchesGeometryFilter,
+  saveMapSession,
+  savedLayersOf,
+  viewportTableOf
+} from '../lib/mapSession';
 import {
   Search, Share2, ChevronLeft, ChevronRight, Map as MapIcon,
-  Trash2, AlertTriangle
+  Trash2, AlertTriangle, Eye, EyeOff, Table, Pencil
 } from 'lucide-react';
 
+const VIEWPORT_DELAY_MS = 300;
+// Une série de modifications en temps réel ne provoque qu'une relecture des couches
+const REALTIME_RELOAD_DELAY_MS = 1000;
+
 const MapExplorer = () => {
   const [layers, setLayers] = useState<MapLayer[]>([]);
   const [sidebarOpen, setSidebarOpen] = useState(true);
@@ -23,129 +60,205 @@ const MapExplorer = () => {
   const { id } = useParams<{ id?: string }>();
   const location = useLocation();
   const navigate = useNavigate();
-  const [focusedDataset, setFocusedDataset] = useState<any>(null);
-  const [datasetGeoJSON, setDatasetGeoJSON] = useState<any>(null);
+  const { user } = useAuth();
+  const [importedRoutes, setImportedRoutes] = useState<RouteFeatureCollection | null>(null);
+  const [isLoadingRoutes, setIsLoadingRoutes] = useState(false);
+  const [showAttributeTable, setShowAttributeTable] = useState(true);
+  const [selectedFeatureIndex, setSelectedFeatureIndex] = useState<number | null>(null);
+  // Modifications de la table attributaire non enregistrées (couche active)
+  const [attributeEditsPending, setAttributeEditsPending] = useState(false);
+
+  // Session de carte : couches des jeux ouverts, couche active et carte enregistrée
+  const [layerDatasets, setLayerDatasets] = useState<Record<string, DatasetMetadata>>({});
+  const [activeLayerId, setActiveLayerId] = useState<string | null>(null);
+  const [currentMap, setCurrentMap] = useState<MapSession['savedMap']>(null);
+  const [mapView, setMapView] = useState<MapViewState | null>(null);
+  const viewRef = useRef<MapViewState | null>(null);
+  const [initialSession] = useState(loadMapSession);
+  const [sessionRestored, setSessionRestored] = useState(!initialSession?.layers.length);
+
+  // Contrôle des couches : filtre par géométrie, ajout depuis le catalogue, export de la vue
+  const [geometryFilter, setGeometryFilter] = useState<LayerGeometryFilter>(null);
+  const [showAddLayer, setShowAddLayer] = useState(false);
+  const [downloadLayer, setDownloadLayer] = useState<MapLayer | null>(null);
+  const [styleLayerId, setStyleLayerId] = useState<string | null>(null);
+  const extentRef = useRef<DatasetExtent | null>(null);
+
+  // Emprise et zoom courants, pour les couches chargées par emprise
+  const [viewport, setViewport] = useState<{ extent: DatasetExtent; zoom: number } | null>(null);
+  const viewportRequest = useRef(0);
+  const [viewportRefresh, setViewportRefresh] = useState(0);
+  // Tables modifiées par d'autres utilisateurs, dont les couches sont à relire
+  const [changedTables, setChangedTables] = useState<RealtimeTable[]>([]);
+
+  // Édition des tables métier sur la carte (null : édition fermée)
+  const [editTable, setEditTable] = useState<ImportTable | null>(null);
+  const [editTool, setEditTool] = useState<EditTool | null>(null);
+  const [editSession, setEditSession] = useState(0);
+  // Géométrie saisie d'un nouvel élément, en attente de ses attributs
+  const [newFeature, setNewFeature] = useState<{ table: ImportTable; geometry: EditableGeometry } | null>(null);
+
+  const activeLayer = layers.find(l => l.id === activeLayerId) || null;
+  const focusedDataset = activeLayerId ? layerDatasets[activeLayerId] || null : null;
+  const datasetGeoJSON = activeLayer?.data || null;
+  const styleLayer = layers.find(l => l.id === styleLayerId) || null;
+
+  // Couche active relue (emprise, modifications d'autres utilisateurs) : l'entité
+  // sélectionnée est retrouvée par son identifiant, l'ordre n'étant pas conservé
+  const previousActiveData = useRef({ layerId: activeLayerId, data: datasetGeoJSON });
+  useEffect(() => {
+    const { layerId, data: previousData } = previousActiveData.current;
+    previousActiveData.current = { layerId: activeLayerId, data: datasetGeoJSON };
+    if (layerId !== activeLayerId || !previousData || !datasetGeoJSON || previousData === datasetGeoJSON) return;
+    setSelectedFeatureIndex(index => remapFeatureIndex(previousData, datasetGeoJSON, index));
+  }, [activeLayerId, datasetGeoJSON]);
+
+  // Les couches écartées par le filtre sont masquées sans perdre leur visibilité
+  const displayedLayers = useMemo(
+    () => layers.map(layer => (matchesGeometryFilter(layer, geometryFilter) ? layer : { ...layer, visible: false })),
+    [layers, geometryFilter]
+  );
+
+  const currentUserName = user ? [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username : '';
+  // Saisie et modification des géométries : administrateurs et géomaticiens
+  const canEditFeatures = user?.role === 'admin' || user?.role === 'geomaticien';
+
+  // Ajoute un jeu au-dessus des couches ouvertes (ou active sa couche s'il est déjà ouvert)
+  const showDatasetLayer = useCallback((dataset: DatasetMetadata, data: FeatureCollection | null) => {
+    if (!data) return;
+    setLayerDatasets(current => ({ ...current, [dataset.id]: dataset }));
+    setLayers(current => (current.some(l => l.id === dataset.id) ? current : [datasetLayer(dataset, data), ...current]));
+    setActiveLayerId(dataset.id);
+    setSelectedFeatureIndex(null);
+  }, []);
+
+  // Couches de la session précédente (retour depuis le catalogue), sous les jeux ouverts entre-temps
+  useEffect(() => {
+    if (!initialSession || initialSession.layers.length === 0) return;
+    loadMapLayers(initialSession.layers)
+      .then(loaded => {
+        setLayerDatasets(current => ({ ...Object.fromEntries(loaded.datasets.map(d => [d.id, d])), ...current }));
+        setLayers(current => [...current, ...loaded.layers.filter(l => !current.some(c => c.id === l.id))]);
+        setActiveLayerId(current => current ?? (loaded.layers.some(l => l.id === initialSession.activeLayerId)
+          ? initialSession.activeLayerId
+          : loaded.layers[0]?.id ?? null));
+        setCurrentMap(initialSession.savedMap);
+        if (initialSession.view && !location.state && !id) setMapView(initialSession.view);
+      })
+      .catch(error => console.error('Erreur lors de la restauration de la carte:', error))
+      .finally(() => setSessionRestored(true));
+    // Restauration unique, au montage : la navigation ultérieure ne la rejoue pas
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!sessionRestored) return;
+    saveMapSession({ layers: savedLayersOf(layers), activeLayerId, view: viewRef.current, savedMap: currentMap });
+  }, [sessionRestored, layers, activeLayerId, currentMap]);
+
+  const handleViewChange = useCallback((view: MapViewState, extent: DatasetExtent) => {
+    viewRef.current = view;
+    extentRef.current = extent;
+    setViewport({ extent, zoom: view.zoom });
+    const session = loadMapSession();
+    if (sessionRestored && session) saveMapSession({ ...session, view });
+  }, [sessionRestored]);
+
+  // État courant lu par les relectures différées, sans les relancer à chaque changement
+  const latestRef = useRef({ layers, layerDatasets, importedRoutes, activeLayerId });
+  latestRef.current = { layers, layerDatasets, importedRoutes, activeLayerId };
+
+  // Couches chargées par emprise : éléments ou groupes de la vue courante, relus
+  // après chaque déplacement (seule la dernière réponse est prise en compte). La
+  // couche active n'est pas relue tant que sa table a des modifications en attente ;
+  // elle l'est dès leur enregistrement ou leur abandon.
+  const viewportLayerKey = layers.filter(l => l.viewportTable && l.visible).map(l => l.id).join(',');
+  useEffect(() => {
+    if (!viewport || !viewportLayerKey) return;
+    const request = ++viewportRequest.current;
+    const timer = setTimeout(() => {
+      const { layers, activeLayerId } = latestRef.current;
+      layers.forEach(layer => {
+        if (!layer.viewportTable || !layer.visible) return;
+        if (attributeEditsPending && layer.id === activeLayerId) return;
+        fetchPointTableViewport(layer.viewportTable, viewport.extent, viewport.zoom)
+          .then(({ collection, clusters }) => {
+            if (request !== viewportRequest.current) return;
+            setLayers(current => current.map(l => (l.id === layer.id ? { ...l, data: collection, clusters } : l)));
+          })
+          .catch(error => console.error(`Erreur lors du chargement de ${layer.name}:`, error));
+      });
+    }, VIEWPORT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [viewport, viewportLayerKey, viewportRefresh, attributeEditsPending]);
+
+  const reloadTable = useCallback((table: RealtimeTable) => {
+    setChangedTables(current => (current.includes(table) ? current : [...current, table]));
+  }, []);
+
+  const handleTableChange = useCallback((change: TableChange) => reloadTable(change.table), [reloadTable]);
+
+  // Relecture des couches et des circuits importés des tables modifiées
+  useEffect(() => {
+    if (changedTables.length === 0) return;
+    const timer = setTimeout(() => {
+      const { layers, layerDatasets, importedRoutes } = latestRef.current;
+      setChangedTables([]);
+      const changed = (table?: string) => changedTables.some(t => t === table);
+      if (layers.some(l => changed(l.viewportTable))) setViewportRefresh(n => n + 1);
+      layers.forEach(layer => {
+        const dataset = layerDatasets[layer.id];
+        if (layer.viewportTable || !dataset || !changed(layer.source)) return;
+        loadLayerData(dataset)
+          .then(data => {
+            if (data) setLayers(current => current.map(l => (l.id === layer.id ? { ...l, data } : l)));
+          })
+          .catch(error => console.error(`Erreur lors du rechargement de ${layer.name}:`, error));
+      });
+      if (importedRoutes && changed('sweeping_routes')) {
+        fetchSweepingRoutesGeoJSON()
+          .then(setImportedRoutes)
+          .catch(error => console.error('Erreur lors du rechargement des circuits importés:', error));
+      }
+    }, REALTIME_RELOAD_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [changedTables]);
 
   // Prise en compte de la navigation depuis DataCatalog
   useEffect(() => {
     async function handleLocationState() {
       if (location.state) {
-        const { dataset, datasetGeoJSON: geoJSON, focusedDataset: focused } = location.state;
-
-        if (focused) setFocusedDataset(focused);
-        else if (dataset) setFocusedDataset(dataset);
+        const { dataset, datasetGeoJSON: geoJSON } = location.state;
 
-        // Si GeoJSON (brut ou mock) on prend le geoJSON directement
-        if (geoJSON) {
-          setDatasetGeoJSON(geoJSON);
-        }
-        // Si GeoJSON brut sans geoJSON passé, va le chercher
-        else if (dataset && dataset.format === "GeoJSON" && dataset.category === "GeoJSON brut") {
-          const { data } = await supabase
-            .from("geojson_datasets")
-            .select("data")
-            .eq("id", dataset.id)
-            .single();
-          if (data && data.data) setDatasetGeoJSON(data.data);
-        }
-        // Si SHP (raw_files)
-        else if (dataset && dataset.format === "SHP" && dataset.category === "Fichier brut") {
-          const { data } = await supabase
-            .from("raw_files")
-            .select("filename, filedata")
-            .eq("id", dataset.id)
-            .single();
-          if (data?.filedata) {
-            const blob = new Blob([new Uint8Array(data.filedata)], { type: "application/zip" });
-            try {
-              const geojson = await shp(blob);
-              setDatasetGeoJSON(geojson);
-            } catch (e) {
-              alert("Erreur lors de la conversion du SHP en GeoJSON.");
-            }
-          }
-        }
-        // Si CSV (raw_files)
-        else if (dataset && dataset.format === "CSV" && dataset.category === "Fichier brut") {
-          const { data } = await supabase
-            .from("raw_files")
-            .select("filename, filedata")
-            .eq("id", dataset.id)
-            .single();
-          if (data?.filedata) {
-            const blob = new Blob([new Uint8Array(data.filedata)], { type: "text/csv" });
-            const text = await blob.text();
-            const result = Papa.parse(text, { header: true });
-            if (result.data && Array.isArray(result.data)) {
-              const geojson = {
-                type: "FeatureCollection",
-                features: result.data
-                  .filter((row: any) => row.longitude && row.latitude)
-                  .map((row: any) => ({
-                    type: "Feature",
-                    geometry: {
-                      type: "Point",
-                      coordinates: [parseFloat(row.longitude), parseFloat(row.latitude)]
-                    },
-                    properties: row
-                  }))
-              };
-              setDatasetGeoJSON(geojson);
-            }
-          }
+        // Si GeoJSON (brut converti par le catalogue) on le prend directement,
+        // sinon lecture du jeu selon son stockage (registre)
+        if (dataset) {
+          showDatasetLayer(dataset, geoJSON ? asFeatureCollection(geoJSON) : await loadLayerData(dataset));
         }
       }
     }
-    handleLocationState();
-    // eslint-disable-next-line
-  }, [location.state]);
+    handleLocationState().catch(error => console.error('Erreur lors du chargement du jeu de données:', error));
+  }, [location.state, showDatasetLayer]);
+
+  // Création demandée depuis une autre page (« Nouveau circuit »), une fois le rôle connu
+  const requestedEditTable: ImportTable | undefined = location.state?.editTable;
+  useEffect(() => {
+    if (!requestedEditTable || !canEditFeatures) return;
+    setEditTable(requestedEditTable);
+    setEditTool('create');
+  }, [location.state, requestedEditTable, canEditFeatures]);
 
   // Prise en compte de l'accès direct par URL (/map/:id)
+  const hasStateDataset = Boolean(location.state?.dataset);
   useEffect(() => {
     async function fetchById() {
-      if (id && !datasetGeoJSON) {
-        // Essaye de charger depuis geojson_datasets
-        const { data } = await supabase
-          .from("geojson_datasets")
-          .select("data, name, description, updated_at")
-          .eq("id", id)
-          .single();
-
-        if (data && data.data) {
-          setFocusedDataset({
-            id,
-            name: data.name,
-            description: data.description,
-            lastUpdated: data.updated_at,
-            format: "GeoJSON",
-            category: "GeoJSON brut",
-            source: "Supabase"
-          });
-          setDatasetGeoJSON(data.data);
-        } else {
-          // Fallback : collection_points (point éclaté)
-          const res = await db.collectionPoints.getById(id);
-          if (res.data) {
-            setFocusedDataset(res.data);
-            const geojson = {
-              type: "FeatureCollection",
-              features: [{
-                type: "Feature",
-                geometry: {
-                  type: "Point",
-                  coordinates: [res.data.longitude, res.data.latitude]
-                },
-                properties: res.data
-              }]
-            };
-            setDatasetGeoJSON(geojson);
-          }
-        }
+      if (id && !hasStateDataset) {
+        const dataset = await fetchDatasetById(id);
+        if (dataset) showDatasetLayer(dataset, await loadLayerData(dataset));
       }
     }
-    fetchById();
-    // eslint-disable-next-line
-  }, [id]);
+    fetchById().catch(error => console.error('Erreur lors du chargement du jeu de données:', error));
+  }, [id, hasStateDataset, showDatasetLayer]);
 
   useEffect(() => {
     const storedRoute = sessionStorage.getItem('selectedRoute');
@@ -156,14 +269,154 @@ const MapExplorer = () => {
     }
   }, []);
 
-  const handleLayerChange = (updatedLayers: MapLayer[]) => {
-    setLayers(updatedLayers);
+  const handleToggleImportedRoutes = async () => {
+    if (importedRoutes) {
+      setImportedRoutes(null);
+      return;
+    }
+    setIsLoadingRoutes(true);
+    try {
+      const geojson = await fetchSweepingRoutesGeoJSON();
+      if (geojson.features.length === 0) {
+        alert("Aucun circuit avec tracé n'a encore été importé.");
+        return;
+      }
+      setImportedRoutes(geojson);
+    } catch (error) {
+      console.error('Erreur lors du chargement des circuits importés:', error);
+      alert('Erreur lors du chargement des circuits importés');
+    } finally {
+      setIsLoadingRoutes(false);
+    }
   };
 
-  const handleClearDataset = () => {
-    setFocusedDataset(null);
-    setDatasetGeoJSON(null);
-    navigate('/map', { replace: true });
+  // Copie le lien de la carte ; pour un jeu du catalogue, le lien est enregistré
+  // (il sera signalé avant toute suppression du jeu)
+  const handleShare = async () => {
+    const datasetId: string | undefined = focusedDataset?.id;
+    const url = datasetId ? `${window.location.origin}/map/${datasetId}` : window.location.href;
+    try {
+      await navigator.clipboard.writeText(url);
+      if (datasetId) await createSharedLink(datasetId, url, currentUserName);
+      alert(`Lien copié dans le presse-papiers :\n${url}`);
+    } catch (error) {
+      console.error('Erreur lors du partage:', error);
+      alert(`Lien de la carte :\n${url}`);
+    }
+  };
+
+  const handleActivateLayer = (layerId: string) => {
+    if (layerId !== activeLayerId) setSelectedFeatureIndex(null);
+    setActiveLayerId(layerId);
+    setShowAttributeTable(true);
+  };
+
+  // Entité cliquée sur la carte : sa couche devient la couche active
+  const handleFeatureSelect = useCallback((layerId: string, index: number) => {
+    setActiveLayerId(layerId);
+    setSelectedFeatureIndex(index);
+  }, []);
+
+  const handleRemoveLayer = (layerId: string) => {
+    const remaining = layers.filter(l => l.id !== layerId);
+    setLayers(remaining);
+    if (layerId === activeLayerId) {
+      setActiveLayerId(remaining[0]?.id ?? null);
+      setSelectedFeatureIndex(null);
+    }
+    if (layerId === id) navigate('/map', { replace: true });
+  };
+
+  const handleAddLayer = async (dataset: DatasetMetadata) => {
+    const data = await loadLayerData(dataset);
+    if (!data || (data.features.length === 0 && !viewportTableOf(dataset))) throw new Error(`Aucune entité à afficher pour « ${dataset.name} »`);
+    showDatasetLayer(dataset, data);
+  };
+
+  // Entités de la couche dans l'emprise courante de la carte
+  const loadVisibleFeatures = async () => {
+    if (!downloadLayer) return null;
+    const layer = layers.find(l => l.id === downloadLayer.id) || downloadLayer;
+    const visible = extentRef.current ? layerFeaturesInExtent(layer, extentRef.current) : layer.data || null;
+    if (!visible || visible.features.length === 0) throw new Error('Aucune entité de cette couche dans l\'emprise de la carte');
+    return visible;
+  };
+
+  const handleSaveMap = async (name: string, asNew: boolean) => {
+    const mapId = await saveMap({
+      id: asNew ? undefined : currentMap?.id,
+      name,
+      description: '',
+      view: viewRef.current,
+      layers: savedLayersOf(layers),
+    }, currentUserName);
+    setCurrentMap({ id: mapId, name });
+  };
+
+  // Remplace les couches ouvertes par celles d'une carte enregistrée
+  const handleOpenMap = async (map: SavedMap) => {
+    const loaded = await loadMapLayers(map.layers);
+    setLayerDatasets(Object.fromEntries(loaded.datasets.map(d => [d.id, d])));
+    setLayers(loaded.layers);
+    setActiveLayerId(loaded.layers[0]?.id ?? null);
+    setSelectedFeatureIndex(null);
+    setCurrentMap({ id: map.id, name: map.name });
+    if (map.view) setMapView({ ...map.view });
+    if (id) navigate('/map', { replace: true });
+    if (loaded.missing.length > 0) {
+      alert(`${loaded.missing.length} couche(s) indisponible(s) (jeu supprimé ou illisible) : ${loaded.missing.join(', ')}`);
+    }
+  };
+
+  // Modification des attributs : jeux actifs du registre, pour les administrateurs et géomaticiens
+  const canEditAttributes = canEditFeatures && isDatasetEditable(focusedDataset);
+  const editableColumns = useMemo(
+    () => canEditAttributes && focusedDataset && datasetGeoJSON
+      ? editableAttributeColumns(focusedDataset, collectSourceProperties(datasetGeoJSON.features))
+      : [],
+    [canEditAttributes, focusedDataset, datasetGeoJSON]
+  );
+
+  // Les circuits existants sont affichés pendant l'édition des circuits (accrochage)
+  useEffect(() => {
+    if (editTable !== 'sweeping_routes' || importedRoutes) return;
+    fetchSweepingRoutesGeoJSON()
+      .then(setImportedRoutes)
+      .catch(error => console.error('Erreur lors du chargement des circuits importés:', error));
+  }, [editTable, importedRoutes]);
+
+  // Saisie terminée sur la carte : formulaire d'attributs pour un nouvel élément,
+  // enregistrement direct d'un déplacement, suppression après confirmation
+  const handleGeometryEdit = async (edit: GeometryEdit) => {
+    if (edit.kind === 'create') {
+      setNewFeature({ table: edit.table, geometry: edit.geometry });
+      return;
+    }
+    if (edit.kind === 'delete' && !confirm(`Supprimer « ${edit.target.name || 'cet élément'} » ? Cette action est irréversible.`)) return;
+    try {
+      if (edit.kind === 'delete') await deleteTableFeature(edit.table, edit.target.id);
+      else await updateTableGeometry(edit.table, edit.target.id, edit.geometry);
+      reloadTable(edit.table);
+    } catch (error) {
+      console.error('Erreur lors de l\'édition:', error);
+      alert(error instanceof Error ? error.message : 'Erreur lors de l\'enregistrement');
+    }
+  };
+
+  const closeNewFeature = () => {
+    setNewFeature(null);
+    setEditSession(n => n + 1);
+  };
+
+  const handleSaveAttributes = async (edits: AttributeEdit[]) => {
+    if (!focusedDataset || !datasetGeoJSON) return;
+    const updated = await saveAttributeEdits(focusedDataset, datasetGeoJSON, edits, currentUserName);
+    setLayers(current => current.map(l => (l.id === focusedDataset.id ? { ...l, data: updated } : l)));
+    // Un GeoJSON complet passe à une nouvelle version
+    if (focusedDataset.storage === 'geojson') {
+      const refreshed = await fetchDatasetById(focusedDataset.id);
+      if (refreshed) setLayerDatasets(current => ({ ...current, [refreshed.id]: refreshed }));
+    }
   };
 
   return (
@@ -187,7 +440,19 @@ const MapExplorer = () => {
               Retour au catalogue
             </button>
           )}
-          <button className="btn-outline flex items-center text-green-600 hover:bg-green-50">
+          {canEditFeatures && (
+            <button
+              className={`btn-outline flex items-center text-green-600 hover:bg-green-50 ${editTable ? 'bg-green-50' : ''}`}
+              onClick={() => {
+                setEditTable(editTable ? null : 'collection_points');
+                setEditTool(null);
+              }}
+            >
+              <Pencil size={16} className="mr-1.5" />
+              Édition
+            </button>
+          )}
+          <button className="btn-outline flex items-center text-green-600 hover:bg-green-50" onClick={handleShare}>
             <Share2 size={16} className="mr-1.5" />
             Partager
           </button>
@@ -233,7 +498,7 @@ const MapExplorer = () => {
                       <div className="flex items-start justify-between">
                         <div className="flex-1">
                           <h4 className="text-sm font-medium text-green-800 mb-1">
-                            Dataset actuel
+                            Couche active
                           </h4>
                           <p className="text-xs text-green-700 font-medium">{focusedDataset.name}</p>
                           <p className="text-xs text-green-600 mt-1">{focusedDataset.description}</p>
@@ -242,14 +507,23 @@ const MapExplorer = () => {
                               {datasetGeoJSON.features?.length || 0} élément(s) affiché(s)
                             </p>
                           )}
+                          {datasetGeoJSON && !showAttributeTable && (
+                            <button
+                              className="text-xs text-green-700 hover:text-green-800 mt-1 flex items-center"
+                              onClick={() => setShowAttributeTable(true)}
+                            >
+                              <Table size={12} className="mr-1" />
+                              Table attributaire
+                            </button>
+                          )}
                           <div className="text-xs text-green-500 mt-1">
                             Format: {focusedDataset.format} | Catégorie: {focusedDataset.category}
                           </div>
                         </div>
                         <button
-                          onClick={handleClearDataset}
+                          onClick={() => handleRemoveLayer(focusedDataset.id)}
                           className="text-green-600 hover:text-green-700 ml-2"
-                          title="Masquer ce dataset"
+                          title="Retirer cette couche"
                         >
                           ×
                         </button>
@@ -257,6 +531,17 @@ const MapExplorer = () => {
                     </div>
                   )}
 
+                  <div>
+                    <h3 className="text-sm font-medium text-green-600 mb-2">CARTES ENREGISTRÉES</h3>
+                    <SavedMapsPanel
+                      currentMap={currentMap}
+                      layerCount={savedLayersOf(layers).length}
+                      onSave={handleSaveMap}
+                      onOpen={handleOpenMap}
+                      canDelete={(map) => user?.role === 'admin' || map.createdBy === currentUserName}
+                    />
+                  </div>
+
                   <div>
                     <h3 className="text-sm font-medium text-green-600 mb-2">LÉGENDE</h3>
                     <div className="space-y-2">
@@ -274,6 +559,17 @@ const MapExplorer = () => {
                         <div className="w-4 h-0.5 bg-blue-500 mr-2 rounded"></div>
                         Circuits de balayage
                       </button>
+                      <button
+                        className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-md text-sm transition text-green-600 flex items-center justify-between disabled:opacity-50"
+                        onClick={handleToggleImportedRoutes}
+                        disabled={isLoadingRoutes}
+                      >
+                        <div className="flex items-center">
+                          <div className="w-4 h-1 bg-blue-500 mr-2 rounded"></div>
+                          Circuits importés (base)
+                        </div>
+                        {importedRoutes ? <Eye size={16} /> : <EyeOff size={16} className="text-gray-400" />}
+                      </button>
                       <div>
                         <button 
                           className="w-full text-left px-3 py-2 bg-gray-50 hover:bg-gray-100 rounded-md text-sm transition text-green-600 flex items-center justify-between"
@@ -318,24 +614,113 @@ const MapExplorer = () => {
         </div>
 
         {/* Map */}
-        <div className="flex-1 relative">
-          <MapView 
-            selectedRoute={selectedRoute} 
-            focusedDataset={focusedDataset}
-            datasetGeoJSON={datasetGeoJSON}
-            layers={layers}
-            onLayerChange={handleLayerChange}
-          />
-          {/* Sidebar toggle */}
-          <button
-            className="absolute top-1/2 left-0 transform -translate-y-1/2 bg-white rounded-r-md border border-gray-200 border-l-0 p-1.5 shadow-sm hover:bg-gray-50 transition-colors z-10"
-            onClick={() => setSidebarOpen(!sidebarOpen)}
-          >
-            {sidebarOpen ? <ChevronLeft size={16} /> : <ChevronRight size={16} />}
-          </button>
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="flex-1 relative min-h-0 isolate">
+            <MapView 
+              selectedRoute={selectedRoute} 
+              routesGeoJSON={importedRoutes}
+              layers={displayedLayers}
+              activeLayerId={activeLayerId}
+              selectedFeatureIndex={selectedFeatureIndex}
+              onFeatureSelect={handleFeatureSelect}
+              view={mapView}
+              onViewChange={handleViewChange}
+              onTableChange={handleTableChange}
+              editTable={editTable}
+              editTool={editTool}
+              editSession={editSession}
+              onGeometryEdit={handleGeometryEdit}
+            />
+            {editTable && (
+              <EditToolbar
+                table={editTable}
+                tool={editTool}
+                onTableChange={setEditTable}
+                onToolChange={setEditTool}
+                onClose={() => {
+                  setEditTable(null);
+                  setEditTool(null);
+                }}
+              />
+            )}
+            <LayerControl
+              layers={layers}
+              activeLayerId={activeLayerId}
+              geometryFilter={geometryFilter}
+              onGeometryFilterChange={setGeometryFilter}
+              onActivate={handleActivateLayer}
+              onChange={setLayers}
+              onRemove={handleRemoveLayer}
+              onDownload={setDownloadLayer}
+              onEditStyle={(layer) => setStyleLayerId(layer.id)}
+              onAddLayer={() => setShowAddLayer(true)}
+            />
+            {/* Sidebar toggle */}
+            <button
+              className="absolute top-1/2 left-0 transform -translate-y-1/2 bg-white rounded-r-md border border-gray-200 border-l-0 p-1.5 shadow-sm hover:bg-gray-50 transition-colors z-10"
+              onClick={() => setSidebarOpen(!sidebarOpen)}
+            >
+              {sidebarOpen ? <ChevronLeft size={16} /> : <ChevronRight size={16} />}
+            </button>
+          </div>
+
+          {/* Table attributaire de la couche active */}
+          {focusedDataset && datasetGeoJSON && datasetGeoJSON.features.length > 0 && showAttributeTable && (
+            <AttributeTable
+              key={focusedDataset.id}
+              collection={datasetGeoJSON}
+              selectedIndex={selectedFeatureIndex}
+              onSelect={setSelectedFeatureIndex}
+              editableColumns={editableColumns}
+              parseValue={(feature: Feature, property: string, text: string) =>
+                parseAttributeEdit(focusedDataset, feature, property, text)}
+              onSave={handleSaveAttributes}
+              onPendingChange={setAttributeEditsPending}
+              onClose={() => setShowAttributeTable(false)}
+            />
+          )}
         </div>
       </div>
 
+      {newFeature && (
+        <FeatureAttributeForm
+          table={newFeature.table}
+          geometry={newFeature.geometry}
+          onSaved={() => {
+            reloadTable(newFeature.table);
+            closeNewFeature();
+          }}
+          onClose={closeNewFeature}
+        />
+      )}
+
+      {showAddLayer && (
+        <AddLayerDialog
+          openDatasetIds={layers.map(l => l.id)}
+          onAdd={handleAddLayer}
+          onClose={() => setShowAddLayer(false)}
+        />
+      )}
+
+      {styleLayer && (
+        <LayerStyleEditor
+          layer={styleLayer}
+          onApply={(style) => {
+            setLayers(current => current.map(l => (l.id === styleLayer.id ? { ...l, style } : l)));
+            setStyleLayerId(null);
+          }}
+          onClose={() => setStyleLayerId(null)}
+        />
+      )}
+
+      {downloadLayer && (
+        <DatasetExportDialog
+          datasetName={`${downloadLayer.name} (vue courante)`}
+          loadCollection={loadVisibleFeatures}
+          onClose={() => setDownloadLayer(null)}
+        />
+      )}
+
       {/* Map Export Dialog */}
       <MapExport
         isOpen={showExportDialog}
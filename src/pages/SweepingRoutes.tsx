@@ -99,7 +99,10 @@ const SweepingRoutes = () => {
     <div className="h-full flex flex-col">
       <div className="mb-4 flex items-center justify-between">
         <h1 className="text-green-600">Circuits de balayage</h1>
-        <button className="btn-primary flex items-center bg-green-600 hover:bg-green-700">
+        <button
+          className="btn-primary flex items-center bg-green-600 hover:bg-green-700"
+          onClick={() => navigate('/map', { state: { editTable: 'sweeping_routes' } })}
+        >
           <Plus size={16} className="mr-1.5" />
           Nouveau circuit
         </button>
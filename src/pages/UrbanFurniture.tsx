@@ -1,53 +1,8 @@
-import { useState } from 'react';
-import { MapPin, Plus, Search, Filter, Calendar, PenTool as Tool, AlertTriangle, Trash2 } from 'lucide-react';
-
-interface UrbanFurniture {
-  id: string;
-  type: 'PRN' | 'BAC_RUE' | 'POINT_PROPRE';
-  location: string;
-  installDate: string;
-  lastMaintenance: string;
-  status: 'good' | 'needs-maintenance' | 'damaged';
-  description: string;
-  capacity: number;
-  fillLevel?: number;
-}
-
-const mockFurniture: UrbanFurniture[] = [
-  {
-    id: '1',
-    type: 'PRN',
-    location: 'Place de l\'Indépendance',
-    installDate: '2024-06-15',
-    lastMaintenance: '2025-02-20',
-    status: 'good',
-    description: 'Point de Regroupement Normalisé - Zone Centre',
-    capacity: 1000,
-    fillLevel: 45,
-  },
-  {
-    id: '2',
-    type: 'BAC_RUE',
-    location: 'Avenue Léopold Sédar Senghor',
-    installDate: '2024-07-01',
-    lastMaintenance: '2025-03-01',
-    status: 'needs-maintenance',
-    description: 'Bac de rue tri sélectif',
-    capacity: 240,
-    fillLevel: 80,
-  },
-  {
-    id: '3',
-    type: 'POINT_PROPRE',
-    location: 'Boulevard de la République',
-    installDate: '2024-05-10',
-    lastMaintenance: '2025-03-10',
-    status: 'damaged',
-    description: 'Point propre avec conteneurs enterrés',
-    capacity: 5000,
-    fillLevel: 65,
-  },
-];
+import { useEffect, useState } from 'react';
+import { MapPin, Plus, Search, Filter, Calendar, PenTool as Tool, AlertTriangle, AlertCircle, Trash2 } from 'lucide-react';
+import { UrbanFurnitureItem } from '../types';
+import { fetchUrbanFurniture, toUrbanFurnitureItem } from '../lib/supabase';
+import { subscribeToTables, useFlashedIds } from '../lib/realtime';
 
 const getTypeLabel = (type: string) => {
   switch (type) {
@@ -63,10 +18,37 @@ const getTypeLabel = (type: string) => {
 };
 
 const UrbanFurniture = () => {
-  const [furniture] = useState<UrbanFurniture[]>(mockFurniture);
+  const [furniture, setFurniture] = useState<UrbanFurnitureItem[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedStatus, setSelectedStatus] = useState<string>('all');
   const [selectedType, setSelectedType] = useState<string>('all');
+  const [flashedIds, flash] = useFlashedIds();
+
+  // Équipements en base, puis suivi en temps réel : un équipement modifié ou
+  // ajouté par un autre utilisateur clignote avec son nouvel état
+  useEffect(() => {
+    fetchUrbanFurniture()
+      .then(setFurniture)
+      .catch(error => {
+        setFurniture([]);
+        setLoadError(error instanceof Error ? error.message : String(error));
+      });
+
+    return subscribeToTables(['urban_furniture'], change => {
+      if (change.table !== 'urban_furniture') return;
+      const row = change.row;
+      setFurniture(current => {
+        const items = current || [];
+        if (!row) return items.filter(item => item.id !== change.id);
+        const item = toUrbanFurnitureItem(row);
+        return items.some(i => i.id === item.id)
+          ? items.map(i => (i.id === item.id ? item : i))
+          : [...items, item].sort((a, b) => a.name.localeCompare(b.name, 'fr'));
+      });
+      if (row) flash(row.id);
+    });
+  }, [flash]);
 
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -76,6 +58,8 @@ const UrbanFurniture = () => {
         return 'bg-yellow-100 text-yellow-800';
       case 'damaged':
         return 'bg-red-100 text-red-800';
+      case 'inactive':
+        return 'bg-gray-100 text-gray-500';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -89,16 +73,18 @@ const UrbanFurniture = () => {
         return 'Maintenance requise';
       case 'damaged':
         return 'Endommagé';
+      case 'inactive':
+        return 'Désactivé';
       default:
         return status;
     }
   };
 
-  const filteredFurniture = furniture.filter((item) => {
+  const filteredFurniture = (furniture || []).filter((item) => {
     const matchesSearch = 
       getTypeLabel(item.type).toLowerCase().includes(searchQuery.toLowerCase()) ||
       item.location.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      item.description.toLowerCase().includes(searchQuery.toLowerCase());
+      item.name.toLowerCase().includes(searchQuery.toLowerCase());
     
     const matchesStatus = selectedStatus === 'all' || item.status === selectedStatus;
     const matchesType = selectedType === 'all' || item.type === selectedType;
@@ -219,9 +205,24 @@ const UrbanFurniture = () => {
         </div>
       </div>
 
+      {loadError && (
+        <div className="flex items-center p-3 mb-4 bg-red-50 rounded-md">
+          <AlertCircle size={16} className="text-red-500 mr-2 flex-shrink-0" />
+          <span className="text-sm text-red-700">{loadError}</span>
+        </div>
+      )}
+      {furniture === null ? (
+        <div className="animate-pulse text-gray-400">Chargement du mobilier urbain...</div>
+      ) : filteredFurniture.length === 0 && !loadError && (
+        <p className="text-sm text-gray-500">Aucun équipement ne correspond à la recherche.</p>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         {filteredFurniture.map((item) => (
-          <div key={item.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div
+            key={item.id}
+            className={`bg-white rounded-lg shadow-sm border border-gray-200 p-4 ${flashedIds.has(item.id) ? 'realtime-flash' : ''}`}
+          >
             <div className="flex items-start justify-between mb-4">
               <div>
                 <h3 className="text-lg font-medium text-green-600">{getTypeLabel(item.type)}</h3>
@@ -236,12 +237,12 @@ const UrbanFurniture = () => {
             </div>
 
             <div className="space-y-3">
-              <p className="text-sm text-gray-600">{item.description}</p>
+              <p className="text-sm text-gray-600">{item.name}</p>
               
               <div className="space-y-2">
                 <div className="flex items-center text-sm">
                   <Trash2 size={16} className="text-gray-400 mr-2" />
-                  <span>Capacité: {item.capacity} L</span>
+                  <span>Capacité: {item.capacity} kg</span>
                 </div>
                 {item.fillLevel !== undefined && (
                   <div>
@@ -263,7 +264,7 @@ const UrbanFurniture = () => {
                 </div>
                 <div className="flex items-center text-sm">
                   <Tool size={16} className="text-gray-400 mr-2" />
-                  <span>Dernière maintenance: {new Date(item.lastMaintenance).toLocaleDateString()}</span>
+                  <span>Dernière maintenance: {item.lastMaintenance ? new Date(item.lastMaintenance).toLocaleDateString() : 'Aucune'}</span>
                 </div>
               </div>
             </div>
@@ -1,3 +1,5 @@
+import type { FeatureCollection, LineString, MultiLineString, Point } from 'geojson';
+
 export interface User {
   id: string;
   username: string;
@@ -9,6 +11,15 @@ export interface User {
   lastUpdated?: string;
 }
 
+// Stockage du contenu d'un jeu de données du registre
+export type DatasetStorage = 'geojson' | 'raw_file' | 'table';
+
+// Cycle de vie d'un jeu : actif, archivé (masqué du catalogue) ou en corbeille
+export type DatasetStatus = 'active' | 'archived' | 'deleted';
+
+// Emprise WGS84 : [ouest, sud, est, nord]
+export type DatasetExtent = [number, number, number, number];
+
 export interface DatasetMetadata {
   id: string;
   name: string;
@@ -16,11 +27,168 @@ export interface DatasetMetadata {
   category: string;
   source: string;
   lastUpdated: string;
-  format: 'SHP' | 'GeoJSON' | 'CSV' | 'KML';
+  format: 'SHP' | 'GeoJSON' | 'CSV' | 'KML' | 'GPKG' | 'PDF';
+  owner: string;
+  tags: string[];
+  licence?: string;
+  featureCount?: number;
+  extent?: DatasetExtent;
+  storage: DatasetStorage;
+  // Ligne de geojson_datasets ou de raw_files portant le contenu
+  contentId?: string;
+  // Couche métier lue directement dans sa table
+  table?: ImportTable;
+  fileSize?: number;
+  currentVersion?: number;
+  createdAt?: string;
+  // Fiche de métadonnées ISO 19115
+  topicCategory?: string;
+  language?: string;
+  lineage?: string;
+  updateFrequency?: UpdateFrequency;
+  crs?: string;
+  contactName?: string;
+  contactOrganisation?: string;
+  contactEmail?: string;
+  status: DatasetStatus;
+  archivedAt?: string;
+  // Mise en corbeille (jeux supprimés)
+  deletedAt?: string;
+  deletedBy?: string;
+}
+
+// Version d'un jeu de données (table dataset_versions)
+export interface DatasetVersion {
+  id: string;
+  dataset_id: string;
+  version: number;
+  geojson_dataset_id: string | null;
+  raw_file_id: string | null;
+  feature_count: number | null;
+  extent: number[] | null;
+  uploaded_by: string | null;
+  note: string | null;
+  restored_from: number | null;
+  created_at: string;
+}
+
+// Métadonnées saisies à l'upload d'un jeu de données
+export interface DatasetRegistration {
+  name: string;
+  description: string;
+  category: string;
+  source: string;
+  licence: string;
   owner: string;
   tags: string[];
 }
 
+// Fréquence de mise à jour (ISO 19115 MD_MaintenanceFrequencyCode)
+export type UpdateFrequency =
+  | 'continual'
+  | 'daily'
+  | 'weekly'
+  | 'fortnightly'
+  | 'monthly'
+  | 'quarterly'
+  | 'biannually'
+  | 'annually'
+  | 'asNeeded'
+  | 'irregular'
+  | 'notPlanned'
+  | 'unknown';
+
+// Fiche de métadonnées modifiable depuis le catalogue
+export interface DatasetMetadataSheet extends DatasetRegistration {
+  topicCategory: string;
+  language: string;
+  lineage: string;
+  updateFrequency: UpdateFrequency | '';
+  crs: string;
+  contactName: string;
+  contactOrganisation: string;
+  contactEmail: string;
+}
+
+// Critères de recherche du catalogue (tous facultatifs, combinés en ET)
+export interface DatasetSearchFilters {
+  query?: string;
+  // Dates de mise à jour au format AAAA-MM-JJ, bornes incluses
+  dateFrom?: string;
+  dateTo?: string;
+  owner?: string;
+  communeId?: string;
+  // Jeux dont l'emprise intersecte ce rectangle
+  extent?: DatasetExtent;
+  // Inclut les jeux archivés
+  includeArchived?: boolean;
+}
+
+// Élément qui pointe vers un jeu de données (affiché avant sa suppression)
+export interface DatasetReference {
+  kind: 'shared_link' | 'map_layer';
+  label: string;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface Commune {
+  id: string;
+  name: string;
+  code: string;
+}
+
+// Symbologie d'une couche : symbole unique, catégories d'un attribut ou classes
+// d'un champ numérique, avec étiquettes facultatives
+export type LayerStyleKind = 'single' | 'categorized' | 'graduated';
+
+export type PointIcon = 'circle' | 'square' | 'triangle' | 'diamond' | 'star' | 'cross';
+
+export interface LayerSymbol {
+  color: string;
+  // Forme des points (sans effet sur les lignes et polygones)
+  icon: PointIcon;
+}
+
+export interface StyleCategory {
+  value: string;
+  symbol: LayerSymbol;
+}
+
+// Classe [min, max] ; la dernière classe inclut sa borne haute
+export interface StyleClass {
+  min: number;
+  max: number;
+  symbol: LayerSymbol;
+}
+
+export type GraduatedMethod = 'equal' | 'quantile';
+
+export interface LayerStyle {
+  kind: LayerStyleKind;
+  // Symbole unique, ou des entités hors catégories et hors classes
+  symbol: LayerSymbol;
+  field?: string;
+  categories: StyleCategory[];
+  classes: StyleClass[];
+  method?: GraduatedMethod;
+  // Attribut affiché en étiquette
+  labelField?: string;
+}
+
+// Couches métier ponctuelles, lues par emprise sur la carte (inventaire national)
+export type ViewportTable = 'collection_points' | 'urban_furniture';
+
+// Groupe de points, calculé par la base ou sur la carte
+export interface PointCluster {
+  latitude: number;
+  longitude: number;
+  count: number;
+  // Remplissage moyen (%) des points renseignés
+  fillLevel: number | null;
+  extent: DatasetExtent;
+}
+
 export interface MapLayer {
   id: string;
   name: string;
@@ -28,21 +196,107 @@ export interface MapLayer {
   source: string;
   visible: boolean;
   opacity: number;
-  style?: any;
+  style?: LayerStyle;
   datasetId?: string;
+  // Contenu chargé pour l'affichage (non enregistré avec la carte)
+  data?: FeatureCollection;
+  // Couche lue par emprise : data ne contient que les entités de la vue, ou
+  // clusters les groupes renvoyés par la base quand elles sont trop nombreuses
+  viewportTable?: ViewportTable;
+  clusters?: PointCluster[];
+}
+
+// Couche d'une carte enregistrée (table saved_map_layers)
+export interface SavedMapLayer {
+  datasetId: string;
+  name: string;
+  visible: boolean;
+  opacity: number;
+  style?: LayerStyle;
+}
+
+// Vue de la carte : centre [latitude, longitude] et niveau de zoom
+export interface MapViewState {
+  center: [number, number];
+  zoom: number;
+}
+
+// Outils d'édition des tables métier sur la carte
+export type EditTool = 'create' | 'modify' | 'delete';
+
+// Géométrie d'un point de collecte, d'un mobilier ou d'un circuit
+export type EditableGeometry = Point | LineString | MultiLineString;
+
+// Élément d'une table métier choisi sur la carte pour être modifié ou supprimé
+export interface EditTarget {
+  id: string;
+  name: string;
+  geometry: EditableGeometry;
+}
+
+// Saisie terminée sur la carte : géométrie d'un nouvel élément, nouvelle
+// géométrie d'un élément existant, ou élément à supprimer
+export type GeometryEdit =
+  | { kind: 'create'; table: ImportTable; geometry: EditableGeometry }
+  | { kind: 'update'; table: ImportTable; target: EditTarget; geometry: EditableGeometry }
+  | { kind: 'delete'; table: ImportTable; target: EditTarget };
+
+// Outils de mesure de la carte : distance, surface, longueur d'un circuit
+export type MeasureMode = 'distance' | 'area' | 'route';
+
+// Composition enregistrée : couches de haut en bas et vue de la carte
+export interface SavedMap {
+  id: string;
+  name: string;
+  description: string;
+  view: MapViewState | null;
+  layers: SavedMapLayer[];
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
 }
 
+// Point de collecte affiché sur la carte (ligne collection_points et sa dernière collecte)
 export interface CollectionPoint {
   id: string;
   name: string;
   type: 'container' | 'bin' | 'center';
+  // [latitude, longitude]
   coordinates: [number, number];
+  // capacity_kg
   capacity: number;
+  // Niveau de remplissage en % (absent : non relevé)
   fillLevel?: number;
+  // Date de la dernière entrée de collection_history
   lastCollection?: string;
   wasteType: 'general' | 'recyclable' | 'organic' | 'hazardous';
 }
 
+// Équipement de la page Mobilier urbain (ligne urban_furniture)
+export interface UrbanFurnitureItem {
+  id: string;
+  type: 'PRN' | 'BAC_RUE' | 'POINT_PROPRE';
+  name: string;
+  location: string;
+  installDate: string;
+  lastMaintenance?: string;
+  status: 'good' | 'needs-maintenance' | 'damaged' | 'inactive';
+  // capacity_kg
+  capacity: number;
+  fillLevel?: number;
+}
+
+// Alerte du tableau de bord (ligne alerts)
+export interface DashboardAlert {
+  id: string;
+  type: 'fill_level' | 'maintenance' | 'vehicle' | 'system';
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  description: string;
+  status: 'pending' | 'in_progress' | 'resolved';
+  createdAt: string;
+}
+
 export interface RouteData {
   id: string;
   name: string;
@@ -68,4 +322,127 @@ export interface SweepingRoute {
     type: string;
     coordinates: number[][] | number[][][] | number[][][][];
   };
-}
\ No newline at end of file
+}
+
+export interface ProjectionDefinition {
+  code: string;
+  label: string;
+  proj4: string;
+  // WKT écrite dans les .prj et GeoPackage exportés
+  wkt?: string;
+  custom?: boolean;
+  // Code propre à l'application, absent du registre EPSG : ni URN ni autorité à l'export
+  internal?: boolean;
+}
+
+export type CrsOrigin = 'explicit' | 'prj' | 'geojson' | 'auto';
+
+export interface FeatureConversionReport {
+  index: number;
+  name?: string;
+  status: 'converted' | 'out_of_bounds' | 'invalid' | 'undetected' | 'rejected' | 'error';
+  sourceSystem?: string;
+  geometryType?: string;
+  vertices?: number;
+  longitude?: number | null;
+  latitude?: number | null;
+  reason?: string;
+  errors?: string[];
+}
+
+export interface ConversionReport {
+  crs: string | null;
+  crsOrigin: CrsOrigin;
+  features: FeatureConversionReport[];
+}
+
+export type ImportTable = 'collection_points' | 'urban_furniture' | 'sweeping_routes';
+
+export interface TargetField {
+  column: string;
+  label: string;
+  kind: 'text' | 'number' | 'enum' | 'date';
+  required?: boolean;
+  options?: string[];
+  defaultValue?: string;
+}
+
+export interface FieldMapping {
+  source?: string | null;
+  defaultValue?: string;
+}
+
+export type AttributeMapping = Record<string, FieldMapping>;
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  target_table: ImportTable;
+  mapping: AttributeMapping;
+  created_at?: string;
+}
+
+export interface ImportBatch {
+  index: number;
+  start: number;
+  end: number;
+  status: 'pending' | 'running' | 'inserted' | 'failed';
+  inserted: number;
+  attempts: number;
+  error?: string;
+}
+
+export interface ImportJob {
+  key: string;
+  table: ImportTable;
+  fileName: string;
+  total: number;
+  batchSize: number;
+  batches: ImportBatch[];
+  startedAt: string;
+  updatedAt: string;
+}
+
+export type ImportMode = 'insert' | 'merge';
+
+export interface MergeOptions {
+  key: string[];
+  deactivateMissing: boolean;
+}
+
+export interface MergeRecord {
+  id?: string;
+  key: string;
+  name: string;
+}
+
+export interface MergeRecordChange extends MergeRecord {
+  changes: Record<string, { before: unknown; after: unknown }>;
+}
+
+export interface MergeDiff {
+  key: string[];
+  deactivateMissing: boolean;
+  added: MergeRecord[];
+  changed: MergeRecordChange[];
+  unchanged: number;
+  removed: MergeRecord[];
+}
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type CsvGeometrySource =
+  | { mode: 'xy'; x: string; y: string }
+  | { mode: 'wkt'; column: string };
+
+export interface CsvImportOptions {
+  encoding: CsvEncoding;
+  delimiter: string;
+  geometry: CsvGeometrySource;
+  sourceCrs: string | null;
+}
+
+export interface CsvUnlocatedRow {
+  line: number;
+  reason: string;
+}
@@ -20,6 +20,8 @@ export interface Database {
           capacity_kg: number
           waste_type: 'general' | 'recyclable' | 'organic' | 'hazardous'
           status: 'active' | 'inactive' | 'maintenance'
+          geometry: Json | null
+          fill_level: number | null
           created_at: string
           updated_at: string
         }
@@ -33,6 +35,8 @@ export interface Database {
           capacity_kg: number
           waste_type: 'general' | 'recyclable' | 'organic' | 'hazardous'
           status?: 'active' | 'inactive' | 'maintenance'
+          geometry?: Json | null
+          fill_level?: number | null
         }
         Update: Partial<Database['public']['Tables']['collection_points']['Insert']>
       }
@@ -61,6 +65,291 @@ export interface Database {
         }
         Update: Partial<Database['public']['Tables']['sweeping_routes']['Insert']>
       }
+      alerts: {
+        Row: {
+          id: string
+          type: 'fill_level' | 'maintenance' | 'vehicle' | 'system'
+          severity: 'low' | 'medium' | 'high' | 'critical'
+          title: string
+          description: string
+          status: 'pending' | 'in_progress' | 'resolved'
+          related_entity_type: string | null
+          related_entity_id: string | null
+          created_at: string
+          resolved_at: string | null
+        }
+        Insert: {
+          id?: string
+          type: 'fill_level' | 'maintenance' | 'vehicle' | 'system'
+          severity: 'low' | 'medium' | 'high' | 'critical'
+          title: string
+          description: string
+          status?: 'pending' | 'in_progress' | 'resolved'
+          related_entity_type?: string | null
+          related_entity_id?: string | null
+          resolved_at?: string | null
+        }
+        Update: Partial<Database['public']['Tables']['alerts']['Insert']>
+      }
+      collection_history: {
+        Row: {
+          id: string
+          collection_point_id: string | null
+          collection_date: string
+          quantity_kg: number
+          vehicle_id: string | null
+          operator_id: string | null
+          notes: string | null
+        }
+        Insert: {
+          id?: string
+          collection_point_id?: string | null
+          collection_date: string
+          quantity_kg: number
+          vehicle_id?: string | null
+          operator_id?: string | null
+          notes?: string | null
+        }
+        Update: Partial<Database['public']['Tables']['collection_history']['Insert']>
+      }
+      route_geometry: {
+        Row: {
+          route_id: string
+          geometry: Json
+        }
+        Insert: {
+          route_id: string
+          geometry: Json
+        }
+        Update: Partial<Database['public']['Tables']['route_geometry']['Insert']>
+      }
+      raw_files: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          filetype: string
+          filename: string | null
+          filesize: number | null
+          mimetype: string | null
+          storage_path: string | null
+          filedata: string | null
+          import_options: Json | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          filetype: string
+          filename?: string | null
+          filesize?: number | null
+          mimetype?: string | null
+          storage_path?: string | null
+          import_options?: Json | null
+          filedata?: string | null
+        }
+        Update: Partial<Database['public']['Tables']['raw_files']['Insert']>
+      }
+      datasets: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          category: string
+          source: string | null
+          licence: string | null
+          owner: string | null
+          tags: string[]
+          format: string
+          feature_count: number | null
+          extent: number[] | null
+          storage: 'geojson' | 'raw_file' | 'table'
+          geojson_dataset_id: string | null
+          raw_file_id: string | null
+          source_table: 'collection_points' | 'urban_furniture' | 'sweeping_routes' | null
+          current_version: number
+          attributes_text: string | null
+          commune_ids: string[]
+          search_vector: string | null
+          min_lon: number | null
+          min_lat: number | null
+          max_lon: number | null
+          max_lat: number | null
+          topic_category: string | null
+          language: string
+          lineage: string | null
+          update_frequency: string | null
+          crs: string | null
+          contact_name: string | null
+          contact_organisation: string | null
+          contact_email: string | null
+          status: 'active' | 'archived' | 'deleted'
+          archived_at: string | null
+          deleted_at: string | null
+          deleted_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          category?: string
+          source?: string | null
+          licence?: string | null
+          owner?: string | null
+          tags?: string[]
+          format: string
+          feature_count?: number | null
+          extent?: number[] | null
+          storage: 'geojson' | 'raw_file' | 'table'
+          geojson_dataset_id?: string | null
+          raw_file_id?: string | null
+          source_table?: 'collection_points' | 'urban_furniture' | 'sweeping_routes' | null
+          current_version?: number
+          attributes_text?: string | null
+          commune_ids?: string[]
+          topic_category?: string | null
+          language?: string
+          lineage?: string | null
+          update_frequency?: string | null
+          crs?: string | null
+          contact_name?: string | null
+          contact_organisation?: string | null
+          contact_email?: string | null
+          status?: 'active' | 'archived' | 'deleted'
+          archived_at?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+        }
+        Update: Partial<Database['public']['Tables']['datasets']['Insert']>
+      }
+      dataset_versions: {
+        Row: {
+          id: string
+          dataset_id: string
+          version: number
+          geojson_dataset_id: string | null
+          raw_file_id: string | null
+          feature_count: number | null
+          extent: number[] | null
+          uploaded_by: string | null
+          note: string | null
+          restored_from: number | null
+          attributes_text: string | null
+          commune_ids: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          dataset_id: string
+          version: number
+          geojson_dataset_id?: string | null
+          raw_file_id?: string | null
+          feature_count?: number | null
+          extent?: number[] | null
+          uploaded_by?: string | null
+          note?: string | null
+          restored_from?: number | null
+          attributes_text?: string | null
+          commune_ids?: string[]
+        }
+        Update: Partial<Database['public']['Tables']['dataset_versions']['Insert']>
+      }
+      shared_links: {
+        Row: {
+          id: string
+          dataset_id: string
+          url: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          dataset_id: string
+          url: string
+          created_by?: string | null
+        }
+        Update: Partial<Database['public']['Tables']['shared_links']['Insert']>
+      }
+      saved_maps: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          center: number[] | null
+          zoom: number | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          center?: number[] | null
+          zoom?: number | null
+          created_by?: string | null
+        }
+        Update: Partial<Database['public']['Tables']['saved_maps']['Insert']>
+      }
+      saved_map_layers: {
+        Row: {
+          id: string
+          map_id: string
+          dataset_id: string
+          position: number
+          name: string
+          visible: boolean
+          opacity: number
+          style: Json | null
+        }
+        Insert: {
+          id?: string
+          map_id: string
+          dataset_id: string
+          position: number
+          name: string
+          visible?: boolean
+          opacity?: number
+          style?: Json | null
+        }
+        Update: Partial<Database['public']['Tables']['saved_map_layers']['Insert']>
+      }
+      communes: {
+        Row: {
+          id: string
+          department_id: string | null
+          name: string
+          code: string
+        }
+        Insert: {
+          id?: string
+          department_id?: string | null
+          name: string
+          code: string
+        }
+        Update: Partial<Database['public']['Tables']['communes']['Insert']>
+      }
+      import_mapping_profiles: {
+        Row: {
+          id: string
+          name: string
+          target_table: 'collection_points' | 'urban_furniture' | 'sweeping_routes'
+          mapping: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          target_table: 'collection_points' | 'urban_furniture' | 'sweeping_routes'
+          mapping: Json
+        }
+        Update: Partial<Database['public']['Tables']['import_mapping_profiles']['Insert']>
+      }
       urban_furniture: {
         Row: {
           id: string
@@ -73,7 +362,9 @@ export interface Database {
           install_date: string
           last_maintenance_date: string | null
           capacity_kg: number
-          status: 'good' | 'needs-maintenance' | 'damaged'
+          status: 'good' | 'needs-maintenance' | 'damaged' | 'inactive'
+          geometry: Json | null
+          fill_level: number | null
           created_at: string
           updated_at: string
         }
@@ -88,10 +379,47 @@ export interface Database {
           install_date: string
           last_maintenance_date?: string
           capacity_kg: number
-          status?: 'good' | 'needs-maintenance' | 'damaged'
+          status?: 'good' | 'needs-maintenance' | 'damaged' | 'inactive'
+          geometry?: Json | null
+          fill_level?: number | null
         }
         Update: Partial<Database['public']['Tables']['urban_furniture']['Insert']>
       }
     }
+    Views: {
+      latest_collections: {
+        Row: {
+          collection_point_id: string
+          collection_date: string
+          quantity_kg: number
+        }
+      }
+    }
+    Functions: {
+      map_point_clusters: {
+        Args: {
+          target_table: 'collection_points' | 'urban_furniture'
+          west: number
+          south: number
+          east: number
+          north: number
+          cell_size: number
+        }
+        Returns: {
+          longitude: number
+          latitude: number
+          point_count: number
+          fill_level: number | null
+          min_lon: number
+          min_lat: number
+          max_lon: number
+          max_lat: number
+        }[]
+      }
+      purge_expired_datasets: {
+        Args: Record<string, never>
+        Returns: number
+      }
+    }
   }
 }
\ No newline at end of file
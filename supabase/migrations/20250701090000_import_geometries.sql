@@ -0,0 +1,11 @@
+-- Géométries complètes des éléments importés depuis des fichiers SIG
+-- (lignes et polygones ne sont plus réduits à leur premier sommet)
+
+ALTER TABLE collection_points ADD COLUMN geometry JSONB;
+ALTER TABLE urban_furniture ADD COLUMN geometry JSONB;
+
+-- La géométrie d'un circuit disparaît avec le circuit
+ALTER TABLE route_geometry
+    DROP CONSTRAINT route_geometry_route_id_fkey,
+    ADD CONSTRAINT route_geometry_route_id_fkey
+        FOREIGN KEY (route_id) REFERENCES sweeping_routes(id) ON DELETE CASCADE;
@@ -0,0 +1,15 @@
+-- Profils de correspondance d'attributs pour les imports GeoJSON/SHP
+CREATE TABLE import_mapping_profiles (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(200) NOT NULL,
+    target_table VARCHAR(50) NOT NULL CHECK (target_table IN ('collection_points', 'urban_furniture', 'sweeping_routes')),
+    mapping JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (name, target_table)
+);
+
+CREATE TRIGGER update_import_mapping_profiles_updated_at
+    BEFORE UPDATE ON import_mapping_profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
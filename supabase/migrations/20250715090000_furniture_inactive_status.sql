@@ -0,0 +1,6 @@
+-- Le mobilier absent d'un nouvel import peut être désactivé, comme les
+-- points de collecte et les circuits
+ALTER TABLE urban_furniture
+    DROP CONSTRAINT urban_furniture_status_check,
+    ADD CONSTRAINT urban_furniture_status_check
+        CHECK (status IN ('good', 'needs-maintenance', 'damaged', 'inactive'));
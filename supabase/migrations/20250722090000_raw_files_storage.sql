@@ -0,0 +1,40 @@
+-- Fichiers bruts (SHP zippés, CSV, PDF) : le contenu passe de la colonne bytea
+-- au bucket Storage "raw-files", la table ne garde que les métadonnées
+CREATE TABLE IF NOT EXISTS raw_files (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    filetype VARCHAR(20) NOT NULL,
+    filename VARCHAR(255),
+    filedata BYTEA,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE raw_files
+    ADD COLUMN IF NOT EXISTS storage_path TEXT UNIQUE,
+    ADD COLUMN IF NOT EXISTS filesize BIGINT,
+    ADD COLUMN IF NOT EXISTS mimetype VARCHAR(100),
+    ALTER COLUMN filedata DROP NOT NULL;
+
+-- Une ligne pointe soit vers un objet du bucket, soit (avant migration) vers son contenu inline
+ALTER TABLE raw_files
+    ADD CONSTRAINT raw_files_content_check CHECK (storage_path IS NOT NULL OR filedata IS NOT NULL);
+
+-- Bucket privé : les téléchargements passent par des URL signées
+INSERT INTO storage.buckets (id, name, public, file_size_limit)
+VALUES ('raw-files', 'raw-files', false, 52428800)
+ON CONFLICT (id) DO UPDATE SET file_size_limit = EXCLUDED.file_size_limit;
+
+CREATE POLICY "raw_files_objects_read" ON storage.objects
+    FOR SELECT USING (bucket_id = 'raw-files');
+CREATE POLICY "raw_files_objects_insert" ON storage.objects
+    FOR INSERT WITH CHECK (bucket_id = 'raw-files');
+CREATE POLICY "raw_files_objects_delete" ON storage.objects
+    FOR DELETE USING (bucket_id = 'raw-files');
+
+DROP TRIGGER IF EXISTS update_raw_files_updated_at ON raw_files;
+CREATE TRIGGER update_raw_files_updated_at
+    BEFORE UPDATE ON raw_files
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,7 @@
+-- Réglages de lecture des CSV bruts (encodage, séparateur, colonnes X/Y ou WKT,
+-- système source) choisis à l'import et réutilisés pour la visualisation
+ALTER TABLE raw_files
+    ADD COLUMN IF NOT EXISTS import_options JSONB;
+
+COMMENT ON COLUMN raw_files.import_options IS
+    'Réglages de lecture d''un CSV : {encoding, delimiter, geometry: {mode: xy|wkt, ...}, sourceCrs}';
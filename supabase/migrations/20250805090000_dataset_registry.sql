@@ -0,0 +1,67 @@
+-- Registre des jeux de données du catalogue : une ligne par jeu (GeoJSON complet,
+-- fichier brut ou couche métier), avec ses métadonnées descriptives
+
+-- Table créée hors migrations à l'origine
+CREATE TABLE IF NOT EXISTS geojson_datasets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    data JSONB NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE datasets (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    category VARCHAR(100) NOT NULL DEFAULT 'Non classé',
+    source VARCHAR(200),
+    licence VARCHAR(100),
+    owner VARCHAR(100),
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    format VARCHAR(20) NOT NULL,
+    feature_count INTEGER,
+    -- Emprise WGS84 : [ouest, sud, est, nord]
+    extent DOUBLE PRECISION[] CHECK (extent IS NULL OR array_length(extent, 1) = 4),
+    storage VARCHAR(20) NOT NULL CHECK (storage IN ('geojson', 'raw_file', 'table')),
+    geojson_dataset_id UUID UNIQUE REFERENCES geojson_datasets(id) ON DELETE CASCADE,
+    raw_file_id UUID UNIQUE REFERENCES raw_files(id) ON DELETE CASCADE,
+    source_table VARCHAR(50) UNIQUE CHECK (source_table IN ('collection_points', 'urban_furniture', 'sweeping_routes')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    -- Chaque ligne pointe vers le contenu correspondant à son stockage
+    CONSTRAINT datasets_content_check CHECK (
+        (storage = 'geojson' AND geojson_dataset_id IS NOT NULL)
+        OR (storage = 'raw_file' AND raw_file_id IS NOT NULL)
+        OR (storage = 'table' AND source_table IS NOT NULL)
+    )
+);
+
+CREATE INDEX idx_datasets_category ON datasets(category);
+CREATE INDEX idx_datasets_tags ON datasets USING GIN (tags);
+
+CREATE TRIGGER update_datasets_updated_at
+    BEFORE UPDATE ON datasets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Reprise de l'existant
+INSERT INTO datasets (name, description, category, source, format, feature_count, storage, geojson_dataset_id, created_at, updated_at)
+SELECT name, description, 'GeoJSON', 'Import', 'GeoJSON',
+       CASE WHEN jsonb_typeof(data->'features') = 'array' THEN jsonb_array_length(data->'features') END,
+       'geojson', id, created_at, updated_at
+FROM geojson_datasets;
+
+INSERT INTO datasets (name, description, category, source, format, storage, raw_file_id, created_at, updated_at)
+SELECT name, description, CASE WHEN filetype = 'pdf' THEN 'Document' ELSE 'Fichier importé' END, 'Import',
+       upper(filetype), 'raw_file', id, created_at, updated_at
+FROM raw_files;
+
+INSERT INTO datasets (name, description, category, source, owner, format, feature_count, storage, source_table) VALUES
+    ('Points de collecte', 'Tous les points de collecte en base', 'Couche métier', 'SONAGED', 'SONAGED', 'GeoJSON',
+     (SELECT count(*) FROM collection_points), 'table', 'collection_points'),
+    ('Circuits de balayage', 'Circuits de balayage avec leur tracé', 'Couche métier', 'SONAGED', 'SONAGED', 'GeoJSON',
+     (SELECT count(*) FROM sweeping_routes), 'table', 'sweeping_routes'),
+    ('Mobilier urbain', 'PRN, bacs de rue et points propres en base', 'Couche métier', 'SONAGED', 'SONAGED', 'GeoJSON',
+     (SELECT count(*) FROM urban_furniture), 'table', 'urban_furniture');
@@ -0,0 +1,29 @@
+-- Historique des versions des jeux de données : chaque ré-upload crée une version
+-- qui pointe vers son contenu (GeoJSON complet ou fichier brut) ; le registre
+-- pointe vers le contenu de la version courante
+CREATE TABLE dataset_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    dataset_id UUID NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    geojson_dataset_id UUID REFERENCES geojson_datasets(id),
+    raw_file_id UUID REFERENCES raw_files(id),
+    feature_count INTEGER,
+    extent DOUBLE PRECISION[] CHECK (extent IS NULL OR array_length(extent, 1) = 4),
+    uploaded_by VARCHAR(100),
+    note TEXT,
+    -- Version d'origine du contenu lorsqu'il s'agit d'une restauration
+    restored_from INTEGER,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (dataset_id, version),
+    CONSTRAINT dataset_versions_content_check CHECK (geojson_dataset_id IS NOT NULL OR raw_file_id IS NOT NULL)
+);
+
+CREATE INDEX idx_dataset_versions_dataset ON dataset_versions(dataset_id);
+
+ALTER TABLE datasets ADD COLUMN current_version INTEGER NOT NULL DEFAULT 1;
+
+-- Version 1 des jeux existants
+INSERT INTO dataset_versions (dataset_id, version, geojson_dataset_id, raw_file_id, feature_count, extent, uploaded_by, note, created_at)
+SELECT id, 1, geojson_dataset_id, raw_file_id, feature_count, extent, owner, 'Version initiale', created_at
+FROM datasets
+WHERE storage IN ('geojson', 'raw_file');
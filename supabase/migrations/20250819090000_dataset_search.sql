@@ -0,0 +1,106 @@
+-- Recherche dans le catalogue : plein texte sur les métadonnées et les valeurs
+-- attributaires des entités, filtre par commune et par emprise
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Valeurs attributaires distinctes du contenu courant et communes couvertes,
+-- calculées à l'upload (conservées par version pour les restaurations)
+ALTER TABLE datasets
+    ADD COLUMN attributes_text TEXT,
+    ADD COLUMN commune_ids UUID[] NOT NULL DEFAULT '{}',
+    ADD COLUMN search_vector TSVECTOR,
+    -- Emprise dépliée pour les filtres d'intersection
+    ADD COLUMN min_lon DOUBLE PRECISION GENERATED ALWAYS AS (extent[1]) STORED,
+    ADD COLUMN min_lat DOUBLE PRECISION GENERATED ALWAYS AS (extent[2]) STORED,
+    ADD COLUMN max_lon DOUBLE PRECISION GENERATED ALWAYS AS (extent[3]) STORED,
+    ADD COLUMN max_lat DOUBLE PRECISION GENERATED ALWAYS AS (extent[4]) STORED;
+
+ALTER TABLE dataset_versions
+    ADD COLUMN attributes_text TEXT,
+    ADD COLUMN commune_ids UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX idx_datasets_search ON datasets USING GIN (search_vector);
+CREATE INDEX idx_datasets_communes ON datasets USING GIN (commune_ids);
+CREATE INDEX idx_datasets_owner ON datasets(owner);
+CREATE INDEX idx_datasets_updated_at ON datasets(updated_at);
+CREATE INDEX idx_datasets_extent ON datasets(min_lon, max_lon, min_lat, max_lat);
+
+-- Nom (A) > catégorie et mots-clés (B) > description et source (C) > attributs (D)
+CREATE OR REPLACE FUNCTION datasets_search_vector_update()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.search_vector :=
+        setweight(to_tsvector('french', unaccent(coalesce(NEW.name, ''))), 'A') ||
+        setweight(to_tsvector('french', unaccent(coalesce(NEW.category, '') || ' ' || array_to_string(NEW.tags, ' '))), 'B') ||
+        setweight(to_tsvector('french', unaccent(coalesce(NEW.description, '') || ' ' || coalesce(NEW.source, ''))), 'C') ||
+        setweight(to_tsvector('french', unaccent(coalesce(NEW.attributes_text, ''))), 'D');
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER update_datasets_search_vector
+    BEFORE INSERT OR UPDATE ON datasets
+    FOR EACH ROW
+    EXECUTE FUNCTION datasets_search_vector_update();
+
+-- Reprise de l'existant, sans toucher à la date de mise à jour
+ALTER TABLE datasets DISABLE TRIGGER update_datasets_updated_at;
+
+-- GeoJSON complets : valeurs des propriétés et communes nommées dans un champ « commune »
+WITH props AS (
+    SELECT d.id AS dataset_id, p.key, p.value
+    FROM datasets d
+    JOIN geojson_datasets g ON g.id = d.geojson_dataset_id
+    CROSS JOIN LATERAL jsonb_array_elements(
+        CASE WHEN jsonb_typeof(g.data->'features') = 'array' THEN g.data->'features' ELSE '[]'::jsonb END
+    ) AS f
+    CROSS JOIN LATERAL jsonb_each_text(
+        CASE WHEN jsonb_typeof(f->'properties') = 'object' THEN f->'properties' ELSE '{}'::jsonb END
+    ) AS p
+    WHERE p.value IS NOT NULL AND p.value <> '' AND length(p.value) <= 200
+)
+UPDATE datasets d
+SET attributes_text = a.attributes_text,
+    commune_ids = coalesce(c.commune_ids, '{}')
+FROM (
+    SELECT dataset_id, left(string_agg(DISTINCT value, ' '), 100000) AS attributes_text
+    FROM props
+    GROUP BY dataset_id
+) a
+LEFT JOIN (
+    SELECT props.dataset_id, array_agg(DISTINCT communes.id) AS commune_ids
+    FROM props
+    JOIN communes ON lower(unaccent(props.value)) IN (lower(unaccent(communes.name)), lower(communes.code), communes.id::text)
+    WHERE props.key ILIKE '%commun%'
+    GROUP BY props.dataset_id
+) c ON c.dataset_id = a.dataset_id
+WHERE d.id = a.dataset_id;
+
+-- Couches métier : noms et types des éléments, communes de rattachement
+UPDATE datasets SET
+    attributes_text = (SELECT left(string_agg(DISTINCT v, ' '), 100000)
+                       FROM collection_points, LATERAL unnest(ARRAY[name, type, waste_type]) AS v),
+    commune_ids = coalesce((SELECT array_agg(DISTINCT commune_id) FROM collection_points WHERE commune_id IS NOT NULL), '{}')
+WHERE source_table = 'collection_points';
+
+UPDATE datasets SET
+    attributes_text = (SELECT left(string_agg(DISTINCT v, ' '), 100000)
+                       FROM urban_furniture, LATERAL unnest(ARRAY[name, type, location]) AS v),
+    commune_ids = coalesce((SELECT array_agg(DISTINCT commune_id) FROM urban_furniture WHERE commune_id IS NOT NULL), '{}')
+WHERE source_table = 'urban_furniture';
+
+UPDATE datasets SET
+    attributes_text = (SELECT left(string_agg(DISTINCT v, ' '), 100000)
+                       FROM sweeping_routes, LATERAL unnest(ARRAY[name, code]) AS v),
+    commune_ids = coalesce((SELECT array_agg(DISTINCT commune_id) FROM sweeping_routes WHERE commune_id IS NOT NULL), '{}')
+WHERE source_table = 'sweeping_routes';
+
+-- Fichiers bruts (lus côté client) : index des métadonnées seules jusqu'au prochain upload
+UPDATE datasets SET attributes_text = attributes_text WHERE search_vector IS NULL;
+
+ALTER TABLE datasets ENABLE TRIGGER update_datasets_updated_at;
+
+UPDATE dataset_versions v
+SET attributes_text = d.attributes_text,
+    commune_ids = d.commune_ids
+FROM datasets d
+WHERE v.dataset_id = d.id AND v.version = d.current_version;
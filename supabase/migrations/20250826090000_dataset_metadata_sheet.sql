@@ -0,0 +1,27 @@
+-- Fiche de métadonnées des jeux de données (profil ISO 19115), modifiable depuis
+-- le catalogue et exportable en XML ISO 19139 / JSON pour l'IDS nationale
+ALTER TABLE datasets
+    -- Catégorie thématique ISO (MD_TopicCategoryCode)
+    ADD COLUMN topic_category VARCHAR(50),
+    -- Langue des données, code ISO 639-2
+    ADD COLUMN language VARCHAR(3) NOT NULL DEFAULT 'fre',
+    -- Généalogie : origine des données et traitements appliqués
+    ADD COLUMN lineage TEXT,
+    ADD COLUMN update_frequency VARCHAR(20) CHECK (update_frequency IN (
+        'continual', 'daily', 'weekly', 'fortnightly', 'monthly', 'quarterly',
+        'biannually', 'annually', 'asNeeded', 'irregular', 'notPlanned', 'unknown'
+    )),
+    -- Système de coordonnées de référence des données (ex : EPSG:32628)
+    ADD COLUMN crs VARCHAR(20) CHECK (crs IS NULL OR crs ~ '^EPSG:[0-9]{4,6}$'),
+    ADD COLUMN contact_name VARCHAR(100),
+    ADD COLUMN contact_organisation VARCHAR(200),
+    ADD COLUMN contact_email VARCHAR(255);
+
+-- GeoJSON complets et couches métier sont stockés en WGS84
+UPDATE datasets SET crs = 'EPSG:4326' WHERE storage IN ('geojson', 'table');
+
+UPDATE datasets SET
+    contact_organisation = 'SONAGED',
+    update_frequency = 'continual',
+    lineage = 'Données saisies et importées dans la base SONAGED.'
+WHERE storage = 'table';
@@ -0,0 +1,22 @@
+-- Archivage et corbeille des jeux de données : un jeu archivé reste consultable
+-- mais n'apparaît plus dans le catalogue par défaut ; un jeu supprimé passe
+-- 30 jours en corbeille (restaurable) avant la suppression de son contenu
+ALTER TABLE datasets
+    ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'archived', 'deleted')),
+    ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN deleted_by VARCHAR(100),
+    CONSTRAINT datasets_deleted_check CHECK (status <> 'deleted' OR deleted_at IS NOT NULL);
+
+CREATE INDEX idx_datasets_status ON datasets(status);
+
+-- Liens de partage d'un jeu sur la carte (/map/:id), affichés avant sa suppression
+CREATE TABLE shared_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    dataset_id UUID NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    created_by VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX idx_shared_links_dataset ON shared_links(dataset_id);
@@ -0,0 +1,33 @@
+-- Cartes enregistrées : composition de plusieurs jeux du catalogue (ordre,
+-- visibilité, opacité) et vue de la carte, rouvertes depuis la carte interactive
+CREATE TABLE saved_maps (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(200) NOT NULL,
+    description TEXT,
+    -- Centre [latitude, longitude] et niveau de zoom
+    center DOUBLE PRECISION[] CHECK (center IS NULL OR array_length(center, 1) = 2),
+    zoom INTEGER,
+    created_by VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TRIGGER update_saved_maps_updated_at
+    BEFORE UPDATE ON saved_maps
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Couches d'une carte, de la plus haute (position 0) à la plus basse ; une couche
+-- disparaît avec la suppression définitive de son jeu
+CREATE TABLE saved_map_layers (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    map_id UUID NOT NULL REFERENCES saved_maps(id) ON DELETE CASCADE,
+    dataset_id UUID NOT NULL REFERENCES datasets(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    name VARCHAR(200) NOT NULL,
+    visible BOOLEAN NOT NULL DEFAULT true,
+    opacity DOUBLE PRECISION NOT NULL DEFAULT 1 CHECK (opacity >= 0 AND opacity <= 1),
+    UNIQUE (map_id, position)
+);
+
+CREATE INDEX idx_saved_map_layers_dataset ON saved_map_layers(dataset_id);
@@ -0,0 +1,3 @@
+-- Symbologie des couches d'une carte enregistrée : symbole unique, catégories
+-- d'un attribut ou classes d'un champ numérique, étiquettes (NULL : style par défaut)
+ALTER TABLE saved_map_layers ADD COLUMN style JSONB;
@@ -0,0 +1,56 @@
+-- Carte à l'échelle de l'inventaire national : les points de collecte et le
+-- mobilier urbain sont lus par emprise, et regroupés par la base quand l'emprise
+-- en contient trop pour être chargés un à un
+
+-- Dernier niveau de remplissage relevé (%), pour la couleur des points et des groupes
+ALTER TABLE collection_points ADD COLUMN fill_level INTEGER CHECK (fill_level >= 0 AND fill_level <= 100);
+ALTER TABLE urban_furniture ADD COLUMN fill_level INTEGER CHECK (fill_level >= 0 AND fill_level <= 100);
+
+-- Requêtes par emprise
+CREATE INDEX idx_collection_points_location ON collection_points(longitude, latitude);
+CREATE INDEX idx_urban_furniture_location ON urban_furniture(longitude, latitude);
+
+-- Regroupement des points d'une emprise sur une grille de cell_size degrés :
+-- barycentre, nombre de points, remplissage moyen et emprise de chaque groupe
+CREATE OR REPLACE FUNCTION map_point_clusters(
+    target_table TEXT,
+    west DOUBLE PRECISION,
+    south DOUBLE PRECISION,
+    east DOUBLE PRECISION,
+    north DOUBLE PRECISION,
+    cell_size DOUBLE PRECISION
+)
+RETURNS TABLE (
+    longitude DOUBLE PRECISION,
+    latitude DOUBLE PRECISION,
+    point_count BIGINT,
+    fill_level DOUBLE PRECISION,
+    min_lon DOUBLE PRECISION,
+    min_lat DOUBLE PRECISION,
+    max_lon DOUBLE PRECISION,
+    max_lat DOUBLE PRECISION
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+    IF target_table NOT IN ('collection_points', 'urban_furniture') THEN
+        RAISE EXCEPTION 'Table non regroupable : %', target_table;
+    END IF;
+    IF cell_size <= 0 THEN
+        RAISE EXCEPTION 'Taille de maille invalide : %', cell_size;
+    END IF;
+
+    RETURN QUERY EXECUTE format(
+        'SELECT avg(t.longitude)::DOUBLE PRECISION, avg(t.latitude)::DOUBLE PRECISION, count(*),
+                avg(t.fill_level)::DOUBLE PRECISION,
+                min(t.longitude)::DOUBLE PRECISION, min(t.latitude)::DOUBLE PRECISION,
+                max(t.longitude)::DOUBLE PRECISION, max(t.latitude)::DOUBLE PRECISION
+         FROM %I t
+         WHERE t.longitude BETWEEN $1 AND $3 AND t.latitude BETWEEN $2 AND $4
+         GROUP BY floor(t.longitude / $5), floor(t.latitude / $5)',
+        target_table
+    )
+    USING west, south, east, north, cell_size;
+END;
+$$;
@@ -0,0 +1,11 @@
+-- Dernière collecte de chaque point, affichée sur la carte avec le point
+CREATE INDEX idx_collection_history_point_date ON collection_history(collection_point_id, collection_date DESC);
+
+CREATE OR REPLACE VIEW latest_collections AS
+SELECT DISTINCT ON (collection_point_id)
+    collection_point_id,
+    collection_date,
+    quantity_kg
+FROM collection_history
+WHERE collection_point_id IS NOT NULL
+ORDER BY collection_point_id, collection_date DESC;
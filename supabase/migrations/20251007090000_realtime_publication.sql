@@ -0,0 +1,3 @@
+-- Mises à jour en temps réel de la carte, du tableau de bord et du mobilier
+-- urbain : les modifications de ces tables sont diffusées aux pages ouvertes
+ALTER PUBLICATION supabase_realtime ADD TABLE collection_points, urban_furniture, sweeping_routes, alerts;
@@ -0,0 +1,52 @@
+-- Suppression définitive planifiée des jeux restés plus de 30 jours en corbeille :
+-- chaque nuit, sans attendre qu'un administrateur ouvre la corbeille
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Efface les jeux expirés : la ligne du registre (versions, liens et couches de
+-- cartes en cascade), le contenu de toutes leurs versions et les objets du bucket
+-- raw-files ; renvoie le nombre de jeux effacés
+CREATE OR REPLACE FUNCTION purge_expired_datasets()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    expired_ids UUID[];
+    geojson_ids UUID[];
+    raw_file_ids UUID[];
+    storage_paths TEXT[];
+BEGIN
+    SELECT array_agg(id) INTO expired_ids
+    FROM datasets
+    WHERE status = 'deleted'
+      AND storage <> 'table'
+      AND deleted_at < CURRENT_TIMESTAMP - INTERVAL '30 days';
+    IF expired_ids IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    SELECT array_agg(DISTINCT content.geojson_dataset_id) FILTER (WHERE content.geojson_dataset_id IS NOT NULL),
+           array_agg(DISTINCT content.raw_file_id) FILTER (WHERE content.raw_file_id IS NOT NULL)
+    INTO geojson_ids, raw_file_ids
+    FROM (
+        SELECT geojson_dataset_id, raw_file_id FROM datasets WHERE id = ANY(expired_ids)
+        UNION ALL
+        SELECT geojson_dataset_id, raw_file_id FROM dataset_versions WHERE dataset_id = ANY(expired_ids)
+    ) content;
+
+    SELECT array_agg(storage_path) INTO storage_paths
+    FROM raw_files
+    WHERE id = ANY(raw_file_ids) AND storage_path IS NOT NULL;
+
+    DELETE FROM datasets WHERE id = ANY(expired_ids);
+    DELETE FROM geojson_datasets WHERE id = ANY(geojson_ids);
+    DELETE FROM raw_files WHERE id = ANY(raw_file_ids);
+    DELETE FROM storage.objects WHERE bucket_id = 'raw-files' AND name = ANY(storage_paths);
+
+    RETURN array_length(expired_ids, 1);
+END;
+$$;
+
+-- Tous les jours à 3 h (UTC)
+SELECT cron.schedule('purge-expired-datasets', '0 3 * * *', 'SELECT purge_expired_datasets()');